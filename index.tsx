@@ -2,7 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GoogleGenAI, Type, GenerateContentResponse, GenerateImagesResponse, Modality } from "@google/genai";
+import { GoogleGenAI, Type, GenerateContentResponse, GroundingChunk, GenerateImagesResponse, Modality, GenerateContentParameters, GenerateImagesParameters, GenerateVideosParameters, GenerateVideosOperation } from "@google/genai";
 import Chart from 'chart.js/auto';
 
 // --- Interfaces ---
@@ -15,12 +15,15 @@ interface ArticleHistoryItem {
     articleType: 'free' | 'paid';
     markdown: string;
     html?: string; // Can be regenerated from markdown
+    htmlVersion?: number; // MARKDOWN_RENDERER_VERSION the cached html was rendered with
     references: { uri: string; title: string; text?: string }[];
-    enhancements: any;
+    enhancements: ArticleEnhancements;
     faqs?: { question: string, answer: string }[];
     coverImage?: string; // Cover image base64 data
-    imageMap?: Record<string, string | { type: 'screenshot'; instruction: string }>;
-    createdAt: string;
+    imageMap?: Record<string, string | ScreenshotSlot>;
+    imagePrompts?: Record<string, { prompt: string; overlayText?: string }>; // Cover prompt plus any prompt the user edited, by imageMap key
+    createdAt: string; // Display text in the ja-JP locale
+    createdAtTime: number; // The same moment in epoch ms, which the history filters and sorts on
     scheduledAt?: string;
     performance?: ArticlePerformance;
     creativeDirection?: CreativeDirection;
@@ -32,10 +35,15 @@ interface ArticleHistoryItem {
     videoStatus?: 'pending' | 'completed' | 'failed';
     videoOperationName?: string;
     lastCheckedForUpdate?: string;
+    promptVersions?: Partial<Record<PromptId, number>>; // Template version of each prompt that produced the article (0 = built-in)
+    modelSettings?: Partial<Record<ModelStage, ModelSetting>>; // Model and parameters each pipeline stage ran with
+    language?: LanguageCode; // Absent on articles written before languages existed, which are all Japanese
     // New fields for monetization
     price?: number;
     productDescription?: string;
 }
+/** What the history store keeps per article; images live in their own store and are fetched when an article opens. */
+type ArticleRecord = Omit<ArticleHistoryItem, 'coverImage' | 'imageMap'>;
 interface BrandVoice {
     principles: string;
     example: string;
@@ -79,113 +87,3181 @@ interface CreativeDirection {
     style: string;
     palette: string[]; // hex codes
 }
-interface ImageGenerationTask {
-    key: string;
-    prompt: string;
-    overlayText?: string;
+/** An IMAGE_SCREENSHOT placeholder: what to capture, and the capture itself once someone uploads it. */
+interface ScreenshotSlot {
+    type: 'screenshot';
+    instruction: string;
+    image?: string; // base64, cropped and annotated
+    mimeType?: string;
+}
+interface ScreenshotRect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+interface ScreenshotAnnotation {
+    type: 'box' | 'arrow';
+    from: { x: number; y: number };
+    to: { x: number; y: number };
+    color: string;
+}
+/** The open screenshot editor. Coordinates are in the source image's pixels. */
+interface ScreenshotEditorState {
+    slot: HTMLElement;
+    key: string;
+    image: HTMLImageElement;
+    tool: 'crop' | 'box' | 'arrow';
+    crop: ScreenshotRect | null;
+    annotations: ScreenshotAnnotation[];
+    dragStart: { x: number; y: number } | null;
+    dragEnd: { x: number; y: number } | null;
+}
+type BoxKind = 'tip' | 'info' | 'warning' | 'quote';
+/** What each placeholder the decorator writes says, once parsed; null where its JSON couldn't be read. */
+interface DirectiveDataMap {
+    INTERACTIVE_CHART: ChartSpec | null;
+    IMAGE_GENERATE: { prompt: string; overlayText?: string } | null;
+    IMAGE_SCREENSHOT: { instruction: string } | null;
+    BOX: { kind: BoxKind; title: string; body: string };
+    SUMMARY: { items: string[] };
+    PAID_DIVIDER: null;
+}
+type DirectiveName = keyof DirectiveDataMap;
+type DirectiveNode = { [K in DirectiveName]: { type: 'directive'; name: K; raw: string; data: DirectiveDataMap[K] } }[DirectiveName];
+/** A placeholder found in markdown source, with its position. */
+type DirectiveOccurrence = DirectiveNode & { start: number; end: number };
+/** One placeholder kind: how it is recognised in markdown, and what it becomes in HTML and in plain text. */
+interface DirectivePlugin<T> {
+    prefix: string;
+    /** Where the placeholder whose body starts at `from` ends, and what it says; null when the text there isn't one after all. */
+    match(source: string, from: number): { end: number; data: T } | null;
+    render(data: T, raw: string): string;
+    /** The placeholder's words for read-aloud and analysis prompts; '' for media. */
+    toText(data: T): string;
+}
+type MarkdownInline =
+    | { type: 'text'; value: string }
+    | { type: 'strong' | 'emphasis'; children: MarkdownInline[] }
+    | { type: 'code'; value: string }
+    | { type: 'link'; href: string; children: MarkdownInline[] }
+    | { type: 'image'; src: string; alt: string }
+    | { type: 'break' };
+type MarkdownBlock =
+    | { type: 'heading'; level: number; children: MarkdownInline[] }
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; start: number; tight: boolean; items: MarkdownBlock[][] }
+    | { type: 'blockquote'; children: MarkdownBlock[] }
+    | { type: 'code'; language: string; value: string }
+    | { type: 'table'; align: ('left' | 'center' | 'right' | null)[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+    | { type: 'thematicBreak' }
+    | DirectiveNode;
+type CmsExportFormat = 'wordpress' | 'markdown' | 'zip';
+type HistorySort = 'createdDesc' | 'createdAsc' | 'scheduled' | 'quality' | 'views';
+/** The history mode's search box and facets, as read from the form each time the list renders. */
+interface HistoryFilters {
+    query: string;
+    articleType: 'all' | 'free' | 'paid';
+    priceMin: number | null;
+    priceMax: number | null;
+    schedule: 'all' | 'scheduled' | 'unscheduled';
+    factCheck: 'all' | 'checked' | 'unchecked';
+    video: 'all' | 'none' | 'pending' | 'completed' | 'failed';
+    from: string; // YYYY-MM-DD, local
+    to: string;
+    sort: HistorySort;
+}
+/** Everything exportWorkspace writes; schemaVersion goes up whenever a field changes meaning. */
+interface WorkspaceArchive {
+    format: 'article-architect-workspace';
+    schemaVersion: number;
+    exportedAt: string;
+    articles: ArticleHistoryItem[]; // With coverImage and imageMap filled in from IndexedDB
+    brandVoice: BrandVoice | null;
+    settings: {
+        modelSettings: Partial<Record<ModelStage, ModelSetting>>;
+        promptLibrary: Partial<Record<PromptId, PromptLibraryEntry>>;
+        priceTable: Record<string, ModelPrice>;
+        uiLanguage: LanguageCode;
+    };
+    usageLedger: UsageRecord[];
+}
+type ChartKind = 'bar' | 'line' | 'pie' | 'doughnut' | 'radar' | 'polarArea' | 'scatter' | 'bubble';
+/** A scatter or bubble data point; the other chart kinds take plain numbers, one per label. */
+interface ChartPoint {
+    x: number;
+    y: number;
+    r?: number;
+}
+/** The JSON inside an [INTERACTIVE_CHART:...] block. */
+interface ChartSpec {
+    type: ChartKind;
+    title: string;
+    data: {
+        labels: string[];
+        datasets: { label: string; data: (number | ChartPoint)[] }[];
+    };
+}
+interface ImageGenerationTask {
+    key: string;
+    prompt: string;
+    overlayText?: string;
+}
+interface FactCheckResult {
+    statement: string;
+    source: string;
+    uri: string;
+    result: 'match' | 'partial_match' | 'no_match';
+    feedback: string;
+}
+interface ArticleEnhancements {
+    titleSuggestions: string[];
+    snsShareText: string;
+    hashtags: string[];
+    metaDescription: string;
+}
+interface AuditSuggestion {
+    area: string;
+    reason: string;
+    suggestion_text: string;
+}
+interface ContentAudit {
+    is_fresh: boolean;
+    suggestions: AuditSuggestion[];
+}
+/** What the article form, or a batch job standing in for it, hands the assembly line. */
+interface ArticleUserInput {
+    theme: string;
+    persona: string;
+    expertPersona: string;
+    tone: string;
+    articleType: 'free' | 'paid';
+    language: LanguageCode;
+    longForm?: boolean;
+    referenceText: string;
+    price?: number;
+    productDescription?: string;
+}
+interface AssemblyDraft {
+    id: number; // Becomes the article id once the run completes
+    createdAt: string;
+    updatedAt: string;
+    userInput: ArticleUserInput;
+    outline: ArticleOutline;
+    creativeDirection?: CreativeDirection;
+    shouldGenerateVideo: boolean;
+    completedStep: number; // Index into progressSteps of the last checkpointed step, -1 if none
+    failedStep?: number;
+    error?: string;
+    coreMarkdown?: string;
+    coreReferences?: GroundingChunk[];
+    coreSections?: { markdown: string; references: GroundingChunk[] }[]; // Long-form sections finished so far in step 1
+    decoration?: { decoratedMarkdown: string; coverImagePrompt: string; coverImageOverlay: string; };
+    analysisMarkdown?: string; // The article as the FAQ, analysis and enhancements steps see it (condensed when long)
+    generatedImages?: Record<string, string | "error">;
+    faqs?: { question: string, answer: string }[];
+    performance?: ArticlePerformance;
+    enhancements?: ArticleEnhancements;
+    promptVersions?: Partial<Record<PromptId, number>>;
+    modelSettings?: Partial<Record<ModelStage, ModelSetting>>;
+}
+interface StrategySuggestion {
+    keyword: string;
+    intent: string;
+    persona: string;
+}
+type BatchPickRule = 'first' | 'ai-ranked';
+type BatchJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+/** A strategy row queued for unattended generation. Outline and design are picked by pickRule instead of the wizard. */
+interface BatchJob extends StrategySuggestion {
+    id: number; // Doubles as the draft and article id, so usage and checkpoints line up from the first call
+    pickRule: BatchPickRule;
+    tone: string;
+    articleType: 'free' | 'paid';
+    language: LanguageCode;
+    longForm?: boolean;
+    status: BatchJobStatus;
+    step?: number; // Index into progressSteps while running, -1 while researching and picking
+    attempts: number;
+    error?: string;
+}
+/**
+ * One billable API call. The ledger lives apart from ArticleHistoryItem, keyed by its id,
+ * so deleting an article doesn't erase the month's spend.
+ */
+interface UsageRecord {
+    articleId?: number;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    videos: number;
+    at: string;
+}
+/** USD. Token prices are per 1M tokens; images and videos are per item. */
+interface ModelPrice {
+    input?: number;
+    output?: number;
+    perImage?: number;
+    perVideo?: number;
+}
+type ModelStage = 'research' | 'outlines' | 'coreText' | 'decoration' | 'images' | 'faq' | 'analysis' | 'enhancements'
+    | 'factCheck' | 'audit' | 'tts' | 'video' | 'strategy' | 'editorAssist' | 'contextResearch';
+/** Unset parameters are left out of the request so the API default applies. */
+interface ModelSetting {
+    model: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+}
+type ApiErrorKind = 'auth' | 'quota' | 'safety' | 'transient' | 'badRequest';
+/** A failed model call, classified by scheduleRequest. The message is the localized cause shown to the user. */
+interface ApiError extends Error {
+    kind: ApiErrorKind;
+    retryAfter?: number; // ms, from the API's RetryInfo on a 429
+}
+type PromptId = 'outline' | 'coreTextSystem' | 'coreTextUser' | 'coreTextSection' | 'decorate' | 'factCheck' | 'coPilot' | 'audit' | 'repurpose';
+type PromptVariables = Record<string, string | number | boolean | undefined>;
+interface PromptDefinition {
+    label: string;
+    description: string;
+    variables: Record<string, string>; // Variable name -> what it holds
+    template: string;
+}
+interface PromptVersion {
+    version: number; // 0 is the built-in default
+    template: string;
+    createdAt: string;
+}
+interface PromptLibraryEntry {
+    activeVersion: number;
+    versions: PromptVersion[];
+}
+type LanguageCode = 'ja' | 'en' | 'zh-TW';
+interface ArticleLanguage {
+    label: string; // Shown in the language pickers, in the language itself
+    promptName: string; // How the Japanese prompts refer to the language
+    locale: string; // BCP 47 tag for speech synthesis and date formatting
+    audience: string; // Region whose readers and sources stand in for "日本" in the prompts
+    narrationInstruction: string; // TTS preamble, written in the language being read
+}
+type AIProviderKind = 'gemini' | 'fake';
+interface AIProvider {
+    kind: AIProviderKind;
+    generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+    generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>>;
+    generateImages(params: GenerateImagesParameters): Promise<GenerateImagesResponse>;
+    generateVideos(params: GenerateVideosParameters): Promise<GenerateVideosOperation>;
+    getVideosOperation(operation: GenerateVideosOperation): Promise<GenerateVideosOperation>;
+    downloadVideo(uri: string): Promise<Blob>;
+}
+
+
+// --- Global State ---
+let articles: ArticleRecord[] = [];
+let currentArticle: ArticleHistoryItem | null = null;
+let activeMode: 'strategy' | 'create' | 'history' = 'create';
+let brandVoice: BrandVoice = { principles: '', example: '' };
+let utterance: SpeechSynthesisUtterance | null = null;
+let isSpeaking = false;
+let currentAudioContext: AudioContext | null = null;
+let currentAudioSource: AudioBufferSourceNode | null = null;
+let coPilotSuggestions: CoPilotSuggestion[] = [];
+let suggestedStrategies: StrategySuggestion[] = [];
+let suggestedOutlines: ArticleOutline[] = [];
+let selectedOutline: ArticleOutline | null = null;
+let suggestedDirections: CreativeDirection[] = [];
+let selectedDirection: CreativeDirection | null = null;
+let savedSelectionRange: Range | null = null;
+let currentResearchedText: string = '';
+let currentPerformanceArticleId: number | null = null;
+let videoGenerationPollingInterval: number | null = null;
+let currentAuditArticleId: number | null = null;
+let currentAuditSuggestions: AuditSuggestion[] = [];
+let apiKey: string | null = null;
+let aiProviderKind: AIProviderKind = 'gemini';
+let isAssemblyLineRunning = false;
+let generationController: AbortController | null = null;
+let strategyController: AbortController | null = null;
+let factCheckController: AbortController | null = null;
+let auditController: AbortController | null = null;
+let usageLedger: UsageRecord[] = [];
+let priceTable: Record<string, ModelPrice> = {};
+let modelSettings: Partial<Record<ModelStage, ModelSetting>> = {}; // Only the stages the user overrode
+let promptLibrary: Partial<Record<PromptId, PromptLibraryEntry>> = {};
+let pendingUsageId: number | undefined; // Bills research/outline calls made before the article id exists
+let uiLanguage: LanguageCode = 'ja';
+let batchJobs: BatchJob[] = [];
+let batchConcurrency = 2;
+const batchControllers = new Map<number, AbortController>();
+let lastIssuedArticleId = 0;
+let screenshotEditor: ScreenshotEditorState | null = null;
+let chartEditorRange: { start: number; end: number; isNew: boolean } | null = null;
+let chartEditorPreview: Chart | null = null;
+let cmsExportArticleId: number | null = null;
+let pendingWorkspaceArchive: WorkspaceArchive | null = null; // Validated, waiting for the user to pick merge or replace
+let historyPage = 0;
+let historyThumbnailObserver: IntersectionObserver | null = null;
+
+
+// --- IndexedDB Logic for Image Storage ---
+const DB_NAME = 'ArticleArchitectDB';
+const STORE_NAME = 'articleImages';
+const DRAFT_STORE_NAME = 'assemblyDrafts';
+const ARTICLE_STORE_NAME = 'articles';
+const THUMBNAIL_STORE_NAME = 'articleThumbnails';
+const THUMBNAIL_SIZE = 200; // px square, twice the history list's thumbnail for high-DPI screens
+// Migration N upgrades a version N database to N + 1. Append new ones; never edit one that has shipped.
+const DB_MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+    db => { db.createObjectStore(STORE_NAME, { keyPath: 'id' }); },
+    db => { db.createObjectStore(DRAFT_STORE_NAME, { keyPath: 'id' }); },
+    // The history moves out of localStorage, whose quota it kept running into. The old copy goes only once this commits.
+    (db, transaction) => {
+        const store = db.createObjectStore(ARTICLE_STORE_NAME, { keyPath: 'id' }); // No indexes: the history is filtered and sorted in memory (filterHistory)
+        const stored = localStorage.getItem('articleHistory');
+        if (!stored) return;
+        try {
+            (JSON.parse(stored) as ArticleRecord[]).forEach(article => store.put(article));
+            transaction.addEventListener('complete', () => localStorage.removeItem('articleHistory'));
+        } catch (error) {
+            console.error("Failed to migrate the history from localStorage:", error); // Unreadable JSON; the key is left as it was
+        }
+    },
+    // Older covers get their thumbnail the first time the history list shows them (loadHistoryThumbnail)
+    db => { db.createObjectStore(THUMBNAIL_STORE_NAME, { keyPath: 'id' }); },
+    (_db, transaction) => {
+        const request = transaction.objectStore(ARTICLE_STORE_NAME).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            cursor.update({ ...cursor.value, createdAtTime: articleCreatedTime(cursor.value) });
+            cursor.continue();
+        };
+    },
+];
+const DB_VERSION = DB_MIGRATIONS.length;
+
+/** Creation time of an article saved before createdAtTime existed: its createdAt text, or else its id, which was issued from the clock. */
+function articleCreatedTime(article: Pick<ArticleRecord, 'id' | 'createdAt'>): number {
+    const parsed = Date.parse(article.createdAt);
+    return Number.isNaN(parsed) ? article.id : parsed;
+}
+let db: IDBDatabase;
+
+function openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        if (db) {
+            return resolve(db);
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onerror = (event) => reject("IndexedDB error: " + (event.target as any).errorCode);
+        request.onsuccess = (event) => {
+            db = (event.target as any).result;
+            resolve(db);
+        };
+        request.onupgradeneeded = (event) => {
+            for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                DB_MIGRATIONS[version](request.result, request.transaction!);
+            }
+        };
+    });
+}
+
+/** The history list's thumbnail is made here, once, so the list never has to decode full-size covers. */
+/** Every article update saves its images, so the thumbnail is only made when there is none yet or the cover changed. */
+async function saveImagesToDb(id: number, coverImage?: string, imageMap?: ArticleHistoryItem['imageMap']): Promise<void> {
+    try {
+        const [stored, storedThumbnail] = await Promise.all([getImagesFromDb(id), getThumbnailFromDb(id)]);
+        const thumbnailIsStale = !storedThumbnail || stored.coverImage !== coverImage;
+        const thumbnail = thumbnailIsStale && coverImage ? await createThumbnail(coverImage) : undefined;
+        const db = await openDb();
+        const transaction = db.transaction([STORE_NAME, THUMBNAIL_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        store.put({ id, coverImage, imageMap });
+        if (thumbnailIsStale) transaction.objectStore(THUMBNAIL_STORE_NAME).put({ id, thumbnail });
+        return new Promise((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    } catch (error) {
+        console.error("Failed to save images to IndexedDB:", error);
+    }
+}
+
+async function getImagesFromDb(id: number): Promise<{ coverImage?: string; imageMap?: ArticleHistoryItem['imageMap'] }> {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(STORE_NAME, 'readonly');
+        const store = transaction.objectStore(STORE_NAME);
+        const request = store.get(id);
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result || {});
+            request.onerror = () => reject(request.error);
+        });
+    } catch (error) {
+        console.error("Failed to get images from IndexedDB:", error);
+        return {};
+    }
+}
+
+async function deleteImagesFromDb(id: number): Promise<void> {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction([STORE_NAME, THUMBNAIL_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        store.delete(id);
+        transaction.objectStore(THUMBNAIL_STORE_NAME).delete(id);
+        return new Promise((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    } catch (error) {
+        console.error("Failed to delete images from IndexedDB:", error);
+    }
+}
+
+/** A record with no `thumbnail` means the article has no cover; no record means it hasn't been made yet. */
+async function getThumbnailFromDb(id: number): Promise<{ thumbnail?: string } | undefined> {
+    try {
+        const db = await openDb();
+        const request = db.transaction(THUMBNAIL_STORE_NAME, 'readonly').objectStore(THUMBNAIL_STORE_NAME).get(id);
+        return await new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (error) {
+        console.error("Failed to get thumbnail from IndexedDB:", error);
+        return undefined;
+    }
+}
+
+async function saveThumbnailToDb(id: number, thumbnail?: string): Promise<void> {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(THUMBNAIL_STORE_NAME, 'readwrite');
+        transaction.objectStore(THUMBNAIL_STORE_NAME).put({ id, thumbnail });
+        return await new Promise((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    } catch (error) {
+        console.error("Failed to save thumbnail to IndexedDB:", error);
+    }
+}
+
+/** Center-cropped square JPEG, matching how the list shows covers (background-size: cover). */
+function createThumbnail(coverImage: string): Promise<string | undefined> {
+    return new Promise(resolve => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = THUMBNAIL_SIZE;
+            canvas.height = THUMBNAIL_SIZE;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return resolve(undefined);
+            const side = Math.min(image.naturalWidth, image.naturalHeight);
+            ctx.drawImage(image, (image.naturalWidth - side) / 2, (image.naturalHeight - side) / 2, side, side, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+            resolve(canvas.toDataURL('image/jpeg', 0.8).split(',')[1]);
+        };
+        image.onerror = () => resolve(undefined);
+        image.src = `data:image/jpeg;base64,${coverImage}`;
+    });
+}
+
+// --- IndexedDB Logic for Article History ---
+async function saveArticleToDb(article: ArticleRecord): Promise<void> {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(ARTICLE_STORE_NAME, 'readwrite');
+        transaction.objectStore(ARTICLE_STORE_NAME).put(article);
+        return await new Promise((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    } catch (error) {
+        console.error("Failed to save article to IndexedDB:", error);
+        alert(t('historySaveFailed'));
+    }
+}
+
+/** Newest first: ids are creation timestamps, so the key order is the history order. */
+async function getArticlesFromDb(): Promise<ArticleRecord[]> {
+    try {
+        const db = await openDb();
+        const request = db.transaction(ARTICLE_STORE_NAME, 'readonly').objectStore(ARTICLE_STORE_NAME).getAll();
+        return await new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve((request.result as ArticleRecord[]).reverse());
+            request.onerror = () => reject(request.error);
+        });
+    } catch (error) {
+        console.error("Failed to get articles from IndexedDB:", error);
+        return [];
+    }
+}
+
+async function deleteArticleFromDb(id: number): Promise<void> {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(ARTICLE_STORE_NAME, 'readwrite');
+        transaction.objectStore(ARTICLE_STORE_NAME).delete(id);
+        return await new Promise((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    } catch (error) {
+        console.error("Failed to delete article from IndexedDB:", error);
+    }
+}
+
+/** Writes imported articles with their images in one transaction; with `replace`, clearing the old history is part of it. */
+async function importArticlesToDb(entries: { article: ArticleRecord; coverImage?: string; imageMap?: ArticleHistoryItem['imageMap']; thumbnail?: string }[], replace: boolean): Promise<void> {
+    const db = await openDb();
+    const storeNames = [ARTICLE_STORE_NAME, STORE_NAME, THUMBNAIL_STORE_NAME];
+    const transaction = db.transaction(storeNames, 'readwrite');
+    if (replace) storeNames.forEach(name => transaction.objectStore(name).clear());
+    for (const { article, coverImage, imageMap, thumbnail } of entries) {
+        transaction.objectStore(ARTICLE_STORE_NAME).put(article);
+        transaction.objectStore(STORE_NAME).put({ id: article.id, coverImage, imageMap });
+        transaction.objectStore(THUMBNAIL_STORE_NAME).put({ id: article.id, thumbnail });
+    }
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+// --- IndexedDB Logic for Assembly Line Drafts ---
+async function saveDraftToDb(draft: AssemblyDraft): Promise<void> {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(DRAFT_STORE_NAME, 'readwrite');
+        transaction.objectStore(DRAFT_STORE_NAME).put(draft);
+        return new Promise((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    } catch (error) {
+        console.error("Failed to save draft to IndexedDB:", error);
+    }
+}
+
+async function getDraftFromDb(id: number): Promise<AssemblyDraft | undefined> {
+    try {
+        const db = await openDb();
+        const request = db.transaction(DRAFT_STORE_NAME, 'readonly').objectStore(DRAFT_STORE_NAME).get(id);
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (error) {
+        console.error("Failed to get draft from IndexedDB:", error);
+        return undefined;
+    }
+}
+
+async function getAllDraftsFromDb(): Promise<AssemblyDraft[]> {
+    try {
+        const db = await openDb();
+        const request = db.transaction(DRAFT_STORE_NAME, 'readonly').objectStore(DRAFT_STORE_NAME).getAll();
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result || []);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (error) {
+        console.error("Failed to list drafts from IndexedDB:", error);
+        return [];
+    }
+}
+
+async function deleteDraftFromDb(id: number): Promise<void> {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(DRAFT_STORE_NAME, 'readwrite');
+        transaction.objectStore(DRAFT_STORE_NAME).delete(id);
+        return new Promise((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    } catch (error) {
+        console.error("Failed to delete draft from IndexedDB:", error);
+    }
+}
+
+
+// --- AI Provider Layer ---
+// Every model call goes through an AIProvider instead of touching @google/genai directly,
+// so the whole app can run either against the live Gemini API or the offline fake below.
+function createGeminiProvider(key: string): AIProvider {
+    const client = new GoogleGenAI({ apiKey: key });
+    return {
+        kind: 'gemini',
+        generateContent: (params) => client.models.generateContent(params),
+        generateContentStream: (params) => client.models.generateContentStream(params),
+        generateImages: (params) => client.models.generateImages(params),
+        generateVideos: (params) => client.models.generateVideos(params),
+        getVideosOperation: (operation) => client.operations.getVideosOperation({ operation }),
+        downloadVideo: async (uri) => {
+            const response = await fetch(`${uri}&key=${key}`);
+            if (!response.ok) throw new Error(`動画のダウンロードに失敗しました (${response.status})`);
+            return response.blob();
+        },
+    };
+}
+
+/** Returns the active provider; every call made through it is billed to `articleId` in the usage ledger. */
+function getAIProvider(articleId?: number): AIProvider {
+    // The offline fake is metered too, so a demo run fills the usage ledger the way a live one would.
+    if (aiProviderKind === 'fake') return meterProvider(createFakeProvider(), articleId);
+    const key = getApiKey();
+    if (!key) throw new Error("APIキーが設定されていません。");
+    return meterProvider(createGeminiProvider(key), articleId);
+}
+
+function meterProvider(provider: AIProvider, articleId?: number): AIProvider {
+    const recordTokens = (model: string, usage: GenerateContentResponse['usageMetadata']) => {
+        if (!usage) return;
+        recordUsage({
+            articleId,
+            model,
+            inputTokens: usage.promptTokenCount || 0,
+            // Thinking tokens are billed at the output rate.
+            outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+        });
+    };
+    return {
+        ...provider,
+        generateContent: async (params) => {
+            const response = await provider.generateContent(params);
+            recordTokens(params.model, response.usageMetadata);
+            return response;
+        },
+        generateContentStream: async (params) => {
+            const stream = await provider.generateContentStream(params);
+            return (async function* () {
+                let usage: GenerateContentResponse['usageMetadata'];
+                try {
+                    for await (const chunk of stream) {
+                        if (chunk.usageMetadata) usage = chunk.usageMetadata; // Cumulative; the last one has the totals
+                        yield chunk;
+                    }
+                } finally {
+                    recordTokens(params.model, usage);
+                }
+            })();
+        },
+        generateImages: async (params) => {
+            const response = await provider.generateImages(params);
+            recordUsage({ articleId, model: params.model, images: response.generatedImages?.length || 0 });
+            return response;
+        },
+        generateVideos: async (params) => {
+            const operation = await provider.generateVideos(params);
+            recordUsage({ articleId, model: params.model, videos: params.config?.numberOfVideos || 1 });
+            return operation;
+        },
+    };
+}
+
+// --- Request Scheduler ---
+// Every model call goes through scheduleRequest, so the foreground run, the batch queue and the editor tools
+// share one concurrency cap and one view of the rate limit, and only failures that can heal are retried.
+const MAX_CONCURRENT_REQUESTS = 4;
+const MAX_RETRY_DELAY = 60_000;
+let activeRequests = 0;
+let requestWaiters: (() => void)[] = [];
+let rateLimitedUntil = 0; // Set by a 429 so every caller backs off, not just the one that hit it
+
+const API_ERROR_MESSAGES: Record<ApiErrorKind, MessageKey> = {
+    auth: 'apiErrorAuth',
+    quota: 'apiErrorQuota',
+    safety: 'apiErrorSafety',
+    transient: 'apiErrorTransient',
+    badRequest: 'apiErrorBadRequest',
+};
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+function isApiError(error: unknown): error is ApiError { return error instanceof Error && 'kind' in error; }
+function createApiError(kind: ApiErrorKind, cause: unknown, retryAfter?: number): ApiError { return Object.assign(new Error(t(API_ERROR_MESSAGES[kind]), { cause }), { kind, retryAfter }); }
+
+/** Appends the classified cause (rate limit, safety block...) to a fixed error message. */
+function withErrorCause(message: string, error: unknown): string { return isApiError(error) ? `${message} ${error.message}` : message; }
+
+/**
+ * @google/genai only hands back a message ("got status: 429 Too Many Requests. {...}"), so the HTTP code,
+ * the RPC status and any RetryInfo delay are read out of its text. Network failures and 5xx count as transient.
+ */
+function classifyApiError(error: unknown): ApiError {
+    if (isApiError(error)) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    const code = Number(message.match(/got status: (\d{3})/)?.[1] || message.match(/"code":\s*(\d{3})/)?.[1] || 0);
+    const retryDelay = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/)?.[1];
+    if (code === 401 || code === 403 || /API_KEY_INVALID|API key not valid|UNAUTHENTICATED|PERMISSION_DENIED/.test(message)) return createApiError('auth', error);
+    if (code === 429 || /RESOURCE_EXHAUSTED/.test(message)) return createApiError('quota', error, retryDelay ? Number(retryDelay) * 1000 : undefined);
+    if (/\b(SAFETY|PROHIBITED_CONTENT|BLOCKLIST|SPII)\b/.test(message)) return createApiError('safety', error);
+    if (code >= 400 && code < 500 && code !== 408) return createApiError('badRequest', error);
+    return createApiError('transient', error);
+}
+
+/** Safety blocks come back as successful responses without text; fail them here instead of at JSON.parse. */
+function assertNotBlocked(response: unknown) {
+    const { promptFeedback, candidates } = (response || {}) as Partial<GenerateContentResponse>;
+    const reason = promptFeedback?.blockReason || candidates?.[0]?.finishReason;
+    if (promptFeedback?.blockReason || BLOCKED_FINISH_REASONS.includes(reason as string)) {
+        throw createApiError('safety', new Error(`Response blocked: ${reason}`));
+    }
+}
+
+async function acquireRequestSlot(signal?: AbortSignal) {
+    while (activeRequests >= MAX_CONCURRENT_REQUESTS) {
+        await abortable(new Promise<void>(resolve => requestWaiters.push(resolve)), signal);
+    }
+    activeRequests++;
+}
+
+// Wakes every waiter to re-check the count; one may have been aborted while it waited.
+function releaseRequestSlot() { activeRequests--; const waiters = requestWaiters; requestWaiters = []; waiters.forEach(resolve => resolve()); }
+
+/**
+ * Runs one model call under the global concurrency cap. Quota and transient failures are retried up to
+ * `retries` times with exponential backoff and full jitter, waiting at least as long as a 429's retryDelay;
+ * auth, safety and bad-request errors are thrown at once as an ApiError whose message names the cause.
+ * A stream holds its slot only until the stream opens.
+ */
+async function scheduleRequest<T>(fn: () => Promise<T>, { retries = 3, signal }: { retries?: number; signal?: AbortSignal } = {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        signal?.throwIfAborted();
+        if (rateLimitedUntil > Date.now()) await wait(rateLimitedUntil - Date.now(), signal);
+        await acquireRequestSlot(signal);
+        let error: ApiError;
+        try {
+            const result = await abortable(fn(), signal);
+            assertNotBlocked(result);
+            return result;
+        } catch (e) {
+            if (signal?.aborted) throw e;
+            error = classifyApiError(e);
+        } finally {
+            releaseRequestSlot();
+        }
+        if ((error.kind !== 'quota' && error.kind !== 'transient') || attempt >= retries) throw error;
+        const backoff = Math.random() * Math.min(MAX_RETRY_DELAY, (error.kind === 'quota' ? 4000 : 1000) * 2 ** attempt);
+        const delay = Math.max(backoff, error.retryAfter || 0);
+        if (error.kind === 'quota') rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + delay);
+        console.warn(`Retrying a ${error.kind} error in ${Math.round(delay)}ms (${attempt + 1}/${retries})`, error.cause);
+        await wait(delay, signal);
+    }
+}
+
+
+// --- Response Validation ---
+// Structured replies are checked against the shape the UI relies on before anything renders them.
+// A mismatch gets one repair round-trip: the model sees its own output and the problems, and returns fixed JSON.
+type Validator<T> = (value: unknown, path: string, problems: string[]) => T;
+
+const isString: Validator<string> = (value, path, problems) => {
+    if (typeof value === 'string') return value;
+    problems.push(`${path}: expected a string`);
+    return '';
+};
+const isText: Validator<string> = (value, path, problems) => {
+    if (typeof value === 'string' && value.trim()) return value;
+    problems.push(`${path}: expected a non-empty string`);
+    return '';
+};
+const isNumber: Validator<number> = (value, path, problems) => {
+    // Models often quote numbers ("85"), which is harmless; anything else isn't a score
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number === 'number' && Number.isFinite(number)) return number;
+    problems.push(`${path}: expected a number`);
+    return 0;
+};
+const isBoolean: Validator<boolean> = (value, path, problems) => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    problems.push(`${path}: expected true or false`);
+    return false;
+};
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const isHexColor: Validator<string> = (value, path, problems) => {
+    if (typeof value === 'string' && HEX_COLOR_PATTERN.test(value.trim())) return value.trim();
+    problems.push(`${path}: expected a hex color such as #1d3557`);
+    return '#000000';
+};
+const isDateString: Validator<string> = (value, path, problems) => {
+    if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return value;
+    problems.push(`${path}: expected a date`);
+    return new Date(0).toISOString();
+};
+function oneOf<T extends string>(...options: T[]): Validator<T> {
+    return (value, path, problems) => {
+        if (options.includes(value as T)) return value as T;
+        problems.push(`${path}: expected one of ${options.join(', ')}`);
+        return options[0];
+    };
+}
+function optional<T>(validate: Validator<T>, fallback: T): Validator<T> {
+    return (value, path, problems) => value === undefined || value === null ? fallback : validate(value, path, problems);
+}
+function arrayOf<T>(item: Validator<T>, minLength = 0): Validator<T[]> {
+    return (value, path, problems) => {
+        if (!Array.isArray(value)) {
+            problems.push(`${path}: expected an array`);
+            return [];
+        }
+        if (value.length < minLength) problems.push(`${path}: expected at least ${minLength} items, got ${value.length}`);
+        return value.map((entry, index) => item(entry, `${path}[${index}]`, problems));
+    };
+}
+/** Keeps only the keys in `shape`, so stray fields from the model never reach storage. */
+function objectOf<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+    return (value, path, problems) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            problems.push(`${path}: expected an object`);
+            value = {};
+        }
+        return Object.fromEntries(Object.entries(shape).map(([key, validate]) =>
+            [key, (validate as Validator<unknown>)((value as Record<string, unknown>)[key], `${path}.${key}`, problems)])) as T;
+    };
+}
+
+/** Validates every value of a string-keyed map, such as the settings keyed by stage or model name. */
+function recordOf<T>(item: Validator<T>): Validator<Record<string, T>> {
+    return (value, path, problems) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            problems.push(`${path}: expected an object`);
+            return {};
+        }
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, item(entry, `${path}.${key}`, problems)]));
+    };
+}
+
+const validateOutline = objectOf<ArticleOutline>({ title: isText, introduction: isString, headings: arrayOf(isText, 1) });
+const validateCreativeDirection = objectOf<CreativeDirection>({ style: isText, palette: arrayOf(isHexColor, 3) });
+const validateFactCheckResult = objectOf<FactCheckResult>({
+    statement: isText,
+    source: optional(isString, ''),
+    uri: optional(isString, ''),
+    result: oneOf('match', 'partial_match', 'no_match'),
+    feedback: isString,
+});
+const validateScore = objectOf<{ score: number; feedback: string }>({ score: isNumber, feedback: isString });
+const validatePerformance = objectOf<Omit<ArticlePerformance, 'userInput'>>({
+    qualityScores: objectOf<ArticlePerformance['qualityScores']>({ readability: validateScore, engagement: validateScore, seo: validateScore }),
+    personaResonance: objectOf<ArticlePerformance['personaResonance']>({ feedback: isString }),
+    engagementPrediction: objectOf<ArticlePerformance['engagementPrediction']>({ likes: isString, shares: isString, readTime: isString }),
+    abTestTitles: arrayOf(objectOf<ArticlePerformance['abTestTitles'][number]>({ title: isText, predictedCTR: isString })),
+});
+const validateCoPilotSuggestion = objectOf<Omit<CoPilotSuggestion, 'id'>>({ reason: isString, original: isText, suggested: isString });
+const validateEnhancements = objectOf<ArticleEnhancements>({
+    titleSuggestions: arrayOf(isText),
+    snsShareText: isString,
+    hashtags: arrayOf(isString),
+    metaDescription: isString,
+});
+const validateContentAudit = objectOf<ContentAudit>({
+    is_fresh: isBoolean,
+    suggestions: optional(arrayOf(objectOf<AuditSuggestion>({ area: isString, reason: isString, suggestion_text: isText })), []),
+});
+
+/** Pulls the JSON out of a reply that may be fenced (```json) or wrapped in prose, as grounded replies often are. */
+function extractJson(text: string): unknown {
+    const trimmed = (text || '').trim();
+    const candidate = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/i)?.[1] ?? trimmed;
+    try {
+        return JSON.parse(candidate);
+    } catch (e) {
+        const start = candidate.search(/[{[]/);
+        const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+        if (start === -1 || end <= start) throw e;
+        return JSON.parse(candidate.slice(start, end + 1));
+    }
+}
+
+function checkStructuredResponse<T>(text: string, validate: Validator<T>): { value: T; problems: string[] } {
+    const problems: string[] = [];
+    try {
+        return { value: validate(extractJson(text), '$', problems), problems };
+    } catch (e: any) {
+        return { value: undefined as T, problems: [`not valid JSON (${e.message})`] };
+    }
+}
+
+/**
+ * Parses and validates a structured reply. On a mismatch the same stage's model gets one chance to repair
+ * its output (under `schema` when the original call had one); if that still fails, so does the call.
+ */
+async function parseStructuredResponse<T>(text: string, validate: Validator<T>, { stage, schema, signal, articleId }: { stage: ModelStage; schema?: object; signal?: AbortSignal; articleId?: number }): Promise<T> {
+    const first = checkStructuredResponse(text, validate);
+    if (first.problems.length === 0) return first.value;
+    console.warn(`The ${stage} response did not match its schema; asking for a repair:`, first.problems);
+    const prompt = `以下はあなたが先ほど返したJSONですが、期待する形式と一致しませんでした。問題点をすべて修正し、修正後のJSONのみを返してください。内容はできるだけそのまま保ち、説明文やコードフェンスは付けないでください。
+
+# 問題点
+${first.problems.slice(0, 20).map(problem => `- ${problem}`).join('\n')}
+
+# 元の出力
+${text}`;
+    const ai = getAIProvider(articleId);
+    const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({ model: stageModel(stage), contents: prompt, config: { ...stageConfig(stage), responseMimeType: 'application/json', ...(schema && { responseSchema: schema }), abortSignal: signal } }), { signal });
+    const repaired = checkStructuredResponse(response.text, validate);
+    if (repaired.problems.length === 0) return repaired.value;
+    console.error(`The repaired ${stage} response still does not match:`, repaired.problems);
+    throw new Error(t('invalidAiResponse', { problems: repaired.problems.slice(0, 3).join(' / ') }));
+}
+
+
+// --- Offline Fake Provider ---
+// Deterministic stand-in for Gemini/Imagen/Veo: the same prompt always yields the same
+// schema-valid response, so demos and automated tests need neither a key nor a network.
+const FAKE_IMAGE_BASE64 = '/9j/4AAQSkZJRgABAQAAAQABAAD/2wCEAA0JCgsKCA0LCgsODg0PEyAVExISEyccHhcgLikxMC4pLSwzOko+MzZGNywtQFdBRkxOUlNSMj5aYVpQYEpRUk8BDg4OExETJhUVJk81LTVPT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT//AABEIABIAIAMBEQACEQEDEQH/xAGiAAABBQEBAQEBAQAAAAAAAAAAAQIDBAUGBwgJCgsQAAIBAwMCBAMFBQQEAAABfQECAwAEEQUSITFBBhNRYQcicRQygZGhCCNCscEVUtHwJDNicoIJChYXGBkaJSYnKCkqNDU2Nzg5OkNERUZHSElKU1RVVldYWVpjZGVmZ2hpanN0dXZ3eHl6g4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2drh4uPk5ebn6Onq8fLz9PX29/j5+gEAAwEBAQEBAQEBAQAAAAAAAAECAwQFBgcICQoLEQACAQIEBAMEBwUEBAABAncAAQIDEQQFITEGEkFRB2FxEyIygQgUQpGhscEJIzNS8BVictEKFiQ04SXxFxgZGiYnKCkqNTY3ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqCg4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2dri4+Tl5ufo6ery8/T19vf4+fr/2gAMAwEAAhEDEQA/AHK1e80eZFEqtUtG8USK1S0bxRIrVLRtFGYrV1NHnxRKrVDRvFEitUtG0USq1S0bxRmrXSzzYkq1DN4ki1LN4kq1LN4n/9k=';
+const FAKE_GROUNDING_CHUNKS = [
+    { web: { uri: 'https://example.com/demo/white-paper', title: 'デモ用ホワイトペーパー - Example Research' } },
+    { web: { uri: 'https://example.org/demo/statistics', title: 'デモ用統計データ - Example Statistics' } },
+    { web: { uri: 'https://example.net/demo/expert-column', title: 'デモ用専門家コラム - Example Media' } },
+];
+const FAKE_STREAM_CHUNK_SIZE = 240;
+
+function fakeHash(str: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+        hash ^= str.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function contentsToText(contents: any): string {
+    if (typeof contents === 'string') return contents;
+    if (Array.isArray(contents)) return contents.map(contentsToText).join('\n');
+    if (contents?.parts) return contentsToText(contents.parts);
+    return contents?.text || '';
+}
+
+function fakeResponse(prompt: string, parts: any[], groundingChunks?: any[], outputText = parts.map(p => p.text || '').join('')): GenerateContentResponse {
+    const response = new GenerateContentResponse();
+    response.candidates = [{
+        content: { role: 'model', parts },
+        groundingMetadata: groundingChunks ? { groundingChunks } : undefined,
+    }];
+    response.usageMetadata = {
+        promptTokenCount: Math.ceil(prompt.length / 2),
+        candidatesTokenCount: Math.ceil(outputText.length / 2),
+        totalTokenCount: Math.ceil(prompt.length / 2) + Math.ceil(outputText.length / 2),
+    };
+    return response;
+}
+
+/** Pulls the body out of a prompt section fenced by `---` lines (article text, reference text...). */
+function fakeExtractFencedBody(prompt: string): string {
+    const match = prompt.match(/\n---\n([\s\S]*)\n---/);
+    return match ? match[1].trim() : '';
+}
+
+function fakeExtractLine(prompt: string, label: string): string {
+    const match = prompt.match(new RegExp(`(?:^|\\n)[\\s*-]*${label}[^:：\\n]{0,10}?[:：]\\s*(.+)`));
+    return match ? match[1].trim() : '';
+}
+
+function fakeExtractTheme(prompt: string): string {
+    const section = prompt.match(/# (?:テーマ|調査トピック)\n(.+)/);
+    const articleTitle = fakeExtractFencedBody(prompt).match(/^# (.+)/)?.[1];
+    return (section?.[1] || fakeExtractLine(prompt, 'テーマ') || articleTitle || 'デモテーマ').trim();
+}
+
+function fakeArticleMarkdown(prompt: string): string {
+    const theme = fakeExtractTheme(prompt);
+    const title = prompt.match(/---承認された構成案---\n# (.+)/)?.[1] || `${theme}の完全ガイド`;
+    const headingsBlock = prompt.match(/\*\*見出し構成\*\*:\n((?:- .*\n?)+)/)?.[1] || '';
+    const headings = headingsBlock.split('\n').map(h => h.replace(/^- /, '').trim()).filter(Boolean);
+    const sections = headings.length > 0 ? headings : [`${theme}とは何か`, `${theme}で成果を出す方法`, 'まとめ'];
+    const isPaid = /\*\*記事の種類\*\*: 有料記事/.test(prompt);
+    const paidIndex = Math.floor(sections.length / 2);
+    const writeSection = (heading: string, index: number) => {
+        const ref = FAKE_GROUNDING_CHUNKS[index % FAKE_GROUNDING_CHUNKS.length].web;
+        return `## ${heading}
+
+${theme}について、${heading}という観点から整理します。調査によると、回答者の${60 + index * 7}%がこのテーマに関心を持っています。[${ref.title}](${ref.uri})
+
+もしあなたが今まさに悩んでいるなら、まずは小さな一歩から始めてみませんか？
+
+参考URL：[${ref.title}](${ref.uri})`;
+    };
+    // Long-form mode asks for one section at a time; the app inserts the paid separator itself.
+    const target = prompt.match(/---今回執筆するセクション \((\d+)\/\d+\)---\n## (.+)/);
+    if (target) {
+        const index = Number(target[1]) - 1;
+        return index === 0 ? `# ${title}\n\n${writeSection(target[2], index)}` : writeSection(target[2], index);
+    }
+    const body = sections.map((heading, index) => {
+        const section = writeSection(heading, index);
+        return isPaid && index === paidIndex ? `---ここから有料---\n\n${section}` : section;
+    });
+    return `# ${title}\n\n${body.join('\n\n')}`;
+}
+
+function fakeDecorateMarkdown(markdown: string, theme: string): string {
+    let headingCount = 0;
+    const decorated = markdown.split('\n\n').map(block => {
+        if (!/^#{2,3} /.test(block)) return block;
+        headingCount++;
+        const heading = `${block} ✨`;
+        if (headingCount === 1) return `${heading}\n\n[IMAGE_GENERATE:{"prompt":"A bright Japanese office with people discussing ${theme}, photorealistic","overlayText":"${theme}の基本"}]`;
+        if (headingCount === 2) return `${heading}\n\n[INTERACTIVE_CHART:{"type":"doughnut","title":"関心度の内訳(%)","data":{"labels":["高い","普通","低い"],"datasets":[{"label":"割合","data":[60,25,15]}]}}]`;
+        if (headingCount === 3) return `${heading}\n\n[IMAGE_SCREENSHOT:{"instruction":"公式サイトのトップページを撮影してください"}]`;
+        return heading;
+    });
+    return `${decorated.join('\n\n')}
+
+[BOX:tip:ワンポイント:${theme}は小さく始めて継続することが成功の鍵です。]
+
+[SUMMARY:${theme}の全体像を理解する; 具体的な手順を一つずつ試す; 結果を記録して改善する]`;
+}
+
+function fakeJson(schemaKeys: string[], prompt: string): any {
+    const theme = fakeExtractTheme(prompt);
+    const seed = fakeHash(prompt);
+    if (schemaKeys.includes('outlines')) {
+        return { outlines: ['常識を覆す', '失敗から学ぶ', '最短で成果を出す'].map((angle, i) => ({
+            title: `【${angle}】${theme}の真実`,
+            introduction: `${theme}について、${angle}視点で語ります。あなたの思い込みは今日で終わりです。`,
+            headings: [`なぜ${theme}で悩むのか`, `放置すると起きること`, `${theme}の解決策${i + 1}`, '今日からできる行動'],
+        })) };
+    }
+    if (schemaKeys.includes('directions')) {
+        return { directions: [
+            { style: 'ミニマル', palette: ['#2f3e46', '#1b1b1b', '#84a98c'] },
+            { style: 'ポップ', palette: ['#ff6b6b', '#2d3436', '#feca57'] },
+            { style: '信頼性', palette: ['#1d3557', '#222222', '#e63946'] },
+        ] };
+    }
+    if (schemaKeys.includes('outlineIndex')) {
+        return { outlineIndex: seed % 3, directionIndex: (seed >> 4) % 3 };
+    }
+    if (schemaKeys.includes('strategies')) {
+        return { strategies: ['入門', '比較', '失敗例', '最新動向', 'ツール'].map(angle => ({
+            keyword: `${theme} ${angle}`,
+            intent: `${theme}の${angle}情報を知りたい`,
+            persona: `${theme}に関心のある会社員`,
+        })) };
+    }
+    if (schemaKeys.includes('decoratedMarkdown')) {
+        return {
+            decoratedMarkdown: fakeDecorateMarkdown(fakeExtractFencedBody(prompt), theme),
+            coverImagePrompt: `An inspiring editorial cover illustration about ${theme}, Japanese city background`,
+            coverImageOverlay: `${theme}の新常識`,
+        };
+    }
+    if (schemaKeys.includes('faqs')) {
+        return { faqs: ['初心者でも始められますか？', 'どれくらいで効果が出ますか？', '費用はかかりますか？'].map(question => ({
+            question, answer: `はい。本記事の手順に沿えば、無理なく取り組めます。(${question})`,
+        })) };
+    }
+    if (schemaKeys.includes('qualityScores')) {
+        const score = (offset: number) => 60 + ((seed >> offset) % 35);
+        return {
+            qualityScores: {
+                readability: { score: score(0), feedback: '段落が短く読みやすい構成です。' },
+                engagement: { score: score(4), feedback: '読者への問いかけが効果的です。' },
+                seo: { score: score(8), feedback: '見出しにキーワードをもう少し含めましょう。' },
+            },
+            personaResonance: { feedback: 'ペルソナの悩みに寄り添った内容になっています。' },
+            engagementPrediction: { likes: '100-200', shares: '20-40', readTime: '約5分' },
+            abTestTitles: [
+                { title: `${theme}で9割が失敗する理由`, predictedCTR: '4-6%' },
+                { title: `今すぐ試したい${theme}の新常識`, predictedCTR: '3-5%' },
+                { title: `${theme}、まだ消耗してるの？`, predictedCTR: '2-4%' },
+            ],
+        };
+    }
+    if (schemaKeys.includes('titleSuggestions')) {
+        return {
+            titleSuggestions: [`${theme}の教科書`, `知らないと損する${theme}`, `${theme}完全ロードマップ`],
+            snsShareText: `${theme}について徹底解説しました。明日から使えるヒント満載です！`,
+            hashtags: [theme.replace(/\s+/g, ''), 'ノウハウ', '初心者', 'まとめ', 'デモ'],
+            metaDescription: `${theme}の基本から実践までをわかりやすく解説します。`,
+        };
+    }
+    if (schemaKeys.includes('suggestions')) {
+        const firstSentence = fakeExtractFencedBody(prompt).split('\n').find(line => line.trim() && !line.startsWith('#')) || '';
+        return { suggestions: firstSentence ? [{
+            reason: '冒頭の一文をより読者に語りかける表現にすると、エンゲージメントが高まります。',
+            original: firstSentence,
+            suggested: `${firstSentence}（あなたにも思い当たる節はありませんか？）`,
+        }] : [] };
+    }
+    return {};
+}
+
+function fakePcmAudioBase64(seconds = 1, sampleRate = 24000): string {
+    const samples = new Int16Array(seconds * sampleRate);
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = Math.round(Math.sin(2 * Math.PI * 440 * i / sampleRate) * 3000);
+    }
+    const bytes = new Uint8Array(samples.buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary);
+}
+
+function fakeImageBase64(prompt: string): string {
+    if (typeof document === 'undefined') return FAKE_IMAGE_BASE64;
+    const canvas = document.createElement('canvas');
+    canvas.width = 640;
+    canvas.height = 360;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return FAKE_IMAGE_BASE64;
+    const hue = fakeHash(prompt) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, `hsl(${hue}, 60%, 55%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 35%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = "bold 28px 'Noto Sans JP', sans-serif";
+    ctx.textAlign = 'center';
+    ctx.fillText('DEMO IMAGE', canvas.width / 2, canvas.height / 2 - 10);
+    ctx.font = "16px 'Noto Sans JP', sans-serif";
+    ctx.fillText(safeSubstring(prompt, 60), canvas.width / 2, canvas.height / 2 + 24);
+    return canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
+}
+
+function createFakeProvider(): AIProvider {
+    const generate = (params: GenerateContentParameters): GenerateContentResponse => {
+        const prompt = contentsToText(params.contents);
+        const config = params.config || {};
+        const schemaKeys = Object.keys((config.responseSchema as any)?.properties || {});
+        const grounded = JSON.stringify(config.tools || []).includes('googleSearch');
+        if (config.responseModalities?.includes(Modality.AUDIO)) {
+            return fakeResponse(prompt, [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: fakePcmAudioBase64() } }]);
+        }
+        if (schemaKeys.length > 0) {
+            return fakeResponse(prompt, [{ text: JSON.stringify(fakeJson(schemaKeys, prompt)) }]);
+        }
+        if (prompt.includes('factCheckResults')) {
+            const statements = fakeExtractFencedBody(prompt).split('\n').filter(line => /\d/.test(line) && !line.startsWith('#')).slice(0, 3);
+            const factCheckResults = statements.map((statement, i) => ({
+                statement: safeSubstring(statement.trim(), 120),
+                source: FAKE_GROUNDING_CHUNKS[i % FAKE_GROUNDING_CHUNKS.length].web.title,
+                uri: FAKE_GROUNDING_CHUNKS[i % FAKE_GROUNDING_CHUNKS.length].web.uri,
+                result: (['match', 'partial_match', 'no_match'] as const)[i % 3],
+                feedback: 'デモ用の検証結果です。',
+            }));
+            return fakeResponse(prompt, [{ text: '```json\n' + JSON.stringify({ factCheckResults }) + '\n```' }], FAKE_GROUNDING_CHUNKS);
+        }
+        if (prompt.includes('is_fresh')) {
+            const isFresh = fakeHash(prompt) % 2 === 0;
+            const audit = isFresh ? { is_fresh: true, suggestions: [] } : { is_fresh: false, suggestions: [{
+                area: '冒頭の統計データ',
+                reason: 'デモ用: より新しい調査結果が公開されています。',
+                suggestion_text: '最新年度の数値に差し替え、出典を更新してください。',
+            }] };
+            return fakeResponse(prompt, [{ text: JSON.stringify(audit) }], FAKE_GROUNDING_CHUNKS);
+        }
+        if (prompt.includes('# 要約対象の部分')) {
+            return fakeResponse(prompt, [{ text: fakeExtractFencedBody(prompt).split('\n').filter(line => line.startsWith('#') || /\d/.test(line)).map(line => line.startsWith('#') ? line : `- ${line}`).join('\n') }]);
+        }
+        if (prompt.includes('校正対象の記事')) {
+            return fakeResponse(prompt, [{ text: fakeExtractFencedBody(prompt) }]);
+        }
+        const theme = fakeExtractTheme(prompt);
+        const text = `【デモ応答】${theme}に関する要点をまとめました。\n\n- 背景: ${theme}は近年注目を集めています。\n- 現状: 利用者の約6割が関心を示しています。\n- 展望: 今後も継続的な成長が見込まれます。`;
+        return fakeResponse(prompt, [{ text }], grounded ? FAKE_GROUNDING_CHUNKS : undefined);
+    };
+
+    return {
+        kind: 'fake',
+        generateContent: async (params) => generate(params),
+        generateContentStream: async (params) => {
+            const prompt = contentsToText(params.contents);
+            const markdown = fakeArticleMarkdown(prompt);
+            return (async function* () {
+                for (let i = 0; i < markdown.length; i += FAKE_STREAM_CHUNK_SIZE) {
+                    params.config?.abortSignal?.throwIfAborted();
+                    const isLast = i + FAKE_STREAM_CHUNK_SIZE >= markdown.length;
+                    const parts = [{ text: markdown.slice(i, i + FAKE_STREAM_CHUNK_SIZE) }];
+                    // Like the real stream, the final chunk carries the grounding metadata and the totals.
+                    yield isLast ? fakeResponse(prompt, parts, FAKE_GROUNDING_CHUNKS, markdown) : fakeResponse('', parts);
+                }
+            })();
+        },
+        generateImages: async (params) => {
+            const response = new GenerateImagesResponse();
+            const count = params.config?.numberOfImages || 1;
+            response.generatedImages = Array.from({ length: count }, () => ({ image: { imageBytes: fakeImageBase64(params.prompt), mimeType: 'image/jpeg' } }));
+            return response;
+        },
+        generateVideos: async (params) => ({ name: `fake-operations/${fakeHash(params.prompt || '')}`, done: false }),
+        getVideosOperation: async (operation) => ({
+            ...operation,
+            done: true,
+            response: { generatedVideos: [{ video: { uri: `fake://${operation.name}`, mimeType: 'video/mp4' } }] },
+        }),
+        downloadVideo: async () => new Blob([], { type: 'video/mp4' }),
+    };
+}
+
+
+// --- Usage Ledger ---
+// Published list prices at the time of writing; users can override them from history mode.
+const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+    'imagen-4.0-generate-001': { perImage: 0.04 },
+    'veo-3.1-fast-generate-preview': { perVideo: 1.2 }, // 8-second clip
+};
+
+function recordUsage(record: Partial<UsageRecord> & { model: string }) {
+    usageLedger.push({ inputTokens: 0, outputTokens: 0, images: 0, videos: 0, at: new Date().toISOString(), ...record });
+    saveUsageLedgerToStorage();
+    renderUsageSummary();
+}
+
+/** Moves usage billed before an article existed (research, outlines, design) onto the article. */
+function reassignUsage(fromId: number, toId: number) {
+    usageLedger.forEach(record => { if (record.articleId === fromId) record.articleId = toId; });
+    saveUsageLedgerToStorage();
+}
+
+function estimateUsageCost(record: UsageRecord): number {
+    const price = priceTable[record.model];
+    if (!price) return 0;
+    return (record.inputTokens * (price.input || 0) + record.outputTokens * (price.output || 0)) / 1_000_000
+        + record.images * (price.perImage || 0)
+        + record.videos * (price.perVideo || 0);
+}
+
+function summarizeUsage(records: UsageRecord[]) {
+    return records.reduce((total, record) => ({
+        calls: total.calls + 1,
+        inputTokens: total.inputTokens + record.inputTokens,
+        outputTokens: total.outputTokens + record.outputTokens,
+        images: total.images + record.images,
+        videos: total.videos + record.videos,
+        cost: total.cost + estimateUsageCost(record),
+    }), { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, videos: 0, cost: 0 });
+}
+
+function formatUsd(amount: number): string { return `$${amount.toFixed(amount < 1 ? 4 : 2)}`; }
+
+/** Fills the monthly table, today's total and the per-article cost line of every rendered history item. */
+function renderUsageSummary() {
+    const tableBody = document.querySelector('#usage-summary-table tbody') as HTMLTableSectionElement | null;
+    const todayLabel = document.getElementById('usage-today') as HTMLParagraphElement | null;
+    if (!tableBody || !todayLabel) return;
+
+    const toLocalDate = (iso: string) => new Date(iso).toLocaleDateString('sv-SE'); // YYYY-MM-DD in local time
+    const today = toLocalDate(new Date().toISOString());
+    const todayTotal = summarizeUsage(usageLedger.filter(record => toLocalDate(record.at) === today));
+    todayLabel.textContent = t('usageToday', { cost: formatUsd(todayTotal.cost), calls: todayTotal.calls });
+
+    const byMonth = new Map<string, UsageRecord[]>();
+    usageLedger.forEach(record => {
+        const month = toLocalDate(record.at).slice(0, 7);
+        byMonth.set(month, [...(byMonth.get(month) || []), record]);
+    });
+    const months = [...byMonth.keys()].sort().reverse();
+    tableBody.innerHTML = months.length === 0
+        ? `<tr><td colspan="7" class="usage-empty">${t('usageEmpty')}</td></tr>`
+        : months.map(month => {
+            const total = summarizeUsage(byMonth.get(month)!);
+            return `<tr><td>${month}</td><td>${total.calls}</td><td>${total.inputTokens.toLocaleString()}</td><td>${total.outputTokens.toLocaleString()}</td><td>${total.images}</td><td>${total.videos}</td><td>${formatUsd(total.cost)}</td></tr>`;
+        }).join('');
+
+    document.querySelectorAll<HTMLSpanElement>('.history-item-cost').forEach(el => {
+        const total = summarizeUsage(usageLedger.filter(record => record.articleId === Number(el.dataset.id)));
+        el.textContent = total.calls > 0 ? t('usageArticleCost', { cost: formatUsd(total.cost), tokens: (total.inputTokens + total.outputTokens).toLocaleString() }) : '';
+    });
+}
+
+
+// --- Model Settings ---
+// kind 'text' stages accept temperature and max output; images, speech and video only take a model name.
+const MODEL_STAGES: Record<ModelStage, { label: MessageKey; kind: 'text' | 'speech' | 'image' | 'video'; defaultModel: string }> = {
+    research: { label: 'stageResearch', kind: 'text', defaultModel: 'gemini-2.5-flash' },
+    outlines: { label: 'stageOutlines', kind: 'text', defaultModel: 'gemini-2.5-flash' }, // Also creative directions and batch ranking
+    coreText: { label: 'stageCoreText', kind: 'text', defaultModel: 'gemini-2.5-pro' }, // The more powerful model writes better with references
+    decoration: { label: 'stageDecoration', kind: 'text', defaultModel: 'gemini-2.5-flash' },
+    images: { label: 'stageImages', kind: 'image', defaultModel: 'imagen-4.0-generate-001' },
+    faq: { label: 'stageFaq', kind: 'text', defaultModel: 'gemini-2.5-flash' },
+    analysis: { label: 'stageAnalysis', kind: 'text', defaultModel: 'gemini-2.5-flash' },
+    enhancements: { label: 'stageEnhancements', kind: 'text', defaultModel: 'gemini-2.5-flash' },
+    factCheck: { label: 'stageFactCheck', kind: 'text', defaultModel: 'gemini-2.5-flash' },
+    audit: { label: 'stageAudit', kind: 'text', defaultModel: 'gemini-2.5-pro' },
+    tts: { label: 'stageTts', kind: 'speech', defaultModel: 'gemini-2.5-flash-preview-tts' },
+    video: { label: 'stageVideo', kind: 'video', defaultModel: 'veo-3.1-fast-generate-preview' },
+    strategy: { label: 'stageStrategy', kind: 'text', defaultModel: 'gemini-2.5-flash' },
+    editorAssist: { label: 'stageEditorAssist', kind: 'text', defaultModel: 'gemini-2.5-flash' }, // Co-pilot, proofreading and repurposing
+    contextResearch: { label: 'stageContextResearch', kind: 'text', defaultModel: 'gemini-2.5-pro' },
+};
+
+function stageModel(stage: ModelStage): string { return modelSettings[stage]?.model || MODEL_STAGES[stage].defaultModel; }
+
+/** Generation config overrides for a stage, spread into the request config. Empty when nothing was set. */
+function stageConfig(stage: ModelStage): { temperature?: number; maxOutputTokens?: number } {
+    const setting = modelSettings[stage];
+    if (!setting || MODEL_STAGES[stage].kind !== 'text') return {};
+    return {
+        ...(setting.temperature !== undefined && { temperature: setting.temperature }),
+        ...(setting.maxOutputTokens !== undefined && { maxOutputTokens: setting.maxOutputTokens }),
+    };
+}
+
+/** What the given stages will run with right now, in the shape recorded on drafts and articles. */
+function activeModelSettings(stages: ModelStage[]): Partial<Record<ModelStage, ModelSetting>> {
+    return Object.fromEntries(stages.map(stage => [stage, { model: stageModel(stage), ...stageConfig(stage) }]));
+}
+
+function renderModelSettings() {
+    const tableBody = document.querySelector('#model-settings-table tbody') as HTMLTableSectionElement | null;
+    const modelOptions = document.getElementById('model-options') as HTMLDataListElement | null;
+    if (!tableBody || !modelOptions) return;
+    const knownModels = new Set([...Object.values(MODEL_STAGES).map(stage => stage.defaultModel), ...Object.keys(priceTable)]);
+    modelOptions.replaceChildren(...[...knownModels].map(model => Object.assign(document.createElement('option'), { value: model })));
+    tableBody.innerHTML = (Object.keys(MODEL_STAGES) as ModelStage[]).map(stage => {
+        const { label, kind, defaultModel } = MODEL_STAGES[stage];
+        const setting = modelSettings[stage];
+        const disabled = kind === 'text' ? '' : ' disabled';
+        return `<tr data-stage="${stage}">
+            <td>${t(label)}</td>
+            <td><input type="text" class="model-setting-model" list="model-options" placeholder="${defaultModel}"></td>
+            <td><input type="number" class="model-setting-temperature" min="0" max="2" step="0.1" placeholder="${t('modelSettingsApiDefault')}" value="${setting?.temperature ?? ''}"${disabled}></td>
+            <td><input type="number" class="model-setting-max-output" min="1" step="1" placeholder="${t('modelSettingsApiDefault')}" value="${setting?.maxOutputTokens ?? ''}"${disabled}></td>
+        </tr>`;
+    }).join('');
+    // Model names are free text, so they go in as values rather than through the markup above
+    tableBody.querySelectorAll<HTMLTableRowElement>('tr').forEach(row => {
+        const model = modelSettings[row.dataset.stage as ModelStage]?.model;
+        if (model && model !== MODEL_STAGES[row.dataset.stage as ModelStage].defaultModel) (row.querySelector('.model-setting-model') as HTMLInputElement).value = model;
+    });
+}
+
+/** Reads the settings table back; blank fields fall back to the defaults. Returns null when a value is out of range. */
+function readModelSettingsForm(): Partial<Record<ModelStage, ModelSetting>> | null {
+    const settings: Partial<Record<ModelStage, ModelSetting>> = {};
+    for (const row of document.querySelectorAll<HTMLTableRowElement>('#model-settings-table tbody tr')) {
+        const stage = row.dataset.stage as ModelStage;
+        const model = (row.querySelector('.model-setting-model') as HTMLInputElement).value.trim();
+        const temperatureValue = (row.querySelector('.model-setting-temperature') as HTMLInputElement).value.trim();
+        const maxOutputValue = (row.querySelector('.model-setting-max-output') as HTMLInputElement).value.trim();
+        const temperature = temperatureValue ? Number(temperatureValue) : undefined;
+        const maxOutputTokens = maxOutputValue ? Number(maxOutputValue) : undefined;
+        if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) return null;
+        if (maxOutputTokens !== undefined && !(Number.isInteger(maxOutputTokens) && maxOutputTokens > 0)) return null;
+        if (!model && temperature === undefined && maxOutputTokens === undefined) continue;
+        settings[stage] = {
+            model: model || MODEL_STAGES[stage].defaultModel,
+            ...(temperature !== undefined && { temperature }),
+            ...(maxOutputTokens !== undefined && { maxOutputTokens }),
+        };
+    }
+    return settings;
+}
+
+
+// --- Prompt Templates ---
+// Built-in defaults for the prompts editors can tune in-app. `{{name}}` inserts a variable,
+// `{{#name}}...{{/name}}` keeps its block only when the variable is set, `{{^name}}...{{/name}}` only when it isn't.
+const PROMPT_DEFINITIONS: Record<PromptId, PromptDefinition> = {
+    outline: {
+        label: '構成案（PASONA）',
+        description: 'フォーム送信時に、切り口の異なる構成案を3つ作成します。',
+        variables: { theme: 'テーマ', persona: 'ターゲット読者', referenceText: '参照資料とAIによる事前調査結果' },
+        template: `あなたはバイラルメディアの編集長です。あなたの仕事は、読者の感情を激しく揺さぶり、SNSで爆発的にシェアされる記事の構成案を3つ作成することです。
+提案は、それぞれ全く異なる、尖った切り口を持つ必要があります。
+
+# 構成案作成の絶対原則
+- **感情フック**: 各構成案は、人間の根源的な感情（驚き、怒り、共感、好奇心、優越感など）を刺激するものでなければなりません。
+- **フレームワークの活用**: 構成には、人の心を動かす有名なコピーライティングのフレームワーク**「PASONAの法則」**を応用してください。
+    - **P (Problem)**: 読者が心の奥底で抱えている「問題」をえぐり出す。
+    - **A (Agitation)**: その問題を放置するとどうなるか、具体例を挙げて「煽り」、危機感を増幅させる。
+    - **S (Solution)**: 読者が待ち望んでいた「解決策」として、記事の核心を提示する。
+    - **O (Offer/Outcome)**: 解決策によって得られる理想の未来を具体的に示す。
+    - **N (Narrow down)**: 読者を特定し、「これはあなたのための記事だ」と絞り込む。
+    - **A (Action)**: 読者に具体的な「行動」を促す。
+- **タイトル**: タイトルは記事の命です。常識を覆す**「逆説」**、強い言葉を使った**「断定」**、思わず続きが読みたくなる**「問いかけ」**を駆使し、クリックせずにはいられないタイトルを付けてください。
+- **導入文**: 読者が最初の2行で引き込まれるように、衝撃的な事実、共感を呼ぶ失敗談、あるいは読者の固定観念を壊す問いから始めてください。
+
+# 出力形式
+各提案には、そのユニークな「切り口」がわかるようなキャッチーなタイトル、読者を物語に引き込む導入文、そして上記のフレームワークに基づいた論理的な見出し構成（3〜5個）を含めてください。{{#referenceText}}
+
+# 重要: 参照資料
+以下のテキストの内容を**最優先の情報源**として構成案を作成してください。
+---
+{{referenceText}}
+---{{/referenceText}}
+
+# テーマ
+{{theme}}
+
+# ターゲット読者（ペルソナ）
+{{persona}}
+`,
+    },
+    coreTextSystem: {
+        label: '本文執筆（システム指示）',
+        description: '記事本文を執筆するモデルの役割・引用ルール・文体を指定します。',
+        variables: { expertPersona: '専門家ペルソナ（空なら汎用ライター）', referenceText: '参照資料', currentYear: '今年の西暦', isPaid: '有料記事のとき真', hasBrandVoice: 'ブランドボイスが設定されているとき真', brandVoicePrinciples: 'ブランドボイスの執筆原則', brandVoiceExample: 'ブランドボイスの文体サンプル' },
+        template: `{{#expertPersona}}あなたは「{{expertPersona}}」です。その人物になりきり、専門知識、経験、そしてその職業特有の口調や視点を持って、以下の記事を執筆してください。{{/expertPersona}}{{^expertPersona}}あなたはプロのライターです。あなたの唯一の仕事は、提供された構成案と要件に基づき、読者の心に響く高品質な記事本文をMarkdown形式で執筆することです。{{/expertPersona}}{{#referenceText}}
+# 執筆の最重要ルール
+- **最優先事項**: 提供された「参照資料」のテキストを記事の主要な情報源としてください。その内容を元に、構成案に沿って文章を肉付けしてください。
+- **情報源の補完**: 「参照資料」だけでは情報が不足する場合、またはより新しい情報が必要な場合に限り、Google検索の結果を補足的に使用してください。{{/referenceText}}{{^referenceText}}
+# 厳守事項
+- **情報源**: 記事内容はGoogle検索の結果のみをソースとします。これは必須です。{{/referenceText}}
+- **鮮度**: 常に最新の情報をGoogle検索で取得し、執筆時点での最も新しい事実に基づいてください。今日は{{currentYear}}年です。
+
+- **執筆スタイル - 「AIっぽさ」の完全払拭**:
+    1. **人間味のある言葉遣い**: 堅苦しい専門用語や定型文を避け、まるで人間がすぐ隣で語りかけているかのような、自然で滑らかな口語体で執筆してください。
+    2. **多様な表現**: 単調な文章の繰り返しは厳禁です。多様な語彙を使い、単文・複文・重文をリズミカルに組み合わせ、読者を飽きさせない文章を作成してください。
+    3. **五感に訴える描写**: 読者が情景をありありとイメージできるよう、比喩（メタファー）、直喩（シミリ）、擬人法、そして具体的なエピソードをふんだんに盛り込んでください。
+    4. **読者との対話**: 「〜だと思いませんか？」「もしあなたが〇〇なら、どうしますか？」のように、読者に積極的に問いかけ、対話するようなスタイルで親近感を演出してください。
+
+- **引用と情報源に関する絶対厳守のルール**:
+    1.  **唯一の情報源**: あなたが記事内で使用するすべての外部リンク（本文中の引用リンク、セクション末尾の参考URL）は、**必ず**システムから提供されるGoogle検索の\`groundingChunks\`（参照メタデータ）に含まれる\`uri\`と\`title\`を使用しなければなりません。
+    2.  **創作の禁止**: \`groundingChunks\`に存在しないURLや情報を**絶対に創作しないでください**。これは最も重要なルールです。
+    3.  **直接引用**: 記述内容と最も関連性の高い\`groundingChunks\`の情報を選択し、その\`uri\`と\`title\`を**そのまま**使用してください。URLを改変したり、無関係なページを引用したりすることは固く禁じられています。
+    4.  **リンク形式**: リンクは \`[groundingChunksから取得したtitle](groundingChunksから取得したuri)\` というMarkdown形式を**厳守**してください。\`[出典]\` や \`[こちら]\` のような曖昧なテキストは**絶対に使用しないでください。**
+    5.  **検証不要**: あなたはURLに実際にアクセスする必要はありません。\`groundingChunks\`として提供された情報が、検証済みの信頼できる情報源であると仮定してください。
+    6.  **一貫性**: 本文中の引用と、セクション末尾に記載する「参考URL」は、同じ\`groundingChunks\`の情報を参照するようにしてください。
+    7.  **セクション末尾の出典明記**: 各見出し（セクション）の本文が終わった後、次の見出しの前に、改行して \`参考URL：[そのセクションで引用した参照元のページタイトル](有効なURL)\` の形式で、そのセクションで用いた主要な出典を再度明記してください。
+    8.  **正しい引用の例**:
+        (本文中) \`日本のスマートフォン普及率は96.3%に達しました。[令和4年通信利用動向調査の結果 - 総務省](https://www.soumu.go.jp/johotsusintokei/statistics/data/230529_1.pdf)\`
+        (セクションの末尾) \`参考URL：[令和4年通信利用動向調査の結果 - 総務省](https://www.soumu.go.jp/johotsusintokei/statistics/data/230529_1.pdf)\`
+    9.  **絶対禁止の例**: \`普及率は96.3%です。[出典](https://example.com/non-existent-page)\`
+
+- **出力**: 応答はMarkdown形式のテキストのみとし、挨拶や前置き、後書きは一切含めないでください。{{#isPaid}}
+- **有料記事の執筆戦略**:
+            - **無料部分の役割**: 無料部分では、読者が抱える問題の深刻さをえぐり出し、解決への強い渇望を喚起させることが目的です。解決策の「さわり」だけを見せ、期待感を最大限に高めてください。
+            - **価値のティーザー**: 有料部分でしか手に入らない「秘匿性の高いノウハウ」「具体的な手順を示したテンプレート」「時間と労力を大幅に削減する裏技」などの価値を、無料部分で繰り返し示唆してください。
+            - **有料への橋渡し**: \`---ここから有料---\` の区切り線の直前には、読者が「ここからが本題だ！」と感じ、購入せずにはいられなくなるような、最も核心的で魅力的なクリフハンガーを配置してください。
+            - **有料部分の約束**: 有料部分では、読者の期待を上回る圧倒的な価値を提供してください。具体的、実践的、そしてすぐに使える情報で構成し、読者に「この金額を払って本当に良かった」と心から思わせる内容にしてください。{{/isPaid}}{{#hasBrandVoice}}
+
+**ブランドボイス:**
+{{#brandVoicePrinciples}}- 執筆原則: {{brandVoicePrinciples}}
+{{/brandVoicePrinciples}}{{#brandVoiceExample}}- 文体サンプル:
+---
+{{brandVoiceExample}}
+---{{/brandVoiceExample}}{{/hasBrandVoice}}`,
+    },
+    coreTextUser: {
+        label: '本文執筆（依頼文）',
+        description: '承認された構成案と要件を本文執筆モデルに渡します。',
+        variables: { referenceText: '参照資料', theme: 'テーマ', persona: 'ターゲット読者', tone: 'トーン', articleTypeLabel: '「有料記事」または「無料記事」', outlineTitle: '構成案のタイトル', outlineIntroduction: '構成案の導入文', outlineHeadings: '見出しの箇条書き' },
+        template: `以下の承認された構成案と要件に基づいて、最高の記事を執筆してください。{{#referenceText}}
+
+---参照資料 (最優先の情報源)---
+{{referenceText}}
+--------------------{{/referenceText}}
+*   **テーマ**: {{theme}}
+*   **ペルソナ**: {{persona}}
+*   **トーン**: {{tone}}
+*   **記事の種類**: {{articleTypeLabel}}
+
+---承認された構成案---
+# {{outlineTitle}}
+**導入文**:
+{{outlineIntroduction}}
+**見出し構成**:
+{{outlineHeadings}}
+--------------------
+**最終指示**: 上記の「引用と情報源に関する絶対厳守のルール」を絶対に守って、高品質な記事を執筆してください。`,
+    },
+    coreTextSection: {
+        label: '本文執筆（長文モードのセクション依頼）',
+        description: '長文モードで、構成案の見出しを1つずつ執筆させます。システム指示は「本文執筆（システム指示）」を共用します。',
+        variables: { referenceText: '参照資料', theme: 'テーマ', persona: 'ターゲット読者', tone: 'トーン', articleTypeLabel: '「有料記事」または「無料記事」', outlineTitle: '構成案のタイトル', outlineIntroduction: '構成案の導入文', outlineHeadings: '見出しの箇条書き', previousText: 'ここまでに執筆済みの本文の末尾（最初のセクションでは空）', sectionHeading: '今回執筆する見出し', sectionNumber: '今回のセクション番号', sectionCount: 'セクションの総数', isFirstSection: '最初のセクションのとき真', endsFreePart: '有料記事の無料部分の最後のセクションのとき真', isPaidSection: '有料部分のセクションのとき真' },
+        template: `以下の承認された構成案に沿って、記事を見出しごとに分けて執筆しています。今回はそのうち1つのセクションだけを執筆してください。{{#referenceText}}
+
+---参照資料 (最優先の情報源)---
+{{referenceText}}
+--------------------{{/referenceText}}
+*   **テーマ**: {{theme}}
+*   **ペルソナ**: {{persona}}
+*   **トーン**: {{tone}}
+*   **記事の種類**: {{articleTypeLabel}}
+
+---承認された構成案---
+# {{outlineTitle}}
+**導入文**:
+{{outlineIntroduction}}
+**見出し構成**:
+{{outlineHeadings}}
+--------------------{{#previousText}}
+
+---ここまでに執筆済みの本文（末尾）---
+{{previousText}}
+--------------------
+執筆済みの内容と重複させず、自然につながるように書いてください。{{/previousText}}
+
+---今回執筆するセクション ({{sectionNumber}}/{{sectionCount}})---
+## {{sectionHeading}}
+--------------------
+**執筆範囲**: {{#isFirstSection}}「# {{outlineTitle}}」の記事タイトルと導入文から書き始め、続けて上記の見出しのセクションを書いてください。{{/isFirstSection}}{{^isFirstSection}}「## {{sectionHeading}}」の見出しから書き始め、このセクションの本文だけを書いてください。記事タイトル、導入文、他の見出しは書かないでください。{{/isFirstSection}}セクションの最後には「参考URL：」の行を付けてください。{{#endsFreePart}}
+**無料部分の締めくくり**: このセクションで無料部分が終わります。読者が続きを読まずにいられなくなるクリフハンガーで締めくくってください。\`---ここから有料---\` の区切り線はシステムが挿入するので、書かないでください。{{/endsFreePart}}{{#isPaidSection}}
+**有料部分**: このセクションは有料部分です。具体的、実践的で、すぐに使える情報を提供してください。\`---ここから有料---\` の区切り線は書かないでください。{{/isPaidSection}}
+**最終指示**: 上記の「引用と情報源に関する絶対厳守のルール」を絶対に守って、高品質なセクションを執筆してください。`,
+    },
+    decorate: {
+        label: '装飾（アートディレクター）',
+        description: '本文に絵文字・画像・グラフ・ボックスを挿入し、カバー画像を企画します。',
+        variables: { markdown: '記事本文（長い記事ではその一部）', isPartial: '長い記事を分割して渡しているとき真', chunkNumber: '今回の部分の番号', chunkCount: '分割数' },
+        template: `あなたは優秀なアートディレクター兼エディターです。以下の記事本文（Markdown）を分析し、より魅力的で視覚的に豊かなコンテンツに編集してください。
+
+# 指示
+あなたの仕事は、受け取ったMarkdownテキストを直接編集し、以下の要素を追加することです。
+1.  **絵文字の追加**: 全ての「##」と「###」で始まる見出しの末尾に、内容に合った絵文字を1つ追加してください。
+2.  **記事内画像の挿入**: 記事の理解を深めるのに最も効果的だと思われる箇所に、画像生成用のプレースホルダー \`[IMAGE_GENERATE:{"prompt":"ここに詳細な英語の画像生成プロンプト", "overlayText":"ここに日本語のオーバーレイテキスト"}]\` を**ちょうど2つ**挿入してください。
+    - **重要**: プロンプトを作成する際は、日本の読者が親しみを感じるような人物、風景、文化を考慮してください。例えば、人物は日本人やアジア人を登場させ、背景も日本の街並みやオフィスを想定してください。プロンプトは非常に具体的で、高品質な画像が生成されるようにしてください。
+3.  **クリエイティブなグラフの挿入**: 記事内の数値データ、比較、構成比率などを視覚的に表現するために、最も効果的な箇所にグラフのプレースホルダーを**最大2つまで**挿入してください。
+    - **チャートの選択**: 単なる棒グラフだけでなく、**円グラフ(pie)、ドーナツチャート(doughnut)、レーダーチャート(radar)、散布図(scatter)、バブルチャート(bubble)**など、文脈に最も適した**クリエイティブで視覚的に魅力的な**チャートタイプを選択してください。読者が一目で情報を理解できるような、洞察に富んだグラフをデザインしてください。グラフが不要な場合は挿入しないでください。
+    - **形式**: \`[INTERACTIVE_CHART:{"type":"bar", "title":"グラフのタイトル", "data":{"labels":["項目1", "項目2"],"datasets":[{"label":"データセット名", "data":[10, 20]}]}}]\`
+    - **JSONフォーマットの絶対厳守**:
+        - プレースホルダー内のJSONは、寸分違わず正しい構文でなければなりません。
+        - **最重要: 配列内のカンマ**: \`labels\`配列や\`data\`配列の各要素の間には、**絶対にカンマ(,)を省略しないでください。**
+            - **正しい例**: \`"labels": ["項目1", "項目2", "項目3"]\`
+            - **絶対にダメな例 (間違い)**: \`"labels": ["項目1" "項目2" "項目3"]\` (カンマが欠落している)
+        - **プロパティ名**: \`type\`, \`title\`, \`data\`, \`labels\`, \`datasets\`, \`label\` といったキー名は必ずダブルクォート(\`"\`)で囲んでください。
+        - **文字列**: 全ての文字列（タイトル、ラベルなど）は必ずダブルクォート(\`"\`)で囲んでください。
+    - **正しい形式の例**: \`[INTERACTIVE_CHART:{"type":"bar","title":"日本のSNS利用率(%)","data":{"labels":["X (Twitter)","Instagram","Facebook"],"datasets":[{"label":"利用率","data":[66.5,50.1,32.6]}]}}]\`
+    - **最終チェック**: JSONを生成した後、それが有効なJSONであるか、特に配列のカンマが正しいか、必ず自己検証してください。
+4.  **スクリーンショットの挿入**: UI操作の説明やWebサイトの紹介など、画面キャプチャが有効な箇所があれば、その指示をプレースホルダー \`[IMAGE_SCREENSHOT:{"instruction":"ここに日本語での撮影指示"}]\` として**積極的に**挿入してください。必要なければ挿入しないでください。
+5.  **情報ボックスと要約の追加**:
+    - 読者の注意を引くべき補足情報やヒントがある箇所に、\`[BOX:tip|info|warning|quote:タイトル:本文]\` 形式でボックスを挿入してください。
+    - 記事の要点をまとめるのに最適な場所に、\`[SUMMARY:箇条書き1; 箇条書き2; 箇条書き3]\` 形式でサマリーボックスを挿入してください。
+6.  **重要ルール**: \`参考URL：[...](...)\` という形式の行は、編集せずにそのまま保持してください。これらの行は記事の構造の一部であり、削除や変更はしないでください。
+7.  **本文の完全保持**: 元の段落、見出し、箇条書き、区切り線は一つも削除・要約・書き換えをしないでください。許される変更は、見出し末尾への絵文字の追加と、段落の間へのプレースホルダーの挿入だけです。編集後のテキストは、元の文章がすべて一字一句残っているかシステムが検証します。
+
+# 出力形式
+最終的な成果物を、以下のJSONスキーマに厳密に従って返してください。
+- \`decoratedMarkdown\`: 上記の指示に従って編集された、**完全な**Markdownテキスト。
+- \`coverImagePrompt\`: 記事全体を象徴する、魅力的で詳細な**英語の**画像生成プロンプト。ここでも日本の読者を意識してください。
+- \`coverImageOverlay\`: カバー画像に重ねるキャッチーな**日本語の**オーバーレイテキスト。{{#isPartial}}
+
+# 注意: これは記事の一部です
+長い記事を見出しの区切りで分割して編集しています。以下は全{{chunkCount}}部分のうち{{chunkNumber}}番目です。受け取った部分だけを編集して返し、前後の内容を補ったり、まとめを書き足したりしないでください。挿入するプレースホルダーの数は、この部分についての数です。{{/isPartial}}
+
+# 編集対象の記事本文
+---
+{{markdown}}
+---`,
+    },
+    factCheck: {
+        label: 'ファクトチェック',
+        description: '記事から事実を抽出し、Google検索で検証します。',
+        variables: { markdown: '記事本文' },
+        template: `あなたは精密なファクトチェッカーです。以下の記事本文から、検証可能な事実（例：数値、統計、固有名詞を含む断定的な記述）を抽出し、その正しさをGoogle検索を用いて検証してください。
+
+# 指示
+1.  記事の中から検証すべき記述を**最大5つまで**抽出してください。
+2.  抽出した各記述について、Google検索で**日本の信頼性の高い情報源**（公的機関、主要メディア、学術論文など）を探してください。
+3.  情報源と記述を比較し、結果を以下のいずれかで評価してください。
+    - \`match\`: 信頼できる情報源と内容が一致する。
+    - \`partial_match\`: 類似の情報は見つかるが、数値や文脈が微妙に異なる。
+    - \`no_match\`: 信頼できる情報源が見つからない、または情報が誤っている可能性が高い。
+4.  結果をJSON形式で出力してください。出力はJSONオブジェクトのみとし、前後に説明文や\`\`\`jsonのようなマークダウンは含めないでください。スキーマは以下の通りです:
+    {
+        "factCheckResults": [
+            {
+                "statement": "検証対象の記述",
+                "source": "情報源のタイトル",
+                "uri": "情報源のURL",
+                "result": "match, partial_match, or no_match",
+                "feedback": "検証結果に関する簡単な解説"
+            }
+        ]
+    }
+
+# 記事本文
+---
+{{markdown}}
+---
+`,
+    },
+    coPilot: {
+        label: 'AIコパイロット',
+        description: '編集モードで改善提案を作成します。',
+        variables: { theme: 'テーマ', persona: 'ターゲット読者', tone: 'トーン', markdown: '記事本文' },
+        template: `あなたはプロのコンテンツ編集者であり、AIコパイロットです。以下の記事本文を分析し、改善点を提案してください。
+提案は、記事のメタデータ（テーマ、ペルソナ、トーン）に基づいて行ってください。
+
+# 記事メタデータ
+- テーマ・キーワード: {{theme}}
+- ターゲット読者（ペルソナ）: {{persona}}
+- 記事のトーン: {{tone}}
+
+# 分析の観点
+- **読みやすさ**: 長すぎる文章、複雑な表現、専門用語の乱用などを指摘してください。
+- **エンゲージメント**: 読者の興味を引くための問いかけ、共感を呼ぶ表現、具体例の追加などを提案してください。
+- **トーンの一貫性**: 指定された「{{tone}}」なトーンから逸脱している部分を修正してください。
+- **SEO**: テーマ「{{theme}}」に関連するキーワードを自然に追加する提案をしてください。
+
+# 出力形式
+提案のリストをJSON形式で返してください。各提案には、以下のキーを含めてください。
+- \`reason\`: なぜこの変更を推奨するのかという具体的な理由。
+- \`original\`: 変更対象となる、記事本文から抜き出した**正確な**一部分。
+- \`suggested\`: 改善後の文章。
+
+# 記事本文
+---
+{{markdown}}
+---
+`,
+    },
+    audit: {
+        label: 'コンテンツ鮮度監査',
+        description: '記事が最新かを調べ、更新案を提案します。',
+        variables: { theme: 'テーマ', markdown: '記事本文' },
+        template: `あなたは優秀なコンテンツエディターです。あなたの仕事は、以下の記事が今日現在でも情報として最新かつ正確であるかを確認することです。
+1. Google検索を使い、記事の主要テーマ「{{theme}}」に関する最新の情報を調査してください。特に、記事内で言及されている統計、日付、製品名、イベントなどに注目してください。
+2. 調査結果と記事本文を比較してください。
+3. 記事を更新するための、具体的で実行可能な提案のリストをJSON形式で生成してください。もし記事が最新で更新不要な場合は、その旨をJSONで示してください。
+
+# JSON出力スキーマ
+{
+  "is_fresh": true,
+  "suggestions": [
+    {
+      "area": "更新が必要な箇所（例：見出し「2023年のトレンド」）",
+      "reason": "更新が必要な理由（例：データが古く、2024年の新しい情報があるため）",
+      "suggestion_text": "具体的な更新案（例：「2023年」を「2024年」に更新し、新しいトレンドとして〇〇を追加するべきです。」）"
+    }
+  ]
+}
+
+# 記事本文
+---
+{{markdown}}
+---
+`,
+    },
+    repurpose: {
+        label: 'コンテンツ変換',
+        description: '記事をX スレッド・YouTube台本・プレゼン構成に変換します。',
+        variables: { markdown: '記事本文', isTwitter: 'X スレッドへの変換のとき真', isYoutube: 'YouTube台本への変換のとき真', isPresentation: 'プレゼン構成への変換のとき真' },
+        template: `あなたはプロのコンテンツマーケターです。以下の記事本文を、指定されたフォーマットに最適化して書き直してください。元の記事の要点とトーンは維持してください。
+
+# 元記事
+---
+{{markdown}}
+---
+{{#isTwitter}}
+# 指示
+この記事の内容を、X (Twitter) で投稿するための魅力的なスレッド形式（5〜8ツイート）に変換してください。各ツイートは140字以内で、絵文字を効果的に使用してください。最初のツイートは読者の興味を引くフックにしてください。{{/isTwitter}}{{#isYoutube}}
+# 指示
+この記事の内容を元に、約5分間のYouTube動画用の台本を作成してください。オープニング、本編、クロージングの構成で、視聴者が飽きないような話し口調で記述してください。ト書き（映像の指示）も適宜追加してください。{{/isYoutube}}{{#isPresentation}}
+# 指示
+この記事の内容を、ビジネスプレゼンテーション用の構成案に変換してください。タイトル、アジェンダ、各スライドの要点（箇条書き）を明確に示してください。合計で約10枚のスライドになるように構成してください。{{/isPresentation}}`,
+    },
+};
+
+function renderPromptTemplate(template: string, variables: PromptVariables): string {
+    const isSet = (name: string) => { const value = variables[name]; return value !== undefined && value !== '' && value !== false; };
+    // Resolve sections before inserting values so that user text can never open a section of its own.
+    const sectionRegex = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+    let text = template;
+    let previous;
+    do {
+        previous = text;
+        text = text.replace(sectionRegex, (_, kind, name, body) => ((kind === '#') === isSet(name) ? body : ''));
+    } while (text !== previous);
+    return text.replace(/\{\{(\w+)\}\}/g, (_, name) => String(variables[name] ?? ''));
+}
+
+/** Template variables the prompt's definition doesn't declare; such a template would silently render blanks. */
+function findUnknownPromptVariables(id: PromptId, template: string): string[] {
+    const known = Object.keys(PROMPT_DEFINITIONS[id].variables);
+    const used = [...template.matchAll(/\{\{[#^/]?(\w+)\}\}/g)].map(match => match[1]);
+    return [...new Set(used.filter(name => !known.includes(name)))];
 }
-interface FactCheckResult {
-    statement: string;
-    source: string;
-    uri: string;
-    result: 'match' | 'partial_match' | 'no_match';
-    feedback: string;
+
+function getActivePromptVersion(id: PromptId): PromptVersion {
+    const entry = promptLibrary[id];
+    const custom = entry?.versions.find(v => v.version === entry.activeVersion);
+    return custom || { version: 0, template: PROMPT_DEFINITIONS[id].template, createdAt: '' };
 }
 
+function renderPrompt(id: PromptId, variables: PromptVariables): string {
+    return renderPromptTemplate(getActivePromptVersion(id).template, variables);
+}
 
-// --- Global State ---
-let articles: Omit<ArticleHistoryItem, 'coverImage' | 'imageMap'>[] = [];
-let currentArticle: ArticleHistoryItem | null = null;
-let activeMode: 'strategy' | 'create' | 'history' = 'create';
-let brandVoice: BrandVoice = { principles: '', example: '' };
-let utterance: SpeechSynthesisUtterance | null = null;
-let isSpeaking = false;
-let currentAudioContext: AudioContext | null = null;
-let currentAudioSource: AudioBufferSourceNode | null = null;
-let coPilotSuggestions: CoPilotSuggestion[] = [];
-let suggestedOutlines: ArticleOutline[] = [];
-let selectedOutline: ArticleOutline | null = null;
-let suggestedDirections: CreativeDirection[] = [];
-let selectedDirection: CreativeDirection | null = null;
-let savedSelectionRange: Range | null = null;
-let currentResearchedText: string = '';
-let currentPerformanceArticleId: number | null = null;
-let videoGenerationPollingInterval: number | null = null;
-let currentAuditArticleId: number | null = null;
-let currentAuditSuggestions: any[] = [];
-let apiKey: string | null = null;
+function activePromptVersions(ids: PromptId[]): Partial<Record<PromptId, number>> {
+    return Object.fromEntries(ids.map(id => [id, getActivePromptVersion(id).version]));
+}
 
+function savePromptVersion(id: PromptId, template: string): PromptVersion {
+    const entry = promptLibrary[id] || { activeVersion: 0, versions: [] };
+    const version: PromptVersion = { version: (entry.versions[entry.versions.length - 1]?.version || 0) + 1, template, createdAt: new Date().toISOString() };
+    promptLibrary[id] = { activeVersion: version.version, versions: [...entry.versions, version] };
+    savePromptLibraryToStorage();
+    return version;
+}
 
-// --- IndexedDB Logic for Image Storage ---
-const DB_NAME = 'ArticleArchitectDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'articleImages';
-let db: IDBDatabase;
+function setActivePromptVersion(id: PromptId, version: number) {
+    promptLibrary[id] = { versions: promptLibrary[id]?.versions || [], activeVersion: version };
+    savePromptLibraryToStorage();
+}
 
-function openDb(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-        if (db) {
-            return resolve(db);
-        }
-        const request = indexedDB.open(DB_NAME, DB_VERSION);
-        request.onerror = (event) => reject("IndexedDB error: " + (event.target as any).errorCode);
-        request.onsuccess = (event) => {
-            db = (event.target as any).result;
-            resolve(db);
-        };
-        request.onupgradeneeded = (event) => {
-            const db = (event.target as any).result;
-            if (!db.objectStoreNames.contains(STORE_NAME)) {
-                db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-            }
-        };
-    });
+function renderPromptEditor(id: PromptId, shownVersion = getActivePromptVersion(id).version) {
+    const definition = PROMPT_DEFINITIONS[id];
+    const activeVersion = getActivePromptVersion(id).version;
+    const versions = [{ version: 0, template: definition.template, createdAt: '' }, ...(promptLibrary[id]?.versions || [])];
+    const shown = versions.find(v => v.version === shownVersion) || versions[0];
+    (document.getElementById('prompt-description') as HTMLParagraphElement).textContent = definition.description;
+    (document.getElementById('prompt-variables') as HTMLDivElement).innerHTML = Object.entries(definition.variables)
+        .map(([name, label]) => `<span class="prompt-variable" title="${label}">{{${name}}}</span>`).join('');
+    (document.getElementById('prompt-version-select') as HTMLSelectElement).innerHTML = versions.slice().reverse().map(v => {
+        const name = v.version === 0 ? t('promptVersionDefault') : `v${v.version}（${new Date(v.createdAt).toLocaleString(ARTICLE_LANGUAGES[uiLanguage].locale)}）`;
+        return `<option value="${v.version}" ${v.version === shown.version ? 'selected' : ''}>${name}${v.version === activeVersion ? t('promptVersionInUse') : ''}</option>`;
+    }).join('');
+    (document.getElementById('prompt-template-input') as HTMLTextAreaElement).value = shown.template;
+    (document.getElementById('use-prompt-version-btn') as HTMLButtonElement).disabled = shown.version === activeVersion;
 }
 
-async function saveImagesToDb(id: number, coverImage?: string, imageMap?: ArticleHistoryItem['imageMap']): Promise<void> {
-    try {
-        const db = await openDb();
-        const transaction = db.transaction(STORE_NAME, 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        store.put({ id, coverImage, imageMap });
-        return new Promise((resolve, reject) => {
-            transaction.oncomplete = () => resolve();
-            transaction.onerror = () => reject(transaction.error);
-        });
-    } catch (error) {
-        console.error("Failed to save images to IndexedDB:", error);
-    }
+
+// --- Localization ---
+const ARTICLE_LANGUAGES: Record<LanguageCode, ArticleLanguage> = {
+    'ja': { label: '日本語', promptName: '日本語', locale: 'ja-JP', audience: '日本', narrationInstruction: '以下の文章を、プロのナレーターのように、自然で聞き取りやすいトーンで読み上げてください。「' },
+    'en': { label: 'English', promptName: '英語（English）', locale: 'en-US', audience: '英語圏', narrationInstruction: 'Read the following text aloud like a professional narrator, in a natural, easy-to-follow tone: ' },
+    'zh-TW': { label: '繁體中文', promptName: '繁体字中国語（台湾華語）', locale: 'zh-TW', audience: '台湾', narrationInstruction: '請像專業旁白一樣，以自然、清晰易懂的語氣朗讀以下文章：' },
+};
+
+/**
+ * Appended after a rendered prompt when the article isn't Japanese. The templates stay Japanese
+ * (and stay editable in the prompt library); this only redirects the output language.
+ */
+function languageInstruction(language?: LanguageCode): string {
+    if (!language || language === 'ja') return '';
+    const { promptName, audience } = ARTICLE_LANGUAGES[language];
+    return `
+
+# 出力言語
+読者に向けた文章（タイトル、本文、見出し、説明文、オーバーレイテキスト、質問と回答など）は、すべて**${promptName}**で書いてください。
+- 指示の中の「日本語」は「${promptName}」、「日本の読者」「日本の情報源」は「${audience}の読者」「${audience}の情報源」と読み替えてください。情報源は${audience}の信頼できるものを優先してください。
+- \`参考URL：\` や \`---ここから有料---\` などの構造マーカー、JSONのキー名、\`[IMAGE_GENERATE:...]\` などのプレースホルダー名は翻訳せず、そのまま使ってください。
+- 英語で書くよう指示されている画像生成プロンプトは、引き続き英語で書いてください。`;
 }
 
-async function getImagesFromDb(id: number): Promise<{ coverImage?: string; imageMap?: ArticleHistoryItem['imageMap'] }> {
-    try {
-        const db = await openDb();
-        const transaction = db.transaction(STORE_NAME, 'readonly');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.get(id);
-        return new Promise((resolve, reject) => {
-            request.onsuccess = () => resolve(request.result || {});
-            request.onerror = () => reject(request.error);
-        });
-    } catch (error) {
-        console.error("Failed to get images from IndexedDB:", error);
-        return {};
-    }
+const UI_MESSAGES_JA = {
+    appTitle: '世界一優秀な記事執筆アプリ',
+    appTagline: 'あなたのアイデアを、AIが画像付きの高品質な記事に昇華させます。',
+    modeStrategy: '戦略立案',
+    modeCreate: '新規作成',
+    modeHistory: '商品管理',
+    titleStrategy: 'コンテンツ戦略を立案',
+    titleCreate: '記事の設計図を作成',
+    titleHistory: '商品管理',
+    brandVoiceButton: 'ブランドボイス',
+    brandVoiceButtonTitle: 'ブランドボイス設定',
+    promptLibraryButton: 'プロンプト',
+    promptLibraryButtonTitle: 'プロンプト管理',
+    settingsButton: '設定',
+    settingsButtonTitle: 'APIキー設定',
+    cancel: 'キャンセル',
+    cancelling: 'キャンセル中...',
+    save: '保存',
+    saving: '保存中...',
+    resetToDefault: '既定値に戻す',
+    edit: '編集',
+    copy: 'コピー',
+    copied: 'コピーしました！',
+    exportHtml: 'HTML書き出し',
+    apply: '適用',
+    discard: '破棄',
+    verifying: '検証中...',
+    analyzing: '分析中...',
+    generating: '生成中...',
+    errorOccurred: 'エラーが発生しました。',
+
+    strategyThemeLabel: '記事のメインテーマ',
+    strategyThemePlaceholder: '例: 副業、Webマーケティング、健康',
+    strategyGenerate: 'AIに戦略を提案させる',
+    strategyGenerateFromData: '過去の成功データから提案',
+    strategyResultsTitle: 'AIからの戦略提案',
+    strategyInstruction: '以下の提案から1つ選択すると、記事の設計図が自動で作成されます。チェックを入れた提案は、まとめてバックグラウンドで生成できます。',
+    strategyKeyword: 'キーワード',
+    strategyIntent: '検索意図',
+    strategyPersona: 'ターゲットペルソナ',
+    strategyInsufficientData: '分析可能な成功データが不足しています。履歴から記事のパフォーマンスを入力してください。',
+    strategyError: '戦略の生成中にエラーが発生しました。',
+    batchPickRuleLabel: '構成案とデザインの選び方',
+    batchPickFirst: '最初の案を使う',
+    batchPickAiRanked: 'AIが最適な案を選ぶ',
+    batchConcurrencyLabel: '同時実行数',
+    batchQueueSelected: '選択した提案を一括生成',
+    batchNoneSelected: '一括生成する提案にチェックを入れてください。',
+    batchQueueTitle: '一括生成キュー',
+    batchClearCompleted: '完了したジョブを消去',
+    batchStatusQueued: '待機中',
+    batchStatusRunning: '生成中',
+    batchStatusCompleted: '完了（履歴に保存済み）',
+    batchStatusFailed: '失敗',
+    batchStatusCancelled: 'キャンセル済み',
+    batchPlanning: '調査・構成案の選定',
+    batchAttempts: '{count}回目',
+    batchInterrupted: 'ページの再読み込みで中断されました。再試行すると保存済みのステップから再開します。',
+    retry: '再試行',
+
+    themeLabel: '記事のテーマ・キーワード',
+    themePlaceholder: '例: 最新のAIトレンド、効果的なSNSマーケティング',
+    personaLabel: 'ターゲット読者 (ペルソナ)',
+    personaPlaceholder: '例: Web開発初心者、企業のマーケティング担当者',
+    expertPersonaLabel: 'エキスパート設定 (任意)',
+    expertPersonaHint: 'AIに特定の専門家になりきらせ、より専門性の高い記事を生成します。',
+    expertPersonaPlaceholder: '例: 経験15年のファイナンシャルプランナー, 現役の小児科医',
+    referenceLabel: '参照資料 (任意)',
+    referenceHint: '記事の元になるテキストファイル(.txt, .md)をアップロードするか、内容を直接貼り付けてください。PDFの場合はテキストをコピー＆ペーストしてください。',
+    fileUploadLabel: 'ファイルを選択 または ドラッグ＆ドロップ',
+    referencePlaceholder: 'ここに参照テキストを貼り付け...',
+    textFilesOnly: 'テキストファイル (.txt, .md) のみアップロードできます。',
+    toneLabel: '記事のトーン',
+    toneProfessional: '専門的',
+    toneFriendly: 'フレンドリー',
+    tonePolite: '丁寧',
+    tonePassionate: '情熱的',
+    toneHumorous: 'ユーモラス',
+    articleLanguageLabel: '記事の言語',
+    articleLanguageHint: '構成案から本文、Q&A、投稿アシスト、ファクトチェック、音声まで、この言語で生成します。',
+    articleTypeLabel: '記事の種類',
+    articleTypeFree: '無料記事',
+    articleTypePaid: '有料記事',
+    videoProducerLabel: 'AIビデオ・プロデューサー 🎬',
+    longFormLabel: '長文モード 📚',
+    longFormToggleLabel: '見出しごとに分けて執筆する (長い有料記事向け)',
+    videoToggleLabel: '紹介動画を生成する (ON/OFF)',
+    salesSettingsTitle: '💰 販売設定 (任意)',
+    priceLabel: '販売価格 (円)',
+    pricePlaceholder: '例: 500',
+    productDescriptionLabel: '商品説明',
+    productDescriptionPlaceholder: '販売ページに表示される、商品の魅力的な説明文を入力',
+    suggestOutlines: '構成案をAIに提案させる',
+    outlineSuggestionsTitle: '🤖 AIからの構成案提案',
+    outlineSuggestionsInstruction: 'ペルソナ分析に基づいた最適な構成案です。1つ選んでデザインの選択に進んでください。',
+    backToForm: '入力に戻る',
+    creativeDirectorTitle: '🎨 AIクリエイティブ・ディレクター',
+    creativeDirectorInstruction: '記事の印象を決めるデザインスタイルを選択してください。選んだスタイルが記事全体に反映されます。',
+    backToOutlines: '構成案の選択に戻る',
+    generateArticle: '記事を生成する',
+    researchingTopic: 'AIがトピックをリサーチ中...',
+    creatingOutlines: 'リサーチを元に構成案を作成中...',
+    outlineError: '構成案の生成中にエラーが発生しました。',
+    apiErrorAuth: 'APIキーが無効か、このモデルを使う権限がありません。設定からAPIキーを確認してください。',
+    apiErrorQuota: 'APIの利用上限（レート制限または割り当て）に達しました。しばらく待ってから再開するか、プランの上限を確認してください。',
+    apiErrorSafety: '安全フィルタにより応答がブロックされました。テーマや表現を変えてお試しください。',
+    apiErrorTransient: 'APIサーバーまたはネットワークの一時的なエラーが続いています。時間をおいて再開してください。',
+    apiErrorBadRequest: 'APIがリクエストを受け付けませんでした。モデル設定や入力内容を確認してください。',
+    creatingDirections: 'デザイン案を作成中...',
+
+    progressCoreText: '✍️ 記事本文を執筆中...',
+    progressDecorate: '🎨 記事を装飾＆ビジュアル計画中...',
+    progressImages: '🖼️ 画像コンテンツを生成中...',
+    progressFaq: '💡 Q&Aセクションを作成中...',
+    progressPerformance: '🚀 パフォーマンスを分析＆予測中...',
+    progressEnhancements: '✨ 投稿アシスト情報を生成中...',
+    progressComplete: '✅ 記事が完成しました！',
+    streamPreviewTitle: '本文プレビュー',
+    streamWordCount: '{words}語・{chars}文字',
+    streamHeadingCoverage: '構成案の見出し {covered}/{total}',
+    streamOffOutline: '構成案にない見出し: {headings}',
+    headingDone: '執筆済み',
+    headingWriting: '執筆中',
+    headingSkipped: '飛ばされています',
+    headingPending: '未着手',
+    resumeFromStep: '中断したステップから再開',
+    confirmDiscardDraft: '途中まで生成した内容を破棄しますか？',
+    draftNotFound: '再開できる下書きが見つかりませんでした。',
+    draftInterrupted: '「{title}」の生成が途中で中断されています。',
+    generationCancelled: '生成をキャンセルしました。完了したステップまでの内容は保存されています。',
+    generationError: '記事の生成中にエラーが発生しました: {message}',
+    emptyCoreText: 'AIが記事本文の生成に失敗しました（ステップ1）。応答が空でした。',
+    invalidAiResponse: 'AIの応答が期待する形式と一致しませんでした（{problems}）。',
+    decorateFailed: 'AIによる記事の装飾に失敗しました: {message}',
+    decorationLostContent: '装飾後の記事から本文が{count}か所欠落したため、保存を中止しました（例: 「{sample}」）。このステップから再開してください。',
+    noImagesGenerated: '画像を1枚も生成できませんでした。',
+    faqFailed: 'Q&Aセクションの生成に失敗しました。',
+    analysisDigestFailed: '長い記事の要約に失敗しました。',
+    performanceFailed: 'パフォーマンス分析に失敗しました。',
+
+    usageTitle: '💰 利用状況と推定コスト',
+    usageMonth: '月',
+    usageCalls: '呼び出し',
+    usageInputTokens: '入力トークン',
+    usageOutputTokens: '出力トークン',
+    usageImages: '画像',
+    usageVideos: '動画',
+    usageCost: '推定コスト',
+    usageToday: '本日の推定コスト: {cost}（{calls}回の呼び出し）',
+    usageEmpty: 'まだ利用記録はありません。',
+    usageArticleCost: '推定コスト {cost}（{tokens} tokens）',
+    priceTableSummary: '料金表（USD）を編集',
+    priceTableHint: 'モデル名ごとに、トークン100万あたりの入力料金(input)・出力料金(output)、画像1枚(perImage)、動画1本(perVideo)の料金を指定します。',
+    priceTableSaved: '料金表を保存しました。',
+    priceTableInvalid: '料金表の形式が正しくありません。モデル名ごとに0以上の数値を指定してください。',
+    confirmResetPriceTable: '料金表を既定値に戻しますか？',
+    modelSettingsSummary: 'モデルと生成パラメータ',
+    modelSettingsHint: '工程ごとに使うモデル、temperature、最大出力トークン数を指定します。空欄の項目は既定のモデル・APIの既定値のままです。画像・音声・動画はモデルのみ変更できます。',
+    modelSettingsStage: '工程',
+    modelSettingsModel: 'モデル',
+    modelSettingsTemperature: 'Temperature',
+    modelSettingsMaxOutput: '最大出力',
+    modelSettingsApiDefault: '既定',
+    modelSettingsSaved: 'モデル設定を保存しました。',
+    modelSettingsInvalid: 'temperatureは0〜2、最大出力は1以上の整数で指定してください。',
+    confirmResetModelSettings: 'モデル設定を既定値に戻しますか？',
+    stageResearch: 'リサーチ',
+    stageOutlines: '構成案・デザイン案',
+    stageCoreText: '本文執筆',
+    stageDecoration: '装飾',
+    stageImages: '画像生成',
+    stageFaq: 'FAQ',
+    stageAnalysis: 'パフォーマンス分析',
+    stageEnhancements: '改善提案',
+    stageFactCheck: 'ファクトチェック',
+    stageAudit: 'コンテンツ監査',
+    stageTts: '音声読み上げ',
+    stageVideo: '動画生成',
+    stageStrategy: 'コンテンツ戦略',
+    stageEditorAssist: '編集アシスト（コパイロット・校正・転用）',
+    stageContextResearch: '追加リサーチ',
+
+    historyEmpty: '作成履歴はありません。',
+    historyNoMatches: '条件に合う記事はありません。',
+    historySearchPlaceholder: 'テーマ・本文・ハッシュタグなどで検索',
+    historyFiltersSummary: '絞り込み・並べ替え',
+    historyFilterType: '種類',
+    filterAll: 'すべて',
+    filterPaid: '有料',
+    historyFilterPrice: '価格（円）',
+    filterMin: '下限',
+    filterMax: '上限',
+    historyFilterSchedule: '予約投稿',
+    filterScheduled: '予約あり',
+    filterUnscheduled: '予約なし',
+    historyFilterFactCheck: 'ファクトチェック',
+    filterChecked: 'チェック済み',
+    filterUnchecked: '未チェック',
+    historyFilterVideo: '紹介動画',
+    filterVideoNone: 'なし',
+    filterVideoPending: '生成中',
+    filterVideoCompleted: '完成',
+    filterVideoFailed: '失敗',
+    historyFilterDate: '作成日',
+    historySort: '並べ替え',
+    sortCreatedDesc: '作成日（新しい順）',
+    sortCreatedAsc: '作成日（古い順）',
+    sortScheduled: '予約日時（近い順）',
+    sortQuality: '品質スコア（高い順）',
+    sortViews: '閲覧数（多い順）',
+    historyFilterReset: '条件をクリア',
+    historyPrev: '← 前へ',
+    historyNext: '次へ →',
+    historyPageInfo: '{page} / {pages} ページ（全{total}件）',
+    historySaveFailed: '履歴の保存に失敗しました。ストレージの空き容量が不足している可能性があります。',
+    notForSale: '非売品',
+    scheduledBadge: '予約済',
+    lastChecked: '最終チェック: {date}',
+    preview: 'プレビュー',
+    performanceInput: '実績入力',
+    checkForUpdate: '更新をチェック',
+    delete: '削除',
+    loadingArticle: '記事を読み込んでいます...',
+    confirmDeleteProduct: 'この商品を削除しますか？',
+    noProductDescription: '商品説明がありません。',
+    free: '無料',
+    buy: '購入する',
+    readMore: '続きを読む',
+
+    generatedArticleTitle: '生成された記事',
+    readAloud: '読み上げ',
+    readAloudTitle: 'ブラウザの機能で読み上げる',
+    stopReading: '停止',
+    audioArticle: 'オーディオ記事',
+    audioArticleTitle: 'AIによる高品質な音声で記事を聴く',
+    audioError: '音声の生成に失敗しました。',
+    proofread: 'AI校正',
+    proofreadTitle: 'AIによる最終校正',
+    proofreading: '校正中...',
+    proofreadError: 'AIによる校正中にエラーが発生しました。',
+    factCheck: 'ファクトチェック',
+    factCheckTitle: 'AIによるファクトチェック',
+    schedule: '予約',
+    scheduleTitle: '公開を予約する',
+    editTitle: '記事を編集する',
+    copyTitle: '記事のテキストをコピー',
+    exportHtmlTitle: '画像とグラフを埋め込んだHTMLファイルとして保存',
+    exportHtmlFailed: 'HTMLの書き出しに失敗しました。',
+    cmsExport: '書き出し',
+    cmsExportModalTitle: '📦 CMS向けに書き出し',
+    cmsExportDescription: '公開先に合わせた形式で書き出します。画像・グラフ・ボックスなどのプレースホルダーは通常の記法に変換され、有料ラインは各サービスの形式に置き換わります。',
+    cmsExportWordpress: 'WordPress（WXR XML）',
+    cmsExportMarkdown: 'Markdown（note向け）',
+    cmsExportZip: 'Markdown + 画像フォルダ（ZIP）',
+    cmsExportWordpressHint: 'ツール → インポート → WordPress から取り込めます。画像は本文に埋め込まれ、有料ラインは「続きを読む」タグになります。予約日時があれば予約投稿、なければ下書きになります。',
+    cmsExportMarkdownHint: 'テキストのみのMarkdownです（画像は含まれません）。有料ラインの位置に目印が入るので、noteのエディタでその位置に有料エリアを設定してください。',
+    cmsExportZipHint: 'article.md と images/ フォルダをまとめたZIPです。画像リンクは images/ を指し、有料ラインは <!--more--> になります。',
+    cmsExportDownload: 'ダウンロード',
+    cmsExportFailed: '書き出しに失敗しました。',
+    epubExportTitle: '購入者向けの電子書籍（EPUB）を作成',
+    epubExportFailed: 'EPUBの作成に失敗しました。',
+    epubTableOfContents: '目次',
+    epubBackMatter: 'よくある質問・参照元',
+    printTitle: '印刷用レイアウトで開き、PDFとして保存',
+    printPopupBlocked: '印刷用のウィンドウを開けませんでした。ポップアップを許可してください。',
+    printFailed: '印刷用レイアウトの作成に失敗しました。',
+    workspaceTitle: '🗄️ ワークスペースのバックアップ',
+    workspaceHint: '記事と画像、ブランドボイス、モデル・プロンプト・料金の設定、利用履歴を1つのファイルにまとめます。APIキーは含まれません。',
+    workspaceExport: '書き出す',
+    workspaceImport: '読み込む',
+    workspaceExportFailed: 'ワークスペースの書き出しに失敗しました。',
+    workspaceNotJson: 'JSONとして読み込めません',
+    workspaceInvalid: 'ワークスペースのファイルとして読み込めません（{problems}）。',
+    workspaceImportModalTitle: '🗄️ ワークスペースを読み込む',
+    workspaceImportSummary: '{date} に書き出された、記事{articles}件・画像{images}枚を含むファイルです。',
+    workspaceImportMerge: '今のデータに追加',
+    workspaceImportReplace: '今のデータと置き換え',
+    workspaceImportModeHint: '追加では、同じ記事は読み飛ばし、IDが重なる別の記事には新しいIDを付けます。設定は今の値が優先され、ない項目だけが補われます。置き換えでは、今の記事と設定をすべて削除してからファイルの内容を書き込みます。',
+    workspaceImportApply: '読み込む',
+    confirmWorkspaceReplace: '今の記事・画像・設定はすべて削除されます。置き換えてよろしいですか？',
+    workspaceImported: '記事を{imported}件読み込みました（重複{skipped}件は読み飛ばしました）。',
+    workspaceImportFailed: 'ワークスペースの読み込みに失敗しました。',
+    videoProducerTitle: '🎬 AIビデオ・プロデューサー',
+    selectVeoKey: 'APIキーを選択して動画を生成',
+    downloadVideo: '動画をダウンロード',
+    videoGenerating: '紹介動画を生成中です... これには数分かかることがあります。',
+    performanceAnalyzerTitle: '📊 AIパフォーマンスアナライザー',
+    performanceRecordHeading: '実績データ',
+    views: '閲覧数',
+    engagementRate: 'エンゲージメント率',
+    conversions: 'コンバージョン',
+    addPerformance: '+ 実際のパフォーマンスを記録する',
+    qualityScores: '品質スコア',
+    personaResonance: 'ペルソナ共鳴度',
+    engagementPrediction: 'エンゲージメント予測',
+    likes: 'いいね',
+    shares: 'シェア',
+    readTime: '読了時間',
+    abTestTitles: 'A/Bテスト用タイトル案',
+    predictedCtr: '予測CTR: {ctr}',
+    factCheckAssistantTitle: '🛡️ AIファクトチェック・アシスタント',
+    factCheckInProgress: 'AIが検証中です...',
+    factCheckError: 'ファクトチェック中にエラーが発生しました。',
+    noFacts: '検証可能な事実が見つかりませんでした。',
+    factMatch: '一致',
+    factPartialMatch: '部分的に一致',
+    factNoMatch: '一致せず',
+    factStatement: '検証対象:',
+    factSource: '情報源:',
+    faqTitle: '🤔 よくある質問 (Q&A)',
+    paidDivider: 'ここから有料',
+    screenshotInstruction: 'スクリーンショット挿入指示',
+    imageFailed: '画像の生成に失敗しました。',
+    regenerateImage: '再生成',
+    editImagePrompt: 'プロンプトを編集',
+    imagePromptLabel: '画像プロンプト',
+    imageOverlayLabel: '画像内のテキスト（任意）',
+    generateWithPrompt: 'この内容で生成',
+    regeneratingImage: '生成中...',
+    imagePromptRequired: '画像プロンプトを入力してください。',
+    imageRegenerateFailed: '画像を再生成できませんでした。',
+    screenshotDropHint: '画像をドロップ、または選択してから貼り付け (Ctrl+V)',
+    screenshotChooseFile: 'ファイルを選択',
+    screenshotEdit: '切り抜き・注釈',
+    screenshotReplace: '差し替え',
+    screenshotNotImage: '画像ファイルを選択してください。',
+    screenshotSaveFailed: 'スクリーンショットを保存できませんでした。',
+    confirmRemoveScreenshot: 'このスクリーンショットを削除しますか？',
+    screenshotEditorTitle: 'スクリーンショットを編集',
+    screenshotEditorHint: 'ドラッグして切り抜き範囲や注釈を描きます。',
+    screenshotToolCrop: '切り抜き',
+    screenshotToolBox: '枠',
+    screenshotToolArrow: '矢印',
+    screenshotAnnotationColor: '注釈の色',
+    screenshotUndo: '元に戻す',
+    screenshotReset: 'すべてリセット',
+    screenshotSave: '記事に挿入',
+    chartParseError: 'グラフデータの解析に失敗しました。AIが生成したデータが不正な形式です。',
+    chartRenderError: 'グラフの描画に失敗しました。',
+    chartEditorButton: '📊 グラフを編集・挿入',
+    chartEditorTitle: 'グラフエディタ',
+    chartEditorDescription: 'カーソル位置のグラフを編集します。グラフの外にカーソルがある場合は新しいグラフを挿入します。',
+    chartTypeLabel: '種類',
+    chartTypeBar: '棒グラフ',
+    chartTypeLine: '折れ線グラフ',
+    chartTypePie: '円グラフ',
+    chartTypeDoughnut: 'ドーナツグラフ',
+    chartTypeRadar: 'レーダーチャート',
+    chartTypePolarArea: '鶏頭図',
+    chartTitleLabel: 'タイトル',
+    chartLabelsLabel: '項目ラベル (1行に1つ)',
+    chartDatasetsLabel: 'データ系列',
+    chartDatasetLabel: '系列名',
+    chartDatasetValues: '値 (カンマ区切り)',
+    chartAddDataset: '+ 系列を追加',
+    chartPreviewLabel: 'プレビュー',
+    chartApply: 'グラフを反映',
+    chartLabelsRequired: '項目ラベルを1つ以上入力してください。',
+    chartDatasetRequired: 'データ系列を1つ以上追加してください。',
+    chartValuesInvalid: '「{name}」の値は数値をカンマ区切りで入力してください。',
+    chartValuesMismatch: '「{name}」の値の数を項目ラベルの数 ({count}) に合わせてください。',
+    chartPointsInvalid: '「{name}」の値は「x y」または「x y 半径」をカンマ区切りで入力してください。',
+    chartTypeScatter: '散布図',
+    chartTypeBubble: 'バブルチャート',
+    referencesTitle: '参照元情報',
+    enhancementsTitle: '✨ 投稿アシスト機能',
+    titleSuggestionsHeading: 'タイトル案',
+    snsTextHeading: 'SNSシェア用テキスト',
+    hashtagsHeading: 'ハッシュタグ提案',
+    metaDescriptionHeading: 'メタディスクリプション (SEO用)',
+    expansionTitle: '🚀 コンテンツ展開',
+    expansionInstruction: '生成した記事を、他のメディアフォーマットに自動変換します。',
+    expansionTwitter: 'X (Twitter) スレッド',
+    expansionYoutube: 'YouTube 動画台本',
+    expansionPresentation: 'プレゼン構成案',
+    converting: '変換中...',
+    conversionError: 'コンテンツの変換中にエラーが発生しました。',
+    researchDeepDive: 'AIアシスタントで深掘り',
+    replaceSelection: '「{text}」を置き換える',
+
+    editArticleTitle: '記事を編集 (Markdown)',
+    coPilotTitle: '🤖 AI編集コパイロット',
+    coPilotDescription: 'AIに記事の改善点を提案させ、ワンクリックで修正できます。',
+    coPilotAnalyze: 'ドキュメントを分析',
+    coPilotReanalyze: 'ドキュメントを再分析',
+    coPilotInProgress: 'AIが分析中です...',
+    coPilotError: '分析中にエラーが発生しました。',
+    noSuggestions: '提案はありません。',
+    auditSuggestionsHeading: 'AI監査による更新提案:',
+    saveChanges: '変更を保存',
+    editSaveError: '変更を保存できませんでした。',
+    editAnalysisError: '変更は保存しましたが、パフォーマンス分析に失敗しました。',
+
+    initialMessage: '左のフォームに情報を入力するか、「戦略立案モード」でAIの提案を受けて、高品質な記事の自動生成を始めましょう。',
+    initialMessageDemo: 'オフラインデモモードで動作中です。AIは呼び出されず、サンプルデータで記事生成の流れを試せます。',
+    initialMessageNoKeyHtml: 'APIキーが設定されていません。<br>右上の<strong style="color: var(--primary-color);">設定</strong>ボタンからAPIキーを設定してください。',
+
+    apiKeyModalTitle: 'APIキー設定',
+    apiKeyModalDescription: 'Google AI Studioで取得したAPIキーを入力してください。キーはブラウザのローカルストレージに安全に保存されます。',
+    apiKeyPlaceholder: 'APIキーをここに貼り付け...',
+    apiKeyHintHtml: 'APIキーは<a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer">Google AI Studio</a>から取得できます。',
+    offlineDemoLabel: 'オフラインデモモード',
+    offlineDemoToggleLabel: 'APIを呼ばずにサンプルデータで動作させる (デモ・テスト用)',
+    uiLanguageLabel: '表示言語',
+    clearApiKey: 'キーを削除',
+    saveApiKey: 'キーを保存して検証',
+    apiKeyRequired: 'APIキーを入力してください。',
+    apiKeySaved: 'APIキーが正常に保存されました。',
+    apiKeyInvalid: 'APIキーが無効です。もう一度確認してください。',
+    apiKeyCleared: 'APIキーを削除しました。',
+    offlineDemoEnabled: 'オフラインデモモードを有効にしました。',
+    offlineDemoDisabled: 'オフラインデモモードを解除しました。',
+
+    brandVoiceModalTitle: 'ブランドボイス設定',
+    brandVoiceModalDescription: 'あなたの文体をAIに学習させ、生成される記事のトーンを統一します。',
+    brandVoicePrinciplesLabel: '執筆の基本原則',
+    brandVoicePrinciplesPlaceholder: '例: 常にシンプルな言葉を使う。専門用語は避ける。読者に寄り添うポジティブなトーンを維持する。',
+    brandVoiceExampleLabel: 'あなたの文体サンプル (500文字以上推奨)',
+    brandVoiceExamplePlaceholder: 'ここにあなたが書いたブログ記事や文章を貼り付けてください...',
+    saveSettings: '設定を保存',
+
+    promptLibraryTitle: '📝 プロンプト管理',
+    promptLibraryDescription: 'AIに送るプロンプトを編集できます。保存するたびに新しいバージョンが作成され、いつでも既定値に戻せます。',
+    promptLabel: 'プロンプト',
+    promptVariablesLabel: '使える変数',
+    promptSectionsHint: '{{#変数名}}…{{/変数名}} は変数が空でないときだけ、{{^変数名}}…{{/変数名}} は空のときだけ出力されます。',
+    promptVersionLabel: 'バージョン',
+    promptTemplateLabel: 'テンプレート',
+    promptVersionDefault: '既定',
+    promptVersionInUse: ' ・使用中',
+    useThisVersion: 'このバージョンを使用',
+    saveAsNewVersion: '新しいバージョンとして保存',
+    templateEmpty: 'テンプレートが空です。',
+    unknownPromptVariables: 'このプロンプトでは使えない変数があります: {names}',
+    confirmResetPrompt: 'このプロンプトを既定値に戻しますか？保存したバージョンは残ります。',
+
+    performanceModalTitle: '📈 パフォーマンスを記録',
+    performanceModalDescription: '公開後の記事の成果を記録して、AIの学習に役立てましょう。',
+    performanceViewsLabel: '閲覧数 (PV)',
+    performanceViewsPlaceholder: '例: 10500',
+    performanceEngagementRateLabel: 'エンゲージメント率 (%)',
+    performanceEngagementRatePlaceholder: '例: 5.8',
+    performanceConversionsLabel: 'コンバージョン数 (CV)',
+    performanceConversionsPlaceholder: '例: 120',
+    saveRecord: '記録を保存',
+
+    researchModalTitle: '🤖 AIリサーチアシスタント',
+    researchModalDescription: '選択したトピックについて、AIが最新情報を元に深掘りしました。',
+    researchInProgress: 'AIが調査・執筆中です...',
+    insertIntoArticle: '記事に挿入',
+
+    scheduleModalTitle: '📅 コンテンツを予約',
+    scheduleModalDescription: 'この記事の公開日時を設定してください。',
+    scheduleDatetimeLabel: '公開日時',
+    removeSchedule: '予約を解除',
+    setSchedule: '予約を設定',
+    updateSchedule: '予約を更新',
+    invalidDatetime: '有効な日時を選択してください。',
+
+    auditModalTitle: '🔄 コンテンツ鮮度監査',
+    auditModalDescription: 'AIがこの記事の最新性をチェックし、更新案を提案します。',
+    auditInProgress: 'Google検索で最新情報を調査し、記事と比較しています...',
+    editWithSuggestions: '提案を元に編集する',
+    articleUpToDate: '素晴らしい！この記事は現在でも最新の状態です。',
+    auditArea: 'エリア: {area}',
+    auditError: 'コンテンツの監査中にエラーが発生しました。',
+};
+type MessageKey = keyof typeof UI_MESSAGES_JA;
+
+const UI_MESSAGES: Record<LanguageCode, Record<MessageKey, string>> = {
+    'ja': UI_MESSAGES_JA,
+    'en': {
+        appTitle: 'AI Article Architect',
+        appTagline: 'AI turns your ideas into polished, illustrated articles.',
+        modeStrategy: 'Strategy',
+        modeCreate: 'Create',
+        modeHistory: 'Products',
+        titleStrategy: 'Plan a content strategy',
+        titleCreate: 'Design your article',
+        titleHistory: 'Products',
+        brandVoiceButton: 'Brand voice',
+        brandVoiceButtonTitle: 'Brand voice settings',
+        promptLibraryButton: 'Prompts',
+        promptLibraryButtonTitle: 'Manage prompts',
+        settingsButton: 'Settings',
+        settingsButtonTitle: 'API key settings',
+        cancel: 'Cancel',
+        cancelling: 'Cancelling...',
+        save: 'Save',
+        saving: 'Saving...',
+        resetToDefault: 'Reset to default',
+        edit: 'Edit',
+        copy: 'Copy',
+        copied: 'Copied!',
+        exportHtml: 'Export HTML',
+        apply: 'Apply',
+        discard: 'Discard',
+        verifying: 'Verifying...',
+        analyzing: 'Analyzing...',
+        generating: 'Generating...',
+        errorOccurred: 'An error occurred.',
+
+        strategyThemeLabel: 'Main topic',
+        strategyThemePlaceholder: 'e.g. side hustles, web marketing, health',
+        strategyGenerate: 'Ask AI for a strategy',
+        strategyGenerateFromData: 'Suggest from past successes',
+        strategyResultsTitle: 'Strategy suggestions',
+        strategyInstruction: 'Pick one of the suggestions below and the article design is filled in for you. Check several to generate them together in the background.',
+        strategyKeyword: 'Keyword',
+        strategyIntent: 'Search intent',
+        strategyPersona: 'Target persona',
+        strategyInsufficientData: 'Not enough successful articles to analyze yet. Record article performance from the product list first.',
+        strategyError: 'An error occurred while generating the strategy.',
+        batchPickRuleLabel: 'How to pick the outline and design',
+        batchPickFirst: 'Use the first suggestion',
+        batchPickAiRanked: 'Let AI pick the best one',
+        batchConcurrencyLabel: 'Concurrent jobs',
+        batchQueueSelected: 'Generate selected suggestions',
+        batchNoneSelected: 'Check the suggestions you want to generate.',
+        batchQueueTitle: 'Batch queue',
+        batchClearCompleted: 'Clear completed jobs',
+        batchStatusQueued: 'Queued',
+        batchStatusRunning: 'Generating',
+        batchStatusCompleted: 'Done (saved to history)',
+        batchStatusFailed: 'Failed',
+        batchStatusCancelled: 'Cancelled',
+        batchPlanning: 'Researching and picking an outline',
+        batchAttempts: 'attempt {count}',
+        batchInterrupted: 'Interrupted by a page reload. Retry to continue from the last saved step.',
+        retry: 'Retry',
+
+        themeLabel: 'Topic / keywords',
+        themePlaceholder: 'e.g. latest AI trends, effective social media marketing',
+        personaLabel: 'Target reader (persona)',
+        personaPlaceholder: 'e.g. beginner web developers, corporate marketers',
+        expertPersonaLabel: 'Expert persona (optional)',
+        expertPersonaHint: 'Have the AI write as a specific expert for a more authoritative article.',
+        expertPersonaPlaceholder: 'e.g. financial planner with 15 years of experience, practicing pediatrician',
+        referenceLabel: 'Reference material (optional)',
+        referenceHint: 'Upload a text file (.txt, .md) to base the article on, or paste its contents. For PDFs, copy and paste the text.',
+        fileUploadLabel: 'Choose a file or drag & drop',
+        referencePlaceholder: 'Paste reference text here...',
+        textFilesOnly: 'Only text files (.txt, .md) can be uploaded.',
+        toneLabel: 'Tone',
+        toneProfessional: 'Professional',
+        toneFriendly: 'Friendly',
+        tonePolite: 'Polite',
+        tonePassionate: 'Passionate',
+        toneHumorous: 'Humorous',
+        articleLanguageLabel: 'Article language',
+        articleLanguageHint: 'Outlines, body, Q&A, posting assists, fact check and audio are all generated in this language.',
+        articleTypeLabel: 'Article type',
+        articleTypeFree: 'Free',
+        articleTypePaid: 'Paid',
+        videoProducerLabel: 'AI video producer 🎬',
+        longFormLabel: 'Long-form mode 📚',
+        longFormToggleLabel: 'Write each heading separately (for long paid articles)',
+        videoToggleLabel: 'Generate a promo video (ON/OFF)',
+        salesSettingsTitle: '💰 Sales settings (optional)',
+        priceLabel: 'Price (JPY)',
+        pricePlaceholder: 'e.g. 500',
+        productDescriptionLabel: 'Product description',
+        productDescriptionPlaceholder: 'A compelling description shown on the sales page',
+        suggestOutlines: 'Ask AI for outlines',
+        outlineSuggestionsTitle: '🤖 Outline suggestions',
+        outlineSuggestionsInstruction: 'Outlines tailored to your persona. Pick one to move on to the design.',
+        backToForm: 'Back to the form',
+        creativeDirectorTitle: '🎨 AI creative director',
+        creativeDirectorInstruction: 'Pick the design style that sets the tone of the article. It is applied throughout.',
+        backToOutlines: 'Back to the outlines',
+        generateArticle: 'Generate article',
+        researchingTopic: 'AI is researching the topic...',
+        creatingOutlines: 'Drafting outlines from the research...',
+        outlineError: 'An error occurred while generating outlines.',
+        apiErrorAuth: 'The API key is invalid or lacks access to this model. Check the key in Settings.',
+        apiErrorQuota: 'The API usage limit (rate limit or quota) was reached. Wait a while before resuming, or check your plan\'s limits.',
+        apiErrorSafety: 'The response was blocked by the safety filters. Try a different theme or wording.',
+        apiErrorTransient: 'The API server or network kept failing temporarily. Try resuming later.',
+        apiErrorBadRequest: 'The API rejected the request. Check the model settings and your input.',
+        creatingDirections: 'Creating design directions...',
+
+        progressCoreText: '✍️ Writing the article...',
+        progressDecorate: '🎨 Decorating and planning visuals...',
+        progressImages: '🖼️ Generating images...',
+        progressFaq: '💡 Writing the Q&A section...',
+        progressPerformance: '🚀 Analyzing and predicting performance...',
+        progressEnhancements: '✨ Generating posting assists...',
+        progressComplete: '✅ Your article is ready!',
+        streamPreviewTitle: 'Draft preview',
+        streamWordCount: '{words} words · {chars} characters',
+        streamHeadingCoverage: 'Outline headings {covered}/{total}',
+        streamOffOutline: 'Headings not in the outline: {headings}',
+        headingDone: 'Written',
+        headingWriting: 'Writing',
+        headingSkipped: 'Skipped',
+        headingPending: 'Not started',
+        resumeFromStep: 'Resume from the interrupted step',
+        confirmDiscardDraft: 'Discard the partially generated article?',
+        draftNotFound: 'No draft to resume was found.',
+        draftInterrupted: 'Generation of "{title}" was interrupted.',
+        generationCancelled: 'Generation cancelled. Everything up to the last completed step has been saved.',
+        generationError: 'An error occurred while generating the article: {message}',
+        emptyCoreText: 'The AI failed to write the article body (step 1): the response was empty.',
+        invalidAiResponse: 'The AI response did not match the expected format ({problems}).',
+        decorateFailed: 'The AI failed to decorate the article: {message}',
+        decorationLostContent: 'Decoration dropped {count} block(s) of the article text, so it was not saved (e.g. "{sample}"). Resume from this step to try again.',
+        noImagesGenerated: 'Not a single image could be generated.',
+        faqFailed: 'Failed to generate the Q&A section.',
+        analysisDigestFailed: 'Failed to condense the long article for analysis.',
+        performanceFailed: 'Performance analysis failed.',
+
+        usageTitle: '💰 Usage and estimated cost',
+        usageMonth: 'Month',
+        usageCalls: 'Calls',
+        usageInputTokens: 'Input tokens',
+        usageOutputTokens: 'Output tokens',
+        usageImages: 'Images',
+        usageVideos: 'Videos',
+        usageCost: 'Est. cost',
+        usageToday: 'Estimated cost today: {cost} ({calls} calls)',
+        usageEmpty: 'No usage recorded yet.',
+        usageArticleCost: 'Est. cost {cost} ({tokens} tokens)',
+        priceTableSummary: 'Edit price table (USD)',
+        priceTableHint: 'Per model name: input and output price per 1M tokens (input, output), price per image (perImage) and per video (perVideo).',
+        priceTableSaved: 'Price table saved.',
+        priceTableInvalid: 'The price table is malformed. Give each model name numbers of 0 or more.',
+        confirmResetPriceTable: 'Reset the price table to the defaults?',
+        modelSettingsSummary: 'Models and generation parameters',
+        modelSettingsHint: 'Set the model, temperature and maximum output tokens for each stage. Blank fields keep the default model and the API defaults. Images, speech and video only take a model.',
+        modelSettingsStage: 'Stage',
+        modelSettingsModel: 'Model',
+        modelSettingsTemperature: 'Temperature',
+        modelSettingsMaxOutput: 'Max output',
+        modelSettingsApiDefault: 'Default',
+        modelSettingsSaved: 'Model settings saved.',
+        modelSettingsInvalid: 'Temperature must be between 0 and 2, and max output a whole number of 1 or more.',
+        confirmResetModelSettings: 'Reset the model settings to the defaults?',
+        stageResearch: 'Research',
+        stageOutlines: 'Outlines and designs',
+        stageCoreText: 'Core text',
+        stageDecoration: 'Decoration',
+        stageImages: 'Images',
+        stageFaq: 'FAQ',
+        stageAnalysis: 'Performance analysis',
+        stageEnhancements: 'Enhancements',
+        stageFactCheck: 'Fact check',
+        stageAudit: 'Content audit',
+        stageTts: 'Text to speech',
+        stageVideo: 'Video',
+        stageStrategy: 'Content strategy',
+        stageEditorAssist: 'Editor assist (co-pilot, proofreading, repurposing)',
+        stageContextResearch: 'Extra research',
+
+        historyEmpty: 'No articles yet.',
+        historyNoMatches: 'No articles match these conditions.',
+        historySearchPlaceholder: 'Search themes, text, hashtags and more',
+        historyFiltersSummary: 'Filter and sort',
+        historyFilterType: 'Type',
+        filterAll: 'All',
+        filterPaid: 'Paid',
+        historyFilterPrice: 'Price (JPY)',
+        filterMin: 'Min',
+        filterMax: 'Max',
+        historyFilterSchedule: 'Scheduled post',
+        filterScheduled: 'Scheduled',
+        filterUnscheduled: 'Not scheduled',
+        historyFilterFactCheck: 'Fact check',
+        filterChecked: 'Checked',
+        filterUnchecked: 'Not checked',
+        historyFilterVideo: 'Promo video',
+        filterVideoNone: 'None',
+        filterVideoPending: 'Generating',
+        filterVideoCompleted: 'Ready',
+        filterVideoFailed: 'Failed',
+        historyFilterDate: 'Created',
+        historySort: 'Sort by',
+        sortCreatedDesc: 'Created (newest first)',
+        sortCreatedAsc: 'Created (oldest first)',
+        sortScheduled: 'Scheduled time (soonest first)',
+        sortQuality: 'Quality score (highest first)',
+        sortViews: 'Views (most first)',
+        historyFilterReset: 'Clear filters',
+        historyPrev: '← Previous',
+        historyNext: 'Next →',
+        historyPageInfo: 'Page {page} of {pages} ({total} articles)',
+        historySaveFailed: 'Failed to save the history. Browser storage may be full.',
+        notForSale: 'Not for sale',
+        scheduledBadge: 'Scheduled',
+        lastChecked: 'Last checked: {date}',
+        preview: 'Preview',
+        performanceInput: 'Record results',
+        checkForUpdate: 'Check for updates',
+        delete: 'Delete',
+        loadingArticle: 'Loading the article...',
+        confirmDeleteProduct: 'Delete this product?',
+        noProductDescription: 'No product description.',
+        free: 'Free',
+        buy: 'Buy',
+        readMore: 'Read more',
+
+        generatedArticleTitle: 'Generated article',
+        readAloud: 'Read aloud',
+        readAloudTitle: 'Read aloud with the browser',
+        stopReading: 'Stop',
+        audioArticle: 'Audio article',
+        audioArticleTitle: 'Listen to the article in a high-quality AI voice',
+        audioError: 'Failed to generate audio.',
+        proofread: 'AI proofread',
+        proofreadTitle: 'Final proofread by AI',
+        proofreading: 'Proofreading...',
+        proofreadError: 'An error occurred during AI proofreading.',
+        factCheck: 'Fact check',
+        factCheckTitle: 'AI fact check',
+        schedule: 'Schedule',
+        scheduleTitle: 'Schedule publication',
+        editTitle: 'Edit the article',
+        copyTitle: 'Copy the article text',
+        exportHtmlTitle: 'Save as a single HTML file with images and charts embedded',
+        exportHtmlFailed: 'Failed to export HTML.',
+        cmsExport: 'Export',
+        cmsExportModalTitle: '📦 Export for a CMS',
+        cmsExportDescription: 'Export in the format your publishing platform expects. Image, chart and box placeholders are converted to plain markup, and the paid line becomes each platform\'s paywall marker.',
+        cmsExportWordpress: 'WordPress (WXR XML)',
+        cmsExportMarkdown: 'Markdown (for note)',
+        cmsExportZip: 'Markdown + images folder (ZIP)',
+        cmsExportWordpressHint: 'Import it from Tools → Import → WordPress. Images are embedded in the post and the paid line becomes the "more" tag. The post is scheduled if a publish time is set, and saved as a draft otherwise.',
+        cmsExportMarkdownHint: 'Text-only markdown (images are not included). The paid line is marked, so set the paid area there in the note editor.',
+        cmsExportZipHint: 'A ZIP with article.md and an images/ folder. Image links point into images/, and the paid line becomes <!--more-->.',
+        cmsExportDownload: 'Download',
+        cmsExportFailed: 'Export failed.',
+        epubExportTitle: 'Create an e-book (EPUB) for buyers',
+        epubExportFailed: 'Failed to create the EPUB.',
+        epubTableOfContents: 'Contents',
+        epubBackMatter: 'FAQ and references',
+        printTitle: 'Open a print layout to save as PDF',
+        printPopupBlocked: 'Could not open the print window. Please allow pop-ups.',
+        printFailed: 'Failed to prepare the print layout.',
+        workspaceTitle: '🗄️ Workspace backup',
+        workspaceHint: 'Bundles your articles and images, brand voice, model, prompt and price settings, and usage history into one file. Your API key is not included.',
+        workspaceExport: 'Export workspace',
+        workspaceImport: 'Import workspace',
+        workspaceExportFailed: 'Failed to export the workspace.',
+        workspaceNotJson: 'not valid JSON',
+        workspaceInvalid: 'This is not a workspace file that can be imported ({problems}).',
+        workspaceImportModalTitle: '🗄️ Import workspace',
+        workspaceImportSummary: 'Exported on {date}, with {articles} articles and {images} images.',
+        workspaceImportMerge: 'Merge into this workspace',
+        workspaceImportReplace: 'Replace this workspace',
+        workspaceImportModeHint: 'Merge skips articles you already have and gives a new id to a different article whose id is taken. Your current settings win, and only missing ones are filled in. Replace deletes every article and setting here before writing the file\'s contents.',
+        workspaceImportApply: 'Import',
+        confirmWorkspaceReplace: 'All current articles, images and settings will be deleted. Replace them?',
+        workspaceImported: 'Imported {imported} articles ({skipped} duplicates skipped).',
+        workspaceImportFailed: 'Failed to import the workspace.',
+        videoProducerTitle: '🎬 AI video producer',
+        selectVeoKey: 'Select an API key to generate the video',
+        downloadVideo: 'Download video',
+        videoGenerating: 'Generating the promo video... This can take a few minutes.',
+        performanceAnalyzerTitle: '📊 AI performance analyzer',
+        performanceRecordHeading: 'Actual results',
+        views: 'Views',
+        engagementRate: 'Engagement rate',
+        conversions: 'Conversions',
+        addPerformance: '+ Record actual performance',
+        qualityScores: 'Quality scores',
+        personaResonance: 'Persona resonance',
+        engagementPrediction: 'Engagement prediction',
+        likes: 'Likes',
+        shares: 'Shares',
+        readTime: 'Read time',
+        abTestTitles: 'Titles for A/B testing',
+        predictedCtr: 'Predicted CTR: {ctr}',
+        factCheckAssistantTitle: '🛡️ AI fact-check assistant',
+        factCheckInProgress: 'AI is verifying...',
+        factCheckError: 'An error occurred during the fact check.',
+        noFacts: 'No verifiable facts were found.',
+        factMatch: 'Match',
+        factPartialMatch: 'Partial match',
+        factNoMatch: 'No match',
+        factStatement: 'Statement:',
+        factSource: 'Source:',
+        faqTitle: '🤔 Frequently asked questions',
+        paidDivider: 'Paid content below',
+        screenshotInstruction: 'Screenshot instructions',
+        imageFailed: 'Failed to generate the image.',
+        regenerateImage: 'Regenerate',
+        editImagePrompt: 'Edit prompt',
+        imagePromptLabel: 'Image prompt',
+        imageOverlayLabel: 'Text in the image (optional)',
+        generateWithPrompt: 'Generate with this prompt',
+        regeneratingImage: 'Generating...',
+        imagePromptRequired: 'Please enter an image prompt.',
+        imageRegenerateFailed: 'Could not regenerate the image.',
+        screenshotDropHint: 'Drop an image here, or click and paste (Ctrl+V)',
+        screenshotChooseFile: 'Choose file',
+        screenshotEdit: 'Crop & annotate',
+        screenshotReplace: 'Replace',
+        screenshotNotImage: 'Please choose an image file.',
+        screenshotSaveFailed: 'Could not save the screenshot.',
+        confirmRemoveScreenshot: 'Remove this screenshot?',
+        screenshotEditorTitle: 'Edit screenshot',
+        screenshotEditorHint: 'Drag on the image to crop or draw annotations.',
+        screenshotToolCrop: 'Crop',
+        screenshotToolBox: 'Box',
+        screenshotToolArrow: 'Arrow',
+        screenshotAnnotationColor: 'Annotation color',
+        screenshotUndo: 'Undo',
+        screenshotReset: 'Reset all',
+        screenshotSave: 'Insert into article',
+        chartParseError: 'Failed to parse the chart data. The AI produced malformed data.',
+        chartRenderError: 'Failed to draw the chart.',
+        chartEditorButton: '📊 Edit / insert chart',
+        chartEditorTitle: 'Chart editor',
+        chartEditorDescription: 'Edits the chart under the cursor. If the cursor is outside a chart, a new chart is inserted there.',
+        chartTypeLabel: 'Type',
+        chartTypeBar: 'Bar',
+        chartTypeLine: 'Line',
+        chartTypePie: 'Pie',
+        chartTypeDoughnut: 'Doughnut',
+        chartTypeRadar: 'Radar',
+        chartTypePolarArea: 'Polar area',
+        chartTitleLabel: 'Title',
+        chartLabelsLabel: 'Labels (one per line)',
+        chartDatasetsLabel: 'Datasets',
+        chartDatasetLabel: 'Dataset name',
+        chartDatasetValues: 'Values (comma-separated)',
+        chartAddDataset: '+ Add dataset',
+        chartPreviewLabel: 'Preview',
+        chartApply: 'Apply chart',
+        chartLabelsRequired: 'Enter at least one label.',
+        chartDatasetRequired: 'Add at least one dataset.',
+        chartValuesInvalid: 'Enter the values of "{name}" as comma-separated numbers.',
+        chartValuesMismatch: '"{name}" needs one value per label ({count}).',
+        chartPointsInvalid: 'Enter the values of "{name}" as comma-separated "x y" or "x y radius" groups.',
+        chartTypeScatter: 'Scatter',
+        chartTypeBubble: 'Bubble',
+        referencesTitle: 'References',
+        enhancementsTitle: '✨ Posting assists',
+        titleSuggestionsHeading: 'Title ideas',
+        snsTextHeading: 'Social share text',
+        hashtagsHeading: 'Suggested hashtags',
+        metaDescriptionHeading: 'Meta description (SEO)',
+        expansionTitle: '🚀 Content repurposing',
+        expansionInstruction: 'Convert the article into other media formats automatically.',
+        expansionTwitter: 'X (Twitter) thread',
+        expansionYoutube: 'YouTube script',
+        expansionPresentation: 'Presentation outline',
+        converting: 'Converting...',
+        conversionError: 'An error occurred while converting the content.',
+        researchDeepDive: 'Dig deeper with the AI assistant',
+        replaceSelection: 'Replace "{text}"',
+
+        editArticleTitle: 'Edit article (Markdown)',
+        coPilotTitle: '🤖 AI editing co-pilot',
+        coPilotDescription: 'Let AI suggest improvements and apply them with one click.',
+        coPilotAnalyze: 'Analyze document',
+        coPilotReanalyze: 'Analyze again',
+        coPilotInProgress: 'AI is analyzing...',
+        coPilotError: 'An error occurred during the analysis.',
+        noSuggestions: 'No suggestions.',
+        auditSuggestionsHeading: 'Update suggestions from the AI audit:',
+        saveChanges: 'Save changes',
+        editSaveError: 'Could not save the changes.',
+        editAnalysisError: 'The changes were saved, but the performance analysis failed.',
+
+        initialMessage: 'Fill in the form on the left, or get AI suggestions in Strategy mode, to start generating high-quality articles automatically.',
+        initialMessageDemo: 'Running in offline demo mode. No AI is called; sample data lets you try the article generation flow.',
+        initialMessageNoKeyHtml: 'No API key is set.<br>Set one from the <strong style="color: var(--primary-color);">Settings</strong> button at the top right.',
+
+        apiKeyModalTitle: 'API key settings',
+        apiKeyModalDescription: 'Enter the API key you got from Google AI Studio. It is stored in your browser\'s local storage.',
+        apiKeyPlaceholder: 'Paste your API key here...',
+        apiKeyHintHtml: 'You can get an API key from <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer">Google AI Studio</a>.',
+        offlineDemoLabel: 'Offline demo mode',
+        offlineDemoToggleLabel: 'Run on sample data without calling the API (for demos and testing)',
+        uiLanguageLabel: 'Display language',
+        clearApiKey: 'Delete key',
+        saveApiKey: 'Save and verify key',
+        apiKeyRequired: 'Please enter an API key.',
+        apiKeySaved: 'API key saved.',
+        apiKeyInvalid: 'The API key is invalid. Please check it and try again.',
+        apiKeyCleared: 'API key deleted.',
+        offlineDemoEnabled: 'Offline demo mode enabled.',
+        offlineDemoDisabled: 'Offline demo mode disabled.',
+
+        brandVoiceModalTitle: 'Brand voice settings',
+        brandVoiceModalDescription: 'Teach the AI your writing style so every generated article sounds like you.',
+        brandVoicePrinciplesLabel: 'Writing principles',
+        brandVoicePrinciplesPlaceholder: 'e.g. Always use simple words. Avoid jargon. Keep a positive tone that stays close to the reader.',
+        brandVoiceExampleLabel: 'Sample of your writing (500+ characters recommended)',
+        brandVoiceExamplePlaceholder: 'Paste a blog post or other text you have written...',
+        saveSettings: 'Save settings',
+
+        promptLibraryTitle: '📝 Prompt library',
+        promptLibraryDescription: 'Edit the prompts sent to the AI. Every save creates a new version, and you can always go back to the default.',
+        promptLabel: 'Prompt',
+        promptVariablesLabel: 'Available variables',
+        promptSectionsHint: '{{#name}}…{{/name}} is output only when the variable is non-empty, {{^name}}…{{/name}} only when it is empty.',
+        promptVersionLabel: 'Version',
+        promptTemplateLabel: 'Template',
+        promptVersionDefault: 'Default',
+        promptVersionInUse: ' · in use',
+        useThisVersion: 'Use this version',
+        saveAsNewVersion: 'Save as new version',
+        templateEmpty: 'The template is empty.',
+        unknownPromptVariables: 'This prompt cannot use these variables: {names}',
+        confirmResetPrompt: 'Reset this prompt to the default? Saved versions are kept.',
+
+        performanceModalTitle: '📈 Record performance',
+        performanceModalDescription: 'Record how the article did after publishing to help the AI learn.',
+        performanceViewsLabel: 'Views (PV)',
+        performanceViewsPlaceholder: 'e.g. 10500',
+        performanceEngagementRateLabel: 'Engagement rate (%)',
+        performanceEngagementRatePlaceholder: 'e.g. 5.8',
+        performanceConversionsLabel: 'Conversions (CV)',
+        performanceConversionsPlaceholder: 'e.g. 120',
+        saveRecord: 'Save record',
+
+        researchModalTitle: '🤖 AI research assistant',
+        researchModalDescription: 'The AI dug deeper into the selected topic using up-to-date information.',
+        researchInProgress: 'AI is researching and writing...',
+        insertIntoArticle: 'Insert into article',
+
+        scheduleModalTitle: '📅 Schedule content',
+        scheduleModalDescription: 'Set when this article should be published.',
+        scheduleDatetimeLabel: 'Publish at',
+        removeSchedule: 'Remove schedule',
+        setSchedule: 'Schedule',
+        updateSchedule: 'Update schedule',
+        invalidDatetime: 'Please pick a valid date and time.',
+
+        auditModalTitle: '🔄 Content freshness audit',
+        auditModalDescription: 'AI checks whether this article is still current and suggests updates.',
+        auditInProgress: 'Researching the latest information with Google Search and comparing it with the article...',
+        editWithSuggestions: 'Edit with these suggestions',
+        articleUpToDate: 'Great! This article is still up to date.',
+        auditArea: 'Area: {area}',
+        auditError: 'An error occurred during the content audit.',
+    },
+    'zh-TW': {
+        appTitle: 'AI 文章建築師',
+        appTagline: '由 AI 將您的想法昇華為圖文並茂的高品質文章。',
+        modeStrategy: '策略規劃',
+        modeCreate: '新建文章',
+        modeHistory: '商品管理',
+        titleStrategy: '規劃內容策略',
+        titleCreate: '建立文章藍圖',
+        titleHistory: '商品管理',
+        brandVoiceButton: '品牌語調',
+        brandVoiceButtonTitle: '品牌語調設定',
+        promptLibraryButton: '提示詞',
+        promptLibraryButtonTitle: '提示詞管理',
+        settingsButton: '設定',
+        settingsButtonTitle: 'API 金鑰設定',
+        cancel: '取消',
+        cancelling: '取消中...',
+        save: '儲存',
+        saving: '儲存中...',
+        resetToDefault: '恢復預設值',
+        edit: '編輯',
+        copy: '複製',
+        copied: '已複製！',
+        exportHtml: '匯出 HTML',
+        apply: '套用',
+        discard: '捨棄',
+        verifying: '驗證中...',
+        analyzing: '分析中...',
+        generating: '生成中...',
+        errorOccurred: '發生錯誤。',
+
+        strategyThemeLabel: '文章主題',
+        strategyThemePlaceholder: '例：副業、網路行銷、健康',
+        strategyGenerate: '請 AI 提出策略',
+        strategyGenerateFromData: '根據過去的成功資料提案',
+        strategyResultsTitle: 'AI 的策略提案',
+        strategyInstruction: '從下列提案中選擇一項，系統會自動建立文章藍圖。勾選多項提案即可在背景一次生成。',
+        strategyKeyword: '關鍵字',
+        strategyIntent: '搜尋意圖',
+        strategyPersona: '目標人物誌',
+        strategyInsufficientData: '可供分析的成功資料不足。請先在商品管理中輸入文章成效。',
+        strategyError: '生成策略時發生錯誤。',
+        batchPickRuleLabel: '大綱與設計的選擇方式',
+        batchPickFirst: '使用第一個提案',
+        batchPickAiRanked: '由 AI 選出最佳提案',
+        batchConcurrencyLabel: '同時執行數',
+        batchQueueSelected: '批次生成勾選的提案',
+        batchNoneSelected: '請勾選要批次生成的提案。',
+        batchQueueTitle: '批次生成佇列',
+        batchClearCompleted: '清除已完成的工作',
+        batchStatusQueued: '等待中',
+        batchStatusRunning: '生成中',
+        batchStatusCompleted: '完成（已存入歷史紀錄）',
+        batchStatusFailed: '失敗',
+        batchStatusCancelled: '已取消',
+        batchPlanning: '調查並選定大綱',
+        batchAttempts: '第 {count} 次',
+        batchInterrupted: '因重新載入頁面而中斷。重試即可從最後儲存的步驟繼續。',
+        retry: '重試',
+
+        themeLabel: '文章主題・關鍵字',
+        themePlaceholder: '例：最新 AI 趨勢、有效的社群行銷',
+        personaLabel: '目標讀者（人物誌）',
+        personaPlaceholder: '例：網頁開發新手、企業行銷負責人',
+        expertPersonaLabel: '專家設定（選填）',
+        expertPersonaHint: '讓 AI 化身為特定專家，生成更具專業性的文章。',
+        expertPersonaPlaceholder: '例：資歷 15 年的理財規劃師、現任小兒科醫師',
+        referenceLabel: '參考資料（選填）',
+        referenceHint: '上傳作為文章基礎的文字檔（.txt、.md），或直接貼上內容。PDF 請複製並貼上文字。',
+        fileUploadLabel: '選擇檔案或拖放至此',
+        referencePlaceholder: '在此貼上參考文字...',
+        textFilesOnly: '只能上傳文字檔（.txt、.md）。',
+        toneLabel: '文章語氣',
+        toneProfessional: '專業',
+        toneFriendly: '親切',
+        tonePolite: '禮貌',
+        tonePassionate: '熱情',
+        toneHumorous: '幽默',
+        articleLanguageLabel: '文章語言',
+        articleLanguageHint: '從大綱、內文、Q&A、發文輔助、事實查核到語音，皆以此語言生成。',
+        articleTypeLabel: '文章類型',
+        articleTypeFree: '免費文章',
+        articleTypePaid: '付費文章',
+        videoProducerLabel: 'AI 影片製作人 🎬',
+        longFormLabel: '長文模式 📚',
+        longFormToggleLabel: '逐一撰寫每個標題（適合長篇付費文章）',
+        videoToggleLabel: '生成介紹影片（開／關）',
+        salesSettingsTitle: '💰 銷售設定（選填）',
+        priceLabel: '售價（日圓）',
+        pricePlaceholder: '例：500',
+        productDescriptionLabel: '商品說明',
+        productDescriptionPlaceholder: '輸入顯示在銷售頁面、吸引人的商品說明',
+        suggestOutlines: '請 AI 提出大綱',
+        outlineSuggestionsTitle: '🤖 AI 的大綱提案',
+        outlineSuggestionsInstruction: '根據人物誌分析的最佳大綱。請選擇一項，進入設計選擇。',
+        backToForm: '返回輸入',
+        creativeDirectorTitle: '🎨 AI 創意總監',
+        creativeDirectorInstruction: '請選擇決定文章印象的設計風格。所選風格將套用於整篇文章。',
+        backToOutlines: '返回大綱選擇',
+        generateArticle: '生成文章',
+        researchingTopic: 'AI 正在研究主題...',
+        creatingOutlines: '正在根據研究結果建立大綱...',
+        outlineError: '生成大綱時發生錯誤。',
+        apiErrorAuth: 'API 金鑰無效，或沒有使用此模型的權限。請在設定中確認 API 金鑰。',
+        apiErrorQuota: '已達到 API 使用上限（速率限制或配額）。請稍候再繼續，或確認方案的上限。',
+        apiErrorSafety: '回應已被安全過濾器封鎖。請更換主題或表達方式再試一次。',
+        apiErrorTransient: 'API 伺服器或網路持續發生暫時性錯誤。請稍後再繼續。',
+        apiErrorBadRequest: 'API 不接受此請求。請確認模型設定與輸入內容。',
+        creatingDirections: '正在建立設計方案...',
+
+        progressCoreText: '✍️ 正在撰寫文章內文...',
+        progressDecorate: '🎨 正在裝飾文章並規劃視覺...',
+        progressImages: '🖼️ 正在生成圖片...',
+        progressFaq: '💡 正在建立 Q&A 區塊...',
+        progressPerformance: '🚀 正在分析並預測成效...',
+        progressEnhancements: '✨ 正在生成發文輔助資訊...',
+        progressComplete: '✅ 文章已完成！',
+        streamPreviewTitle: '內文預覽',
+        streamWordCount: '{words} 詞・{chars} 字',
+        streamHeadingCoverage: '大綱標題 {covered}/{total}',
+        streamOffOutline: '大綱以外的標題：{headings}',
+        headingDone: '已撰寫',
+        headingWriting: '撰寫中',
+        headingSkipped: '已跳過',
+        headingPending: '尚未開始',
+        resumeFromStep: '從中斷的步驟繼續',
+        confirmDiscardDraft: '要捨棄生成到一半的內容嗎？',
+        draftNotFound: '找不到可繼續的草稿。',
+        draftInterrupted: '「{title}」的生成已中斷。',
+        generationCancelled: '已取消生成。已完成步驟的內容皆已保存。',
+        generationError: '生成文章時發生錯誤：{message}',
+        emptyCoreText: 'AI 未能生成文章內文（步驟 1）。回應為空。',
+        invalidAiResponse: 'AI 的回應與預期格式不符（{problems}）。',
+        decorateFailed: 'AI 裝飾文章失敗：{message}',
+        decorationLostContent: '裝飾後的文章遺漏了 {count} 處內文，因此未儲存（例如：「{sample}」）。請從此步驟重新開始。',
+        noImagesGenerated: '一張圖片也無法生成。',
+        faqFailed: 'Q&A 區塊生成失敗。',
+        analysisDigestFailed: '長篇文章摘要失敗。',
+        performanceFailed: '成效分析失敗。',
+
+        usageTitle: '💰 使用狀況與預估費用',
+        usageMonth: '月份',
+        usageCalls: '呼叫次數',
+        usageInputTokens: '輸入 token',
+        usageOutputTokens: '輸出 token',
+        usageImages: '圖片',
+        usageVideos: '影片',
+        usageCost: '預估費用',
+        usageToday: '今日預估費用：{cost}（{calls} 次呼叫）',
+        usageEmpty: '尚無使用紀錄。',
+        usageArticleCost: '預估費用 {cost}（{tokens} tokens）',
+        priceTableSummary: '編輯價格表（USD）',
+        priceTableHint: '依模型名稱指定每 100 萬 token 的輸入價格（input）、輸出價格（output），以及每張圖片（perImage）、每支影片（perVideo）的價格。',
+        priceTableSaved: '已儲存價格表。',
+        priceTableInvalid: '價格表格式不正確。請為每個模型名稱指定 0 以上的數值。',
+        confirmResetPriceTable: '要將價格表恢復為預設值嗎？',
+        modelSettingsSummary: '模型與生成參數',
+        modelSettingsHint: '為每個工序指定使用的模型、temperature 與最大輸出 token 數。留白的欄位維持預設模型與 API 預設值。圖片、語音與影片只能變更模型。',
+        modelSettingsStage: '工序',
+        modelSettingsModel: '模型',
+        modelSettingsTemperature: 'Temperature',
+        modelSettingsMaxOutput: '最大輸出',
+        modelSettingsApiDefault: '預設',
+        modelSettingsSaved: '已儲存模型設定。',
+        modelSettingsInvalid: 'temperature 請指定 0～2，最大輸出請指定 1 以上的整數。',
+        confirmResetModelSettings: '要將模型設定恢復為預設值嗎？',
+        stageResearch: '研究',
+        stageOutlines: '大綱與設計方案',
+        stageCoreText: '撰寫內文',
+        stageDecoration: '裝飾',
+        stageImages: '圖片生成',
+        stageFaq: 'FAQ',
+        stageAnalysis: '成效分析',
+        stageEnhancements: '改善建議',
+        stageFactCheck: '事實查核',
+        stageAudit: '內容稽核',
+        stageTts: '語音朗讀',
+        stageVideo: '影片生成',
+        stageStrategy: '內容策略',
+        stageEditorAssist: '編輯輔助（Co-pilot、校對、轉用）',
+        stageContextResearch: '追加研究',
+
+        historyEmpty: '尚無建立紀錄。',
+        historyNoMatches: '沒有符合條件的文章。',
+        historySearchPlaceholder: '搜尋主題、內文、主題標籤等',
+        historyFiltersSummary: '篩選與排序',
+        historyFilterType: '類型',
+        filterAll: '全部',
+        filterPaid: '付費',
+        historyFilterPrice: '價格（日圓）',
+        filterMin: '下限',
+        filterMax: '上限',
+        historyFilterSchedule: '排程發布',
+        filterScheduled: '已排程',
+        filterUnscheduled: '未排程',
+        historyFilterFactCheck: '事實查核',
+        filterChecked: '已查核',
+        filterUnchecked: '未查核',
+        historyFilterVideo: '宣傳影片',
+        filterVideoNone: '無',
+        filterVideoPending: '生成中',
+        filterVideoCompleted: '已完成',
+        filterVideoFailed: '失敗',
+        historyFilterDate: '建立日期',
+        historySort: '排序',
+        sortCreatedDesc: '建立日期（由新到舊）',
+        sortCreatedAsc: '建立日期（由舊到新）',
+        sortScheduled: '排程時間（由近到遠）',
+        sortQuality: '品質分數（由高到低）',
+        sortViews: '瀏覽次數（由多到少）',
+        historyFilterReset: '清除條件',
+        historyPrev: '← 上一頁',
+        historyNext: '下一頁 →',
+        historyPageInfo: '第 {page} / {pages} 頁（共 {total} 篇）',
+        historySaveFailed: '儲存紀錄失敗。瀏覽器儲存空間可能不足。',
+        notForSale: '非賣品',
+        scheduledBadge: '已排程',
+        lastChecked: '最後檢查：{date}',
+        preview: '預覽',
+        performanceInput: '輸入成效',
+        checkForUpdate: '檢查更新',
+        delete: '刪除',
+        loadingArticle: '正在載入文章...',
+        confirmDeleteProduct: '要刪除這項商品嗎？',
+        noProductDescription: '沒有商品說明。',
+        free: '免費',
+        buy: '購買',
+        readMore: '繼續閱讀',
+
+        generatedArticleTitle: '生成的文章',
+        readAloud: '朗讀',
+        readAloudTitle: '使用瀏覽器功能朗讀',
+        stopReading: '停止',
+        audioArticle: '有聲文章',
+        audioArticleTitle: '以 AI 高品質語音收聽文章',
+        audioError: '語音生成失敗。',
+        proofread: 'AI 校對',
+        proofreadTitle: '由 AI 進行最終校對',
+        proofreading: '校對中...',
+        proofreadError: 'AI 校對時發生錯誤。',
+        factCheck: '事實查核',
+        factCheckTitle: 'AI 事實查核',
+        schedule: '排程',
+        scheduleTitle: '排程發布',
+        editTitle: '編輯文章',
+        copyTitle: '複製文章文字',
+        exportHtmlTitle: '儲存為內嵌圖片與圖表的 HTML 檔案',
+        exportHtmlFailed: '匯出 HTML 失敗。',
+        cmsExport: '匯出',
+        cmsExportModalTitle: '📦 匯出至 CMS',
+        cmsExportDescription: '依發布平台所需的格式匯出。圖片、圖表與方塊等預留位置會轉換為一般語法，付費分隔線會換成各平台的付費牆標記。',
+        cmsExportWordpress: 'WordPress（WXR XML）',
+        cmsExportMarkdown: 'Markdown（適用於 note）',
+        cmsExportZip: 'Markdown + 圖片資料夾（ZIP）',
+        cmsExportWordpressHint: '可從「工具 → 匯入 → WordPress」匯入。圖片會內嵌於文章中，付費分隔線會變成「繼續閱讀」標籤。若已設定發布時間則為排程文章，否則為草稿。',
+        cmsExportMarkdownHint: '僅含文字的 Markdown（不含圖片）。付費分隔線的位置會加上標記，請在 note 編輯器中於該處設定付費區域。',
+        cmsExportZipHint: '包含 article.md 與 images/ 資料夾的 ZIP。圖片連結指向 images/，付費分隔線會變成 <!--more-->。',
+        cmsExportDownload: '下載',
+        cmsExportFailed: '匯出失敗。',
+        epubExportTitle: '建立給購買者的電子書（EPUB）',
+        epubExportFailed: '建立 EPUB 失敗。',
+        epubTableOfContents: '目錄',
+        epubBackMatter: '常見問題與參考資料',
+        printTitle: '以列印版面開啟並另存為 PDF',
+        printPopupBlocked: '無法開啟列印視窗，請允許彈出式視窗。',
+        printFailed: '建立列印版面失敗。',
+        workspaceTitle: '🗄️ 工作區備份',
+        workspaceHint: '將文章與圖片、品牌語氣、模型・提示詞・價格設定及使用紀錄整合為一個檔案。不包含 API 金鑰。',
+        workspaceExport: '匯出工作區',
+        workspaceImport: '匯入工作區',
+        workspaceExportFailed: '匯出工作區失敗。',
+        workspaceNotJson: '無法以 JSON 讀取',
+        workspaceInvalid: '無法作為工作區檔案匯入（{problems}）。',
+        workspaceImportModalTitle: '🗄️ 匯入工作區',
+        workspaceImportSummary: '於 {date} 匯出，包含 {articles} 篇文章與 {images} 張圖片。',
+        workspaceImportMerge: '合併至目前的資料',
+        workspaceImportReplace: '取代目前的資料',
+        workspaceImportModeHint: '合併時會略過相同的文章，並為 ID 重複的其他文章指派新 ID。設定以目前的值為優先，只補上缺少的項目。取代時會先刪除目前所有文章與設定，再寫入檔案內容。',
+        workspaceImportApply: '匯入',
+        confirmWorkspaceReplace: '目前所有文章、圖片與設定都將被刪除。確定要取代嗎？',
+        workspaceImported: '已匯入 {imported} 篇文章（略過 {skipped} 篇重複文章）。',
+        workspaceImportFailed: '匯入工作區失敗。',
+        videoProducerTitle: '🎬 AI 影片製作人',
+        selectVeoKey: '選擇 API 金鑰以生成影片',
+        downloadVideo: '下載影片',
+        videoGenerating: '正在生成介紹影片... 可能需要幾分鐘。',
+        performanceAnalyzerTitle: '📊 AI 成效分析器',
+        performanceRecordHeading: '實際成效',
+        views: '瀏覽數',
+        engagementRate: '互動率',
+        conversions: '轉換數',
+        addPerformance: '+ 記錄實際成效',
+        qualityScores: '品質分數',
+        personaResonance: '人物誌共鳴度',
+        engagementPrediction: '互動預測',
+        likes: '按讚',
+        shares: '分享',
+        readTime: '閱讀時間',
+        abTestTitles: 'A/B 測試標題方案',
+        predictedCtr: '預測 CTR：{ctr}',
+        factCheckAssistantTitle: '🛡️ AI 事實查核助理',
+        factCheckInProgress: 'AI 正在驗證...',
+        factCheckError: '事實查核時發生錯誤。',
+        noFacts: '找不到可驗證的事實。',
+        factMatch: '一致',
+        factPartialMatch: '部分一致',
+        factNoMatch: '不一致',
+        factStatement: '查核對象：',
+        factSource: '資料來源：',
+        faqTitle: '🤔 常見問題（Q&A）',
+        paidDivider: '以下為付費內容',
+        screenshotInstruction: '螢幕截圖插入指示',
+        imageFailed: '圖片生成失敗。',
+        regenerateImage: '重新生成',
+        editImagePrompt: '編輯提示詞',
+        imagePromptLabel: '圖片提示詞',
+        imageOverlayLabel: '圖片中的文字（選填）',
+        generateWithPrompt: '以此內容生成',
+        regeneratingImage: '生成中...',
+        imagePromptRequired: '請輸入圖片提示詞。',
+        imageRegenerateFailed: '無法重新生成圖片。',
+        screenshotDropHint: '將圖片拖放至此，或點選後貼上 (Ctrl+V)',
+        screenshotChooseFile: '選擇檔案',
+        screenshotEdit: '裁切與標註',
+        screenshotReplace: '替換',
+        screenshotNotImage: '請選擇圖片檔案。',
+        screenshotSaveFailed: '無法儲存螢幕截圖。',
+        confirmRemoveScreenshot: '要移除這張螢幕截圖嗎？',
+        screenshotEditorTitle: '編輯螢幕截圖',
+        screenshotEditorHint: '在圖片上拖曳以裁切或繪製標註。',
+        screenshotToolCrop: '裁切',
+        screenshotToolBox: '方框',
+        screenshotToolArrow: '箭頭',
+        screenshotAnnotationColor: '標註顏色',
+        screenshotUndo: '復原',
+        screenshotReset: '全部重設',
+        screenshotSave: '插入文章',
+        chartParseError: '圖表資料解析失敗。AI 生成的資料格式不正確。',
+        chartRenderError: '圖表繪製失敗。',
+        chartEditorButton: '📊 編輯／插入圖表',
+        chartEditorTitle: '圖表編輯器',
+        chartEditorDescription: '編輯游標所在位置的圖表。若游標不在圖表上，則於該處插入新圖表。',
+        chartTypeLabel: '類型',
+        chartTypeBar: '長條圖',
+        chartTypeLine: '折線圖',
+        chartTypePie: '圓餅圖',
+        chartTypeDoughnut: '環圈圖',
+        chartTypeRadar: '雷達圖',
+        chartTypePolarArea: '極區圖',
+        chartTitleLabel: '標題',
+        chartLabelsLabel: '項目標籤（每行一個）',
+        chartDatasetsLabel: '資料系列',
+        chartDatasetLabel: '系列名稱',
+        chartDatasetValues: '數值（以逗號分隔）',
+        chartAddDataset: '+ 新增系列',
+        chartPreviewLabel: '預覽',
+        chartApply: '套用圖表',
+        chartLabelsRequired: '請至少輸入一個項目標籤。',
+        chartDatasetRequired: '請至少新增一個資料系列。',
+        chartValuesInvalid: '請以逗號分隔的數字輸入「{name}」的數值。',
+        chartValuesMismatch: '「{name}」的數值數量需與項目標籤數量（{count}）一致。',
+        chartPointsInvalid: '請以逗號分隔的「x y」或「x y 半徑」輸入「{name}」的數值。',
+        chartTypeScatter: '散佈圖',
+        chartTypeBubble: '泡泡圖',
+        referencesTitle: '參考來源',
+        enhancementsTitle: '✨ 發文輔助功能',
+        titleSuggestionsHeading: '標題方案',
+        snsTextHeading: '社群分享文字',
+        hashtagsHeading: '主題標籤建議',
+        metaDescriptionHeading: 'Meta 描述（SEO 用）',
+        expansionTitle: '🚀 內容延伸',
+        expansionInstruction: '將生成的文章自動轉換為其他媒體格式。',
+        expansionTwitter: 'X (Twitter) 串文',
+        expansionYoutube: 'YouTube 影片腳本',
+        expansionPresentation: '簡報架構',
+        converting: '轉換中...',
+        conversionError: '轉換內容時發生錯誤。',
+        researchDeepDive: '使用 AI 助理深入研究',
+        replaceSelection: '取代「{text}」',
+
+        editArticleTitle: '編輯文章（Markdown）',
+        coPilotTitle: '🤖 AI 編輯副駕駛',
+        coPilotDescription: '讓 AI 提出文章的改善建議，一鍵即可修正。',
+        coPilotAnalyze: '分析文件',
+        coPilotReanalyze: '重新分析文件',
+        coPilotInProgress: 'AI 正在分析...',
+        coPilotError: '分析時發生錯誤。',
+        noSuggestions: '沒有建議。',
+        auditSuggestionsHeading: 'AI 稽核的更新建議：',
+        saveChanges: '儲存變更',
+        editSaveError: '無法儲存變更。',
+        editAnalysisError: '變更已儲存，但成效分析失敗。',
+
+        initialMessage: '在左側表單輸入資訊，或在「策略規劃」模式中取得 AI 提案，開始自動生成高品質文章吧。',
+        initialMessageDemo: '目前以離線示範模式運作。不會呼叫 AI，可使用範例資料體驗文章生成流程。',
+        initialMessageNoKeyHtml: '尚未設定 API 金鑰。<br>請從右上角的<strong style="color: var(--primary-color);">設定</strong>按鈕設定 API 金鑰。',
+
+        apiKeyModalTitle: 'API 金鑰設定',
+        apiKeyModalDescription: '請輸入在 Google AI Studio 取得的 API 金鑰。金鑰會保存在瀏覽器的本機儲存空間。',
+        apiKeyPlaceholder: '在此貼上 API 金鑰...',
+        apiKeyHintHtml: 'API 金鑰可從 <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer">Google AI Studio</a> 取得。',
+        offlineDemoLabel: '離線示範模式',
+        offlineDemoToggleLabel: '不呼叫 API，以範例資料運作（示範・測試用）',
+        uiLanguageLabel: '顯示語言',
+        clearApiKey: '刪除金鑰',
+        saveApiKey: '儲存並驗證金鑰',
+        apiKeyRequired: '請輸入 API 金鑰。',
+        apiKeySaved: 'API 金鑰已成功儲存。',
+        apiKeyInvalid: 'API 金鑰無效。請再次確認。',
+        apiKeyCleared: '已刪除 API 金鑰。',
+        offlineDemoEnabled: '已啟用離線示範模式。',
+        offlineDemoDisabled: '已停用離線示範模式。',
+
+        brandVoiceModalTitle: '品牌語調設定',
+        brandVoiceModalDescription: '讓 AI 學習您的文風，統一生成文章的語氣。',
+        brandVoicePrinciplesLabel: '寫作基本原則',
+        brandVoicePrinciplesPlaceholder: '例：一律使用簡單的詞彙。避免專業術語。保持貼近讀者的正向語氣。',
+        brandVoiceExampleLabel: '您的文風範例（建議 500 字以上）',
+        brandVoiceExamplePlaceholder: '請在此貼上您撰寫的部落格文章或文字...',
+        saveSettings: '儲存設定',
+
+        promptLibraryTitle: '📝 提示詞管理',
+        promptLibraryDescription: '可編輯傳送給 AI 的提示詞。每次儲存都會建立新版本，隨時可恢復預設值。',
+        promptLabel: '提示詞',
+        promptVariablesLabel: '可用變數',
+        promptSectionsHint: '{{#變數名}}…{{/變數名}} 只在變數不為空時輸出，{{^變數名}}…{{/變數名}} 只在為空時輸出。',
+        promptVersionLabel: '版本',
+        promptTemplateLabel: '範本',
+        promptVersionDefault: '預設',
+        promptVersionInUse: '・使用中',
+        useThisVersion: '使用此版本',
+        saveAsNewVersion: '另存為新版本',
+        templateEmpty: '範本是空的。',
+        unknownPromptVariables: '此提示詞含有無法使用的變數：{names}',
+        confirmResetPrompt: '要將此提示詞恢復為預設值嗎？已儲存的版本會保留。',
+
+        performanceModalTitle: '📈 記錄成效',
+        performanceModalDescription: '記錄文章發布後的成果，幫助 AI 學習。',
+        performanceViewsLabel: '瀏覽數（PV）',
+        performanceViewsPlaceholder: '例：10500',
+        performanceEngagementRateLabel: '互動率（%）',
+        performanceEngagementRatePlaceholder: '例：5.8',
+        performanceConversionsLabel: '轉換數（CV）',
+        performanceConversionsPlaceholder: '例：120',
+        saveRecord: '儲存紀錄',
+
+        researchModalTitle: '🤖 AI 研究助理',
+        researchModalDescription: 'AI 已根據最新資訊深入研究所選主題。',
+        researchInProgress: 'AI 正在研究與撰寫...',
+        insertIntoArticle: '插入文章',
+
+        scheduleModalTitle: '📅 排程內容',
+        scheduleModalDescription: '請設定這篇文章的發布日期時間。',
+        scheduleDatetimeLabel: '發布日期時間',
+        removeSchedule: '取消排程',
+        setSchedule: '設定排程',
+        updateSchedule: '更新排程',
+        invalidDatetime: '請選擇有效的日期時間。',
+
+        auditModalTitle: '🔄 內容新鮮度稽核',
+        auditModalDescription: 'AI 會檢查這篇文章是否仍為最新，並提出更新建議。',
+        auditInProgress: '正在以 Google 搜尋調查最新資訊，並與文章比對...',
+        editWithSuggestions: '根據建議進行編輯',
+        articleUpToDate: '太好了！這篇文章目前仍是最新狀態。',
+        auditArea: '區塊：{area}',
+        auditError: '內容稽核時發生錯誤。',
+    },
+};
+
+/** Looks up a UI string in the current display language; `{name}` placeholders are filled from `params`. */
+function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+    const message = UI_MESSAGES[uiLanguage][key] ?? UI_MESSAGES_JA[key];
+    return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
 }
 
-async function deleteImagesFromDb(id: number): Promise<void> {
-    try {
-        const db = await openDb();
-        const transaction = db.transaction(STORE_NAME, 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        store.delete(id);
-        return new Promise((resolve, reject) => {
-            transaction.oncomplete = () => resolve();
-            transaction.onerror = () => reject(transaction.error);
-        });
-    } catch (error) {
-        console.error("Failed to delete images from IndexedDB:", error);
-    }
+/** Re-applies the catalog to the static markup; dynamic parts are re-rendered by their own functions. */
+function applyUiLanguage() {
+    document.documentElement.lang = uiLanguage;
+    document.title = t('appTitle');
+    document.querySelectorAll<HTMLElement>('[data-i18n]').forEach(el => { el.textContent = t(el.dataset.i18n as MessageKey); });
+    document.querySelectorAll<HTMLElement>('[data-i18n-html]').forEach(el => { el.innerHTML = t(el.dataset.i18nHtml as MessageKey); });
+    document.querySelectorAll<HTMLElement>('[data-i18n-title]').forEach(el => { el.title = t(el.dataset.i18nTitle as MessageKey); });
+    document.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>('[data-i18n-placeholder]').forEach(el => { el.placeholder = t(el.dataset.i18nPlaceholder as MessageKey); });
 }
 
 
@@ -205,8 +3281,14 @@ document.addEventListener('DOMContentLoaded', () => {
     const strategyGenerateFromDataBtn = document.getElementById('strategy-generate-from-data-btn') as HTMLButtonElement;
     const strategySpinner = strategyGenerateBtn.querySelector('.spinner') as HTMLDivElement;
     const strategySpinnerFromData = strategyGenerateFromDataBtn.querySelector('.spinner') as HTMLDivElement;
+    const strategyCancelBtn = document.getElementById('strategy-cancel-btn') as HTMLButtonElement;
     const strategyResultsContainer = document.getElementById('strategy-results-container') as HTMLDivElement;
     const strategyResultsTableBody = document.querySelector('#strategy-results-table tbody') as HTMLTableSectionElement;
+    const strategySelectAll = document.getElementById('strategy-select-all') as HTMLInputElement;
+    const batchQueueBtn = document.getElementById('batch-queue-btn') as HTMLButtonElement;
+    const batchConcurrencySelect = document.getElementById('batch-concurrency') as HTMLSelectElement;
+    const batchClearBtn = document.getElementById('batch-clear-btn') as HTMLButtonElement;
+    const batchQueueList = document.getElementById('batch-queue-list') as HTMLUListElement;
     const form = document.getElementById('article-form') as HTMLFormElement;
     const analyzePersonaBtn = document.getElementById('analyze-persona-btn') as HTMLButtonElement;
     const spinner = (document.getElementById('generate-button') as HTMLButtonElement).querySelector('.spinner') as HTMLDivElement;
@@ -237,6 +3319,12 @@ document.addEventListener('DOMContentLoaded', () => {
     const videoDownloadLink = document.getElementById('video-download-link') as HTMLAnchorElement;
     const veoKeySelection = document.getElementById('veo-key-selection') as HTMLDivElement;
     const selectVeoKeyBtn = document.getElementById('select-veo-key-btn') as HTMLButtonElement;
+    const screenshotEditorModal = document.getElementById('screenshot-editor-modal') as HTMLDivElement;
+    const screenshotEditorCanvas = document.getElementById('screenshot-editor-canvas') as HTMLCanvasElement;
+    const screenshotUndoBtn = document.getElementById('screenshot-undo-btn') as HTMLButtonElement;
+    const screenshotResetBtn = document.getElementById('screenshot-reset-btn') as HTMLButtonElement;
+    const screenshotSaveBtn = document.getElementById('screenshot-save-btn') as HTMLButtonElement;
+    const screenshotCancelBtn = document.getElementById('screenshot-cancel-btn') as HTMLButtonElement;
     const faqContainer = document.getElementById('faq-container') as HTMLDivElement;
     const referencesContainer = document.getElementById('references-container') as HTMLDivElement;
     const referencesList = document.getElementById('references') as HTMLUListElement;
@@ -248,13 +3336,21 @@ document.addEventListener('DOMContentLoaded', () => {
     const readAloudButton = document.getElementById('read-aloud-button') as HTMLButtonElement;
     const generateAudioButton = document.getElementById('generate-audio-btn') as HTMLButtonElement;
     const proofreadButton = document.getElementById('proofread-button') as HTMLButtonElement;
-    const factCheckButton = document.getElementById('fact-check-button') as HTMLButtonElement;
+    const factCheckButton = document.getElementById('fact-check-btn') as HTMLButtonElement;
     const scheduleButton = document.getElementById('schedule-button') as HTMLButtonElement;
     const editButton = document.getElementById('edit-button') as HTMLButtonElement;
     const copyButton = document.getElementById('copy-button') as HTMLButtonElement;
     const editTextArea = document.getElementById('edit-textarea') as HTMLTextAreaElement;
     const saveEditButton = document.getElementById('save-edit-button') as HTMLButtonElement;
     const cancelEditButton = document.getElementById('cancel-edit-button') as HTMLButtonElement;
+    const chartEditorButton = document.getElementById('chart-editor-button') as HTMLButtonElement;
+    const chartEditorModal = document.getElementById('chart-editor-modal') as HTMLDivElement;
+    const cmsExportModal = document.getElementById('cms-export-modal') as HTMLDivElement;
+    const workspaceImportModal = document.getElementById('workspace-import-modal') as HTMLDivElement;
+    const importWorkspaceInput = document.getElementById('import-workspace-input') as HTMLInputElement;
+    const chartAddDatasetBtn = document.getElementById('chart-add-dataset-btn') as HTMLButtonElement;
+    const chartEditorCancelBtn = document.getElementById('chart-editor-cancel-btn') as HTMLButtonElement;
+    const chartEditorApplyBtn = document.getElementById('chart-editor-apply-btn') as HTMLButtonElement;
     const contextMenu = document.getElementById('context-menu') as HTMLDivElement;
     const themeInput = document.getElementById('theme') as HTMLInputElement;
     const personaInput = document.getElementById('persona') as HTMLInputElement;
@@ -287,6 +3383,7 @@ document.addEventListener('DOMContentLoaded', () => {
     const removeScheduleBtn = document.getElementById('remove-schedule-btn') as HTMLButtonElement;
     const auditModal = document.getElementById('audit-modal') as HTMLDivElement;
     const closeAuditModalBtn = document.getElementById('close-audit-modal-btn') as HTMLButtonElement;
+    const cancelAuditBtn = document.getElementById('cancel-audit-btn') as HTMLButtonElement;
     const auditSpinner = document.getElementById('audit-spinner') as HTMLDivElement;
     const auditResults = document.getElementById('audit-results') as HTMLDivElement;
     const editWithSuggestionsBtn = document.getElementById('edit-with-suggestions-btn') as HTMLButtonElement;
@@ -297,8 +3394,25 @@ document.addEventListener('DOMContentLoaded', () => {
     const clearApiKeyBtn = document.getElementById('clear-api-key-btn') as HTMLButtonElement;
     const apiKeyInput = document.getElementById('api-key-input') as HTMLInputElement;
     const apiKeyStatus = document.getElementById('api-key-status') as HTMLDivElement;
+    const offlineDemoToggle = document.getElementById('offline-demo-toggle') as HTMLInputElement;
     const productPreviewModal = document.getElementById('product-preview-modal') as HTMLDivElement;
     const closeProductPreviewModalBtn = document.getElementById('close-product-preview-modal-btn') as HTMLButtonElement;
+    const priceTableInput = document.getElementById('price-table-input') as HTMLTextAreaElement;
+    const promptLibraryBtn = document.getElementById('prompt-library-btn') as HTMLButtonElement;
+    const promptLibraryModal = document.getElementById('prompt-library-modal') as HTMLDivElement;
+    const closePromptLibraryBtn = document.getElementById('close-prompt-library-btn') as HTMLButtonElement;
+    const promptSelect = document.getElementById('prompt-select') as HTMLSelectElement;
+    const promptVersionSelect = document.getElementById('prompt-version-select') as HTMLSelectElement;
+    const promptTemplateInput = document.getElementById('prompt-template-input') as HTMLTextAreaElement;
+    const savePromptVersionBtn = document.getElementById('save-prompt-version-btn') as HTMLButtonElement;
+    const usePromptVersionBtn = document.getElementById('use-prompt-version-btn') as HTMLButtonElement;
+    const resetPromptBtn = document.getElementById('reset-prompt-btn') as HTMLButtonElement;
+    const savePriceTableBtn = document.getElementById('save-price-table-btn') as HTMLButtonElement;
+    const resetPriceTableBtn = document.getElementById('reset-price-table-btn') as HTMLButtonElement;
+    const saveModelSettingsBtn = document.getElementById('save-model-settings-btn') as HTMLButtonElement;
+    const resetModelSettingsBtn = document.getElementById('reset-model-settings-btn') as HTMLButtonElement;
+    const articleLanguageSelect = document.getElementById('article-language') as HTMLSelectElement;
+    const uiLanguageSelect = document.getElementById('ui-language-select') as HTMLSelectElement;
     
     // --- Attach Event Listeners ---
     const readAloudTextSpan = readAloudButton.querySelector('.button-text') as HTMLSpanElement | null;
@@ -307,114 +3421,88 @@ document.addEventListener('DOMContentLoaded', () => {
     modeCreateBtn?.addEventListener('click', () => switchMode('create'));
     modeHistoryBtn?.addEventListener('click', () => switchMode('history'));
 
+    progressContainer?.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const resumeBtn = target.closest('.resume-draft-btn') as HTMLButtonElement | null;
+        const discardBtn = target.closest('.discard-draft-btn') as HTMLButtonElement | null;
+        const cancelBtn = target.closest('.cancel-generation-btn') as HTMLButtonElement | null;
+        if (cancelBtn) {
+            cancelBtn.disabled = true;
+            cancelBtn.textContent = t('cancelling');
+            generationController?.abort();
+        } else if (resumeBtn) {
+            resumeBtn.disabled = true;
+            resumeAssemblyLine(Number(resumeBtn.dataset.draftId));
+        } else if (discardBtn && confirm(t('confirmDiscardDraft'))) {
+            discardDraft(Number(discardBtn.dataset.draftId));
+        }
+    });
     strategyGenerateBtn?.addEventListener('click', () => generateStrategy(false));
     strategyGenerateFromDataBtn?.addEventListener('click', () => generateStrategy(true));
+    strategyCancelBtn?.addEventListener('click', () => strategyController?.abort());
+    strategySelectAll?.addEventListener('change', () => {
+        document.querySelectorAll<HTMLInputElement>('#strategy-results-table .strategy-select').forEach(checkbox => checkbox.checked = strategySelectAll.checked);
+    });
+    batchQueueBtn?.addEventListener('click', queueSelectedStrategies);
+    batchConcurrencySelect?.addEventListener('change', () => {
+        batchConcurrency = Number(batchConcurrencySelect.value);
+        pumpBatchQueue();
+    });
+    batchClearBtn?.addEventListener('click', () => removeBatchJobs(batchJobs.filter(job => job.status === 'completed')));
+    batchQueueList?.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest('button') as HTMLButtonElement | null;
+        const job = button && batchJobs.find(j => j.id === Number(button.dataset.id));
+        if (!job) return;
+        if (button.classList.contains('batch-retry-btn')) {
+            retryBatchJob(job);
+        } else if (button.classList.contains('batch-cancel-btn')) {
+            cancelBatchJob(job);
+        } else if (button.classList.contains('batch-remove-btn')) {
+            removeBatchJobs([job]);
+        }
+    });
     form?.addEventListener('submit', async (e) => {
         e.preventDefault();
         if (analyzePersonaBtn.disabled) return;
         currentResearchedText = ''; // Reset research text
         const formData = new FormData(form);
         const theme = formData.get('theme') as string;
+        const language = formData.get('article_language') as LanguageCode;
+        generationController = new AbortController();
+        const signal = generationController.signal;
+        pendingUsageId = issueArticleId();
         // Step 0a: Pre-research
-        setLoading(true, 'AIがトピックをリサーチ中...');
-        const researchPrompt = `あなたは専門リサーチャーです。以下のトピックについて、Google検索を用いて徹底的に調査し、信頼性の高い情報を基にした包括的なサマリーを作成してください。サマリーには、主要な事実、統計、専門家の見解、歴史的背景など、トピックを深く理解するために必要な要素を含めてください。出力はサマリーテキストのみとしてください。前置きや後書きは不要です。
-
-# 調査トピック
-${sanitizeString(theme)}`;
+        setLoading(true, t('researchingTopic'));
         try {
-            const ai = getGenAIClient();
-            const researchResponse = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: researchPrompt,
-                config: { tools: [{ googleSearch: {} }] }
-            }));
-            currentResearchedText = researchResponse.text.trim();
+            currentResearchedText = await researchTopic(theme, language, signal, pendingUsageId);
             if (!currentResearchedText) {
                 console.warn("AI research returned no content. Proceeding without it.");
             }
         } catch (error) {
+            if (signal.aborted) {
+                if (generationController?.signal === signal) generationController = null;
+                setLoading(false);
+                return;
+            }
             console.error("Error during pre-research step:", error);
             // Proceeding without research text on error
         }
         // Step 0b: Generate Outlines
-        setLoading(true, 'リサーチを元に構成案を作成中...');
-        const userInput = {
-            theme: theme,
-            persona: formData.get('persona') as string,
-            referenceText: referenceTextArea.value,
-        };
-        let combinedReferenceText = userInput.referenceText;
-        if (currentResearchedText) {
-            const researchHeader = "\n\n# AIによる事前調査結果 (この記事の主要な情報源としてください)\n---\n";
-            combinedReferenceText = userInput.referenceText
-                ? `${userInput.referenceText}${researchHeader}${currentResearchedText}`
-                : currentResearchedText;
-        }
-        let prompt = `あなたはバイラルメディアの編集長です。あなたの仕事は、読者の感情を激しく揺さぶり、SNSで爆発的にシェアされる記事の構成案を3つ作成することです。
-提案は、それぞれ全く異なる、尖った切り口を持つ必要があります。
-
-# 構成案作成の絶対原則
-- **感情フック**: 各構成案は、人間の根源的な感情（驚き、怒り、共感、好奇心、優越感など）を刺激するものでなければなりません。
-- **フレームワークの活用**: 構成には、人の心を動かす有名なコピーライティングのフレームワーク**「PASONAの法則」**を応用してください。
-    - **P (Problem)**: 読者が心の奥底で抱えている「問題」をえぐり出す。
-    - **A (Agitation)**: その問題を放置するとどうなるか、具体例を挙げて「煽り」、危機感を増幅させる。
-    - **S (Solution)**: 読者が待ち望んでいた「解決策」として、記事の核心を提示する。
-    - **O (Offer/Outcome)**: 解決策によって得られる理想の未来を具体的に示す。
-    - **N (Narrow down)**: 読者を特定し、「これはあなたのための記事だ」と絞り込む。
-    - **A (Action)**: 読者に具体的な「行動」を促す。
-- **タイトル**: タイトルは記事の命です。常識を覆す**「逆説」**、強い言葉を使った**「断定」**、思わず続きが読みたくなる**「問いかけ」**を駆使し、クリックせずにはいられないタイトルを付けてください。
-- **導入文**: 読者が最初の2行で引き込まれるように、衝撃的な事実、共感を呼ぶ失敗談、あるいは読者の固定観念を壊す問いから始めてください。
-
-# 出力形式
-各提案には、そのユニークな「切り口」がわかるようなキャッチーなタイトル、読者を物語に引き込む導入文、そして上記のフレームワークに基づいた論理的な見出し構成（3〜5個）を含めてください。`;
-
-        if (combinedReferenceText) {
-            prompt += `
-
-# 重要: 参照資料
-以下のテキストの内容を**最優先の情報源**として構成案を作成してください。
----
-${safeSubstring(sanitizeString(combinedReferenceText), 8000)}
----`;
-        }
-        prompt += `
-
-# テーマ
-${sanitizeString(userInput.theme)}
-
-# ターゲット読者（ペルソナ）
-${sanitizeString(userInput.persona)}
-`;
-        const schema = {
-            type: Type.OBJECT,
-            properties: {
-                outlines: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            title: { type: Type.STRING, description: "キャッチーなタイトル" },
-                            introduction: { type: Type.STRING, description: "読者の心を掴む導入文" },
-                            headings: { type: Type.ARRAY, items: { type: Type.STRING }, description: "論理的な見出しのリスト" }
-                        },
-                        required: ["title", "introduction", "headings"]
-                    }
-                }
-            },
-            required: ["outlines"]
-        };
+        setLoading(true, t('creatingOutlines'));
+        const persona = formData.get('persona') as string;
+        const referenceText = combineReferenceText(referenceTextArea.value, currentResearchedText);
         try {
-            const ai = getGenAIClient();
-            const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt, config: { responseMimeType: 'application/json', responseSchema: schema } }));
-            const result = JSON.parse(response.text);
-            suggestedOutlines = result.outlines;
+            suggestedOutlines = await requestOutlines(theme, persona, referenceText, language, signal, pendingUsageId);
             renderOutlineSuggestions();
             step1PersonaInput.classList.add('hidden');
             step2OutlineSuggestions.classList.remove('hidden');
         } catch (error) {
-            console.error("Error analyzing persona:", error);
-            alert("構成案の生成中にエラーが発生しました。APIキーが正しいか確認してください。");
+            if (!signal.aborted) {
+                console.error("Error analyzing persona:", error);
+                alert(withErrorCause(t('outlineError'), error));
+            }
         } finally {
+            if (generationController?.signal === signal) generationController = null;
             setLoading(false);
         }
     });
@@ -435,25 +3523,70 @@ ${sanitizeString(userInput.persona)}
     saveEditButton?.addEventListener('click', async () => {
         if (!currentArticle) return;
         const newMarkdown = editTextArea.value;
-        saveEditButton.textContent = '保存中...';
+        saveEditButton.textContent = t('saving');
         saveEditButton.disabled = true;
-// FIX: The function analyzeArticlePerformance was not defined. Added the function definition.
-        const newPerformance = await analyzeArticlePerformance(newMarkdown, currentArticle.theme, currentArticle.persona);
-        if (newPerformance && currentArticle.performance?.userInput) {
-            newPerformance.userInput = currentArticle.performance.userInput;
-        }
-        const updatedArticle: ArticleHistoryItem = { ...currentArticle, markdown: newMarkdown, html: '', performance: newPerformance, factCheck: { status: 'unchecked', results: [] } };
-        await updateArticleInHistory(updatedArticle);
-        renderArticle(updatedArticle);
-        viewModeContainer.classList.remove('hidden');
-        editModeContainer.classList.add('hidden');
-        saveEditButton.textContent = '変更を保存';
-        saveEditButton.disabled = false;
+        try {
+            // The edit is stored before the analysis runs, so a failed analysis costs the new scores and never the text
+            const savedArticle: ArticleHistoryItem = { ...currentArticle, markdown: newMarkdown, html: '', factCheck: { status: 'unchecked', results: [] } };
+            await updateArticleInHistory(savedArticle);
+            renderArticle(savedArticle);
+            viewModeContainer.classList.remove('hidden');
+            editModeContainer.classList.add('hidden');
+            try {
+                const newPerformance = await analyzeArticlePerformance(await condenseForAnalysis(newMarkdown, undefined, savedArticle.id, savedArticle.language).catch(() => newMarkdown), savedArticle.theme, savedArticle.persona, undefined, savedArticle.id, savedArticle.language);
+                if (newPerformance && articles.find(article => article.id === savedArticle.id)?.markdown === newMarkdown) { // Not after the article was edited again or deleted
+                    newPerformance.userInput = savedArticle.performance?.userInput;
+                    const analyzedArticle = { ...savedArticle, performance: newPerformance };
+                    await updateArticleInHistory(analyzedArticle);
+                    if (currentArticle?.id === analyzedArticle.id) renderArticle(analyzedArticle);
+                }
+            } catch (error) {
+                console.error("Failed to analyze the edited article:", error);
+                alert(withErrorCause(t('editAnalysisError'), error));
+            }
+        } catch (error) {
+            console.error("Failed to save the edit:", error);
+            alert(t('editSaveError'));
+        } finally {
+            saveEditButton.textContent = t('saveChanges');
+            saveEditButton.disabled = false;
+        }
     });
     brandVoiceBtn?.addEventListener('click', () => brandVoiceModal.classList.remove('hidden'));
     closeBrandVoiceBtn?.addEventListener('click', () => brandVoiceModal.classList.add('hidden'));
     saveBrandVoiceBtn?.addEventListener('click', () => { saveBrandVoiceToStorage(); brandVoiceModal.classList.add('hidden'); });
     brandVoiceModal?.addEventListener('click', (e) => { if (e.target === brandVoiceModal) { brandVoiceModal.classList.add('hidden'); } });
+    promptLibraryBtn?.addEventListener('click', () => { renderPromptEditor(promptSelect.value as PromptId); promptLibraryModal.classList.remove('hidden'); });
+    closePromptLibraryBtn?.addEventListener('click', () => promptLibraryModal.classList.add('hidden'));
+    promptLibraryModal?.addEventListener('click', (e) => { if (e.target === promptLibraryModal) { promptLibraryModal.classList.add('hidden'); } });
+    promptSelect?.addEventListener('change', () => renderPromptEditor(promptSelect.value as PromptId));
+    promptVersionSelect?.addEventListener('change', () => renderPromptEditor(promptSelect.value as PromptId, Number(promptVersionSelect.value)));
+    savePromptVersionBtn?.addEventListener('click', () => {
+        const id = promptSelect.value as PromptId;
+        const template = promptTemplateInput.value;
+        if (!template.trim()) {
+            alert(t('templateEmpty'));
+            return;
+        }
+        const unknown = findUnknownPromptVariables(id, template);
+        if (unknown.length > 0) {
+            alert(t('unknownPromptVariables', { names: unknown.join(', ') }));
+            return;
+        }
+        const version = savePromptVersion(id, template);
+        renderPromptEditor(id, version.version);
+    });
+    usePromptVersionBtn?.addEventListener('click', () => {
+        const id = promptSelect.value as PromptId;
+        setActivePromptVersion(id, Number(promptVersionSelect.value));
+        renderPromptEditor(id);
+    });
+    resetPromptBtn?.addEventListener('click', () => {
+        const id = promptSelect.value as PromptId;
+        if (!confirm(t('confirmResetPrompt'))) return;
+        setActivePromptVersion(id, 0);
+        renderPromptEditor(id);
+    });
     factCheckButton?.addEventListener('click', async () => {
         if (!currentArticle || factCheckButton.disabled) return;
         const spinner = factCheckButton.querySelector('.spinner') as HTMLDivElement;
@@ -461,58 +3594,34 @@ ${sanitizeString(userInput.persona)}
         const originalText = buttonText.textContent;
         factCheckButton.disabled = true;
         spinner.classList.remove('hidden');
-        buttonText.textContent = '検証中...';
+        buttonText.textContent = t('verifying');
+        factCheckController = new AbortController();
+        const signal = factCheckController.signal;
+        const factCheckContainer = document.getElementById('fact-check-container') as HTMLDivElement;
         const factCheckWrapper = document.getElementById('fact-check-wrapper') as HTMLDivElement;
-        factCheckWrapper.innerHTML = '<div class="step-spinner"></div> AIが検証中です...';
-        document.getElementById('fact-check-container')?.classList.remove('hidden');
-        const cleanMarkdownForFactCheck = currentArticle.markdown
-            .replace(/\[(IMAGE_GENERATE|IMAGE_SCREENSHOT|INTERACTIVE_CHART):({[\s\S]*?})\]/g, '')
-            .replace(/---ここから有料---/g, '');
-        const prompt = `あなたは精密なファクトチェッカーです。以下の記事本文から、検証可能な事実（例：数値、統計、固有名詞を含む断定的な記述）を抽出し、その正しさをGoogle検索を用いて検証してください。
-
-# 指示
-1.  記事の中から検証すべき記述を**最大5つまで**抽出してください。
-2.  抽出した各記述について、Google検索で**日本の信頼性の高い情報源**（公的機関、主要メディア、学術論文など）を探してください。
-3.  情報源と記述を比較し、結果を以下のいずれかで評価してください。
-    - \`match\`: 信頼できる情報源と内容が一致する。
-    - \`partial_match\`: 類似の情報は見つかるが、数値や文脈が微妙に異なる。
-    - \`no_match\`: 信頼できる情報源が見つからない、または情報が誤っている可能性が高い。
-4.  結果をJSON形式で出力してください。出力はJSONオブジェクトのみとし、前後に説明文や\`\`\`jsonのようなマークダウンは含めないでください。スキーマは以下の通りです:
-    {
-        "factCheckResults": [
-            {
-                "statement": "検証対象の記述",
-                "source": "情報源のタイトル",
-                "uri": "情報源のURL",
-                "result": "match, partial_match, or no_match",
-                "feedback": "検証結果に関する簡単な解説"
-            }
-        ]
-    }
-
-# 記事本文
----
-${safeSubstring(sanitizeString(cleanMarkdownForFactCheck), 5000)}
----
-`;
+        factCheckWrapper.innerHTML = `<div class="step-spinner"></div> ${t('factCheckInProgress')} <button class="secondary-button cancel-button">${t('cancel')}</button>`;
+        factCheckWrapper.querySelector('.cancel-button')?.addEventListener('click', () => factCheckController?.abort());
+        factCheckContainer.classList.remove('hidden');
+        const cleanMarkdownForFactCheck = markdownForAnalysis(currentArticle.markdown);
+        const { id: articleId, language } = currentArticle;
         try {
-            const ai = getGenAIClient();
-            const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: {
-                    tools: [{ googleSearch: {} }],
-                }
-            }));
-            let jsonText = response.text.trim();
-            if (jsonText.startsWith('```json')) {
-                jsonText = jsonText.substring(7);
-                if (jsonText.endsWith('```')) {
-                    jsonText = jsonText.substring(0, jsonText.length - 3);
-                }
+            // One grounded call per part, so claims past the first few thousand characters get checked too
+            const factCheckResults: FactCheckResult[] = [];
+            for (const chunk of splitMarkdownIntoChunks(cleanMarkdownForFactCheck, FACT_CHECK_CHUNK_LENGTH)) {
+                const prompt = renderPrompt('factCheck', { markdown: sanitizeString(chunk.trim()) }) + languageInstruction(language);
+                const ai = getAIProvider(articleId);
+                const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({
+                    model: stageModel('factCheck'),
+                    contents: prompt,
+                    config: {
+                        ...stageConfig('factCheck'),
+                        tools: [{ googleSearch: {} }],
+                        abortSignal: signal,
+                    }
+                }), { signal });
+                const result = await parseStructuredResponse(response.text, objectOf({ factCheckResults: arrayOf(validateFactCheckResult) }), { stage: 'factCheck', signal, articleId });
+                factCheckResults.push(...result.factCheckResults);
             }
-            const result = JSON.parse(jsonText);
-            const factCheckResults = result.factCheckResults as FactCheckResult[];
             if (currentArticle) {
                 currentArticle.factCheck = {
                     status: 'checked',
@@ -522,9 +3631,20 @@ ${safeSubstring(sanitizeString(cleanMarkdownForFactCheck), 5000)}
             }
             displayFactCheckResults(factCheckResults);
         } catch (error) {
-            console.error("Error during fact-checking:", error);
-            factCheckWrapper.innerHTML = `<p class="error">ファクトチェック中にエラーが発生しました。</p>`;
+            if (signal.aborted) {
+                // Put back whatever the article showed before the check started.
+                if (currentArticle?.factCheck?.status === 'checked') {
+                    displayFactCheckResults(currentArticle.factCheck.results);
+                } else {
+                    factCheckWrapper.innerHTML = '';
+                    factCheckContainer.classList.add('hidden');
+                }
+            } else {
+                console.error("Error during fact-checking:", error);
+                factCheckWrapper.innerHTML = `<p class="error">${escapeHtml(withErrorCause(t('factCheckError'), error))}</p>`;
+            }
         } finally {
+            if (factCheckController?.signal === signal) factCheckController = null;
             factCheckButton.disabled = false;
             spinner.classList.add('hidden');
             buttonText.textContent = originalText;
@@ -537,47 +3657,28 @@ ${safeSubstring(sanitizeString(cleanMarkdownForFactCheck), 5000)}
         const spinner = coPilotAnalyzeBtn.querySelector('.spinner') as HTMLDivElement;
         coPilotAnalyzeBtn.disabled = true;
         spinner.classList.remove('hidden');
-        buttonText.textContent = '分析中...';
-        coPilotSuggestionsList.innerHTML = '<div class="step-spinner"></div> AIが分析中です...';
-        const coPilotPrompt = `あなたはプロのコンテンツ編集者であり、AIコパイロットです。以下の記事本文を分析し、改善点を提案してください。
-提案は、記事のメタデータ（テーマ、ペルソナ、トーン）に基づいて行ってください。
-
-# 記事メタデータ
-- テーマ・キーワード: ${sanitizeString(currentArticle.theme)}
-- ターゲット読者（ペルソナ）: ${sanitizeString(currentArticle.persona)}
-- 記事のトーン: ${sanitizeString(currentArticle.tone)}
-
-# 分析の観点
-- **読みやすさ**: 長すぎる文章、複雑な表現、専門用語の乱用などを指摘してください。
-- **エンゲージメント**: 読者の興味を引くための問いかけ、共感を呼ぶ表現、具体例の追加などを提案してください。
-- **トーンの一貫性**: 指定された「${currentArticle.tone}」なトーンから逸脱している部分を修正してください。
-- **SEO**: テーマ「${currentArticle.theme}」に関連するキーワードを自然に追加する提案をしてください。
-
-# 出力形式
-提案のリストをJSON形式で返してください。各提案には、以下のキーを含めてください。
-- \`reason\`: なぜこの変更を推奨するのかという具体的な理由。
-- \`original\`: 変更対象となる、記事本文から抜き出した**正確な**一部分。
-- \`suggested\`: 改善後の文章。
-
-# 記事本文
----
-${sanitizeString(markdown)}
----
-`;
+        buttonText.textContent = t('analyzing');
+        coPilotSuggestionsList.innerHTML = `<div class="step-spinner"></div> ${t('coPilotInProgress')}`;
+        const coPilotPrompt = renderPrompt('coPilot', {
+            theme: sanitizeString(currentArticle.theme),
+            persona: sanitizeString(currentArticle.persona),
+            tone: sanitizeString(currentArticle.tone),
+            markdown: sanitizeString(markdown),
+        }) + languageInstruction(currentArticle.language);
         const schema = { type: Type.OBJECT, properties: { suggestions: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { reason: { type: Type.STRING }, original: { type: Type.STRING }, suggested: { type: Type.STRING } }, required: ['reason', 'original', 'suggested'] } } }, required: ['suggestions'] };
         try {
-            const ai = getGenAIClient();
-            const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({ model: 'gemini-2.5-flash', contents: coPilotPrompt, config: { responseMimeType: 'application/json', responseSchema: schema } }));
-            const result = JSON.parse(response.text);
-            coPilotSuggestions = result.suggestions.map((s: any, index: number) => ({ ...s, id: index }));
+            const ai = getAIProvider(currentArticle?.id);
+            const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({ model: stageModel('editorAssist'), contents: coPilotPrompt, config: { ...stageConfig('editorAssist'), responseMimeType: 'application/json', responseSchema: schema } }));
+            const result = await parseStructuredResponse(response.text, objectOf({ suggestions: arrayOf(validateCoPilotSuggestion) }), { stage: 'editorAssist', schema, articleId: currentArticle?.id });
+            coPilotSuggestions = result.suggestions.map((s, index) => ({ ...s, id: index }));
             renderCoPilotSuggestions();
         } catch (error) {
             console.error("Error analyzing with Co-pilot:", error);
-            coPilotSuggestionsList.innerHTML = `<li class="error">分析中にエラーが発生しました。</li>`;
+            coPilotSuggestionsList.innerHTML = `<li class="error">${escapeHtml(withErrorCause(t('coPilotError'), error))}</li>`;
         } finally {
             coPilotAnalyzeBtn.disabled = false;
             spinner.classList.add('hidden');
-            buttonText.textContent = 'ドキュメントを再分析';
+            buttonText.textContent = t('coPilotReanalyze');
         }
     });
     articleOutput?.addEventListener('mouseup', (e) => {
@@ -606,11 +3707,11 @@ ${sanitizeString(markdown)}
             const formatted = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}T${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
             scheduleDatetimeInput.value = formatted;
             removeScheduleBtn.classList.remove('hidden');
-            saveScheduleBtn.textContent = '予約を更新';
+            saveScheduleBtn.textContent = t('updateSchedule');
         } else {
             scheduleDatetimeInput.value = '';
             removeScheduleBtn.classList.add('hidden');
-            saveScheduleBtn.textContent = '予約を設定';
+            saveScheduleBtn.textContent = t('setSchedule');
         }
         scheduleModal.classList.remove('hidden');
     });
@@ -624,7 +3725,7 @@ ${sanitizeString(markdown)}
             await updateArticleInHistory(currentArticle);
             scheduleModal.classList.add('hidden');
         } else {
-            alert('有効な日時を選択してください。');
+            alert(t('invalidDatetime'));
         }
     });
     removeScheduleBtn?.addEventListener('click', async () => {
@@ -640,36 +3741,45 @@ ${sanitizeString(markdown)}
         const originalText = buttonText.textContent;
         proofreadButton.disabled = true;
         spinner.classList.remove('hidden');
-        buttonText.textContent = '校正中...';
-        const prompt = `あなたはプロの日本人編集者です。以下のMarkdown形式の記事を徹底的に校正・推敲してください。
-目的は、誤字脱字、文法的な誤り、不自然な言い回しを全て修正し、ネイティブの読者が読んでも一切の違和感がない、完璧に洗練された日本語の文章に磨き上げることです。
+        buttonText.textContent = t('proofreading');
+        const { id: articleId, language } = currentArticle;
+        const { promptName } = ARTICLE_LANGUAGES[language || 'ja'];
+        const chunks = splitMarkdownIntoChunks(currentArticle.markdown, PROOFREAD_CHUNK_LENGTH).map(chunk => chunk.trim());
+        try {
+            // Proofread a part at a time and stitch the parts back together, so the whole article comes back
+            const proofreadChunks: string[] = [];
+            for (const [index, chunk] of chunks.entries()) {
+                const prompt = `あなたは${promptName}を母語とするプロの編集者です。以下のMarkdown形式の記事を徹底的に校正・推敲してください。
+目的は、誤字脱字、文法的な誤り、不自然な言い回しを全て修正し、ネイティブの読者が読んでも一切の違和感がない、完璧に洗練された${promptName}の文章に磨き上げることです。
 元のMarkdown構造（見出し、リスト、リンクなど）は絶対に破壊しないでください。記事の内容や意図を勝手に変更しないでください。
-修正後の記事本文（Markdown）のみを返してください。余計な挨拶や説明は不要です。
+修正後の記事本文（Markdown）のみを返してください。余計な挨拶や説明は不要です。${chunks.length > 1 ? `
+これは長い記事を分割した全${chunks.length}部中の第${index + 1}部です。この部分だけを、途中で切らずに最後まで返してください。` : ''}
 # 校正対象の記事
 ---
-${safeSubstring(sanitizeString(currentArticle.markdown), 15000)}
+${sanitizeString(chunk)}
 ---
-`;
-        try {
-            const ai = getGenAIClient();
-            const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt }));
-            const proofreadMarkdown = response.text;
-            if (!proofreadMarkdown.trim()) {
-                throw new Error("AIからの応答が空でした。");
+${languageInstruction(language)}`;
+                const ai = getAIProvider(articleId);
+                const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({ model: stageModel('editorAssist'), contents: prompt, config: stageConfig('editorAssist') }));
+                if (!response.text.trim()) {
+                    throw new Error("AIからの応答が空でした。");
+                }
+                proofreadChunks.push(response.text.trim());
             }
-            const updatedArticle = { ...currentArticle, markdown: proofreadMarkdown, html: '' };
+            const updatedArticle = { ...currentArticle, markdown: proofreadChunks.join('\n\n'), html: '' };
             await updateArticleInHistory(updatedArticle);
             renderArticle(updatedArticle);
         } catch (error) {
             console.error("Error during proofreading:", error);
-            alert('AIによる校正中にエラーが発生しました。');
+            alert(withErrorCause(t('proofreadError'), error));
         } finally {
             proofreadButton.disabled = false;
             spinner.classList.add('hidden');
             buttonText.textContent = originalText;
         }
     });
-    copyButton?.addEventListener('click', () => { if (!currentArticle) return; navigator.clipboard.writeText(currentArticle.markdown).then(() => { const buttonText = copyButton.querySelector('.button-text'); if (buttonText) buttonText.textContent = 'コピーしました！'; setTimeout(() => { if (buttonText) buttonText.textContent = 'コピー'; }, 2000); }); });
+    document.getElementById('export-html-button')?.addEventListener('click', exportArticleHtml);
+    copyButton?.addEventListener('click', () => { if (!currentArticle) return; navigator.clipboard.writeText(currentArticle.markdown).then(() => { const buttonText = copyButton.querySelector('.button-text'); if (buttonText) buttonText.textContent = t('copied'); setTimeout(() => { if (buttonText) buttonText.textContent = t('copy'); }, 2000); }); });
     document.querySelectorAll('.copy-small-button').forEach(button => {
         button.addEventListener('click', () => {
             const el = button as HTMLElement;
@@ -680,8 +3790,22 @@ ${safeSubstring(sanitizeString(currentArticle.markdown), 15000)}
             }
         });
     });
-    editButton?.addEventListener('click', () => { if (!currentArticle) return; stopSpeech(); stopGeneratedAudio(); viewModeContainer.classList.add('hidden'); editModeContainer.classList.remove('hidden'); editTextArea.value = currentArticle.markdown; coPilotSuggestions = []; coPilotSuggestionsList.innerHTML = ''; (coPilotAnalyzeBtn.querySelector('.button-text') as HTMLSpanElement).textContent = 'ドキュメントを分析'; editTextArea.focus(); });
+    editButton?.addEventListener('click', () => { if (!currentArticle) return; stopSpeech(); stopGeneratedAudio(); viewModeContainer.classList.add('hidden'); editModeContainer.classList.remove('hidden'); editTextArea.value = currentArticle.markdown; coPilotSuggestions = []; coPilotSuggestionsList.innerHTML = ''; (coPilotAnalyzeBtn.querySelector('.button-text') as HTMLSpanElement).textContent = t('coPilotAnalyze'); editTextArea.focus(); });
     cancelEditButton?.addEventListener('click', () => { viewModeContainer.classList.remove('hidden'); editModeContainer.classList.add('hidden'); });
+    chartEditorButton?.addEventListener('click', openChartEditor);
+    chartEditorModal?.addEventListener('input', updateChartEditorPreview);
+    chartAddDatasetBtn?.addEventListener('click', () => { addChartDatasetRow(); updateChartEditorPreview(); });
+    chartEditorModal?.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        if (target.classList.contains('chart-dataset-remove-btn')) {
+            target.closest('.chart-dataset-row')?.remove();
+            updateChartEditorPreview();
+        } else if (target === chartEditorModal || target.classList.contains('modal-close-btn')) {
+            closeChartEditor();
+        }
+    });
+    chartEditorCancelBtn?.addEventListener('click', closeChartEditor);
+    chartEditorApplyBtn?.addEventListener('click', applyChartEditor);
     readAloudButton?.addEventListener('click', toggleSpeech);
     generateAudioButton?.addEventListener('click', async () => {
         if (!currentArticle || generateAudioButton.disabled) return;
@@ -691,17 +3815,13 @@ ${safeSubstring(sanitizeString(currentArticle.markdown), 15000)}
         const originalText = buttonText.textContent;
         generateAudioButton.disabled = true;
         spinner.classList.remove('hidden');
-        buttonText.textContent = '生成中...';
+        buttonText.textContent = t('generating');
         try {
-            const textToSpeak = currentArticle.markdown
-                .replace(/\[(IMAGE_GENERATE|IMAGE_SCREENSHOT|INTERACTIVE_CHART|BOX|SUMMARY):([\s\S]*?)\]/g, '')
-                .replace(/#/g, '')
-                .replace(/\[.*?\]\(.*?\)/g, (match, p1) => p1) // Keep link text
-                .replace(/<\/?[^>]+(>|$)/g, ""); // Remove HTML tags
-            const ai = getGenAIClient();
-            const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
-                contents: [{ parts: [{ text: `以下の文章を、プロのナレーターのように、自然で聞き取りやすいトーンで読み上げてください。「${textToSpeak}` }] }],
+            const textToSpeak = markdownToPlainText(currentArticle.markdown);
+            const ai = getAIProvider(currentArticle?.id);
+            const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({
+                model: stageModel('tts'),
+                contents: [{ parts: [{ text: `${ARTICLE_LANGUAGES[currentArticle.language || 'ja'].narrationInstruction}${textToSpeak}` }] }],
                 config: {
                     responseModalities: [Modality.AUDIO],
                     speechConfig: {
@@ -727,7 +3847,7 @@ ${safeSubstring(sanitizeString(currentArticle.markdown), 15000)}
             audio.play();
         } catch (error) {
             console.error("Error generating audio article:", error);
-            audioPlayerContainer.innerHTML = `<p class="error">音声の生成に失敗しました。</p>`;
+            audioPlayerContainer.innerHTML = `<p class="error">${t('audioError')}</p>`;
             audioPlayerContainer.classList.remove('hidden');
         } finally {
             generateAudioButton.disabled = false;
@@ -736,6 +3856,32 @@ ${safeSubstring(sanitizeString(currentArticle.markdown), 15000)}
         }
     });
     closePerformanceModalBtn?.addEventListener('click', () => performanceModal.classList.add('hidden'));
+    cmsExportModal?.addEventListener('change', updateCmsExportHint);
+    cmsExportModal?.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        if (target === cmsExportModal || target.classList.contains('modal-close-btn') || target.id === 'cms-export-cancel-btn') cmsExportModal.classList.add('hidden');
+    });
+    document.getElementById('cms-export-download-btn')?.addEventListener('click', runCmsExport);
+    document.getElementById('history-list')?.addEventListener('click', handleHistoryListClick);
+    document.getElementById('history-filters')?.addEventListener('input', () => showHistoryPage(0));
+    document.getElementById('history-filter-reset-btn')?.addEventListener('click', resetHistoryFilters);
+    document.getElementById('history-prev-btn')?.addEventListener('click', () => showHistoryPage(historyPage - 1));
+    document.getElementById('history-next-btn')?.addEventListener('click', () => showHistoryPage(historyPage + 1));
+    document.getElementById('export-workspace-btn')?.addEventListener('click', exportWorkspace);
+    document.getElementById('import-workspace-btn')?.addEventListener('click', () => importWorkspaceInput.click());
+    importWorkspaceInput?.addEventListener('change', () => {
+        const file = importWorkspaceInput.files?.[0];
+        importWorkspaceInput.value = ''; // Lets the same file be picked again after fixing it
+        if (file) openWorkspaceImport(file);
+    });
+    workspaceImportModal?.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        if (target === workspaceImportModal || target.classList.contains('modal-close-btn') || target.id === 'workspace-import-cancel-btn') {
+            pendingWorkspaceArchive = null;
+            workspaceImportModal.classList.add('hidden');
+        }
+    });
+    document.getElementById('workspace-import-apply-btn')?.addEventListener('click', applyWorkspaceImport);
     performanceModal?.addEventListener('click', (e) => { if (e.target === performanceModal) { performanceModal.classList.add('hidden'); } });
     savePerformanceBtn?.addEventListener('click', async () => {
         if (!currentPerformanceArticleId) return;
@@ -761,6 +3907,99 @@ ${safeSubstring(sanitizeString(currentArticle.markdown), 15000)}
         performanceModal.classList.add('hidden');
         currentPerformanceArticleId = null;
     });
+    articleWrapper?.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const slot = target.closest<HTMLElement>('[data-key]');
+        if (!slot || !slot.querySelector('.image-actions')) return;
+        const key = decodeUnicode(slot.dataset.key || '');
+        if (target.closest('.image-regenerate-btn')) {
+            regenerateArticleImage(slot, key);
+        } else if (target.closest('.image-edit-prompt-btn')) {
+            openImagePromptEditor(slot, key);
+        } else if (target.closest('.image-prompt-generate-btn')) {
+            const prompt = (slot.querySelector('.image-prompt-input') as HTMLTextAreaElement).value.trim();
+            const overlayText = (slot.querySelector('.image-overlay-input') as HTMLInputElement).value.trim() || undefined;
+            regenerateArticleImage(slot, key, { key, prompt, overlayText });
+        } else if (target.closest('.image-prompt-cancel-btn')) {
+            slot.querySelector('.image-prompt-editor')?.remove();
+            slot.querySelector('.image-actions')?.classList.remove('hidden');
+        }
+    });
+    // Screenshot slots: choose, drop or paste an image, then crop and annotate it in the editor
+    const screenshotSlotFromEvent = (e: Event) => {
+        const slot = (e.target as HTMLElement).closest<HTMLElement>('.image-placeholder-wrapper');
+        const key = decodeUnicode(slot?.dataset.key || '');
+        const entry = currentArticle?.imageMap?.[key];
+        return slot && typeof entry === 'object' && entry.type === 'screenshot' ? { slot, key, entry } : null;
+    };
+    articleWrapper?.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const found = screenshotSlotFromEvent(e);
+        if (!found) return;
+        if (target.closest('.screenshot-choose-btn')) {
+            (found.slot.querySelector('.screenshot-file-input') as HTMLInputElement).click();
+        } else if (target.closest('.screenshot-edit-btn')) {
+            fetch(imageMapEntryDataUrl(found.entry)!).then(response => response.blob()).then(blob => openScreenshotEditor(found.slot, found.key, blob));
+        } else if (target.closest('.screenshot-remove-btn')) {
+            removeScreenshot(found.slot, found.key);
+        }
+    });
+    articleWrapper?.addEventListener('change', (e) => {
+        const input = e.target as HTMLInputElement;
+        const found = screenshotSlotFromEvent(e);
+        if (!found || !input.classList.contains('screenshot-file-input') || !input.files?.[0]) return;
+        openScreenshotEditor(found.slot, found.key, input.files[0]);
+        input.value = '';
+    });
+    articleWrapper?.addEventListener('dragover', (e) => {
+        if (!screenshotSlotFromEvent(e)) return;
+        e.preventDefault();
+        (e.target as HTMLElement).closest('.screenshot-placeholder')?.classList.add('drag-over');
+    });
+    articleWrapper?.addEventListener('dragleave', (e) => (e.target as HTMLElement).closest('.screenshot-placeholder')?.classList.remove('drag-over'));
+    articleWrapper?.addEventListener('drop', (e) => {
+        const found = screenshotSlotFromEvent(e);
+        const file = e.dataTransfer?.files?.[0];
+        if (!found || !file) return;
+        e.preventDefault();
+        openScreenshotEditor(found.slot, found.key, file);
+    });
+    articleWrapper?.addEventListener('paste', (e) => {
+        const found = screenshotSlotFromEvent(e);
+        const file = [...(e.clipboardData?.items || [])].find(item => item.type.startsWith('image/'))?.getAsFile();
+        if (!found || !file) return;
+        e.preventDefault();
+        openScreenshotEditor(found.slot, found.key, file);
+    });
+    screenshotEditorCanvas?.addEventListener('mousedown', (e) => {
+        if (!screenshotEditor) return;
+        screenshotEditor.dragStart = screenshotEditor.dragEnd = screenshotPointFromEvent(screenshotEditorCanvas, e);
+    });
+    screenshotEditorCanvas?.addEventListener('mousemove', (e) => {
+        if (!screenshotEditor?.dragStart) return;
+        screenshotEditor.dragEnd = screenshotPointFromEvent(screenshotEditorCanvas, e);
+        drawScreenshotEditor();
+    });
+    screenshotEditorCanvas?.addEventListener('mouseup', finishScreenshotDrag);
+    screenshotEditorCanvas?.addEventListener('mouseleave', finishScreenshotDrag);
+    screenshotEditorModal?.querySelectorAll<HTMLButtonElement>('.screenshot-tool-btn').forEach(button => {
+        button.addEventListener('click', () => selectScreenshotTool(button.dataset.tool as ScreenshotEditorState['tool']));
+    });
+    screenshotUndoBtn?.addEventListener('click', () => {
+        if (!screenshotEditor) return;
+        if (screenshotEditor.annotations.length > 0) screenshotEditor.annotations.pop();
+        else screenshotEditor.crop = null;
+        drawScreenshotEditor();
+    });
+    screenshotResetBtn?.addEventListener('click', () => {
+        if (!screenshotEditor) return;
+        screenshotEditor.annotations = [];
+        screenshotEditor.crop = null;
+        drawScreenshotEditor();
+    });
+    screenshotSaveBtn?.addEventListener('click', saveScreenshotFromEditor);
+    screenshotCancelBtn?.addEventListener('click', closeScreenshotEditor);
+    screenshotEditorModal?.querySelector('.modal-close-btn')?.addEventListener('click', closeScreenshotEditor);
     selectVeoKeyBtn?.addEventListener('click', async () => {
         await (window as any).aistudio.openSelectKey();
         if (currentArticle) {
@@ -799,8 +4038,9 @@ ${safeSubstring(sanitizeString(currentArticle.markdown), 15000)}
         }
     });
     
-    closeAuditModalBtn?.addEventListener('click', () => auditModal.classList.add('hidden'));
-    auditModal?.addEventListener('click', (e) => { if (e.target === auditModal) { auditModal.classList.add('hidden'); } });
+    closeAuditModalBtn?.addEventListener('click', () => { auditController?.abort(); auditModal.classList.add('hidden'); });
+    cancelAuditBtn?.addEventListener('click', () => { auditController?.abort(); auditModal.classList.add('hidden'); });
+    auditModal?.addEventListener('click', (e) => { if (e.target === auditModal) { auditController?.abort(); auditModal.classList.add('hidden'); } });
 
     editWithSuggestionsBtn?.addEventListener('click', async () => {
         if (!currentAuditArticleId) return;
@@ -826,12 +4066,12 @@ ${safeSubstring(sanitizeString(currentArticle.markdown), 15000)}
             coPilotSuggestions = []; // Clear previous suggestions
             const suggestionsHtml = `
                 <li class="co-pilot-suggestion-item audit-suggestion-block">
-                    <strong>AI監査による更新提案:</strong>
+                    <strong>${t('auditSuggestionsHeading')}</strong>
                     <ul style="padding-left: 1.2rem; margin-top: 0.5rem;">
                         ${currentAuditSuggestions.map(s => `
                             <li style="margin-bottom: 0.75rem;">
-                                <strong>${s.area}:</strong> ${s.suggestion_text} 
-                                <em style="color: #666; display: block; font-size: 0.8rem;">(${s.reason})</em>
+                                <strong>${escapeHtml(s.area)}:</strong> ${escapeHtml(s.suggestion_text)} 
+                                <em style="color: #666; display: block; font-size: 0.8rem;">(${escapeHtml(s.reason)})</em>
                             </li>
                         `).join('')}
                     </ul>
@@ -841,7 +4081,7 @@ ${safeSubstring(sanitizeString(currentArticle.markdown), 15000)}
         } else {
              coPilotSuggestionsList.innerHTML = '';
         }
-        (coPilotAnalyzeBtn.querySelector('.button-text') as HTMLSpanElement).textContent = 'ドキュメントを再分析';
+        (coPilotAnalyzeBtn.querySelector('.button-text') as HTMLSpanElement).textContent = t('coPilotReanalyze');
         editTextArea.focus();
         
         // Close modal
@@ -851,6 +4091,8 @@ ${safeSubstring(sanitizeString(currentArticle.markdown), 15000)}
     // --- New API Key Modal Listeners ---
     apiKeyBtn?.addEventListener('click', () => {
         apiKeyInput.value = getApiKey() || '';
+        offlineDemoToggle.checked = aiProviderKind === 'fake';
+        uiLanguageSelect.value = uiLanguage;
         apiKeyStatus.style.display = 'none';
         apiKeyModal.classList.remove('hidden');
     });
@@ -859,57 +4101,125 @@ ${safeSubstring(sanitizeString(currentArticle.markdown), 15000)}
     saveApiKeyBtn?.addEventListener('click', async () => {
         const key = apiKeyInput.value.trim();
         if (!key) {
-            setApiKeyStatus('APIキーを入力してください。', 'error');
+            setApiKeyStatus(t('apiKeyRequired'), 'error');
             return;
         }
         
         saveApiKeyBtn.disabled = true;
-        saveApiKeyBtn.textContent = '検証中...';
+        saveApiKeyBtn.textContent = t('verifying');
 
         try {
-            const ai = new GoogleGenAI({ apiKey: key });
-            await ai.models.generateContent({model: 'gemini-2.5-flash', contents: 'Hi'}); // Simple validation call
+            const ai = createGeminiProvider(key);
+            await ai.generateContent({model: 'gemini-2.5-flash', contents: 'Hi'}); // Simple validation call
             saveApiKey(key);
-            setApiKeyStatus('APIキーが正常に保存されました。', 'success');
+            setApiKeyStatus(t('apiKeySaved'), 'success');
             checkApiKeyOnLoad(); // Re-check to enable form if it was disabled
             setTimeout(() => {
                 apiKeyModal.classList.add('hidden');
             }, 1000);
         } catch (error) {
             console.error("API Key validation failed", error);
-            setApiKeyStatus('APIキーが無効です。もう一度確認してください。', 'error');
+            const apiError = classifyApiError(error);
+            setApiKeyStatus(apiError.kind === 'auth' ? t('apiKeyInvalid') : apiError.message, 'error');
         } finally {
              saveApiKeyBtn.disabled = false;
-             saveApiKeyBtn.textContent = 'キーを保存して検証';
+             saveApiKeyBtn.textContent = t('saveApiKey');
+        }
+    });
+    clearApiKeyBtn?.addEventListener('click', () => {
+        clearApiKey();
+        apiKeyInput.value = '';
+        setApiKeyStatus(t('apiKeyCleared'), 'success');
+        checkApiKeyOnLoad();
+    });
+    offlineDemoToggle?.addEventListener('change', () => {
+        saveAIProviderKind(offlineDemoToggle.checked ? 'fake' : 'gemini');
+        setApiKeyStatus(t(offlineDemoToggle.checked ? 'offlineDemoEnabled' : 'offlineDemoDisabled'), 'success');
+        checkApiKeyOnLoad();
+    });
+    uiLanguageSelect?.addEventListener('change', () => {
+        saveUiLanguage(uiLanguageSelect.value as LanguageCode);
+        applyUiLanguage();
+        checkApiKeyOnLoad();
+        renderHistoryList();
+        renderModelSettings();
+    });
+
+    savePriceTableBtn?.addEventListener('click', () => {
+        try {
+            const parsed = JSON.parse(priceTableInput.value);
+            const isValid = parsed && typeof parsed === 'object' && !Array.isArray(parsed) && Object.values(parsed).every((price: any) =>
+                price && typeof price === 'object' && Object.values(price).every(value => typeof value === 'number' && value >= 0));
+            if (!isValid) throw new Error('invalid price table');
+            savePriceTable(parsed);
+            renderUsageSummary();
+            alert(t('priceTableSaved'));
+        } catch (e) {
+            alert(t('priceTableInvalid'));
+        }
+    });
+    resetPriceTableBtn?.addEventListener('click', () => {
+        if (!confirm(t('confirmResetPriceTable'))) return;
+        resetPriceTable();
+        priceTableInput.value = JSON.stringify(priceTable, null, 2);
+        renderUsageSummary();
+    });
+
+    saveModelSettingsBtn?.addEventListener('click', () => {
+        const settings = readModelSettingsForm();
+        if (!settings) {
+            alert(t('modelSettingsInvalid'));
+            return;
         }
+        saveModelSettings(settings);
+        renderModelSettings();
+        alert(t('modelSettingsSaved'));
     });
-    clearApiKeyBtn?.addEventListener('click', () => {
-        clearApiKey();
-        apiKeyInput.value = '';
-        setApiKeyStatus('APIキーを削除しました。', 'success');
-        checkApiKeyOnLoad();
+    resetModelSettingsBtn?.addEventListener('click', () => {
+        if (!confirm(t('confirmResetModelSettings'))) return;
+        resetModelSettings();
+        renderModelSettings();
     });
 
     closeProductPreviewModalBtn?.addEventListener('click', () => productPreviewModal.classList.add('hidden'));
     productPreviewModal?.addEventListener('click', (e) => { if(e.target === productPreviewModal) productPreviewModal.classList.add('hidden') });
 
     // --- Initial State Setup ---
+    loadUiLanguageFromStorage();
+    const languageOptions = (Object.keys(ARTICLE_LANGUAGES) as LanguageCode[]).map(code => `<option value="${code}">${ARTICLE_LANGUAGES[code].label}</option>`).join('');
+    articleLanguageSelect.innerHTML = languageOptions;
+    uiLanguageSelect.innerHTML = languageOptions;
+    applyUiLanguage();
+    loadAIProviderKindFromStorage();
     checkApiKeyOnLoad();
     loadBrandVoiceFromStorage();
-    loadArticlesFromStorage();
-    renderHistoryList();
+    loadPromptLibraryFromStorage();
+    promptSelect.innerHTML = (Object.keys(PROMPT_DEFINITIONS) as PromptId[]).map(id => `<option value="${id}">${PROMPT_DEFINITIONS[id].label}</option>`).join('');
+    loadUsageLedgerFromStorage();
+    loadPriceTableFromStorage();
+    priceTableInput.value = JSON.stringify(priceTable, null, 2);
+    loadModelSettingsFromStorage();
+    renderModelSettings();
+    loadBatchQueueFromStorage();
+    renderBatchQueue();
     switchMode('create');
+    // The history loads asynchronously now, so whatever can add an article to it waits for it
+    loadArticlesFromDb().then(() => {
+        renderHistoryList();
+        pumpBatchQueue();
+        restoreLatestDraft();
+    });
 });
 
 
-const progressSteps = [
-    "✍️ 記事本文を執筆中...",
-    "🎨 記事を装飾＆ビジュアル計画中...",
-    "🖼️ 画像コンテンツを生成中...",
-    "💡 Q&Aセクションを作成中...",
-    "🚀 パフォーマンスを分析＆予測中...",
-    "✨ 投稿アシスト情報を生成中...",
-    "✅ 記事が完成しました！",
+const progressSteps: MessageKey[] = [
+    'progressCoreText',
+    'progressDecorate',
+    'progressImages',
+    'progressFaq',
+    'progressPerformance',
+    'progressEnhancements',
+    'progressComplete',
 ];
 
 // --- Mode Switching Logic ---
@@ -932,7 +4242,7 @@ function switchMode(mode: 'strategy' | 'create' | 'history') {
 
     const modes = { strategy: strategyModeContent, create: createModeContent, history: historyModeContent };
     const buttons = { strategy: modeStrategyBtn, create: modeCreateBtn, history: modeHistoryBtn };
-    const titles = { strategy: 'コンテンツ戦略を立案', create: '記事の設計図を作成', history: '商品管理' };
+    const titles: Record<typeof mode, MessageKey> = { strategy: 'titleStrategy', create: 'titleCreate', history: 'titleHistory' };
 
     for (const [key, element] of Object.entries(modes)) {
         element.classList.toggle('hidden', key !== mode);
@@ -940,7 +4250,8 @@ function switchMode(mode: 'strategy' | 'create' | 'history') {
     for (const [key, button] of Object.entries(buttons)) {
         button.classList.toggle('active', key !== mode);
     }
-    settingsTitle.textContent = titles[mode];
+    settingsTitle.dataset.i18n = titles[mode];
+    settingsTitle.textContent = t(titles[mode]);
     if (mode === 'create') {
         step1PersonaInput.classList.remove('hidden');
         step2OutlineSuggestions.classList.add('hidden');
@@ -985,6 +4296,8 @@ async function generateStrategy(fromData = false) {
     if (!theme && !fromData) return;
     if (strategyGenerateBtn.disabled || strategyGenerateFromDataBtn.disabled) return;
     
+    strategyController = new AbortController();
+    const signal = strategyController.signal;
     setStrategyLoading(true, fromData);
     strategyResultsContainer.classList.add('hidden');
     strategyResultsTableBody.innerHTML = '';
@@ -994,7 +4307,8 @@ async function generateStrategy(fromData = false) {
     if(fromData) {
         const successfulArticles = articles.filter(h => h.performance?.userInput && (robustParseInt(h.performance.userInput.views) > 1000 || robustParseInt(h.performance.userInput.conversions) > 10));
         if (successfulArticles.length === 0) {
-            strategyResultsTableBody.innerHTML = `<tr><td colspan="3" class="error">分析可能な成功データが不足しています。履歴から記事のパフォーマンスを入力してください。</td></tr>`;
+            strategyResultsTableBody.innerHTML = `<tr><td colspan="4" class="error">${t('strategyInsufficientData')}</td></tr>`;
+            strategyController = null;
             setStrategyLoading(false, fromData);
             strategyResultsContainer.classList.remove('hidden'); // Show the container to display the error
             return;
@@ -1031,25 +4345,32 @@ ${successStories}
 
     const strategySchema = { type: Type.OBJECT, properties: { strategies: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { keyword: { type: Type.STRING }, intent: { type: Type.STRING }, persona: { type: Type.STRING } }, required: ['keyword', 'intent', 'persona'] } } }, required: ['strategies'] };
     try {
-        const ai = getGenAIClient();
-        const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({ model: 'gemini-2.5-flash', contents: strategyPrompt, config: { responseMimeType: 'application/json', responseSchema: strategySchema } }));
-        const result = JSON.parse(response.text);
+        const ai = getAIProvider();
+        const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({ model: stageModel('strategy'), contents: strategyPrompt, config: { ...stageConfig('strategy'), responseMimeType: 'application/json', responseSchema: strategySchema, abortSignal: signal } }), { signal });
+        const result = await parseStructuredResponse(response.text, objectOf({ strategies: arrayOf(objectOf<StrategySuggestion>({ keyword: isText, intent: isString, persona: isString }), 1) }), { stage: 'strategy', schema: strategySchema, signal });
         displayStrategyResults(result.strategies);
     } catch (error) {
-        console.error("Error generating strategy:", error);
-        strategyResultsTableBody.innerHTML = `<tr><td colspan="3" class="error">戦略の生成中にエラーが発生しました。</td></tr>`;
+        if (!signal.aborted) {
+            console.error("Error generating strategy:", error);
+            strategyResultsTableBody.innerHTML = `<tr><td colspan="4" class="error">${escapeHtml(withErrorCause(t('strategyError'), error))}</td></tr>`;
+        }
     } finally {
+        if (strategyController?.signal === signal) strategyController = null;
         setStrategyLoading(false, fromData);
     }
 }
 
-function displayStrategyResults(strategies: { keyword: string, intent: string, persona: string }[]) {
+function displayStrategyResults(strategies: StrategySuggestion[]) {
     const strategyResultsTableBody = document.querySelector('#strategy-results-table tbody') as HTMLTableSectionElement;
     const strategyResultsContainer = document.getElementById('strategy-results-container') as HTMLDivElement;
+    suggestedStrategies = strategies;
     strategyResultsTableBody.innerHTML = '';
-    strategies.forEach(strategy => {
+    (document.getElementById('strategy-select-all') as HTMLInputElement).checked = false;
+    strategies.forEach((strategy, index) => {
         const row = document.createElement('tr');
-        row.innerHTML = `<td>${strategy.keyword}</td><td>${strategy.intent}</td><td>${strategy.persona}</td>`;
+        row.innerHTML = `<td class="strategy-select-cell"><input type="checkbox" class="strategy-select" data-index="${index}"></td><td>${escapeHtml(strategy.keyword)}</td><td>${escapeHtml(strategy.intent)}</td><td>${escapeHtml(strategy.persona)}</td>`;
+        // The checkbox cell queues the row for batch generation instead of opening it in the wizard.
+        (row.querySelector('.strategy-select-cell') as HTMLTableCellElement).addEventListener('click', e => e.stopPropagation());
         row.addEventListener('click', () => selectStrategy(strategy.keyword, strategy.persona));
         strategyResultsTableBody.appendChild(row);
     });
@@ -1060,19 +4381,297 @@ function setStrategyLoading(isLoading: boolean, fromData: boolean) {
     const strategyGenerateFromDataBtn = document.getElementById('strategy-generate-from-data-btn') as HTMLButtonElement;
     const strategySpinner = strategyGenerateBtn.querySelector('.spinner') as HTMLDivElement;
     const strategySpinnerFromData = strategyGenerateFromDataBtn.querySelector('.spinner') as HTMLDivElement;
+    const strategyCancelBtn = document.getElementById('strategy-cancel-btn') as HTMLButtonElement;
+    strategyCancelBtn.classList.toggle('hidden', !isLoading);
     if(fromData) {
         strategyGenerateFromDataBtn.disabled = isLoading;
         strategySpinnerFromData.classList.toggle('hidden', !isLoading);
     } else {
         strategyGenerateBtn.disabled = isLoading;
         strategySpinner.classList.toggle('hidden', !isLoading);
-        (strategyGenerateBtn.querySelector('.button-text') as HTMLSpanElement).textContent = isLoading ? '分析中...' : 'AIに戦略を提案させる';
+        (strategyGenerateBtn.querySelector('.button-text') as HTMLSpanElement).textContent = t(isLoading ? 'analyzing' : 'strategyGenerate');
+    }
+}
+
+// --- Batch Queue ---
+const BATCH_STATUS_LABELS: Record<BatchJobStatus, MessageKey> = {
+    queued: 'batchStatusQueued',
+    running: 'batchStatusRunning',
+    completed: 'batchStatusCompleted',
+    failed: 'batchStatusFailed',
+    cancelled: 'batchStatusCancelled',
+};
+
+/** Article ids double as timestamps, but batch jobs are created several per millisecond. */
+function issueArticleId(): number {
+    lastIssuedArticleId = Math.max(Date.now(), lastIssuedArticleId + 1);
+    return lastIssuedArticleId;
+}
+
+function queueSelectedStrategies() {
+    const checked = [...document.querySelectorAll<HTMLInputElement>('#strategy-results-table .strategy-select:checked')];
+    if (checked.length === 0) {
+        alert(t('batchNoneSelected'));
+        return;
+    }
+    // Tone, article type, language and long-form mode come from the create form, like a wizard run would use them.
+    const formData = new FormData(document.getElementById('article-form') as HTMLFormElement);
+    const pickRule = (document.getElementById('batch-pick-rule') as HTMLSelectElement).value as BatchPickRule;
+    checked.forEach(checkbox => {
+        const { keyword, intent, persona } = suggestedStrategies[Number(checkbox.dataset.index)];
+        batchJobs.push({
+            id: issueArticleId(),
+            keyword,
+            intent,
+            persona,
+            pickRule,
+            tone: formData.get('tone') as string,
+            articleType: formData.get('article_type') as 'free' | 'paid',
+            language: formData.get('article_language') as LanguageCode,
+            longForm: (document.getElementById('long-form-toggle') as HTMLInputElement).checked,
+            status: 'queued',
+            attempts: 0,
+        });
+        checkbox.checked = false;
+    });
+    (document.getElementById('strategy-select-all') as HTMLInputElement).checked = false;
+    saveBatchQueueToStorage();
+    renderBatchQueue();
+    pumpBatchQueue();
+}
+
+/** Starts queued jobs in order until the concurrency limit is reached. */
+function pumpBatchQueue() {
+    let running = batchJobs.filter(job => job.status === 'running').length;
+    for (const job of batchJobs) {
+        if (running >= batchConcurrency) break;
+        if (job.status !== 'queued') continue;
+        running++;
+        runBatchJob(job);
+    }
+}
+
+function updateBatchJob(job: BatchJob, changes: Partial<BatchJob>) {
+    Object.assign(job, changes);
+    saveBatchQueueToStorage();
+    renderBatchQueue();
+}
+
+async function runBatchJob(job: BatchJob) {
+    const controller = new AbortController();
+    const signal = controller.signal;
+    batchControllers.set(job.id, controller);
+    updateBatchJob(job, { status: 'running', step: -1, attempts: job.attempts + 1, error: undefined });
+    try {
+        // A retry picks up the checkpointed draft, so research and finished steps aren't paid for twice.
+        const draft = await getDraftFromDb(job.id) ?? await planBatchDraft(job, signal);
+        await runAssemblySteps(draft, signal, step => updateBatchJob(job, { step }));
+        await finalizeArticle(draft);
+        await deleteDraftFromDb(draft.id);
+        updateBatchJob(job, { status: 'completed', step: undefined });
+    } catch (e: any) {
+        if (signal.aborted) {
+            updateBatchJob(job, { status: 'cancelled', error: t('generationCancelled') });
+        } else {
+            console.error(`Batch job "${job.keyword}" failed at step ${job.step}:`, e);
+            updateBatchJob(job, { status: 'failed', error: e.message });
+        }
+    } finally {
+        batchControllers.delete(job.id);
+        pumpBatchQueue();
+    }
+}
+
+/** Does what the wizard's first screens do by hand: research, outline and design, then saves the draft. */
+async function planBatchDraft(job: BatchJob, signal: AbortSignal): Promise<AssemblyDraft> {
+    let researchedText = '';
+    try {
+        researchedText = await researchTopic(job.keyword, job.language, signal, job.id);
+    } catch (error) {
+        if (signal.aborted) throw error;
+        console.error("Error during batch pre-research step:", error);
+    }
+    const referenceText = combineReferenceText('', researchedText);
+    const outlines = await requestOutlines(job.keyword, job.persona, referenceText, job.language, signal, job.id);
+    if (!outlines?.length) throw new Error(t('outlineError'));
+    let directions: CreativeDirection[] = [];
+    try {
+        directions = await requestCreativeDirections(job.keyword, job.persona, signal, job.id);
+    } catch (error) {
+        if (signal.aborted) throw error;
+        console.error("Error generating batch creative directions:", error);
+    }
+    const pick = job.pickRule === 'ai-ranked'
+        ? await rankBatchCandidates(job, outlines, directions, signal)
+        : { outlineIndex: 0, directionIndex: 0 };
+
+    const now = new Date().toISOString();
+    const draft: AssemblyDraft = {
+        id: job.id,
+        createdAt: now,
+        updatedAt: now,
+        userInput: {
+            theme: job.keyword,
+            persona: job.persona,
+            expertPersona: '',
+            tone: job.tone,
+            articleType: job.articleType,
+            language: job.language,
+            longForm: job.longForm,
+            referenceText,
+        },
+        outline: outlines[pick.outlineIndex],
+        creativeDirection: directions[pick.directionIndex],
+        shouldGenerateVideo: false,
+        completedStep: -1,
+        promptVersions: activePromptVersions(['outline']),
+        modelSettings: activeModelSettings(['research', 'outlines']),
+    };
+    await saveDraftToDb(draft);
+    return draft;
+}
+
+/** The "AI-ranked" rule: one call that picks the outline and design most likely to perform. Falls back to the first of each. */
+async function rankBatchCandidates(job: BatchJob, outlines: ArticleOutline[], directions: CreativeDirection[], signal: AbortSignal): Promise<{ outlineIndex: number; directionIndex: number }> {
+    const prompt = `あなたは経験豊富な編集長です。以下のキーワードと読者ペルソナに対して、最も読まれ成果が出ると考えられる構成案とデザインスタイルを1つずつ選んでください。番号で答えてください。
+
+# キーワード
+${sanitizeString(job.keyword)}
+# 検索意図
+${sanitizeString(job.intent)}
+# 読者ペルソナ
+${sanitizeString(job.persona)}
+
+# 構成案
+${outlines.map((outline, i) => `${i}. ${sanitizeString(outline.title)}\n   見出し: ${outline.headings.map(h => sanitizeString(h)).join(' / ')}`).join('\n')}
+
+# デザインスタイル
+${directions.length > 0 ? directions.map((direction, i) => `${i}. ${sanitizeString(direction.style)}`).join('\n') : '(なし。directionIndexは0としてください)'}
+`;
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            outlineIndex: { type: Type.INTEGER, description: "選んだ構成案の番号" },
+            directionIndex: { type: Type.INTEGER, description: "選んだデザインスタイルの番号" }
+        },
+        required: ['outlineIndex', 'directionIndex']
+    };
+    const inRange = (index: unknown, length: number) => typeof index === 'number' && Number.isInteger(index) && index >= 0 && index < length ? index : 0;
+    try {
+        const ai = getAIProvider(job.id);
+        const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({ model: stageModel('outlines'), contents: prompt, config: { ...stageConfig('outlines'), responseMimeType: 'application/json', responseSchema: schema, abortSignal: signal } }), { signal });
+        const result = await parseStructuredResponse(response.text, objectOf({ outlineIndex: isNumber, directionIndex: isNumber }), { stage: 'outlines', schema, signal, articleId: job.id });
+        return { outlineIndex: inRange(result.outlineIndex, outlines.length), directionIndex: inRange(result.directionIndex, directions.length) };
+    } catch (error) {
+        if (signal.aborted) throw error;
+        console.error("Error ranking batch candidates:", error);
+        return { outlineIndex: 0, directionIndex: 0 };
+    }
+}
+
+function cancelBatchJob(job: BatchJob) {
+    if (job.status === 'running') {
+        batchControllers.get(job.id)?.abort();
+    } else if (job.status === 'queued') {
+        updateBatchJob(job, { status: 'cancelled' });
+    }
+}
+
+function retryBatchJob(job: BatchJob) {
+    updateBatchJob(job, { status: 'queued', error: undefined });
+    pumpBatchQueue();
+}
+
+async function removeBatchJobs(jobs: BatchJob[]) {
+    batchJobs = batchJobs.filter(job => !jobs.includes(job));
+    saveBatchQueueToStorage();
+    renderBatchQueue();
+    for (const job of jobs) {
+        await deleteDraftFromDb(job.id);
     }
 }
 
+function renderBatchQueue() {
+    const container = document.getElementById('batch-queue-container') as HTMLDivElement;
+    const list = document.getElementById('batch-queue-list') as HTMLUListElement;
+    container.classList.toggle('hidden', batchJobs.length === 0);
+    list.innerHTML = batchJobs.map(job => {
+        let status = t(BATCH_STATUS_LABELS[job.status]);
+        if (job.status === 'running' && job.step !== undefined) {
+            status += ` · ${job.step < 0 ? t('batchPlanning') : t(progressSteps[job.step])}`;
+        }
+        if (job.attempts > 1) status += ` · ${t('batchAttempts', { count: job.attempts })}`;
+        const canCancel = job.status === 'queued' || job.status === 'running';
+        const canRetry = job.status === 'failed' || job.status === 'cancelled';
+        return `
+            <li class="batch-job batch-job-${job.status}">
+                <div class="batch-job-info">
+                    <span class="batch-job-keyword">${escapeHtml(job.keyword)}</span>
+                    <span class="batch-job-status">${status}</span>
+                    ${job.error ? `<span class="batch-job-error">${escapeHtml(job.error)}</span>` : ''}
+                </div>
+                <div class="batch-job-actions">
+                    ${canRetry ? `<button class="secondary-button batch-retry-btn" data-id="${job.id}">${t('retry')}</button>` : ''}
+                    ${canCancel ? `<button class="secondary-button cancel-button batch-cancel-btn" data-id="${job.id}">${t('cancel')}</button>` : ''}
+                    ${job.status !== 'running' ? `<button class="batch-remove-btn" data-id="${job.id}" title="${t('delete')}">🗑️</button>` : ''}
+                </div>
+            </li>`;
+    }).join('');
+}
+
 // --- Article Generation Logic (NEW ASSEMBLY LINE APPROACH) ---
 
-// Step 0: Outline Suggestions
+// Step 0: Research and Outline Suggestions
+
+async function researchTopic(theme: string, language?: LanguageCode, signal?: AbortSignal, articleId?: number): Promise<string> {
+    const researchPrompt = `あなたは専門リサーチャーです。以下のトピックについて、Google検索を用いて徹底的に調査し、信頼性の高い情報を基にした包括的なサマリーを作成してください。サマリーには、主要な事実、統計、専門家の見解、歴史的背景など、トピックを深く理解するために必要な要素を含めてください。出力はサマリーテキストのみとしてください。前置きや後書きは不要です。
+
+# 調査トピック
+${sanitizeString(theme)}${languageInstruction(language)}`;
+    const ai = getAIProvider(articleId);
+    const researchResponse = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({
+        model: stageModel('research'),
+        contents: researchPrompt,
+        config: { ...stageConfig('research'), tools: [{ googleSearch: {} }], abortSignal: signal }
+    }), { signal });
+    return researchResponse.text.trim();
+}
+
+/** Appends the pre-research summary to the user's own reference text, marked as the primary source. */
+function combineReferenceText(referenceText: string, researchedText: string): string {
+    if (!researchedText) return referenceText;
+    const researchHeader = "\n\n# AIによる事前調査結果 (この記事の主要な情報源としてください)\n---\n";
+    return referenceText ? `${referenceText}${researchHeader}${researchedText}` : researchedText;
+}
+
+async function requestOutlines(theme: string, persona: string, referenceText: string, language?: LanguageCode, signal?: AbortSignal, articleId?: number): Promise<ArticleOutline[]> {
+    const prompt = renderPrompt('outline', {
+        theme: sanitizeString(theme),
+        persona: sanitizeString(persona),
+        referenceText: referenceText ? safeSubstring(sanitizeString(referenceText), 8000) : '',
+    }) + languageInstruction(language);
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            outlines: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        title: { type: Type.STRING, description: "キャッチーなタイトル" },
+                        introduction: { type: Type.STRING, description: "読者の心を掴む導入文" },
+                        headings: { type: Type.ARRAY, items: { type: Type.STRING }, description: "論理的な見出しのリスト" }
+                    },
+                    required: ["title", "introduction", "headings"]
+                }
+            }
+        },
+        required: ["outlines"]
+    };
+    const ai = getAIProvider(articleId);
+    const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({ model: stageModel('outlines'), contents: prompt, config: { ...stageConfig('outlines'), responseMimeType: 'application/json', responseSchema: schema, abortSignal: signal } }), { signal });
+    return (await parseStructuredResponse(response.text, objectOf({ outlines: arrayOf(validateOutline, 1) }), { stage: 'outlines', schema, signal, articleId })).outlines;
+}
 
 function renderOutlineSuggestions() {
     const outlineCardsContainer = document.getElementById('outline-cards-container') as HTMLDivElement;
@@ -1082,10 +4681,10 @@ function renderOutlineSuggestions() {
         card.className = 'outline-card';
         card.dataset.index = index.toString();
         card.innerHTML = `
-            <div class="outline-card-title">${outline.title}</div>
-            <p class="outline-card-intro">${outline.introduction}</p>
+            <div class="outline-card-title">${escapeHtml(outline.title)}</div>
+            <p class="outline-card-intro">${escapeHtml(outline.introduction)}</p>
             <ul class="outline-card-headings">
-                ${outline.headings.map(h => `<li>${h}</li>`).join('')}
+                ${outline.headings.map(h => `<li>${escapeHtml(h)}</li>`).join('')}
             </ul>
         `;
         card.addEventListener('click', () => {
@@ -1100,7 +4699,9 @@ function renderOutlineSuggestions() {
 
 // Step 1: Creative Directions
 async function generateCreativeDirections() {
-    setLoading(true, 'デザイン案を作成中...');
+    generationController = new AbortController();
+    const signal = generationController.signal;
+    setLoading(true, t('creatingDirections'));
     (document.getElementById('step-2-outline-suggestions') as HTMLDivElement).classList.add('hidden');
     
     const form = document.getElementById('article-form') as HTMLFormElement;
@@ -1108,6 +4709,26 @@ async function generateCreativeDirections() {
     const theme = formData.get('theme') as string;
     const persona = formData.get('persona') as string;
 
+    try {
+        suggestedDirections = await requestCreativeDirections(theme, persona, signal, pendingUsageId);
+        renderCreativeDirections();
+        (document.getElementById('step-3-creative-director') as HTMLDivElement).classList.remove('hidden');
+    } catch(e) {
+        if (signal.aborted) {
+            // Back to the outline choice instead of silently falling through to generation.
+            (document.getElementById('step-2-outline-suggestions') as HTMLDivElement).classList.remove('hidden');
+            return;
+        }
+        console.error("Error generating creative directions:", e);
+        // Fallback to direct article generation
+        generateArticleAssemblyLine();
+    } finally {
+        if (generationController?.signal === signal) generationController = null;
+        setLoading(false);
+    }
+}
+
+async function requestCreativeDirections(theme: string, persona: string, signal?: AbortSignal, articleId?: number): Promise<CreativeDirection[]> {
     const prompt = `あなたはプロのアートディレクターです。以下のテーマとペルソナに最適な、記事のデザインディレクションを3つ提案してください。各提案は、読者の心に響く独自のスタイルとカラーパレットを持つ必要があります。
 # テーマ
 ${sanitizeString(theme)}
@@ -1133,20 +4754,9 @@ ${sanitizeString(persona)}
         required: ["directions"]
     };
 
-    try {
-        const ai = getGenAIClient();
-        const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt, config: { responseMimeType: 'application/json', responseSchema: schema } }));
-        const result = JSON.parse(response.text);
-        suggestedDirections = result.directions;
-        renderCreativeDirections();
-        (document.getElementById('step-3-creative-director') as HTMLDivElement).classList.remove('hidden');
-    } catch(e) {
-        console.error("Error generating creative directions:", e);
-        // Fallback to direct article generation
-        generateArticleAssemblyLine();
-    } finally {
-        setLoading(false);
-    }
+    const ai = getAIProvider(articleId);
+    const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({ model: stageModel('outlines'), contents: prompt, config: { ...stageConfig('outlines'), responseMimeType: 'application/json', responseSchema: schema, abortSignal: signal } }), { signal });
+    return (await parseStructuredResponse(response.text, objectOf({ directions: arrayOf(validateCreativeDirection, 1) }), { stage: 'outlines', schema, signal, articleId })).directions;
 }
 
 function renderCreativeDirections() {
@@ -1157,7 +4767,7 @@ function renderCreativeDirections() {
         card.className = 'creative-direction-card';
         card.dataset.index = index.toString();
         card.innerHTML = `
-            <div class="style-title">${direction.style}</div>
+            <div class="style-title">${escapeHtml(direction.style)}</div>
             <div class="palette-container">
                 ${direction.palette.map(color => `<div class="palette-color" style="background-color: ${color}"></div>`).join('')}
             </div>
@@ -1177,25 +4787,15 @@ function renderCreativeDirections() {
 
 // --- NEW ASSEMBLY LINE ---
 async function generateArticleAssemblyLine() {
-    if (!selectedOutline) return;
+    if (!selectedOutline || isAssemblyLineRunning) return;
 
     (document.getElementById('step-2-outline-suggestions') as HTMLDivElement).classList.add('hidden');
     (document.getElementById('step-3-creative-director') as HTMLDivElement).classList.add('hidden');
-    setLoading(true);
-    resetUI();
 
     const form = document.getElementById('article-form') as HTMLFormElement;
     const formData = new FormData(form);
     const referenceTextArea = document.getElementById('reference-text') as HTMLTextAreaElement;
-    const originalReferenceText = referenceTextArea.value;
-    
-    let combinedReferenceText = originalReferenceText;
-    if (currentResearchedText) {
-        const researchHeader = "\n\n# AIによる事前調査結果 (この記事の主要な情報源としてください)\n---\n";
-        combinedReferenceText = originalReferenceText
-            ? `${originalReferenceText}${researchHeader}${currentResearchedText}`
-            : currentResearchedText;
-    }
+    const combinedReferenceText = combineReferenceText(referenceTextArea.value, currentResearchedText);
 
     const userInput = {
         theme: formData.get('theme') as string,
@@ -1203,295 +4803,489 @@ async function generateArticleAssemblyLine() {
         expertPersona: formData.get('expert-persona') as string,
         tone: formData.get('tone') as string,
         articleType: formData.get('article_type') as 'free' | 'paid',
+        language: formData.get('article_language') as LanguageCode,
+        longForm: (document.getElementById('long-form-toggle') as HTMLInputElement).checked,
         referenceText: combinedReferenceText, // Use the combined text
         price: Number(formData.get('price')) || undefined,
         productDescription: formData.get('product-description') as string || undefined,
     };
     
     const generateVideoToggle = document.getElementById('generate-video-toggle') as HTMLInputElement;
-    const shouldGenerateVideo = generateVideoToggle.checked;
-    let newArticleItem: ArticleHistoryItem | null = null;
+    const now = new Date().toISOString();
+    const draft: AssemblyDraft = {
+        id: issueArticleId(),
+        createdAt: now,
+        updatedAt: now,
+        userInput,
+        outline: selectedOutline,
+        creativeDirection: selectedDirection ?? undefined,
+        shouldGenerateVideo: generateVideoToggle.checked,
+        completedStep: -1,
+        promptVersions: activePromptVersions(['outline']),
+        modelSettings: activeModelSettings(['research', 'outlines']),
+    };
+    if (pendingUsageId) {
+        reassignUsage(pendingUsageId, draft.id);
+        pendingUsageId = undefined;
+    }
+    await saveDraftToDb(draft);
+    await runAssemblyLine(draft);
+}
+
+async function resumeAssemblyLine(draftId: number) {
+    if (isAssemblyLineRunning) return;
+    const draft = await getDraftFromDb(draftId);
+    if (!draft) {
+        alert(t('draftNotFound'));
+        setLoading(false);
+        return;
+    }
+    await runAssemblyLine(draft);
+}
+
+async function discardDraft(draftId: number) {
+    await deleteDraftFromDb(draftId);
+    setLoading(false);
+}
+
+/**
+ * Runs the assembly line from the first step the draft has not completed yet.
+ * Every step's output is checkpointed to IndexedDB, so a failure only costs the failed step.
+ */
+async function runAssemblyLine(draft: AssemblyDraft) {
+    isAssemblyLineRunning = true;
+    generationController = new AbortController();
+    const signal = generationController.signal;
+    setLoading(true);
+    resetUI();
+
     const articleOutput = document.getElementById('article-output') as HTMLDivElement;
     const resultContainer = document.getElementById('result') as HTMLDivElement;
-
+    let currentStep = draft.completedStep + 1;
 
     try {
-        // Step 1: Generate Core Article Text
-        updateProgress(0);
-        const { markdown: coreMarkdown, references: coreReferences } = await step1_generateCoreText(userInput, selectedOutline);
-        articleOutput.innerText = coreMarkdown; // Show raw text progress
-
-        // Step 2: Decorate Markdown with Visuals
-        updateProgress(1);
-        const { decoratedMarkdown, coverImagePrompt, coverImageOverlay } = await step2_decorateMarkdown(coreMarkdown);
-
-        // Step 3: Parse and Generate Images
-        updateProgress(2);
-        const imageGenerateRegex = /\[IMAGE_GENERATE:({.*?})\]/g;
+        await runAssemblySteps(draft, signal, step => {
+            currentStep = step;
+            updateProgress(step);
+            if (step > 0) renderCoreTextPreview(draft.coreMarkdown!, draft.outline, draft.userInput.language, false);
+        }, textSoFar => renderCoreTextPreview(textSoFar, draft.outline, draft.userInput.language, true));
+
+        updateProgress(6); // Complete
+        const newArticleItem = await finalizeArticle(draft);
+        renderArticle(newArticleItem);
+        setLoading(false);
+        await deleteDraftFromDb(draft.id);
+        
+        if (draft.shouldGenerateVideo) {
+             // Don't await this, let it run in the background
+             generateVideo(newArticleItem);
+        }
+    } catch (e: any) {
+        const message = signal.aborted ? t('generationCancelled') : e.message;
+        if (!signal.aborted) console.error(`Article assembly line failed at step ${currentStep}:`, e);
+        draft.failedStep = currentStep;
+        draft.error = message;
+        draft.updatedAt = new Date().toISOString();
+        await saveDraftToDb(draft);
+        if (signal.aborted) {
+            resetUI();
+        } else {
+            resultContainer.classList.remove('hidden'); // Ensure result area is visible for error message
+            (document.getElementById('initial-message') as HTMLDivElement).classList.add('hidden');
+            articleOutput.innerHTML = `<p class="error">${t('generationError', { message: escapeHtml(e.message) })}</p>`;
+        }
+        setLoading(false);
+        updateProgress(currentStep, { draftId: draft.id, message });
+    } finally {
+        isAssemblyLineRunning = false;
+        if (generationController?.signal === signal) generationController = null;
+        (document.getElementById('stream-preview') as HTMLDivElement).classList.add('hidden');
+    }
+}
+
+/**
+ * The UI-free part of the assembly line, shared by the foreground run and the batch queue.
+ * onStep fires as each step starts; steps already checkpointed in the draft are skipped.
+ * onCoreText receives the step 1 text accumulated so far, once per streamed chunk.
+ */
+async function runAssemblySteps(draft: AssemblyDraft, signal: AbortSignal, onStep: (step: number) => void, onCoreText?: (textSoFar: string) => void) {
+    const completeStep = async (step: number, output: Partial<AssemblyDraft>) => {
+        Object.assign(draft, output, { completedStep: step, failedStep: undefined, error: undefined, updatedAt: new Date().toISOString() });
+        await saveDraftToDb(draft);
+    };
+
+    // Step 1: Generate Core Article Text
+    if (draft.completedStep < 0) {
+        onStep(0);
+        const promptVersions = { ...draft.promptVersions, ...activePromptVersions(['coreTextSystem', draft.userInput.longForm ? 'coreTextSection' : 'coreTextUser']) };
+        const { markdown, references } = draft.userInput.longForm
+            ? await step1_generateCoreTextBySection(draft, signal, onCoreText)
+            : await step1_generateCoreText(draft.userInput, draft.outline, signal, draft.id, onCoreText);
+        await completeStep(0, { coreMarkdown: markdown, coreReferences: references, coreSections: undefined, promptVersions, modelSettings: { ...draft.modelSettings, ...activeModelSettings(['coreText']) } });
+    }
+
+    // Step 2: Decorate Markdown with Visuals
+    if (draft.completedStep < 1) {
+        onStep(1);
+        const promptVersions = { ...draft.promptVersions, ...activePromptVersions(['decorate']) };
+        const decoration = await step2_decorateMarkdown(draft.coreMarkdown!, signal, draft.id, draft.userInput.language);
+        await completeStep(1, { decoration, promptVersions, modelSettings: { ...draft.modelSettings, ...activeModelSettings(['decoration']) } });
+    }
+    const { decoratedMarkdown, coverImagePrompt, coverImageOverlay } = draft.decoration!;
+
+    // Step 3: Parse and Generate Images
+    if (draft.completedStep < 2) {
+        onStep(2);
         const articleImageTasks: ImageGenerationTask[] = [];
-        let match;
-        while ((match = imageGenerateRegex.exec(decoratedMarkdown)) !== null) {
-            try {
-                const placeholder = match[0]; // The full placeholder string
-                const jsonData = JSON.parse(match[1]);
-                articleImageTasks.push({
-                    key: placeholder, // Use the full placeholder as the key
-                    prompt: jsonData.prompt,
-                    overlayText: jsonData.overlayText
-                });
-            } catch (e) {
-                console.error("Failed to parse IMAGE_GENERATE JSON", e);
+        for (const placeholder of findDirectives(decoratedMarkdown)) {
+            if (placeholder.name !== 'IMAGE_GENERATE') continue;
+            if (!placeholder.data) {
+                console.error("Failed to parse IMAGE_GENERATE JSON", placeholder.raw);
+                continue;
             }
+            articleImageTasks.push({
+                key: placeholder.raw, // Use the full placeholder as the key
+                prompt: placeholder.data.prompt,
+                overlayText: placeholder.data.overlayText
+            });
         }
-        
         const allImageTasks = [
             { key: 'cover', prompt: coverImagePrompt, overlayText: coverImageOverlay },
             ...articleImageTasks
         ];
-// FIX: The function generateAndStoreImages was not defined. Added the function definition.
-        const generatedImages = await generateAndStoreImages(allImageTasks);
-        
-        // Step 4, 5, 6 happen inside finalizeArticle
-        newArticleItem = await finalizeArticle(decoratedMarkdown, coreReferences, generatedImages, userInput);
-        
-        if (shouldGenerateVideo && newArticleItem) {
-             // Don't await this, let it run in the background
-             generateVideo(newArticleItem);
+        const generatedImages = await generateAndStoreImages(allImageTasks, signal, draft.id);
+        // Individual failures keep their placeholder; nothing rendering at all points to Imagen itself failing.
+        if (Object.values(generatedImages).every(image => image === 'error')) {
+            throw new Error(t('noImagesGenerated'));
         }
+        await completeStep(2, { generatedImages, modelSettings: { ...draft.modelSettings, ...activeModelSettings(['images']) } });
+    }
 
-
-    } catch (e: any) {
-        console.error("Article assembly line failed:", e);
-        resultContainer.classList.remove('hidden'); // Ensure result area is visible for error message
-        articleOutput.innerHTML = `<p class="error">記事の生成中にエラーが発生しました: ${e.message}</p>`;
-        setLoading(false);
+    // Clean the markdown for analysis models to improve reliability; long articles are condensed once and reused
+    if (draft.completedStep < 5 && draft.analysisMarkdown === undefined) {
+        draft.analysisMarkdown = await condenseForAnalysis(markdownForAnalysis(decoratedMarkdown), signal, draft.id, draft.userInput.language);
+        await saveDraftToDb(draft);
     }
-}
+    const cleanMarkdownForAnalysis = draft.analysisMarkdown ?? '';
 
-async function step1_generateCoreText(userInput: any, outline: ArticleOutline): Promise<{ markdown: string, references: any[] }> {
-    const currentYear = new Date().getFullYear();
-    let systemInstruction = ``;
-    
-    if(userInput.expertPersona) {
-        systemInstruction = `あなたは「${sanitizeString(userInput.expertPersona)}」です。その人物になりきり、専門知識、経験、そしてその職業特有の口調や視点を持って、以下の記事を執筆してください。`
-    } else {
-        systemInstruction = `あなたはプロのライターです。あなたの唯一の仕事は、提供された構成案と要件に基づき、読者の心に響く高品質な記事本文をMarkdown形式で執筆することです。`
+    if (draft.completedStep < 3) {
+        onStep(3); // FAQ Generation
+        const faqs = await generateFaqSection(cleanMarkdownForAnalysis, signal, draft.id, draft.userInput.language);
+        if (!faqs) throw new Error(t('faqFailed'));
+        await completeStep(3, { faqs, modelSettings: { ...draft.modelSettings, ...activeModelSettings(['faq']) } });
     }
 
+    if (draft.completedStep < 4) {
+        onStep(4); // Performance Analysis
+        const performance = await analyzeArticlePerformance(cleanMarkdownForAnalysis, draft.userInput.theme, draft.userInput.persona, signal, draft.id, draft.userInput.language);
+        if (!performance) throw new Error(t('performanceFailed'));
+        await completeStep(4, { performance, modelSettings: { ...draft.modelSettings, ...activeModelSettings(['analysis']) } });
+    }
 
-    if (userInput.referenceText) {
-        systemInstruction += `\n# 執筆の最重要ルール\n- **最優先事項**: 提供された「参照資料」のテキストを記事の主要な情報源としてください。その内容を元に、構成案に沿って文章を肉付けしてください。\n- **情報源の補完**: 「参照資料」だけでは情報が不足する場合、またはより新しい情報が必要な場合に限り、Google検索の結果を補足的に使用してください。`;
-    } else {
-        systemInstruction += `\n# 厳守事項\n- **情報源**: 記事内容はGoogle検索の結果のみをソースとします。これは必須です。`;
+    if (draft.completedStep < 5) {
+        onStep(5); // Enhancements
+        const enhancements = await generateEnhancements(cleanMarkdownForAnalysis, signal, draft.id, draft.userInput.language);
+        await completeStep(5, { enhancements, modelSettings: { ...draft.modelSettings, ...activeModelSettings(['enhancements']) } });
     }
+}
 
-    systemInstruction += `
-- **鮮度**: 常に最新の情報をGoogle検索で取得し、執筆時点での最も新しい事実に基づいてください。今日は${currentYear}年です。
+/** Offers to resume the most recent unfinished run, e.g. after a reload in the middle of a failure. */
+async function restoreLatestDraft() {
+    // Batch drafts are resumed from the queue, not the foreground progress panel.
+    const drafts = (await getAllDraftsFromDb()).filter(draft => !batchJobs.some(job => job.id === draft.id));
+    if (drafts.length === 0) return;
+    const latest = drafts.reduce((a, b) => (a.updatedAt > b.updatedAt ? a : b));
+    updateProgress(latest.failedStep ?? latest.completedStep + 1, {
+        draftId: latest.id,
+        message: latest.error || t('draftInterrupted', { title: latest.outline.title }),
+    });
+}
 
-- **執筆スタイル - 「AIっぽさ」の完全払拭**:
-    1. **人間味のある言葉遣い**: 堅苦しい専門用語や定型文を避け、まるで人間がすぐ隣で語りかけているかのような、自然で滑らかな口語体で執筆してください。
-    2. **多様な表現**: 単調な文章の繰り返しは厳禁です。多様な語彙を使い、単文・複文・重文をリズミカルに組み合わせ、読者を飽きさせない文章を作成してください。
-    3. **五感に訴える描写**: 読者が情景をありありとイメージできるよう、比喩（メタファー）、直喩（シミリ）、擬人法、そして具体的なエピソードをふんだんに盛り込んでください。
-    4. **読者との対話**: 「〜だと思いませんか？」「もしあなたが〇〇なら、どうしますか？」のように、読者に積極的に問いかけ、対話するようなスタイルで親近感を演出してください。
+/** Variables shared by the one-shot and section-by-section core text prompts. */
+function coreTextPromptVariables(userInput: ArticleUserInput, outline: ArticleOutline): PromptVariables {
+    return {
+        referenceText: userInput.referenceText ? safeSubstring(sanitizeString(userInput.referenceText), 12000) : '',
+        theme: safeSubstring(sanitizeString(userInput.theme), 200),
+        persona: safeSubstring(sanitizeString(userInput.persona), 500),
+        tone: sanitizeString(userInput.tone),
+        articleTypeLabel: userInput.articleType === 'paid' ? '有料記事' : '無料記事',
+        outlineTitle: safeSubstring(sanitizeString(outline.title), 200),
+        outlineIntroduction: safeSubstring(sanitizeString(outline.introduction), 1000),
+        outlineHeadings: outline.headings.map(h => `- ${sanitizeString(h)}`).join('\n'),
+    };
+}
 
-- **引用と情報源に関する絶対厳守のルール**:
-    1.  **唯一の情報源**: あなたが記事内で使用するすべての外部リンク（本文中の引用リンク、セクション末尾の参考URL）は、**必ず**システムから提供されるGoogle検索の\`groundingChunks\`（参照メタデータ）に含まれる\`uri\`と\`title\`を使用しなければなりません。
-    2.  **創作の禁止**: \`groundingChunks\`に存在しないURLや情報を**絶対に創作しないでください**。これは最も重要なルールです。
-    3.  **直接引用**: 記述内容と最も関連性の高い\`groundingChunks\`の情報を選択し、その\`uri\`と\`title\`を**そのまま**使用してください。URLを改変したり、無関係なページを引用したりすることは固く禁じられています。
-    4.  **リンク形式**: リンクは \`[groundingChunksから取得したtitle](groundingChunksから取得したuri)\` というMarkdown形式を**厳守**してください。\`[出典]\` や \`[こちら]\` のような曖昧なテキストは**絶対に使用しないでください。**
-    5.  **検証不要**: あなたはURLに実際にアクセスする必要はありません。\`groundingChunks\`として提供された情報が、検証済みの信頼できる情報源であると仮定してください。
-    6.  **一貫性**: 本文中の引用と、セクション末尾に記載する「参考URL」は、同じ\`groundingChunks\`の情報を参照するようにしてください。
-    7.  **セクション末尾の出典明記**: 各見出し（セクション）の本文が終わった後、次の見出しの前に、改行して \`参考URL：[そのセクションで引用した参照元のページタイトル](有効なURL)\` の形式で、そのセクションで用いた主要な出典を再度明記してください。
-    8.  **正しい引用の例**:
-        (本文中) \`日本のスマートフォン普及率は96.3%に達しました。[令和4年通信利用動向調査の結果 - 総務省](https://www.soumu.go.jp/johotsusintokei/statistics/data/230529_1.pdf)\`
-        (セクションの末尾) \`参考URL：[令和4年通信利用動向調査の結果 - 総務省](https://www.soumu.go.jp/johotsusintokei/statistics/data/230529_1.pdf)\`
-    9.  **絶対禁止の例**: \`普及率は96.3%です。[出典](https://example.com/non-existent-page)\`
+function coreTextSystemInstruction(userInput: ArticleUserInput, referenceText: string): string {
+    return renderPrompt('coreTextSystem', {
+        expertPersona: userInput.expertPersona ? sanitizeString(userInput.expertPersona) : '',
+        referenceText,
+        currentYear: new Date().getFullYear(),
+        isPaid: userInput.articleType === 'paid',
+        hasBrandVoice: Boolean(brandVoice.principles || brandVoice.example),
+        brandVoicePrinciples: sanitizeString(brandVoice.principles),
+        brandVoiceExample: brandVoice.example ? safeSubstring(sanitizeString(brandVoice.example), 4000) : '',
+    }) + languageInstruction(userInput.language);
+}
 
-- **出力**: 応答はMarkdown形式のテキストのみとし、挨拶や前置き、後書きは一切含めないでください。`;
+async function step1_generateCoreText(userInput: ArticleUserInput, outline: ArticleOutline, signal?: AbortSignal, articleId?: number, onText?: (textSoFar: string) => void): Promise<{ markdown: string, references: GroundingChunk[] }> {
+    const variables = coreTextPromptVariables(userInput, outline);
+    const systemInstruction = coreTextSystemInstruction(userInput, variables.referenceText as string);
+    const userPrompt = renderPrompt('coreTextUser', variables);
+    return streamGroundedMarkdown(userPrompt, systemInstruction, signal, articleId, onText);
+}
 
-    if (userInput.articleType === 'paid') {
-        systemInstruction += `\n- **有料記事の執筆戦略**:
-            - **無料部分の役割**: 無料部分では、読者が抱える問題の深刻さをえぐり出し、解決への強い渇望を喚起させることが目的です。解決策の「さわり」だけを見せ、期待感を最大限に高めてください。
-            - **価値のティーザー**: 有料部分でしか手に入らない「秘匿性の高いノウハウ」「具体的な手順を示したテンプレート」「時間と労力を大幅に削減する裏技」などの価値を、無料部分で繰り返し示唆してください。
-            - **有料への橋渡し**: \`---ここから有料---\` の区切り線の直前には、読者が「ここからが本題だ！」と感じ、購入せずにはいられなくなるような、最も核心的で魅力的なクリフハンガーを配置してください。
-            - **有料部分の約束**: 有料部分では、読者の期待を上回る圧倒的な価値を提供してください。具体的、実践的、そしてすぐに使える情報で構成し、読者に「この金額を払って本当に良かった」と心から思わせる内容にしてください。`;
-    }
-    if (brandVoice.principles || brandVoice.example) {
-        systemInstruction += `\n\n**ブランドボイス:**\n`;
-        if (brandVoice.principles) systemInstruction += `- 執筆原則: ${sanitizeString(brandVoice.principles)}\n`;
-        if (brandVoice.example) systemInstruction += `- 文体サンプル:\n---\n${safeSubstring(sanitizeString(brandVoice.example), 4000)}\n---`;
+/**
+ * Long-form mode: writes each outline heading as its own grounded call. Every call gets the same
+ * system instruction, the whole outline and the tail of the text written so far, so sections connect
+ * without repeating each other. Finished sections are checkpointed on the draft, and the paid-part
+ * separator is inserted here rather than left to the model, so there is always exactly one.
+ */
+async function step1_generateCoreTextBySection(draft: AssemblyDraft, signal?: AbortSignal, onText?: (textSoFar: string) => void): Promise<{ markdown: string, references: GroundingChunk[] }> {
+    const { userInput, outline } = draft;
+    const variables = coreTextPromptVariables(userInput, outline);
+    const systemInstruction = coreTextSystemInstruction(userInput, variables.referenceText as string);
+    const sectionCount = outline.headings.length;
+    const isPaid = userInput.articleType === 'paid';
+    // With a single section the free part is the title and introduction written with it
+    const paidStart = Math.floor(sectionCount / 2);
+    const stitch = (parts: string[]) => parts.map((part, index) => {
+        if (!isPaid || index !== paidStart) return part;
+        return paidStart > 0 ? `---ここから有料---\n\n${part}` : insertPaidDividerBeforeFirstSection(part);
+    }).join('\n\n');
+    const sections = draft.coreSections ?? [];
+
+    for (let index = sections.length; index < sectionCount; index++) {
+        const written = sections.map(section => section.markdown);
+        const userPrompt = renderPrompt('coreTextSection', {
+            ...variables,
+            previousText: written.length > 0 ? sanitizeString(stitch(written).slice(-LONG_FORM_CONTEXT_LENGTH)) : '',
+            sectionHeading: sanitizeString(outline.headings[index]),
+            sectionNumber: index + 1,
+            sectionCount,
+            isFirstSection: index === 0,
+            endsFreePart: isPaid && index === paidStart - 1,
+            isPaidSection: isPaid && index >= paidStart,
+        });
+        const section = await streamGroundedMarkdown(userPrompt, systemInstruction, signal, draft.id, partial => onText?.(stitch([...written, partial])));
+        sections.push(section);
+        draft.coreSections = sections;
+        draft.updatedAt = new Date().toISOString();
+        await saveDraftToDb(draft);
     }
 
-    let userPrompt = `以下の承認された構成案と要件に基づいて、最高の記事を執筆してください。`;
-
-    if (userInput.referenceText) {
-        userPrompt += `\n\n---参照資料 (最優先の情報源)---\n${safeSubstring(sanitizeString(userInput.referenceText), 12000)}\n--------------------`;
-    }
-    
-    userPrompt += `
-*   **テーマ**: ${safeSubstring(sanitizeString(userInput.theme), 200)}
-*   **ペルソナ**: ${safeSubstring(sanitizeString(userInput.persona), 500)}
-*   **トーン**: ${sanitizeString(userInput.tone)}
-*   **記事の種類**: ${userInput.articleType === 'paid' ? '有料記事' : '無料記事'}
+    return { markdown: stitch(sections.map(section => section.markdown)), references: sections.flatMap(section => section.references) };
+}
 
----承認された構成案---
-# ${safeSubstring(sanitizeString(outline.title), 200)}
-**導入文**:
-${safeSubstring(sanitizeString(outline.introduction), 1000)}
-**見出し構成**:
-${outline.headings.map(h => `- ${sanitizeString(h)}`).join('\n')}
---------------------
-**最終指示**: 上記の「引用と情報源に関する絶対厳守のルール」を絶対に守って、高品質な記事を執筆してください。`;
+/** Puts the paid separator before the first `## ` heading, or after the introduction when there is none. */
+function insertPaidDividerBeforeFirstSection(markdown: string): string {
+    const heading = markdown.search(/^## /m);
+    if (heading > 0) return `${markdown.slice(0, heading)}---ここから有料---\n\n${markdown.slice(heading)}`;
+    const blocks = markdown.split(/\n\s*\n/);
+    const introEnd = blocks.findIndex(block => !block.startsWith('# ')) + 1;
+    if (introEnd === 0 || introEnd === blocks.length) return markdown; // Nothing to put behind it yet, e.g. while streaming
+    return [...blocks.slice(0, introEnd), '---ここから有料---', ...blocks.slice(introEnd)].join('\n\n');
+}
 
-    const ai = getGenAIClient();
+/** Streams one grounded core text call and drops links that aren't backed by its grounding metadata. */
+async function streamGroundedMarkdown(userPrompt: string, systemInstruction: string, signal?: AbortSignal, articleId?: number, onText?: (textSoFar: string) => void): Promise<{ markdown: string, references: GroundingChunk[] }> {
+    const ai = getAIProvider(articleId);
     let fullText = '';
-    let groundingMetadata: any[] = [];
-    const responseStream = await withRetry<AsyncGenerator<GenerateContentResponse>>(() => ai.models.generateContentStream({
-        model: 'gemini-2.5-pro', // Using a more powerful model for better writing with references
+    let groundingMetadata: GroundingChunk[] = [];
+    const responseStream = await scheduleRequest<AsyncGenerator<GenerateContentResponse>>(() => ai.generateContentStream({
+        model: stageModel('coreText'),
         contents: userPrompt,
         config: {
+            ...stageConfig('coreText'),
             systemInstruction: systemInstruction,
             tools: [{ googleSearch: {} }],
+            abortSignal: signal,
         },
-    }));
+    }), { signal });
 
     for await (const chunk of responseStream) {
-        if (chunk.text) fullText += chunk.text;
+        signal?.throwIfAborted();
+        if (chunk.text) {
+            fullText += chunk.text;
+            onText?.(fullText);
+        }
         if (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks) {
             groundingMetadata.push(...chunk.candidates[0].groundingMetadata.groundingChunks);
         }
     }
 
     if (!fullText.trim()) {
-        throw new Error("AIが記事本文の生成に失敗しました（ステップ1）。応答が空でした。");
+        throw new Error(t('emptyCoreText'));
     }
 
     // Post-processing to remove hallucinated links
-    const validUris = new Set(
-        groundingMetadata
-            .filter(chunk => chunk.web && chunk.web.uri)
-            .map(chunk => chunk.web.uri)
-    );
-
-    const processedMarkdown = fullText.trim().replace(/\[([^\]]+)\]\((https?:\/\/[^\s\)]+)\)/g, (match, text, url) => {
-        if (validUris.has(url)) {
-            return match; // Keep the valid link
-        } else {
-            console.warn(`Removing hallucinated link: ${url}`);
-            return text; // Remove the invalid link, keep the text
-        }
-    });
-
-
-    return { markdown: processedMarkdown, references: groundingMetadata };
-}
-
-async function step2_decorateMarkdown(markdownText: string): Promise<{ decoratedMarkdown: string; coverImagePrompt: string; coverImageOverlay: string; }> {
-    const prompt = `あなたは優秀なアートディレクター兼エディターです。以下の記事本文（Markdown）を分析し、より魅力的で視覚的に豊かなコンテンツに編集してください。
-
-# 指示
-あなたの仕事は、受け取ったMarkdownテキストを直接編集し、以下の要素を追加することです。
-1.  **絵文字の追加**: 全ての「##」と「###」で始まる見出しの末尾に、内容に合った絵文字を1つ追加してください。
-2.  **記事内画像の挿入**: 記事の理解を深めるのに最も効果的だと思われる箇所に、画像生成用のプレースホルダー \`[IMAGE_GENERATE:{"prompt":"ここに詳細な英語の画像生成プロンプト", "overlayText":"ここに日本語のオーバーレイテキスト"}]\` を**ちょうど2つ**挿入してください。
-    - **重要**: プロンプトを作成する際は、日本の読者が親しみを感じるような人物、風景、文化を考慮してください。例えば、人物は日本人やアジア人を登場させ、背景も日本の街並みやオフィスを想定してください。プロンプトは非常に具体的で、高品質な画像が生成されるようにしてください。
-3.  **クリエイティブなグラフの挿入**: 記事内の数値データ、比較、構成比率などを視覚的に表現するために、最も効果的な箇所にグラフのプレースホルダーを**最大2つまで**挿入してください。
-    - **チャートの選択**: 単なる棒グラフだけでなく、**円グラフ(pie)、ドーナツチャート(doughnut)、レーダーチャート(radar)、散布図(scatter)、バブルチャート(bubble)**など、文脈に最も適した**クリエイティブで視覚的に魅力的な**チャートタイプを選択してください。読者が一目で情報を理解できるような、洞察に富んだグラフをデザインしてください。グラフが不要な場合は挿入しないでください。
-    - **形式**: \`[INTERACTIVE_CHART:{"type":"bar", "title":"グラフのタイトル", "data":{"labels":["項目1", "項目2"],"datasets":[{"label":"データセット名", "data":[10, 20]}]}}]\`
-    - **JSONフォーマットの絶対厳守**:
-        - プレースホルダー内のJSONは、寸分違わず正しい構文でなければなりません。
-        - **最重要: 配列内のカンマ**: \`labels\`配列や\`data\`配列の各要素の間には、**絶対にカンマ(,)を省略しないでください。**
-            - **正しい例**: \`"labels": ["項目1", "項目2", "項目3"]\`
-            - **絶対にダメな例 (間違い)**: \`"labels": ["項目1" "項目2" "項目3"]\` (カンマが欠落している)
-        - **プロパティ名**: \`type\`, \`title\`, \`data\`, \`labels\`, \`datasets\`, \`label\` といったキー名は必ずダブルクォート(\`"\`)で囲んでください。
-        - **文字列**: 全ての文字列（タイトル、ラベルなど）は必ずダブルクォート(\`"\`)で囲んでください。
-    - **正しい形式の例**: \`[INTERACTIVE_CHART:{"type":"bar","title":"日本のSNS利用率(%)","data":{"labels":["X (Twitter)","Instagram","Facebook"],"datasets":[{"label":"利用率","data":[66.5,50.1,32.6]}]}}]\`
-    - **最終チェック**: JSONを生成した後、それが有効なJSONであるか、特に配列のカンマが正しいか、必ず自己検証してください。
-4.  **スクリーンショットの挿入**: UI操作の説明やWebサイトの紹介など、画面キャプチャが有効な箇所があれば、その指示をプレースホルダー \`[IMAGE_SCREENSHOT:{"instruction":"ここに日本語での撮影指示"}]\` として**積極的に**挿入してください。必要なければ挿入しないでください。
-5.  **情報ボックスと要約の追加**:
-    - 読者の注意を引くべき補足情報やヒントがある箇所に、\`[BOX:tip|info|warning|quote:タイトル:本文]\` 形式でボックスを挿入してください。
-    - 記事の要点をまとめるのに最適な場所に、\`[SUMMARY:箇条書き1; 箇条書き2; 箇条書き3]\` 形式でサマリーボックスを挿入してください。
-6.  **重要ルール**: \`参考URL：[...](...)\` という形式の行は、編集せずにそのまま保持してください。これらの行は記事の構造の一部であり、削除や変更はしないでください。
+    const validUris = new Set(groundingMetadata.map(chunk => chunk.web?.uri).filter(Boolean));
 
-# 出力形式
-最終的な成果物を、以下のJSONスキーマに厳密に従って返してください。
-- \`decoratedMarkdown\`: 上記の指示に従って編集された、**完全な**Markdownテキスト。
-- \`coverImagePrompt\`: 記事全体を象徴する、魅力的で詳細な**英語の**画像生成プロンプト。ここでも日本の読者を意識してください。
-- \`coverImageOverlay\`: カバー画像に重ねるキャッチーな**日本語の**オーバーレイテキスト。
+    const processedMarkdown = fullText.trim().replace(/\[([^\]]+)\]\((https?:\/\/[^\s\)]+)\)/g, (match, text, url) => {
+        if (validUris.has(url)) {
+            return match; // Keep the valid link
+        } else {
+            console.warn(`Removing hallucinated link: ${url}`);
+            return text; // Remove the invalid link, keep the text
+        }
+    });
 
-# 編集対象の記事本文
----
-${safeSubstring(sanitizeString(markdownText), 8000)}
----`;
+
+    return { markdown: processedMarkdown, references: groundingMetadata };
+}
+
+/**
+ * Decorates the article a run of whole sections at a time, so nothing past the first chunk is dropped; the cover
+ * comes from the first chunk. The model echoes each chunk back, so every chunk is checked for lost paragraphs and
+ * 参考URL lines, redone once if something is missing, and the step fails rather than saving a shortened article.
+ */
+async function step2_decorateMarkdown(markdownText: string, signal?: AbortSignal, articleId?: number, language?: LanguageCode): Promise<{ decoratedMarkdown: string; coverImagePrompt: string; coverImageOverlay: string; }> {
+    const chunks = splitMarkdownIntoChunks(markdownText, DECORATE_CHUNK_LENGTH).map(chunk => chunk.trim());
+    const decoratedChunks: string[] = [];
+    let cover: { coverImagePrompt: string; coverImageOverlay: string; } | undefined;
+    for (const [index, chunk] of chunks.entries()) {
+        let result = await decorateMarkdownChunk(chunk, index, chunks.length, signal, articleId, language);
+        let missing = findMissingDecorationContent(chunk, result.decoratedMarkdown);
+        if (missing.length > 0) {
+            console.warn(`Decoration dropped ${missing.length} block(s) from part ${index + 1}/${chunks.length}; retrying once.`, missing);
+            result = await decorateMarkdownChunk(chunk, index, chunks.length, signal, articleId, language);
+            missing = findMissingDecorationContent(chunk, result.decoratedMarkdown);
+            if (missing.length > 0) {
+                console.error("Decoration lost content:", missing);
+                throw new Error(t('decorationLostContent', { count: missing.length, sample: safeSubstring(missing[0], 60) }));
+            }
+        }
+        cover ??= result;
+        decoratedChunks.push(result.decoratedMarkdown.trim());
+    }
+    return { decoratedMarkdown: decoratedChunks.join('\n\n'), coverImagePrompt: cover!.coverImagePrompt, coverImageOverlay: cover!.coverImageOverlay };
+}
+
+/**
+ * Blocks of the original (paragraphs, headings, list blocks, the paid separator) and 参考URL lines that don't
+ * appear in the decorated text. Added emoji, whitespace and the placeholders the decorator inserts are ignored.
+ */
+function findMissingDecorationContent(original: string, decorated: string): string[] {
+    const normalize = (text: string) => text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/[\p{Extended_Pictographic}\u200d\ufe0f\s]/gu, '');
+    const decoratedText = normalize(replaceDirectives(decorated, directive => directive.name === 'PAID_DIVIDER' ? directive.raw : '')); // The paid line is body text the writer put there
+    const decoratedLines = new Set(decorated.split('\n').map(line => line.trim()));
+    const missingBlocks = original.split(/\n\s*\n/).map(block => block.trim()).filter(block => block && !decoratedText.includes(normalize(block)));
+    const missingReferences = original.split('\n').map(line => line.trim()).filter(line => line.startsWith('参考URL：') && !decoratedLines.has(line));
+    return [...new Set([...missingBlocks, ...missingReferences])];
+}
+
+async function decorateMarkdownChunk(markdownText: string, chunkIndex: number, chunkCount: number, signal?: AbortSignal, articleId?: number, language?: LanguageCode): Promise<{ decoratedMarkdown: string; coverImagePrompt: string; coverImageOverlay: string; }> {
+    const prompt = renderPrompt('decorate', {
+        markdown: sanitizeString(markdownText),
+        isPartial: chunkCount > 1,
+        chunkNumber: chunkIndex + 1,
+        chunkCount,
+    }) + languageInstruction(language);
 
     const schema = {
         type: Type.OBJECT,
         properties: {
             decoratedMarkdown: { type: Type.STRING, description: "絵文字とプレースホルダーが挿入された完全なMarkdownテキスト" },
             coverImagePrompt: { type: Type.STRING, description: "カバー画像の英語プロンプト" },
-            coverImageOverlay: { type: Type.STRING, description: "カバー画像の日本語オーバーレイテキスト" }
+            coverImageOverlay: { type: Type.STRING, description: `カバー画像の${ARTICLE_LANGUAGES[language || 'ja'].promptName}のオーバーレイテキスト` }
         },
         required: ['decoratedMarkdown', 'coverImagePrompt', 'coverImageOverlay']
     };
 
     try {
-        const ai = getGenAIClient();
-        const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt, config: { responseMimeType: 'application/json', responseSchema: schema } }));
-        const result = JSON.parse(response.text);
-        if (!result.decoratedMarkdown || !result.coverImagePrompt || !result.coverImageOverlay) {
-            throw new Error("AIが不完全なJSONを返しました。");
-        }
-        return result;
+        const ai = getAIProvider(articleId);
+        const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({ model: stageModel('decoration'), contents: prompt, config: { ...stageConfig('decoration'), responseMimeType: 'application/json', responseSchema: schema, abortSignal: signal } }), { signal });
+        return await parseStructuredResponse(response.text, objectOf({ decoratedMarkdown: isText, coverImagePrompt: isText, coverImageOverlay: isText }), { stage: 'decoration', schema, signal, articleId });
     } catch (e: any) {
+        if (signal?.aborted) throw e;
         console.error("Failed to decorate markdown or parse JSON:", e);
-        throw new Error(`AIによる記事の装飾に失敗しました: ${e.message}`);
+        throw new Error(t('decorateFailed', { message: e.message }));
     }
 }
 
 // --- AI Generation Sub-components ---
-async function generateAndStoreImages(tasks: ImageGenerationTask[]): Promise<Record<string, string | "error">> {
+async function generateAndStoreImages(tasks: ImageGenerationTask[], signal?: AbortSignal, articleId?: number): Promise<Record<string, string | "error">> {
     const results: Record<string, string | "error"> = {};
-    const ai = getGenAIClient();
+    const ai = getAIProvider(articleId);
+    const pending = [...tasks];
 
-    for (const task of tasks) {
-        try {
-            // Using Imagen for higher quality with overlays
-            const fullPrompt = task.overlayText ? `${task.prompt}, with the text "${task.overlayText}" clearly visible` : task.prompt;
+    const generateNext = async () => {
+        for (let task = pending.shift(); task; task = pending.shift()) {
+            try {
+                // Using Imagen for higher quality with overlays
+                const fullPrompt = task.overlayText ? `${task.prompt}, with the text "${task.overlayText}" clearly visible` : task.prompt;
             
-            const response = await withRetry<GenerateImagesResponse>(() => ai.models.generateImages({
-                model: 'imagen-4.0-generate-001',
-                prompt: fullPrompt,
-                config: {
-                    numberOfImages: 1,
-                    outputMimeType: 'image/jpeg',
-                    aspectRatio: '16:9', // good for cover images
-                },
-            }));
+                const response = await scheduleRequest<GenerateImagesResponse>(() => ai.generateImages({
+                    model: stageModel('images'),
+                    prompt: fullPrompt,
+                    config: {
+                        numberOfImages: 1,
+                        outputMimeType: 'image/jpeg',
+                        aspectRatio: '16:9', // good for cover images
+                        abortSignal: signal,
+                    },
+                }), { signal });
 
-            if (response.generatedImages && response.generatedImages.length > 0) {
-                const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-                results[task.key] = base64ImageBytes;
-            } else {
-                throw new Error("No images were generated by the API.");
+                if (response.generatedImages && response.generatedImages.length > 0) {
+                    const base64ImageBytes = response.generatedImages[0].image.imageBytes;
+                    results[task.key] = base64ImageBytes;
+                } else {
+                    throw new Error("No images were generated by the API.");
+                }
+            } catch (error) {
+                // A bad key or an exhausted quota fails every image alike, so stop instead of marking each one
+                if (signal?.aborted || (isApiError(error) && (error.kind === 'auth' || error.kind === 'quota'))) {
+                    pending.length = 0;
+                    throw error;
+                }
+                console.error(`Failed to generate image for prompt "${task.prompt}":`, error);
+                results[task.key] = "error";
             }
-        } catch (error) {
-            console.error(`Failed to generate image for prompt "${task.prompt}":`, error);
-            results[task.key] = "error";
         }
-    }
+    };
+    await Promise.all(Array.from({ length: Math.min(IMAGE_CONCURRENCY, tasks.length) }, generateNext));
     return results;
 }
 
-async function generateFaqSection(markdown: string): Promise<{ question: string, answer: string }[] | undefined> {
+/**
+ * FAQ, analysis and enhancements each judge the article as a whole, so they take it in one prompt. When it is too
+ * long for that, it is split like decoration splits it: the first part is kept verbatim (the analysis grades its
+ * prose) and every later part is condensed by its own call, keeping its headings, claims and figures.
+ */
+async function condenseForAnalysis(markdown: string, signal?: AbortSignal, articleId?: number, language?: LanguageCode): Promise<string> {
+    if (markdown.length <= ANALYSIS_CHUNK_LENGTH) return markdown;
+    const [opening, ...rest] = splitMarkdownIntoChunks(markdown, ANALYSIS_CHUNK_LENGTH).map(chunk => chunk.trim());
+    const total = rest.length + 1;
+    const digests: string[] = [];
+    for (const [index, chunk] of rest.entries()) {
+        const prompt = `あなたは編集者です。以下は長い記事を分割した全${total}部中の第${index + 2}部です。後続の処理（Q&Aの作成、記事の評価、SNS向けの補足コンテンツの作成）が記事全体を把握できるよう、この部分を要約してください。
+- 「## 」「### 」の見出しはそのまま残し、各見出しの下に要点を箇条書きでまとめてください。
+- 主張、数値、固有名詞、具体例、読者への問いかけや行動の呼びかけは省略しないでください。
+- 元の文章のおよそ4分の1の長さを目安にし、要約だけを返してください。前置きや説明は不要です。
+
+# 要約対象の部分
+---
+${sanitizeString(chunk)}
+---
+${languageInstruction(language)}`;
+        const ai = getAIProvider(articleId);
+        const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({ model: stageModel('analysis'), contents: prompt, config: { ...stageConfig('analysis'), abortSignal: signal } }), { signal });
+        if (!response.text?.trim()) throw new Error(t('analysisDigestFailed'));
+        digests.push(response.text.trim());
+    }
+    return `${opening}\n\n> 以下は記事の続き（第2部〜第${total}部）の要約です。文章の読みやすさは上の原文で判断してください。\n\n${digests.join('\n\n')}`;
+}
+
+async function generateFaqSection(markdown: string, signal?: AbortSignal, articleId?: number, language?: LanguageCode): Promise<{ question: string, answer: string }[] | undefined> {
     const prompt = `あなたは読者の疑問を予測する専門家です。以下の記事を読み、読者が抱くであろう最も重要な質問を3つ予測し、それに対する簡潔で分かりやすい回答を作成してください。
 
 # 記事本文
 ---
-${safeSubstring(sanitizeString(markdown), 8000)}
+${sanitizeString(markdown)}
 ---
 
 # 出力形式
 JSON形式で、質問と回答のペアの配列を返してください。
-`;
+${languageInstruction(language)}`;
     const schema = {
         type: Type.OBJECT,
         properties: {
@@ -1510,26 +5304,27 @@ JSON形式で、質問と回答のペアの配列を返してください。
         required: ["faqs"]
     };
     try {
-        const ai = getGenAIClient();
-        const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const ai = getAIProvider(articleId);
+        const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({
+            model: stageModel('faq'),
             contents: prompt,
-            config: { responseMimeType: 'application/json', responseSchema: schema }
-        }));
-        const result = JSON.parse(response.text);
+            config: { ...stageConfig('faq'), responseMimeType: 'application/json', responseSchema: schema, abortSignal: signal }
+        }), { signal });
+        const result = await parseStructuredResponse(response.text, objectOf({ faqs: arrayOf(objectOf<{ question: string, answer: string }>({ question: isText, answer: isText })) }), { stage: 'faq', schema, signal, articleId });
         return result.faqs;
     } catch (error) {
+        if (signal?.aborted || isApiError(error)) throw error;
         console.error("Error generating FAQ section:", error);
         return undefined;
     }
 }
 
-async function analyzeArticlePerformance(markdown: string, theme: string, persona: string): Promise<ArticlePerformance | undefined> {
+async function analyzeArticlePerformance(markdown: string, theme: string, persona: string, signal?: AbortSignal, articleId?: number, language?: LanguageCode): Promise<ArticlePerformance | undefined> {
     const prompt = `あなたはプロのコンテンツアナリストです。以下の記事本文を分析し、パフォーマンスを予測・評価してください。
 
 # 分析対象記事
 ---
-${safeSubstring(sanitizeString(markdown), 8000)}
+${sanitizeString(markdown)}
 ---
 
 # 記事のメタデータ
@@ -1551,7 +5346,7 @@ ${safeSubstring(sanitizeString(markdown), 8000)}
 
 # 出力形式
 JSONオブジェクトのみを返してください。前後に説明やマークダウンは不要です。
-`;
+${languageInstruction(language)}`;
     const schema = {
         type: Type.OBJECT,
         properties: {
@@ -1572,26 +5367,26 @@ JSONオブジェクトのみを返してください。前後に説明やマー
     };
 
     try {
-        const ai = getGenAIClient();
-        const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const ai = getAIProvider(articleId);
+        const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({
+            model: stageModel('analysis'),
             contents: prompt,
-            config: { responseMimeType: 'application/json', responseSchema: schema }
-        }));
-        const result = JSON.parse(response.text);
-        return result as ArticlePerformance;
+            config: { ...stageConfig('analysis'), responseMimeType: 'application/json', responseSchema: schema, abortSignal: signal }
+        }), { signal });
+        return await parseStructuredResponse(response.text, validatePerformance, { stage: 'analysis', schema, signal, articleId });
     } catch (error) {
+        if (signal?.aborted || isApiError(error)) throw error;
         console.error("Error analyzing article performance:", error);
         return undefined;
     }
 }
 
-async function generateEnhancements(markdown: string): Promise<any> {
+async function generateEnhancements(markdown: string, signal?: AbortSignal, articleId?: number, language?: LanguageCode): Promise<any> {
     const prompt = `あなたはSNSマーケティングとSEOの専門家です。以下の記事本文を元に、拡散と検索流入を最大化するための補足コンテンツを生成してください。
 
 # 記事本文
 ---
-${safeSubstring(sanitizeString(markdown), 8000)}
+${sanitizeString(markdown)}
 ---
 
 # 生成するコンテンツ
@@ -1602,7 +5397,7 @@ ${safeSubstring(sanitizeString(markdown), 8000)}
 
 # 出力形式
 JSONオブジェクトのみを返してください。
-`;
+${languageInstruction(language)}`;
 
     const schema = {
         type: Type.OBJECT,
@@ -1616,172 +5411,1027 @@ JSONオブジェクトのみを返してください。
     };
 
     try {
-        const ai = getGenAIClient();
-        const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const ai = getAIProvider(articleId);
+        const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({
+            model: stageModel('enhancements'),
             contents: prompt,
-            config: { responseMimeType: 'application/json', responseSchema: schema }
-        }));
-        return JSON.parse(response.text);
+            config: { ...stageConfig('enhancements'), responseMimeType: 'application/json', responseSchema: schema, abortSignal: signal }
+        }), { signal });
+        return await parseStructuredResponse(response.text, validateEnhancements, { stage: 'enhancements', schema, signal, articleId });
     } catch (error) {
+        if (signal?.aborted) throw error;
         console.error("Error generating enhancements:", error);
         return { titleSuggestions: [], snsShareText: '', hashtags: [], metaDescription: '' };
     }
 }
 
 
-async function finalizeArticle(finalMarkdown: string, coreReferences: any[], generatedImages: Record<string, string | "error">, userInput: any): Promise<ArticleHistoryItem> {
-    // Create the final imageMap from the generated images and by parsing the markdown again for screenshots
-    const finalImageMap: ArticleHistoryItem['imageMap'] = { ...generatedImages };
+async function finalizeArticle(draft: AssemblyDraft): Promise<ArticleHistoryItem> {
+    const finalMarkdown = draft.decoration!.decoratedMarkdown;
+    const generatedImages = draft.generatedImages || {};
+    // Create the final imageMap from the generated images and by parsing the markdown again for screenshots; the cover goes in coverImage
+    const { cover, ...inlineImages } = generatedImages;
+    const finalImageMap: ArticleHistoryItem['imageMap'] = { ...inlineImages };
     
-    const screenshotRegex = /\[IMAGE_SCREENSHOT:({.*?})\]/g;
-    let match;
-    while ((match = screenshotRegex.exec(finalMarkdown)) !== null) {
-        try {
-            const placeholder = match[0];
-            const jsonData = JSON.parse(match[1]);
-            finalImageMap[placeholder] = { type: 'screenshot', instruction: jsonData.instruction };
-        } catch (e) {
-            console.error("Failed to parse IMAGE_SCREENSHOT JSON", e);
-        }
+    for (const placeholder of findDirectives(finalMarkdown)) {
+        if (placeholder.name !== 'IMAGE_SCREENSHOT') continue;
+        if (placeholder.data) finalImageMap[placeholder.raw] = { type: 'screenshot', instruction: placeholder.data.instruction };
+        else console.error("Failed to parse IMAGE_SCREENSHOT JSON", placeholder.raw);
     }
     
-    // Clean the markdown for analysis models to improve reliability
-    const cleanMarkdownForAnalysis = finalMarkdown
-        .replace(/\[(IMAGE_GENERATE|IMAGE_SCREENSHOT|INTERACTIVE_CHART):({[\s\S]*?})\]/g, '')
-        .replace(/---ここから有料---/g, '');
-
-// FIX: The function generateFaqSection was not defined. Added the function definition.
-    updateProgress(3); // FAQ Generation
-    const faqs = await generateFaqSection(cleanMarkdownForAnalysis);
-
-// FIX: The function analyzeArticlePerformance was not defined. Added the function definition.
-    updateProgress(4); // Performance Analysis
-    const performance = await analyzeArticlePerformance(cleanMarkdownForAnalysis, userInput.theme, userInput.persona);
-    
-// FIX: The function generateEnhancements was not defined. Added the function definition.
-    updateProgress(5); // Enhancements
-    const enhancements = await generateEnhancements(cleanMarkdownForAnalysis);
-    
-    updateProgress(6); // Complete
-    
-    const groundedReferences = coreReferences
-        .filter(chunk => chunk.web && chunk.web.uri)
-        .map(chunk => ({ uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri, }));
+    const groundedReferences = (draft.coreReferences || [])
+        .flatMap(chunk => chunk.web?.uri ? [{ uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri }] : []);
 
     const uniqueReferences = [...new Map(groundedReferences.map(item => [item.uri, item])).values()];
     const finalReferences = uniqueReferences.slice(0, 7); // Limit references to a maximum of 7
 
-    const coverImageData = generatedImages['cover'] !== 'error' ? generatedImages['cover'] as string : undefined;
+    const coverImageData = cover !== 'error' ? cover : undefined;
+    const { userInput } = draft;
 
+    const createdAt = new Date();
     const newItem: ArticleHistoryItem = {
-        id: Date.now(),
+        id: draft.id,
         theme: userInput.theme,
         persona: userInput.persona,
         expertPersona: userInput.expertPersona,
         tone: userInput.tone,
         articleType: userInput.articleType,
+        language: userInput.language,
         markdown: finalMarkdown,
         html: '', // Will be generated in renderArticle
         references: finalReferences,
-        enhancements,
-        faqs,
+        enhancements: draft.enhancements,
+        faqs: draft.faqs,
         coverImage: coverImageData,
         imageMap: finalImageMap,
-        performance,
-        creativeDirection: selectedDirection ?? undefined,
+        imagePrompts: { cover: { prompt: draft.decoration!.coverImagePrompt, overlayText: draft.decoration!.coverImageOverlay } },
+        performance: draft.performance,
+        creativeDirection: draft.creativeDirection,
+        promptVersions: draft.promptVersions,
+        modelSettings: draft.modelSettings,
         factCheck: { status: 'unchecked', results: [] },
-        createdAt: new Date().toLocaleString('ja-JP'),
+        createdAt: createdAt.toLocaleString('ja-JP'),
+        createdAtTime: createdAt.getTime(),
         price: userInput.price,
         productDescription: userInput.productDescription,
     };
     await addArticleToHistory(newItem);
-    renderArticle(newItem);
-    setLoading(false);
     return newItem;
 }
 
-// --- Rendering and Display Logic ---
-function renderMarkdownToHtml(markdown: string): string {
-    let html = markdown
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;');
+// --- Interactive Charts ---
+const CHART_KINDS: ChartKind[] = ['bar', 'line', 'pie', 'doughnut', 'radar', 'polarArea', 'scatter', 'bubble'];
+const POINT_CHART_KINDS: ChartKind[] = ['scatter', 'bubble'];
+
+// Category labels are often years or sizes, which the model writes as bare numbers
+const isChartLabel: Validator<string> = (value, path, problems) => typeof value === 'number' ? String(value) : isString(value, path, problems);
+const isChartPoint = objectOf<ChartPoint>({ x: isNumber, y: isNumber, r: optional<number | undefined>(isNumber, undefined) });
+const isChartValue: Validator<number | ChartPoint> = (value, path, problems) => value && typeof value === 'object' ? isChartPoint(value, path, problems) : isNumber(value, path, problems);
+const validateChartShape = objectOf<ChartSpec>({
+    type: oneOf(...CHART_KINDS),
+    title: optional(isString, ''),
+    data: objectOf<ChartSpec['data']>({
+        labels: optional(arrayOf(isChartLabel), []),
+        datasets: arrayOf(objectOf<ChartSpec['data']['datasets'][number]>({ label: optional(isString, ''), data: arrayOf(isChartValue, 1) }), 1),
+    }),
+});
+// Scatter and bubble charts place points by their own x / y; every other kind needs category labels
+const validateChartSpec: Validator<ChartSpec> = (value, path, problems) => {
+    const chart = validateChartShape(value, path, problems);
+    if (!POINT_CHART_KINDS.includes(chart.type) && chart.data.labels.length === 0) problems.push(`${path}.data.labels: expected at least 1 items, got 0`);
+    return chart;
+};
+
+function drawChart(canvas: HTMLCanvasElement, chartData: ChartSpec, creativeDirection?: CreativeDirection): Chart {
+
+    const textColor = creativeDirection ? creativeDirection.palette[1] : '#666';
+    const primaryColor = creativeDirection ? creativeDirection.palette[0] : 'rgba(74, 144, 226, 0.7)';
+    const accentColor = creativeDirection ? creativeDirection.palette[2] : 'rgba(255, 99, 132, 0.7)';
+    
+    // Define a richer color palette for charts
+    const colorPalette = creativeDirection ? [primaryColor, accentColor, ...creativeDirection.palette.slice(3)] : [
+        'rgba(74, 144, 226, 0.7)',
+        'rgba(75, 192, 192, 0.7)',
+        'rgba(255, 206, 86, 0.7)',
+        'rgba(255, 99, 132, 0.7)',
+        'rgba(153, 102, 255, 0.7)',
+        'rgba(255, 159, 64, 0.7)'
+    ];
+    
+    const borderPalette = colorPalette.map(c => c.replace('0.7', '1'));
+
+    // Assign colors to datasets dynamically
+    if (chartData.data.datasets) {
+        chartData.data.datasets.forEach((dataset: any, index: number) => {
+            // For pie, doughnut and polar area charts, they take an array of colors for the data points
+            if (['pie', 'doughnut', 'polarArea'].includes(chartData.type)) {
+                dataset.backgroundColor = dataset.backgroundColor || chartData.data.labels.map((_: any, i: number) => colorPalette[i % colorPalette.length]);
+                dataset.borderColor = dataset.borderColor || chartData.data.labels.map((_: any, i: number) => borderPalette[i % borderPalette.length]);
+            } else {
+                // For other charts like bar, line, radar
+                const color = colorPalette[index % colorPalette.length];
+                const borderColor = borderPalette[index % borderPalette.length];
+                dataset.backgroundColor = dataset.backgroundColor || color;
+                dataset.borderColor = dataset.borderColor || borderColor;
+            }
+            dataset.borderWidth = dataset.borderWidth || 1;
+        });
+    }
+    
+    const scalesOptions = ['radar', 'pie', 'doughnut', 'polarArea'].includes(chartData.type) ? {} : {
+        scales: {
+            x: {
+                ticks: { color: textColor },
+                grid: { color: '#e0e0e0' }
+            },
+            y: {
+                ticks: { color: textColor },
+                grid: { color: '#e0e0e0' }
+            }
+        }
+    };
+
+    return new Chart(canvas, {
+        type: chartData.type,
+        data: chartData.data,
+        options: {
+            responsive: true,
+            maintainAspectRatio: false,
+            plugins: {
+                title: {
+                    display: true,
+                    text: chartData.title,
+                    color: textColor,
+                    font: { size: 16, family: "'Noto Sans JP', sans-serif" }
+                },
+                legend: {
+                    labels: {
+                        color: textColor,
+                        font: { family: "'Noto Sans JP', sans-serif" }
+                    }
+                }
+            },
+            ...scalesOptions
+        }
+    });
+}
+
+/** Opens the chart form for the chart block under the cursor, or for a new chart at the cursor when there is none. */
+function openChartEditor() {
+    const editTextArea = document.getElementById('edit-textarea') as HTMLTextAreaElement;
+    const cursor = editTextArea.selectionStart;
+    const block = findDirectives(editTextArea.value).find(candidate => candidate.name === 'INTERACTIVE_CHART' && candidate.start <= cursor && cursor <= candidate.end);
+    const chart = (block?.name === 'INTERACTIVE_CHART' && block.data) || { type: 'bar', title: '', data: { labels: [], datasets: [{ label: '', data: [] }] } };
+    chartEditorRange = block ? { start: block.start, end: block.end, isNew: false } : { start: cursor, end: editTextArea.selectionEnd, isNew: true };
+    (document.getElementById('chart-type-select') as HTMLSelectElement).value = chart.type;
+    (document.getElementById('chart-title-input') as HTMLInputElement).value = chart.title;
+    (document.getElementById('chart-labels-input') as HTMLTextAreaElement).value = chart.data.labels.join('\n');
+    const datasetList = document.getElementById('chart-datasets-list') as HTMLDivElement;
+    datasetList.innerHTML = '';
+    chart.data.datasets.forEach(dataset => addChartDatasetRow(dataset));
+    (document.getElementById('chart-editor-modal') as HTMLDivElement).classList.remove('hidden');
+    updateChartEditorPreview();
+}
+
+function addChartDatasetRow(dataset: ChartSpec['data']['datasets'][number] = { label: '', data: [] }) {
+    const row = document.createElement('div');
+    row.className = 'chart-dataset-row';
+    row.innerHTML = `
+        <input type="text" class="chart-dataset-label" placeholder="${t('chartDatasetLabel')}">
+        <input type="text" class="chart-dataset-values" placeholder="${t('chartDatasetValues')}">
+        <button type="button" class="secondary-button chart-dataset-remove-btn" title="${t('delete')}">&times;</button>`;
+    (row.querySelector('.chart-dataset-label') as HTMLInputElement).value = dataset.label;
+    (row.querySelector('.chart-dataset-values') as HTMLInputElement).value = dataset.data.map(value => typeof value === 'number' ? value : [value.x, value.y, value.r].filter(n => n !== undefined).join(' ')).join(', ');
+    (document.getElementById('chart-datasets-list') as HTMLDivElement).appendChild(row);
+}
+
+/** Reads the chart form; `problems` holds what to fix before the chart can be written back. */
+function readChartEditorForm(): { chart: ChartSpec; problems: string[] } {
+    const type = (document.getElementById('chart-type-select') as HTMLSelectElement).value as ChartKind;
+    const isPointChart = POINT_CHART_KINDS.includes(type);
+    const labels = isPointChart ? [] : (document.getElementById('chart-labels-input') as HTMLTextAreaElement).value.split('\n').map(label => label.trim()).filter(Boolean);
+    const problems: string[] = [];
+    const datasets = [...document.querySelectorAll<HTMLDivElement>('#chart-datasets-list .chart-dataset-row')].map(row => {
+        const label = (row.querySelector('.chart-dataset-label') as HTMLInputElement).value.trim();
+        const values = (row.querySelector('.chart-dataset-values') as HTMLInputElement).value.split(/[,、，]/).map(value => value.trim()).filter(Boolean);
+        // Scatter and bubble values are "x y" or "x y r" groups
+        const data = values.map(value => {
+            const numbers = value.split(/\s+/).map(Number);
+            return isPointChart ? { x: numbers[0], y: numbers[1], ...(numbers.length > 2 ? { r: numbers[2] } : {}) } : numbers.length === 1 ? numbers[0] : NaN;
+        });
+        const isValid = (value: number | ChartPoint) => typeof value === 'number' ? Number.isFinite(value) : Object.values(value).every(Number.isFinite);
+        if (values.length === 0 || !data.every(isValid)) problems.push(t(isPointChart ? 'chartPointsInvalid' : 'chartValuesInvalid', { name: label || '-' }));
+        else if (!isPointChart && data.length !== labels.length) problems.push(t('chartValuesMismatch', { name: label || '-', count: labels.length }));
+        return { label, data };
+    });
+    if (!isPointChart && labels.length === 0) problems.unshift(t('chartLabelsRequired'));
+    if (datasets.length === 0) problems.push(t('chartDatasetRequired'));
+    const chart: ChartSpec = {
+        type,
+        title: (document.getElementById('chart-title-input') as HTMLInputElement).value.trim(),
+        data: { labels, datasets },
+    };
+    return { chart, problems };
+}
+
+function updateChartEditorPreview() {
+    const { chart, problems } = readChartEditorForm();
+    (document.getElementById('chart-labels-input') as HTMLTextAreaElement).closest('.form-group')?.classList.toggle('hidden', POINT_CHART_KINDS.includes(chart.type));
+    (document.getElementById('chart-editor-error') as HTMLParagraphElement).textContent = problems.join(' ');
+    chartEditorPreview?.destroy();
+    chartEditorPreview = null;
+    if (problems.length > 0) return;
+    try {
+        chartEditorPreview = drawChart(document.getElementById('chart-editor-preview') as HTMLCanvasElement, chart, currentArticle?.creativeDirection);
+    } catch (e) {
+        console.error("Failed to render chart preview:", e);
+    }
+}
+
+function closeChartEditor() {
+    chartEditorPreview?.destroy();
+    chartEditorPreview = null;
+    chartEditorRange = null;
+    (document.getElementById('chart-editor-modal') as HTMLDivElement).classList.add('hidden');
+}
+
+/** Writes the form back as a single-line [INTERACTIVE_CHART:...] block, replacing the block it was opened on. */
+function applyChartEditor() {
+    const { chart, problems } = readChartEditorForm();
+    if (problems.length > 0 || !chartEditorRange) return updateChartEditorPreview();
+    const editTextArea = document.getElementById('edit-textarea') as HTMLTextAreaElement;
+    const { start, end, isNew } = chartEditorRange;
+    const before = editTextArea.value.slice(0, start), after = editTextArea.value.slice(end);
+    // New charts get their own paragraph; edited ones stay where they were
+    const block = `${DIRECTIVE_PLUGINS.INTERACTIVE_CHART.prefix}${JSON.stringify(chart)}]`;
+    const text = isNew ? `${before && !before.endsWith('\n\n') ? (before.endsWith('\n') ? '\n' : '\n\n') : ''}${block}${!after || after.startsWith('\n') ? '' : '\n\n'}` : block;
+    editTextArea.value = before + text + after;
+    editTextArea.selectionStart = editTextArea.selectionEnd = before.length + text.length;
+    closeChartEditor();
+    editTextArea.focus();
+}
+
+
+// --- HTML Sanitization ---
+// Everything the model writes (article body, FAQ, titles, feedback, reference links) and everything restored from storage
+// reaches the DOM through innerHTML templates, so text goes through escapeHtml, link targets through safeUrl, and
+// whole fragments of rendered markup through sanitizeHtml.
+function escapeHtml(value: unknown): string { return String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;'); }
+function isSafeUrl(url: string): boolean { return /^https?:\/\//i.test(url.trim()); }
+/** The URL, escaped for an attribute, or an empty string when it is not http(s). */
+function safeUrl(url: unknown): string { return typeof url === 'string' && isSafeUrl(url) ? escapeHtml(url.trim()) : ''; }
+/** A new-tab link, or just the label when the model handed back something other than an http(s) URL. */
+function externalLink(url: unknown, label: unknown): string {
+    const href = safeUrl(url);
+    return href ? `<a href="${href}" target="_blank" rel="noopener noreferrer">${escapeHtml(label)}</a>` : escapeHtml(label);
+}
+
+/** Elements the renderer, the inline icons and the export layout produce, with the attributes each may keep. Anything else is unwrapped. */
+const SANITIZER_ALLOWED_ELEMENTS: Record<string, string[]> = {
+    h1: [], h2: [], h3: [], h4: [], h5: [], h6: [], p: [], br: [], hr: ['data-text'], span: [], div: ['data-key'],
+    strong: [], em: [], b: [], i: [], code: [], pre: [], blockquote: [],
+    ul: [], ol: ['start'], li: [],
+    table: [], thead: [], tbody: [], tr: [], th: ['style'], td: ['style'],
+    a: ['href', 'target', 'rel'], img: ['src', 'alt', 'loading'], canvas: ['data-chart-data'],
+    figure: [], section: [], details: [], summary: [],
+    svg: ['xmlns', 'viewbox', 'width', 'height', 'fill'], path: ['d', 'fill'], g: [], rect: ['x', 'y', 'width', 'height', 'fill'],
+};
+const SANITIZER_GLOBAL_ATTRIBUTES = ['class', 'title'];
+/** Dropped with their contents rather than unwrapped: their text is code or chrome, never prose. */
+const SANITIZER_DROPPED_ELEMENTS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'frame', 'frameset', 'template', 'noscript', 'link', 'meta', 'base', 'form', 'input', 'button', 'textarea', 'select']);
+
+function isAllowedAttribute(tag: string, name: string, value: string): boolean {
+    if (!SANITIZER_GLOBAL_ATTRIBUTES.includes(name) && !SANITIZER_ALLOWED_ELEMENTS[tag].includes(name)) return false;
+    if (name === 'href') return isSafeUrl(value);
+    if (name === 'src') return isSafeUrl(value) || /^data:image\/(png|jpe?g|gif|webp);base64,/i.test(value.trim());
+    if (name === 'style') return /^\s*text-align:\s*(left|center|right);?\s*$/i.test(value);
+    return true;
+}
+
+function sanitizeNode(parent: Node) {
+    for (const child of Array.from(parent.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) continue;
+        if (child.nodeType !== Node.ELEMENT_NODE) { child.remove(); continue; }
+        const element = child as Element;
+        const tag = element.localName.toLowerCase();
+        if (SANITIZER_DROPPED_ELEMENTS.has(tag)) { element.remove(); continue; }
+        sanitizeNode(element);
+        if (!SANITIZER_ALLOWED_ELEMENTS[tag]) { element.replaceWith(...Array.from(element.childNodes)); continue; }
+        for (const attribute of Array.from(element.attributes)) {
+            if (!isAllowedAttribute(tag, attribute.name.toLowerCase(), attribute.value)) element.removeAttribute(attribute.name);
+        }
+        if (tag === 'a' && element.hasAttribute('target')) element.setAttribute('rel', 'noopener noreferrer');
+    }
+}
+
+/** Allow-list pass over stored or generated article markup before it is injected into the page. */
+function sanitizeHtml(html: string): string {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    sanitizeNode(template.content);
+    return template.innerHTML;
+}
+
+// --- Markdown ---
+// Articles are parsed into a small block / inline tree (CommonMark-style blocks plus GFM tables) before anything reads them.
+// The decorator's placeholders are directive plugins, so rendering, read-aloud text and analysis prompts agree on where each one starts and ends.
+const MARKDOWN_RENDERER_VERSION = 2; // Bump when the HTML for the same markdown changes, so cached article.html is rebuilt
+
+const LIST_ITEM_PATTERN = /^( *)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`\s]*)/;
+const THEMATIC_BREAK_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}> ?/;
+const TABLE_DELIMITER_PATTERN = /^ *\|? *:?-+:? *(\| *:?-+:? *)*\|? *$/;
+
+/**
+ * Rewrites the almost-JSON models write into placeholders: single or curly quotes, full-width punctuation, unquoted keys,
+ * missing or trailing commas, missing colons, `%` after numbers, and unclosed or mismatched brackets.
+ */
+function repairJson(text: string): string {
+    const tokens: { kind: 'string' | 'number' | 'literal' | 'punct'; text: string }[] = [];
+    const fullWidth: Record<string, string> = { '｛': '{', '｝': '}', '［': '[', '］': ']', '：': ':', '，': ',', '、': ',' };
+    const closingQuote: Record<string, string> = { '"': '"”', "'": "'’", '“': '”"', '‘': '’\'', '”': '”"' };
+    for (let i = 0; i < text.length; i++) {
+        const char = fullWidth[text[i]] || text[i];
+        if (closingQuote[char]) {
+            let value = '';
+            for (i++; i < text.length && !closingQuote[char].includes(text[i]); i++) {
+                value += text[i] === '\\' ? text[i] + (text[++i] ?? '') : text[i] === '"' ? '\\"' : text[i];
+            }
+            tokens.push({ kind: 'string', text: `"${value}"` });
+        } else if ('{}[]:,'.includes(char)) {
+            tokens.push({ kind: 'punct', text: char });
+        } else {
+            const number = text.slice(i).match(/^-?\d+(\.\d+)?([eE][+-]?\d+)?%?/);
+            const word = text.slice(i).match(/^[A-Za-z_$][\w$]*/);
+            if (number) {
+                tokens.push({ kind: 'number', text: number[0].replace('%', '') });
+                i += number[0].length - 1;
+            } else if (word) {
+                tokens.push(['true', 'false', 'null'].includes(word[0]) ? { kind: 'literal', text: word[0] } : { kind: 'string', text: `"${word[0]}"` });
+                i += word[0].length - 1;
+            }
+        }
+    }
+    // Rebuild with a container stack so commas, colons and closers land where JSON needs them
+    const stack: ('{' | '[')[] = [];
+    let out = '', expectingKey = false, afterValue = false;
+    const closeTop = () => {
+        out += stack.pop() === '{' ? '}' : ']';
+        afterValue = true;
+        expectingKey = false;
+    };
+    const startValue = () => {
+        if (afterValue) out += ',';
+        if (stack.at(-1) === '{' && !expectingKey && !afterValue && !out.endsWith(':')) out += ':';
+    };
+    for (let index = 0; index < tokens.length; index++) {
+        const token = tokens[index];
+        const top = stack.at(-1);
+        if (token.text === ',' && token.kind === 'punct') continue; // Re-inserted between values below
+        if (token.text === ':' && token.kind === 'punct') { if (!out.endsWith(':')) out += ':'; expectingKey = false; afterValue = false; continue; }
+        if (token.kind === 'punct' && (token.text === '}' || token.text === ']')) {
+            const wanted = token.text === '}' ? '{' : '[';
+            if (!stack.includes(wanted)) continue; // A stray closer
+            while (stack.at(-1) !== wanted) closeTop();
+            closeTop();
+            if (stack.length === 0) break;
+            continue;
+        }
+        if (top === '{' && (afterValue || out.endsWith('{'))) {
+            // A key: only strings qualify; anything else is a value whose key went missing, so drop it
+            if (afterValue) out += ',';
+            if (token.kind !== 'string') continue;
+            out += token.text;
+            expectingKey = false;
+            afterValue = false;
+            if (tokens[index + 1]?.text !== ':') out += ':';
+            continue;
+        }
+        startValue();
+        if (token.kind === 'punct') {
+            out += token.text;
+            stack.push(token.text as '{' | '[');
+            afterValue = false;
+            expectingKey = token.text === '{';
+        } else {
+            out += token.text;
+            afterValue = true;
+        }
+    }
+    while (stack.length > 0) closeTop();
+    return out;
+}
 
-    html = html.replace(/\[INTERACTIVE_CHART:([\s\S]*?)\]/gs, (match, jsonString) => {
+/** Parses placeholder JSON, retrying once through `repairJson`; null when neither yields something `validate` accepts. */
+function parseDirectiveJson<T>(json: string, validate: Validator<T>): T | null {
+    for (const parse of [() => JSON.parse(json), () => JSON.parse(repairJson(json))]) {
         try {
-            // Validate that the string is valid JSON before proceeding.
-            JSON.parse(jsonString);
-            // HTML-encode double quotes for the attribute value, as the attribute itself is wrapped in double quotes.
-            const encodedJsonString = jsonString.replace(/"/g, '&quot;');
-            return `<div class="chart-container"><canvas data-chart-data="${encodedJsonString}"></canvas></div>`;
+            const problems: string[] = [];
+            const value = validate(parse(), '$', problems);
+            if (problems.length === 0) return value;
         } catch (e) {
-            console.error("Failed to parse chart JSON from Markdown:", e, "JSON string:", jsonString);
-            return '<div class="error">グラフデータの解析に失敗しました。AIが生成したデータが不正な形式です。</div>';
+            // Fall through to the repaired text, then give up
         }
-    });
-    
-    html = html.replace(/\[(IMAGE_GENERATE|IMAGE_SCREENSHOT):({[\s\S]*?})\]/g, (match) => {
-        return `<div class="image-placeholder-wrapper" data-key="${encodeUnicode(match)}"></div>`;
-    });
-
-    html = html.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-    html = html.replace(/\*(.*?)\*/g, '<em>$1</em>');
-    html = html.replace(/---ここから有料---/g, '<hr class="paid-divider" data-text="ここから有料">');
-    html = html.replace(/\[BOX:(tip|info|warning|quote):([\s\S]*?)\]/gs, (match, type, content) => {
-        const parts = content.split(':');
-        const title = parts.shift() || '';
-        const body = parts.join(':');
-        const iconSvg = {
-            tip: '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M10 20c.55 0 1-.45 1-1v-2.34c1.64-.16 3.1-.93 4.21-2.04.18-.18.18-.46 0-.63l-1.06-1.06c-.18-.18-.46-.18-.63 0l-.35.35c-1.1-1.1-2.65-1.81-4.32-1.93V8c0-.55-.45-1-1-1s-1 .45-1 1v2.34c-1.64.16-3.1.93-4.21-2.04-.18.18.18-.46 0 .63l1.06 1.06c.18.18.46.18.63 0l.35-.35c1.1 1.1 2.65 1.81 4.32 1.93V19c0 .55.45 1 1 1zM12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8z"/></svg>',
-            info: '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M11 7h2v2h-2zm0 4h2v6h-2zm1-9C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8z"/></svg>',
-            warning: '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z"/></svg>',
-            quote: '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M6 17h3l2-4V7H5v6h3zm8 0h3l2-4V7h-6v6h3z"/></svg>',
-        };
-        const icon = iconSvg[type] || iconSvg.info;
-        return `<div class="info-box info-box-${type}">
-                    <div class="info-box-header">${icon} ${title}</div>
-                    <div class="info-box-body">${body}</div>
-                </div>`;
-    });
-    html = html.replace(/\[SUMMARY:([\s\S]*?)\]/gs, (match, content) => {
-        const items = content.split(';').map(item => `<li>${item.trim()}</li>`).join('');
-        return `<div class="summary-box">
+    }
+    return null;
+}
+
+/**
+ * The end of a `[NAME:{json}]` placeholder whose JSON starts at `from`. The end is found by balancing brackets outside strings,
+ * since the JSON itself contains `]`; one whose brackets never balance (a missing `}` is common) runs to the end of its line.
+ */
+function matchJsonDirective(source: string, from: number): { end: number; json: string } | null {
+    const opening = /[ \t]*\{/y;
+    opening.lastIndex = from;
+    if (!opening.test(source)) return null;
+    let depth = 0, inString = false;
+    for (let i = from; i < source.length; i++) {
+        const char = source[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+        } else if (char === '}' || char === ']') {
+            depth--;
+            if (depth < 0) return { end: i + 1, json: source.slice(from, i) }; // The placeholder's own `]` closed an unbalanced body
+            const closing = depth === 0 && source.slice(i + 1).match(/^[ \t]*\]/);
+            if (closing) return { end: i + 1 + closing[0].length, json: source.slice(from, i + 1) };
+        } else if (char === '\n' && source[i + 1] === '\n') {
+            break;
+        }
+    }
+    const lineEnd = source.indexOf('\n', from) === -1 ? source.length : source.indexOf('\n', from);
+    const line = source.slice(from, lineEnd).trimEnd();
+    return { end: from + line.length, json: line.endsWith(']') ? line.slice(0, -1) : line };
+}
+
+/** The end of a `[NAME:text]` placeholder whose text starts at `from`; links and other brackets inside the text are balanced. */
+function matchBracketDirective(source: string, from: number): { end: number; content: string } | null {
+    let depth = 1;
+    for (let i = from; i < source.length; i++) {
+        if (source[i] === '\\') i++;
+        else if (source[i] === '[') depth++;
+        else if (source[i] === ']' && --depth === 0) return { end: i + 1, content: source.slice(from, i) };
+        else if (source[i] === '\n' && source[i + 1] === '\n') break;
+    }
+    // Unbalanced text (a stray `[` in the body) still ends at the last `]` on its line
+    const lineEnd = source.indexOf('\n', from) === -1 ? source.length : source.indexOf('\n', from);
+    const line = source.slice(from, lineEnd).trimEnd();
+    return line.endsWith(']') ? { end: from + line.length, content: line.slice(0, -1) } : null;
+}
+
+const validateImagePlaceholder = objectOf<NonNullable<DirectiveDataMap['IMAGE_GENERATE']>>({ prompt: isText, overlayText: optional<string | undefined>(isString, undefined) });
+const validateScreenshotPlaceholder = objectOf<NonNullable<DirectiveDataMap['IMAGE_SCREENSHOT']>>({ instruction: isText });
+const BOX_ICONS: Record<BoxKind, string> = {
+    tip: '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M10 20c.55 0 1-.45 1-1v-2.34c1.64-.16 3.1-.93 4.21-2.04.18-.18.18-.46 0-.63l-1.06-1.06c-.18-.18-.46-.18-.63 0l-.35.35c-1.1-1.1-2.65-1.81-4.32-1.93V8c0-.55-.45-1-1-1s-1 .45-1 1v2.34c-1.64.16-3.1.93-4.21-2.04-.18.18.18-.46 0 .63l1.06 1.06c.18.18.46.18.63 0l.35-.35c1.1 1.1 2.65 1.81 4.32 1.93V19c0 .55.45 1 1 1zM12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8z"/></svg>',
+    info: '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M11 7h2v2h-2zm0 4h2v6h-2zm1-9C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8z"/></svg>',
+    warning: '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z"/></svg>',
+    quote: '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M6 17h3l2-4V7H5v6h3zm8 0h3l2-4V7h-6v6h3z"/></svg>',
+};
+
+const DIRECTIVE_PLUGINS: { [K in DirectiveName]: DirectivePlugin<DirectiveDataMap[K]> } = {
+    INTERACTIVE_CHART: {
+        prefix: '[INTERACTIVE_CHART:',
+        match: (source, from) => {
+            const placeholder = matchJsonDirective(source, from);
+            return placeholder && { end: placeholder.end, data: parseDirectiveJson(placeholder.json, validateChartSpec) };
+        },
+        render: (chart, raw) => {
+            if (chart) return `<div class="chart-container"><canvas data-chart-data="${escapeHtml(JSON.stringify(chart))}"></canvas></div>`;
+            console.error("Failed to parse chart JSON from Markdown:", raw);
+            return `<div class="error">${t('chartParseError')}</div>`;
+        },
+        toText: () => '',
+    },
+    IMAGE_GENERATE: {
+        prefix: '[IMAGE_GENERATE:',
+        match: (source, from) => {
+            const placeholder = matchJsonDirective(source, from);
+            return placeholder && { end: placeholder.end, data: parseDirectiveJson(placeholder.json, validateImagePlaceholder) };
+        },
+        // The whole placeholder is the image's key in article.imageMap
+        render: (data, raw) => `<div class="image-placeholder-wrapper" data-key="${encodeUnicode(raw)}"></div>`,
+        toText: () => '',
+    },
+    IMAGE_SCREENSHOT: {
+        prefix: '[IMAGE_SCREENSHOT:',
+        match: (source, from) => {
+            const placeholder = matchJsonDirective(source, from);
+            return placeholder && { end: placeholder.end, data: parseDirectiveJson(placeholder.json, validateScreenshotPlaceholder) };
+        },
+        render: (data, raw) => `<div class="image-placeholder-wrapper" data-key="${encodeUnicode(raw)}"></div>`,
+        toText: () => '',
+    },
+    BOX: {
+        prefix: '[BOX:',
+        match: (source, from) => {
+            const placeholder = matchBracketDirective(source, from);
+            const parts = placeholder?.content.match(/^(tip|info|warning|quote):([\s\S]*)$/);
+            if (!placeholder || !parts) return null;
+            // The title ends at the first colon that isn't part of a URL; the body keeps every later one
+            const separator = parts[2].search(/:(?!\/\/)/);
+            const title = separator === -1 ? '' : parts[2].slice(0, separator).trim();
+            const body = (separator === -1 ? parts[2] : parts[2].slice(separator + 1)).trim();
+            return { end: placeholder.end, data: { kind: parts[1] as BoxKind, title, body } };
+        },
+        render: ({ kind, title, body }) => `<div class="info-box info-box-${kind}">
+                    <div class="info-box-header">${BOX_ICONS[kind]} ${renderInlineMarkdown(parseInlineMarkdown(title))}</div>
+                    <div class="info-box-body">${renderInlineMarkdown(parseInlineMarkdown(body))}</div>
+                </div>`,
+        toText: ({ title, body }) => [title, body].map(text => inlineMarkdownToText(parseInlineMarkdown(text))).filter(Boolean).join('\n'),
+    },
+    SUMMARY: {
+        prefix: '[SUMMARY:',
+        match: (source, from) => {
+            const placeholder = matchBracketDirective(source, from);
+            return placeholder && { end: placeholder.end, data: { items: placeholder.content.split(/[;；]/).map(item => item.trim()).filter(Boolean) } };
+        },
+        render: ({ items }) => `<div class="summary-box">
                     <div class="summary-box-header"><svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M12 17.27l4.15 2.51-1.08-4.72 3.67-3.18-4.83-.41L12 7.18l-1.98 4.3-4.83.41 3.67 3.18-1.08 4.72L12 17.27z"/></svg> Key Takeaways</div>
-                    <ul class="summary-box-list">${items}</ul>
-                </div>`;
-    });
-    html = html.replace(/^### (.*$)/gim, '<h3>$1</h3>');
-    html = html.replace(/^## (.*$)/gim, '<h2>$1</h2>');
-    html = html.replace(/^# (.*$)/gim, '<h1>$1</h1>');
-    html = html.replace(/`([^`]+)`/g, '<code>$1</code>');
-    html = html.replace(/\[([^\]]+)\]\((https?:\/\/[^\s\)]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>');
-    
-    // Process lists
-    html = html.replace(/^( *)(-|\*|\d+\.) (.*$)/gim, (match, indent, marker, content) => {
-        const isOrdered = /^\d/.test(marker);
-        const tag = isOrdered ? 'ol' : 'ul';
-        return `${indent}<${tag}><li>${content}</li></${tag}>`;
-    });
-     // Consolidate adjacent lists
-    html = html.replace(/<\/(ul|ol)>\s*<\1>/g, '');
-
-    // Convert remaining lines to paragraphs
-    html = html.split('\n').map(line => {
-        const trimmed = line.trim();
-        if (trimmed.length === 0) return '';
-        if (trimmed.startsWith('<') && trimmed.endsWith('>')) {
-            return line;
-        }
-        return `<p>${line}</p>`;
+                    <ul class="summary-box-list">${items.map(item => `<li>${renderInlineMarkdown(parseInlineMarkdown(item))}</li>`).join('')}</ul>
+                </div>`,
+        toText: ({ items }) => items.map(item => inlineMarkdownToText(parseInlineMarkdown(item))).join('\n'),
+    },
+    PAID_DIVIDER: {
+        prefix: '---ここから有料---',
+        match: (source, from) => ({ end: from, data: null }),
+        render: () => `<hr class="paid-divider" data-text="${escapeHtml(t('paidDivider'))}">`,
+        toText: () => '',
+    },
+};
+const DIRECTIVE_NAMES = Object.keys(DIRECTIVE_PLUGINS) as DirectiveName[];
+const DIRECTIVE_PATTERN = new RegExp(DIRECTIVE_NAMES.map(name => DIRECTIVE_PLUGINS[name].prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'g');
+
+function directivePlugin(name: DirectiveName): DirectivePlugin<unknown> { return DIRECTIVE_PLUGINS[name] as DirectivePlugin<unknown>; }
+
+function matchDirectiveAt(source: string, start: number): DirectiveOccurrence | null {
+    const name = DIRECTIVE_NAMES.find(candidate => source.startsWith(DIRECTIVE_PLUGINS[candidate].prefix, start));
+    if (!name) return null;
+    const matched = directivePlugin(name).match(source, start + DIRECTIVE_PLUGINS[name].prefix.length);
+    return matched && { type: 'directive', name, raw: source.slice(start, matched.end), data: matched.data, start, end: matched.end } as DirectiveOccurrence;
+}
+
+/** Every placeholder in `source`, in order. */
+function findDirectives(source: string): DirectiveOccurrence[] {
+    const occurrences: DirectiveOccurrence[] = [];
+    const pattern = new RegExp(DIRECTIVE_PATTERN);
+    let found;
+    while ((found = pattern.exec(source)) !== null) {
+        const occurrence = matchDirectiveAt(source, found.index);
+        if (!occurrence) continue;
+        occurrences.push(occurrence);
+        pattern.lastIndex = occurrence.end;
+    }
+    return occurrences;
+}
+
+function replaceDirectives(source: string, replace: (directive: DirectiveOccurrence) => string): string {
+    let result = '', last = 0;
+    for (const directive of findDirectives(source)) {
+        result += source.slice(last, directive.start) + replace(directive);
+        last = directive.end;
+    }
+    return result + source.slice(last);
+}
+
+/** Markdown for analysis and fact-check prompts: media placeholders dropped, boxes and summaries reduced to their text. */
+function markdownForAnalysis(markdown: string): string { return replaceDirectives(markdown, directive => directivePlugin(directive.name).toText(directive.data)); }
+
+function splitTableRow(line: string): string[] {
+    return line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function startsTable(lines: string[], index: number): boolean {
+    return lines[index].includes('|') && index + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[index + 1]) && lines[index + 1].includes('-');
+}
+
+function startsMarkdownBlock(lines: string[], index: number): boolean {
+    const line = lines[index];
+    return HEADING_PATTERN.test(line) || FENCE_PATTERN.test(line) || THEMATIC_BREAK_PATTERN.test(line) || BLOCKQUOTE_PATTERN.test(line)
+        || LIST_ITEM_PATTERN.test(line) || startsTable(lines, index) || matchDirectiveAt(line.trimStart(), 0) !== null;
+}
+
+/** Collects one list (and everything nested in its items) starting at `index`. */
+function parseMarkdownList(lines: string[], index: number): { list: MarkdownBlock; next: number } {
+    const first = LIST_ITEM_PATTERN.exec(lines[index])!;
+    const baseIndent = first[1].length;
+    const ordered = /\d/.test(first[2]);
+    const items: string[][] = [];
+    let contentIndent = 0, tight = true, sawBlank = false;
+    for (; index < lines.length; index++) {
+        const line = lines[index];
+        const marker = LIST_ITEM_PATTERN.exec(line);
+        if (marker && marker[1].length <= baseIndent + 1 && !THEMATIC_BREAK_PATTERN.test(line)) {
+            if (/\d/.test(marker[2]) !== ordered) break; // A different kind of list starts here
+            if (sawBlank) tight = false;
+            sawBlank = false;
+            contentIndent = marker[1].length + marker[2].length + 1;
+            items.push([marker[3] ?? '']);
+            continue;
+        }
+        if (!line.trim()) {
+            sawBlank = true;
+            continue;
+        }
+        const indent = line.length - line.trimStart().length;
+        if (indent > baseIndent) {
+            // Nested lists and continuation paragraphs belong to the current item
+            if (sawBlank) items[items.length - 1].push('');
+            sawBlank = false;
+            items[items.length - 1].push(line.slice(Math.min(indent, contentIndent)));
+            continue;
+        }
+        if (sawBlank || startsMarkdownBlock(lines, index)) break;
+        items[items.length - 1].push(line.trimStart()); // A lazy continuation line
+    }
+    while (index > 0 && !lines[index - 1].trim()) index--; // Leave trailing blank lines to the caller
+    return { list: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, tight, items: items.map(item => parseMarkdownBlocks(item.join('\n'))) }, next: index };
+}
+
+/** Paragraph text with any placeholders inside it split out as blocks of their own. */
+function paragraphBlocks(text: string): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let last = 0;
+    const pushParagraph = (part: string) => { if (part.trim()) blocks.push({ type: 'paragraph', children: parseInlineMarkdown(part.trim()) }); };
+    for (const directive of findDirectives(text)) {
+        pushParagraph(text.slice(last, directive.start));
+        blocks.push(directive);
+        last = directive.end;
+    }
+    pushParagraph(text.slice(last));
+    return blocks;
+}
+
+function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: MarkdownBlock[] = [];
+    let index = 0;
+    while (index < lines.length) {
+        const line = lines[index];
+        if (!line.trim()) {
+            index++;
+            continue;
+        }
+        // A placeholder may run over several lines; whatever follows it on its last line is parsed on its own
+        const indent = line.length - line.trimStart().length;
+        const rest = /^[[-]/.test(line.trimStart()) ? lines.slice(index).join('\n') : '';
+        const directive = rest && indent <= 3 ? matchDirectiveAt(rest, indent) : null;
+        if (directive) {
+            blocks.push(directive);
+            const lastLine = index + (rest.slice(0, directive.end).match(/\n/g)?.length ?? 0);
+            const lineEnd = rest.indexOf('\n', directive.end);
+            lines[lastLine] = rest.slice(directive.end, lineEnd === -1 ? rest.length : lineEnd);
+            index = lines[lastLine].trim() ? lastLine : lastLine + 1;
+            continue;
+        }
+        const fence = FENCE_PATTERN.exec(line);
+        if (fence) {
+            const code: string[] = [];
+            const closing = new RegExp(`^ {0,3}${fence[2][0]}{${fence[2].length},}[ \\t]*$`);
+            for (index++; index < lines.length && !closing.test(lines[index]); index++) code.push(lines[index].replace(new RegExp(`^ {0,${fence[1].length}}`), ''));
+            blocks.push({ type: 'code', language: fence[3], value: code.join('\n') });
+            index++;
+            continue;
+        }
+        const heading = HEADING_PATTERN.exec(line);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInlineMarkdown(heading[2] ?? '') });
+            index++;
+            continue;
+        }
+        if (THEMATIC_BREAK_PATTERN.test(line)) {
+            blocks.push({ type: 'thematicBreak' });
+            index++;
+            continue;
+        }
+        if (BLOCKQUOTE_PATTERN.test(line)) {
+            const quoted: string[] = [];
+            for (; index < lines.length && BLOCKQUOTE_PATTERN.test(lines[index]); index++) quoted.push(lines[index].replace(BLOCKQUOTE_PATTERN, ''));
+            blocks.push({ type: 'blockquote', children: parseMarkdownBlocks(quoted.join('\n')) });
+            continue;
+        }
+        if (startsTable(lines, index)) {
+            const header = splitTableRow(line);
+            const align = splitTableRow(lines[index + 1]).map(cell => cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null);
+            const rows: MarkdownInline[][][] = [];
+            for (index += 2; index < lines.length && lines[index].trim() && lines[index].includes('|'); index++) {
+                const cells = splitTableRow(lines[index]);
+                rows.push(header.map((_, column) => parseInlineMarkdown(cells[column] ?? '')));
+            }
+            blocks.push({ type: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map(cell => parseInlineMarkdown(cell)), rows });
+            continue;
+        }
+        if (LIST_ITEM_PATTERN.test(line)) {
+            const { list, next } = parseMarkdownList(lines, index);
+            blocks.push(list);
+            index = next;
+            continue;
+        }
+        const paragraph = [line.trim()];
+        for (index++; index < lines.length && lines[index].trim() && !startsMarkdownBlock(lines, index); index++) paragraph.push(lines[index].trim());
+        blocks.push(...paragraphBlocks(paragraph.join('\n')));
+    }
+    return blocks;
+}
+
+
+/** `[label](url)` starting at the `[` at `open`; nested brackets in the label and parentheses in the URL are balanced. */
+function matchMarkdownLink(text: string, open: number): { label: string; href: string; end: number } | null {
+    let depth = 0, close = -1;
+    for (let i = open; i < text.length && close === -1; i++) {
+        if (text[i] === '\\') i++;
+        else if (text[i] === '[') depth++;
+        else if (text[i] === ']' && --depth === 0) close = i;
+    }
+    if (close === -1 || text[close + 1] !== '(') return null;
+    depth = 0;
+    for (let i = close + 1; i < text.length && text[i] !== '\n'; i++) {
+        if (text[i] === '(') depth++;
+        else if (text[i] === ')' && --depth === 0) {
+            const destination = text.slice(close + 2, i).trim();
+            const href = destination.startsWith('<') ? destination.slice(1, destination.indexOf('>')) : destination.split(/\s+/)[0];
+            return { label: text.slice(open + 1, close), href, end: i + 1 };
+        }
+    }
+    return null;
+}
+
+function parseInlineMarkdown(text: string): MarkdownInline[] {
+    const nodes: MarkdownInline[] = [];
+    const pushText = (value: string) => {
+        const last = nodes[nodes.length - 1];
+        if (last?.type === 'text') last.value += value;
+        else nodes.push({ type: 'text', value });
+    };
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '\\' && /[!-/:-@[-`{-~]/.test(text[i + 1] ?? '')) {
+            pushText(text[i + 1]);
+            i += 2;
+        } else if (char === '\n') {
+            nodes.push({ type: 'break' });
+            i++;
+        } else if (char === '`') {
+            const fence = text.slice(i).match(/^`+/)![0];
+            const close = text.indexOf(fence, i + fence.length);
+            if (close === -1) {
+                pushText(fence);
+                i += fence.length;
+            } else {
+                nodes.push({ type: 'code', value: text.slice(i + fence.length, close).replace(/\n/g, ' ').replace(/^ (.*) $/, '$1') });
+                i = close + fence.length;
+            }
+        } else if ((char === '[' || (char === '!' && text[i + 1] === '[')) && matchMarkdownLink(text, char === '!' ? i + 1 : i)) {
+            const link = matchMarkdownLink(text, char === '!' ? i + 1 : i)!;
+            if (!isSafeUrl(link.href)) nodes.push(...parseInlineMarkdown(link.label)); // Keep the words, drop a javascript: or relative target
+            else if (char === '!') nodes.push({ type: 'image', src: link.href, alt: link.label });
+            else nodes.push({ type: 'link', href: link.href, children: parseInlineMarkdown(link.label) });
+            i = link.end;
+        } else if (char === '*' || char === '_') {
+            const run = text.slice(i).match(char === '*' ? /^\*+/ : /^_+/)![0];
+            const delimiter = run.slice(0, 3);
+            // `_` only opens at a word boundary, so snake_case and URLs stay as written
+            const canOpen = run.length <= 3 && !/\s/.test(text[i + run.length] ?? ' ') && (char === '*' || !/[\p{L}\p{N}]/u.test(text[i - 1] ?? ''));
+            let close = canOpen ? text.indexOf(delimiter, i + run.length) : -1;
+            while (close !== -1 && (/\s/.test(text[close - 1]) || text[close - 1] === char || text[close + run.length] === char || (char === '_' && /[\p{L}\p{N}]/u.test(text[close + run.length] ?? '')))) {
+                close = text.indexOf(delimiter, close + 1);
+            }
+            if (close === -1) {
+                pushText(run);
+                i += run.length;
+            } else {
+                const children = parseInlineMarkdown(text.slice(i + run.length, close));
+                nodes.push(run.length === 1 ? { type: 'emphasis', children } : run.length === 2 ? { type: 'strong', children } : { type: 'strong', children: [{ type: 'emphasis', children }] });
+                i = close + run.length;
+            }
+        } else if (char === 'h' && !/[\p{L}\p{N}/]/u.test(text[i - 1] ?? '') && /^https?:\/\//.test(text.slice(i, i + 8))) {
+            // Bare URLs, as in the 参考URL lines; trailing punctuation and full-width brackets end the link
+            const url = text.slice(i).match(/^https?:\/\/[^\s<>"'「」『』（）【】、。]+/)![0].replace(/[.,;:!?)]+$/, '');
+            nodes.push({ type: 'link', href: url, children: [{ type: 'text', value: url }] });
+            i += url.length;
+        } else {
+            pushText(char);
+            i++;
+        }
+    }
+    return nodes;
+}
+
+function renderInlineMarkdown(nodes: MarkdownInline[]): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text': return escapeHtml(node.value);
+            case 'strong': return `<strong>${renderInlineMarkdown(node.children)}</strong>`;
+            case 'emphasis': return `<em>${renderInlineMarkdown(node.children)}</em>`;
+            case 'code': return `<code>${escapeHtml(node.value)}</code>`;
+            case 'link': return `<a href="${escapeHtml(node.href)}" target="_blank" rel="noopener noreferrer">${renderInlineMarkdown(node.children)}</a>`;
+            case 'image': return `<img src="${escapeHtml(node.src)}" alt="${escapeHtml(node.alt)}" loading="lazy">`;
+            case 'break': return '<br>';
+        }
+    }).join('');
+}
+
+/** `tight` list items hold their text directly rather than in paragraphs, as CommonMark renders them. */
+function renderMarkdownBlocks(blocks: MarkdownBlock[], tight = false): string {
+    return blocks.map(block => {
+        switch (block.type) {
+            case 'heading': return `<h${block.level}>${renderInlineMarkdown(block.children)}</h${block.level}>`;
+            case 'paragraph': return tight ? renderInlineMarkdown(block.children) : `<p>${renderInlineMarkdown(block.children)}</p>`;
+            case 'list': {
+                const tag = block.ordered ? 'ol' : 'ul';
+                const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+                return `<${tag}${start}>${block.items.map(item => `<li>${renderMarkdownBlocks(item, block.tight)}</li>`).join('')}</${tag}>`;
+            }
+            case 'blockquote': return `<blockquote>${renderMarkdownBlocks(block.children)}</blockquote>`;
+            case 'code': return `<pre><code${block.language ? ` class="language-${escapeHtml(block.language)}"` : ''}>${escapeHtml(block.value)}</code></pre>`;
+            case 'table': {
+                const cell = (tag: 'th' | 'td', content: MarkdownInline[], column: number) => `<${tag}${block.align[column] ? ` style="text-align: ${block.align[column]}"` : ''}>${renderInlineMarkdown(content)}</${tag}>`;
+                return `<div class="table-wrapper"><table><thead><tr>${block.header.map((content, column) => cell('th', content, column)).join('')}</tr></thead><tbody>${block.rows.map(row => `<tr>${row.map((content, column) => cell('td', content, column)).join('')}</tr>`).join('')}</tbody></table></div>`;
+            }
+            case 'thematicBreak': return '<hr>';
+            case 'directive': return directivePlugin(block.name).render(block.data, block.raw);
+        }
+    }).join('\n');
+}
+
+function inlineMarkdownToText(nodes: MarkdownInline[]): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text': case 'code': return node.value;
+            case 'strong': case 'emphasis': case 'link': return inlineMarkdownToText(node.children);
+            case 'image': return node.alt;
+            case 'break': return '\n';
+        }
+    }).join('');
+}
+
+function markdownBlocksToText(blocks: MarkdownBlock[]): string {
+    return blocks.map(block => {
+        switch (block.type) {
+            case 'heading': case 'paragraph': return inlineMarkdownToText(block.children);
+            case 'list': return block.items.map(item => markdownBlocksToText(item)).join('\n');
+            case 'blockquote': return markdownBlocksToText(block.children);
+            case 'code': return block.value;
+            case 'table': return [block.header, ...block.rows].map(row => row.map(inlineMarkdownToText).join(' ')).join('\n');
+            case 'thematicBreak': return '';
+            case 'directive': return directivePlugin(block.name).toText(block.data);
+        }
+    }).filter(Boolean).join('\n\n');
+}
+
+function renderMarkdownToHtml(markdown: string): string { return renderMarkdownBlocks(parseMarkdownBlocks(markdown)); }
+
+/** What read-aloud narrates: the article's words without markup, placeholders or URLs behind link text. */
+function markdownToPlainText(markdown: string): string { return markdownBlocksToText(parseMarkdownBlocks(markdown)); }
+
+
+// --- Rendering and Display Logic ---
+/** Counts words the way the article's language splits them, so Japanese and Chinese text isn't one giant "word". */
+function countWords(text: string, language?: LanguageCode): number {
+    const segmenter = new Intl.Segmenter(ARTICLE_LANGUAGES[language || 'ja'].locale, { granularity: 'word' });
+    let count = 0;
+    for (const segment of segmenter.segment(text)) {
+        if (segment.isWordLike) count++;
+    }
+    return count;
+}
+
+/** Loose match between a streamed heading and an outline heading: the model often adds emoji, numbering or punctuation. */
+function headingsMatch(streamed: string, planned: string): boolean {
+    const normalize = (heading: string) => heading.replace(/[\s\p{P}\p{S}]/gu, '').toLowerCase();
+    const a = normalize(streamed);
+    const b = normalize(planned);
+    return a.length > 0 && b.length > 0 && (a.includes(b) || b.includes(a));
+}
+
+/**
+ * Live view of the core text while step 1 streams, with a word count and the outline's headings
+ * marked as written, being written, skipped or still to come. Headings the outline never asked for
+ * are listed separately, so an article drifting off-outline shows up before the stream ends.
+ */
+function renderCoreTextPreview(markdown: string, outline: ArticleOutline, language: LanguageCode | undefined, isStreaming: boolean) {
+    const preview = document.getElementById('stream-preview') as HTMLDivElement;
+    // While streaming, a heading only counts once its line is finished.
+    const streamedHeadings = [...markdown.matchAll(isStreaming ? /^##\s+(.+)\n/gm : /^##\s+(.+)$/gm)].map(match => match[1].trim());
+    const positions = outline.headings.map(heading => streamedHeadings.findIndex(streamed => headingsMatch(streamed, heading)));
+    const stateLabels: Record<'done' | 'writing' | 'skipped' | 'pending', MessageKey> = { done: 'headingDone', writing: 'headingWriting', skipped: 'headingSkipped', pending: 'headingPending' };
+    const headingsHtml = outline.headings.map((heading, index) => {
+        const position = positions[index];
+        let state: keyof typeof stateLabels = 'pending';
+        if (position === -1) {
+            if (positions.slice(index + 1).some(later => later !== -1)) state = 'skipped';
+        } else {
+            state = isStreaming && position === streamedHeadings.length - 1 ? 'writing' : 'done';
+        }
+        return `<li class="stream-heading stream-heading-${state}"><span>${escapeHtml(heading)}</span><span class="stream-heading-state">${t(stateLabels[state])}</span></li>`;
     }).join('');
+    const offOutline = streamedHeadings.filter(streamed => !outline.headings.some(heading => headingsMatch(streamed, heading)));
+    const coveredCount = positions.filter(position => position !== -1).length;
+
+    (preview.querySelector('.stream-preview-status') as HTMLDivElement).innerHTML = `
+        <div class="stream-preview-counts">
+            <span>${t('streamWordCount', { words: countWords(markdown, language).toLocaleString(), chars: markdown.length.toLocaleString() })}</span>
+            <span>${t('streamHeadingCoverage', { covered: coveredCount, total: outline.headings.length })}</span>
+        </div>
+        <ol class="stream-outline-progress">${headingsHtml}</ol>
+        ${offOutline.length > 0 ? `<p class="stream-off-outline">${t('streamOffOutline', { headings: escapeHtml(offOutline.join(' / ')) })}</p>` : ''}
+    `;
+    const body = preview.querySelector('.stream-preview-body') as HTMLDivElement;
+    body.innerHTML = sanitizeHtml(renderMarkdownToHtml(markdown));
+    if (isStreaming) body.scrollTop = body.scrollHeight; // Follow the newest text
+    preview.classList.remove('hidden');
+}
+
+/** A data: URL for whatever an imageMap entry holds, generated or uploaded; undefined for failures and empty screenshot slots. */
+function imageMapEntryDataUrl(entry: string | ScreenshotSlot | undefined): string | undefined {
+    if (typeof entry === 'string') return entry === 'error' ? undefined : `data:image/jpeg;base64,${entry}`;
+    return entry?.image ? `data:${entry.mimeType || 'image/png'};base64,${entry.image}` : undefined;
+}
+
+/** The prompt an image slot is generated from: the user's edit if any, else the placeholder's own JSON (or the theme, for an old cover). */
+function imageTaskForKey(article: ArticleHistoryItem, key: string): ImageGenerationTask {
+    const saved = article.imagePrompts?.[key];
+    if (saved) return { key, ...saved };
+    if (key === 'cover') return { key, prompt: article.theme };
+    const placeholder = matchDirectiveAt(key, 0);
+    return placeholder?.name === 'IMAGE_GENERATE' && placeholder.data ? { key, ...placeholder.data } : { key, prompt: '' };
+}
+
+/** Fills a cover or inline image slot with the image (or the failure placeholder) and its regenerate / edit-prompt actions. */
+function renderImageSlot(slot: HTMLElement, article: ArticleHistoryItem, key: string) {
+    const src = imageMapEntryDataUrl(key === 'cover' ? article.coverImage : article.imageMap?.[key]);
+    const imageHtml = src
+        ? (key === 'cover'
+            ? `<img src="${src}" alt="Cover image for ${escapeHtml(article.theme)}" class="cover-image">`
+            : `<img src="${src}" alt="Generated image for article" class="generated-image">`)
+        : `<div class="image-error-placeholder">
+                <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M21.99 4c0-1.1-.89-2-1.99-2H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h14l4 4-.01-18zM17 14h-4v-2h4v2zm-6-2h-2v2H7v-2H5V8h2V6h2v2h2v4z"/></svg>
+                <span>${t('imageFailed')}</span>
+            </div>`;
+    slot.innerHTML = `${imageHtml}
+        <div class="image-actions">
+            <button class="secondary-button image-regenerate-btn">${t('regenerateImage')}</button>
+            <button class="secondary-button image-edit-prompt-btn">${t('editImagePrompt')}</button>
+        </div>`;
+}
 
-    // clean up empty paragraphs and other artifacts
-    html = html.replace(/<p>\s*<\/p>/g, '');
-    html = html.replace(/<p>(<(ul|ol|h1|h2|h3|div|hr))/g, '$1');
-    html = html.replace(/(<\/(ul|ol|h1|h2|h3|div|hr))><\/p>/g, '$1');
-    
-    return html;
+function openImagePromptEditor(slot: HTMLElement, key: string) {
+    if (!currentArticle || slot.querySelector('.image-prompt-editor')) return;
+    const task = imageTaskForKey(currentArticle, key);
+    const editor = document.createElement('div');
+    editor.className = 'image-prompt-editor';
+    editor.innerHTML = `
+        <label>${t('imagePromptLabel')}</label>
+        <textarea class="image-prompt-input" rows="3"></textarea>
+        <label>${t('imageOverlayLabel')}</label>
+        <input type="text" class="image-overlay-input">
+        <div class="image-prompt-editor-actions">
+            <button class="image-prompt-generate-btn">${t('generateWithPrompt')}</button>
+            <button class="secondary-button image-prompt-cancel-btn">${t('cancel')}</button>
+        </div>`;
+    // Prompts are free text, so they go in as values rather than through the markup above
+    (editor.querySelector('.image-prompt-input') as HTMLTextAreaElement).value = task.prompt;
+    (editor.querySelector('.image-overlay-input') as HTMLInputElement).value = task.overlayText || '';
+    slot.querySelector('.image-actions')?.classList.add('hidden');
+    slot.appendChild(editor);
+}
+
+/**
+ * Re-runs Imagen for one imageMap key of the current article and saves the result. An edited prompt is
+ * remembered in imagePrompts so the next regenerate uses it too; a failed attempt keeps the previous image.
+ */
+async function regenerateArticleImage(slot: HTMLElement, key: string, editedTask?: ImageGenerationTask) {
+    const article = currentArticle;
+    if (!article) return;
+    const task = editedTask || imageTaskForKey(article, key);
+    if (!task.prompt.trim()) {
+        alert(t('imagePromptRequired'));
+        return;
+    }
+    slot.classList.add('regenerating');
+    slot.querySelectorAll('button').forEach(button => button.disabled = true);
+    slot.querySelector('.image-actions')?.insertAdjacentHTML('afterbegin', `<span class="image-regenerating"><div class="step-spinner"></div>${t('regeneratingImage')}</span>`);
+    try {
+        const { [key]: image } = await generateAndStoreImages([task], undefined, article.id);
+        if (image === 'error') throw new Error(`Image generation failed for ${key}`);
+        if (key === 'cover') article.coverImage = image;
+        else article.imageMap = { ...article.imageMap, [key]: image };
+        if (editedTask) article.imagePrompts = { ...article.imagePrompts, [key]: { prompt: task.prompt, overlayText: task.overlayText } };
+        await updateArticleInHistory(article);
+    } catch (error) {
+        console.error(`Failed to regenerate image "${key}":`, error);
+        alert(withErrorCause(t('imageRegenerateFailed'), error));
+    } finally {
+        slot.classList.remove('regenerating');
+        // The user may have opened another article meanwhile; its slots are already rendered fresh.
+        if (currentArticle === article && slot.isConnected) renderImageSlot(slot, article, key);
+    }
 }
 
 async function renderArticle(article: ArticleHistoryItem) {
@@ -1816,47 +6466,28 @@ async function renderArticle(article: ArticleHistoryItem) {
         articleWrapper.style.removeProperty('--article-accent-color');
     }
 
-    // Render cover image
-    if (article.coverImage) {
-        coverImageContainer.innerHTML = `<img src="data:image/jpeg;base64,${article.coverImage}" alt="Cover image for ${article.theme}" class="cover-image">`;
-        coverImageContainer.classList.remove('hidden');
-    } else {
-        coverImageContainer.classList.add('hidden');
-    }
+    // Render cover image; a failed cover keeps its slot so it can be regenerated
+    coverImageContainer.dataset.key = encodeUnicode('cover');
+    renderImageSlot(coverImageContainer, article, 'cover');
+    coverImageContainer.classList.remove('hidden');
     
     // Render markdown to HTML
-    if (!article.html) {
+    if (!article.html || article.htmlVersion !== MARKDOWN_RENDERER_VERSION) {
         article.html = renderMarkdownToHtml(article.markdown);
+        article.htmlVersion = MARKDOWN_RENDERER_VERSION;
         await updateArticleInHistory(article);
     }
-    articleOutput.innerHTML = article.html;
+    articleOutput.innerHTML = sanitizeHtml(article.html); // Cached HTML may come from an older renderer or an imported backup
     
     // Render images and placeholders
     articleOutput.querySelectorAll('.image-placeholder-wrapper').forEach(wrapper => {
         const key = decodeUnicode((wrapper as HTMLElement).dataset.key || '');
         const imageMapEntry = article.imageMap?.[key];
 
-        if (typeof imageMapEntry === 'string' && imageMapEntry !== 'error') {
-            const img = document.createElement('img');
-            img.src = `data:image/jpeg;base64,${imageMapEntry}`;
-            img.alt = `Generated image for article`;
-            img.className = 'generated-image';
-            wrapper.replaceWith(img);
-        } else if (typeof imageMapEntry === 'object' && imageMapEntry.type === 'screenshot') {
-            wrapper.innerHTML = `
-                <div class="screenshot-placeholder">
-                    <div class="screenshot-placeholder-header">
-                        <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M20 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2zM4 18V6h16v12H4zm6-10H8v2h2v-2zm4 0h-2v2h2v-2zm4 0h-2v2h2v-2z"/></svg>
-                        <span>スクリーンショット挿入指示</span>
-                    </div>
-                    <p>${imageMapEntry.instruction}</p>
-                </div>`;
-        } else { // Error or missing
-             wrapper.innerHTML = `
-                <div class="image-error-placeholder">
-                    <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M21.99 4c0-1.1-.89-2-1.99-2H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h14l4 4-.01-18zM17 14h-4v-2h4v2zm-6-2h-2v2H7v-2H5V8h2V6h2v2h2v4z"/></svg>
-                    <span>画像の生成に失敗しました。</span>
-                </div>`;
+        if (typeof imageMapEntry === 'object' && imageMapEntry.type === 'screenshot') {
+            renderScreenshotSlot(wrapper as HTMLElement, imageMapEntry);
+        } else { // Generated, failed or missing
+            renderImageSlot(wrapper as HTMLElement, article, key);
         }
     });
     
@@ -1868,82 +6499,11 @@ async function renderArticle(article: ArticleHistoryItem) {
                 // Decode from HTML attribute format to valid JSON string
                 const decodedData = encodedData.replace(/&quot;/g, '"');
                 const chartData = JSON.parse(decodedData);
-
-                const textColor = article.creativeDirection ? article.creativeDirection.palette[1] : '#666';
-                const primaryColor = article.creativeDirection ? article.creativeDirection.palette[0] : 'rgba(74, 144, 226, 0.7)';
-                const accentColor = article.creativeDirection ? article.creativeDirection.palette[2] : 'rgba(255, 99, 132, 0.7)';
-                
-                // Define a richer color palette for charts
-                const colorPalette = article.creativeDirection ? [primaryColor, accentColor, ...article.creativeDirection.palette.slice(3)] : [
-                    'rgba(74, 144, 226, 0.7)',
-                    'rgba(75, 192, 192, 0.7)',
-                    'rgba(255, 206, 86, 0.7)',
-                    'rgba(255, 99, 132, 0.7)',
-                    'rgba(153, 102, 255, 0.7)',
-                    'rgba(255, 159, 64, 0.7)'
-                ];
-                
-                const borderPalette = colorPalette.map(c => c.replace('0.7', '1'));
-
-
-                // Assign colors to datasets dynamically
-                if (chartData.data.datasets) {
-                    chartData.data.datasets.forEach((dataset: any, index: number) => {
-                        // For pie, doughnut charts, they take an array of colors for the data points
-                        if (['pie', 'doughnut'].includes(chartData.type)) {
-                            dataset.backgroundColor = dataset.backgroundColor || chartData.data.labels.map((_: any, i: number) => colorPalette[i % colorPalette.length]);
-                            dataset.borderColor = dataset.borderColor || chartData.data.labels.map((_: any, i: number) => borderPalette[i % borderPalette.length]);
-                        } else {
-                            // For other charts like bar, line, radar
-                            const color = colorPalette[index % colorPalette.length];
-                            const borderColor = borderPalette[index % borderPalette.length];
-                            dataset.backgroundColor = dataset.backgroundColor || color;
-                            dataset.borderColor = dataset.borderColor || borderColor;
-                        }
-                        dataset.borderWidth = dataset.borderWidth || 1;
-                    });
-                }
-                
-                const scalesOptions = (chartData.type === 'radar' || chartData.type === 'pie' || chartData.type === 'doughnut') ? {} : {
-                    scales: {
-                        x: {
-                            ticks: { color: textColor },
-                            grid: { color: '#e0e0e0' }
-                        },
-                        y: {
-                            ticks: { color: textColor },
-                            grid: { color: '#e0e0e0' }
-                        }
-                    }
-                };
-
-                new Chart(canvas, {
-                    type: chartData.type,
-                    data: chartData.data,
-                    options: {
-                        responsive: true,
-                        maintainAspectRatio: false,
-                        plugins: {
-                            title: {
-                                display: true,
-                                text: chartData.title,
-                                color: textColor,
-                                font: { size: 16, family: "'Noto Sans JP', sans-serif" }
-                            },
-                            legend: {
-                                labels: {
-                                    color: textColor,
-                                    font: { family: "'Noto Sans JP', sans-serif" }
-                                }
-                            }
-                        },
-                        ...scalesOptions
-                    }
-                });
+                drawChart(canvas, chartData, article.creativeDirection);
             } catch (e) {
                 console.error("Failed to render chart:", e);
                 const container = canvas.parentElement;
-                if(container) container.innerHTML = `<div class="error">グラフの描画に失敗しました。</div>`;
+                if(container) container.innerHTML = `<div class="error">${t('chartRenderError')}</div>`;
             }
         }
     });
@@ -1955,7 +6515,7 @@ async function renderArticle(article: ArticleHistoryItem) {
     videoDownloadLink.classList.add('hidden');
     
     if (article.videoStatus === 'pending') {
-        videoProgress.textContent = '紹介動画を生成中です... これには数分かかることがあります。';
+        videoProgress.textContent = t('videoGenerating');
         if (!videoGenerationPollingInterval) {
             startVideoPolling();
         }
@@ -1968,10 +6528,10 @@ async function renderArticle(article: ArticleHistoryItem) {
     // Render FAQs
     const faqContainer = document.getElementById('faq-container') as HTMLDivElement;
     if (article.faqs && article.faqs.length > 0) {
-        faqContainer.innerHTML = `<h3 class="enhancement-title">🤔 よくある質問 (Q&A)</h3>` + article.faqs.map(faq => `
+        faqContainer.innerHTML = `<h3 class="enhancement-title">${t('faqTitle')}</h3>` + article.faqs.map(faq => `
             <details class="faq-item">
-                <summary class="faq-question">${faq.question}</summary>
-                <div class="faq-answer"><p>${faq.answer}</p></div>
+                <summary class="faq-question">${escapeHtml(faq.question)}</summary>
+                <div class="faq-answer"><p>${escapeHtml(faq.answer)}</p></div>
             </details>
         `).join('');
         faqContainer.classList.remove('hidden');
@@ -1983,7 +6543,7 @@ async function renderArticle(article: ArticleHistoryItem) {
     const referencesContainer = document.getElementById('references-container') as HTMLDivElement;
     const referencesList = document.getElementById('references') as HTMLUListElement;
     if (article.references && article.references.length > 0) {
-        referencesList.innerHTML = article.references.map(ref => `<li><a href="${ref.uri}" target="_blank" rel="noopener noreferrer">${ref.title || ref.uri}</a></li>`).join('');
+        referencesList.innerHTML = article.references.map(ref => `<li>${externalLink(ref.uri, ref.title || ref.uri)}</li>`).join('');
         referencesContainer.classList.remove('hidden');
     } else {
         referencesContainer.classList.add('hidden');
@@ -1992,9 +6552,9 @@ async function renderArticle(article: ArticleHistoryItem) {
     // Render Enhancements
     const enhancementsContainer = document.getElementById('enhancements-container') as HTMLDivElement;
     if (article.enhancements) {
-        (document.getElementById('title-suggestions') as HTMLUListElement).innerHTML = article.enhancements.titleSuggestions.map((t: string) => `<li>${t}</li>`).join('');
+        (document.getElementById('title-suggestions') as HTMLUListElement).innerHTML = article.enhancements.titleSuggestions.map((title: string) => `<li>${escapeHtml(title)}</li>`).join('');
         (document.getElementById('sns-output') as HTMLTextAreaElement).value = article.enhancements.snsShareText;
-        (document.getElementById('hashtags-output') as HTMLDivElement).innerHTML = article.enhancements.hashtags.map((h: string) => `<span class="hashtag">${h}</span>`).join(' ');
+        (document.getElementById('hashtags-output') as HTMLDivElement).innerHTML = article.enhancements.hashtags.map((h: string) => `<span class="hashtag">${escapeHtml(h)}</span>`).join(' ');
         (document.getElementById('meta-output') as HTMLTextAreaElement).value = article.enhancements.metaDescription;
         enhancementsContainer.classList.remove('hidden');
     } else {
@@ -2032,19 +6592,19 @@ function displayPerformanceAnalysis(article: ArticleHistoryItem) {
     // Display user-inputted performance
     if (article.performance.userInput) {
         userInputContainer.innerHTML = `
-            <h4>実績データ (<a href="#" data-id="${article.id}" class="performance-input-link">編集</a>)</h4>
+            <h4>${t('performanceRecordHeading')} (<a href="#" data-id="${article.id}" class="performance-input-link">${t('edit')}</a>)</h4>
             <div class="user-performance-grid">
                 <div class="prediction-item">
-                    <div class="value">${article.performance.userInput.views || 'N/A'}</div>
-                    <div class="label">閲覧数</div>
+                    <div class="value">${escapeHtml(article.performance.userInput.views || 'N/A')}</div>
+                    <div class="label">${t('views')}</div>
                 </div>
                 <div class="prediction-item">
-                    <div class="value">${article.performance.userInput.engagementRate || 'N/A'}%</div>
-                    <div class="label">エンゲージメント率</div>
+                    <div class="value">${escapeHtml(article.performance.userInput.engagementRate || 'N/A')}%</div>
+                    <div class="label">${t('engagementRate')}</div>
                 </div>
                 <div class="prediction-item">
-                    <div class="value">${article.performance.userInput.conversions || 'N/A'}</div>
-                    <div class="label">コンバージョン</div>
+                    <div class="value">${escapeHtml(article.performance.userInput.conversions || 'N/A')}</div>
+                    <div class="label">${t('conversions')}</div>
                 </div>
             </div>
         `;
@@ -2053,7 +6613,7 @@ function displayPerformanceAnalysis(article: ArticleHistoryItem) {
             openPerformanceModal(article.id);
         });
     } else {
-        userInputContainer.innerHTML = `<button class="secondary-button" id="add-performance-btn" data-id="${article.id}">+ 実際のパフォーマンスを記録する</button>`;
+        userInputContainer.innerHTML = `<button class="secondary-button" id="add-performance-btn" data-id="${article.id}">${t('addPerformance')}</button>`;
         userInputContainer.querySelector('#add-performance-btn')?.addEventListener('click', () => openPerformanceModal(article.id));
     }
 
@@ -2064,38 +6624,38 @@ function displayPerformanceAnalysis(article: ArticleHistoryItem) {
 
     wrapper.innerHTML = `
         <div class="analysis-item">
-            <h4><svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2zM9 17H7v-7h2v7zm4 0h-2V7h2v10zm4 0h-2v-4h2v4z"/></svg>品質スコア</h4>
+            <h4><svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2zM9 17H7v-7h2v7zm4 0h-2V7h2v10zm4 0h-2v-4h2v4z"/></svg>${t('qualityScores')}</h4>
             <div class="performance-grid">
                 ${Object.entries(qualityScores).map(([key, value]) => `
                     <div class="score-item">
-                        <div class="score-title">${key.charAt(0).toUpperCase() + key.slice(1)} (${value.score}/100)</div>
+                        <div class="score-title">${escapeHtml(key.charAt(0).toUpperCase() + key.slice(1))} (${escapeHtml(value.score)}/100)</div>
                         <div class="score-bar-container">
                             <div class="score-bar ${getBarColor(value.score)}" style="width: ${value.score}%"></div>
                         </div>
-                        <div class="score-feedback">${value.feedback}</div>
+                        <div class="score-feedback">${escapeHtml(value.feedback)}</div>
                     </div>
                 `).join('')}
             </div>
         </div>
         <div class="analysis-item">
-            <h4><svg xmlns="http://www.w3.org/2000/svg" enable-background="new 0 0 24 24" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><g><rect fill="none" height="24" width="24"/></g><g><g><path d="M16.5,13c-1.2,0-2.27,0.59-3,1.5c-0.73-0.91-1.8-1.5-3-1.5C8.36,13,7,14.36,7,16.5C7,18.54,9.45,20.88,12,21.5 c2.55-0.62,5-2.96,5-5C17,14.36,15.64,13,16.5,13z"/><path d="M12,12c2.21,0,4-1.79,4-4s-1.79-4-4-4S8,5.79,8,8S9.79,12,12,12z"/></g></g></svg>ペルソナ共鳴度</h4>
-            <div class="persona-feedback">${personaResonance.feedback}</div>
+            <h4><svg xmlns="http://www.w3.org/2000/svg" enable-background="new 0 0 24 24" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><g><rect fill="none" height="24" width="24"/></g><g><g><path d="M16.5,13c-1.2,0-2.27,0.59-3,1.5c-0.73-0.91-1.8-1.5-3-1.5C8.36,13,7,14.36,7,16.5C7,18.54,9.45,20.88,12,21.5 c2.55-0.62,5-2.96,5-5C17,14.36,15.64,13,16.5,13z"/><path d="M12,12c2.21,0,4-1.79,4-4s-1.79-4-4-4S8,5.79,8,8S9.79,12,12,12z"/></g></g></svg>${t('personaResonance')}</h4>
+            <div class="persona-feedback">${escapeHtml(personaResonance.feedback)}</div>
         </div>
          <div class="analysis-item">
-            <h4><svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M16 6l2.29 2.29-4.88 4.88-4-4L2 16.59 3.41 18l6-6 4 4 6.3-6.29L22 12V6h-6z"/></svg>エンゲージメント予測</h4>
+            <h4><svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M16 6l2.29 2.29-4.88 4.88-4-4L2 16.59 3.41 18l6-6 4 4 6.3-6.29L22 12V6h-6z"/></svg>${t('engagementPrediction')}</h4>
             <div class="engagement-prediction">
                 ${Object.entries(engagementPrediction).map(([key, value]) => `
                     <div class="prediction-item">
-                        <div class="value">${value}</div>
-                        <div class="label">${{likes: "いいね", shares: "シェア", readTime: "読了時間"}[key]}</div>
+                        <div class="value">${escapeHtml(value)}</div>
+                        <div class="label">${t(key as 'likes' | 'shares' | 'readTime')}</div>
                     </div>
                 `).join('')}
             </div>
         </div>
         <div class="analysis-item">
-            <h4><svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M4 18h16V6H4v12zm14-2h-2v-2h2v2zm-4-2h-2v-2h2v2zm-4-2H8v-2h2v2zm-4-2h-2V8h2v2z" opacity=".3"/><path d="M20 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2zM4 18V6h16v12H4zM6 8h2v2H6zm4 0h2v2h-2zm4 0h2v2h-2zm4 2h-2v2h2zm-4 0h-2v2h2zm-4 0H8v2h2z"/></svg>A/Bテスト用タイトル案</h4>
+            <h4><svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M4 18h16V6H4v12zm14-2h-2v-2h2v2zm-4-2h-2v-2h2v2zm-4-2H8v-2h2v2zm-4-2h-2V8h2v2z" opacity=".3"/><path d="M20 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2zM4 18V6h16v12H4zM6 8h2v2H6zm4 0h2v2h-2zm4 0h2v2h-2zm4 2h-2v2h2zm-4 0h-2v2h2zm-4 0H8v2h2z"/></svg>${t('abTestTitles')}</h4>
             <ul class="ab-test-titles">
-                ${abTestTitles.map(t => `<li><span class="title-text">${t.title}</span> <span class="ctr-prediction">予測CTR: ${t.predictedCTR}</span></li>`).join('')}
+                ${abTestTitles.map(title => `<li><span class="title-text">${escapeHtml(title.title)}</span> <span class="ctr-prediction">${t('predictedCtr', { ctr: escapeHtml(title.predictedCTR) })}</span></li>`).join('')}
             </ul>
         </div>
     `;
@@ -2104,7 +6664,7 @@ function displayPerformanceAnalysis(article: ArticleHistoryItem) {
 function displayFactCheckResults(results: FactCheckResult[]) {
     const wrapper = document.getElementById('fact-check-wrapper') as HTMLDivElement;
     if (!results || results.length === 0) {
-        wrapper.innerHTML = `<p>検証可能な事実が見つかりませんでした。</p>`;
+        wrapper.innerHTML = `<p>${t('noFacts')}</p>`;
         return;
     }
 
@@ -2114,35 +6674,35 @@ function displayFactCheckResults(results: FactCheckResult[]) {
         no_match: '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/></svg>',
     };
     const titleMap = {
-        match: '一致',
-        partial_match: '部分的に一致',
-        no_match: '一致せず',
+        match: t('factMatch'),
+        partial_match: t('factPartialMatch'),
+        no_match: t('factNoMatch'),
     };
     
     wrapper.innerHTML = results.map(r => `
         <div class="fact-check-item ${r.result}">
             <div class="fact-check-header">${iconMap[r.result]} ${titleMap[r.result]}</div>
-            <div class="fact-check-statement"><strong>検証対象:</strong> ${r.statement}</div>
-            <div class="fact-check-feedback">${r.feedback}</div>
-            <div class="fact-check-source"><strong>情報源:</strong> <a href="${r.uri}" target="_blank" rel="noopener noreferrer">${r.source}</a></div>
+            <div class="fact-check-statement"><strong>${t('factStatement')}</strong> ${escapeHtml(r.statement)}</div>
+            <div class="fact-check-feedback">${escapeHtml(r.feedback)}</div>
+            <div class="fact-check-source"><strong>${t('factSource')}</strong> ${externalLink(r.uri, r.source)}</div>
         </div>
     `).join('');
 }
 function renderCoPilotSuggestions() {
     const list = document.getElementById('co-pilot-suggestions-list') as HTMLUListElement;
     if (coPilotSuggestions.length === 0) {
-        list.innerHTML = '<li>提案はありません。</li>';
+        list.innerHTML = `<li>${t('noSuggestions')}</li>`;
         return;
     }
     list.innerHTML = coPilotSuggestions.map(s => `
         <li class="co-pilot-suggestion-item" data-id="${s.id}">
-            <strong class="suggestion-reason">${s.reason}</strong>
+            <strong class="suggestion-reason">${escapeHtml(s.reason)}</strong>
             <div class="suggestion-diff">
-                <span class="original">${s.original}</span>
-                <span class="suggested">${s.suggested}</span>
+                <span class="original">${escapeHtml(s.original)}</span>
+                <span class="suggested">${escapeHtml(s.suggested)}</span>
             </div>
             <div class="suggestion-actions">
-                <button class="apply-suggestion-btn" data-id="${s.id}">適用</button>
+                <button class="apply-suggestion-btn" data-id="${s.id}">${t('apply')}</button>
             </div>
         </li>
     `).join('');
@@ -2187,7 +6747,7 @@ function highlightOriginalText(suggestion: CoPilotSuggestion | null, highlight:
 function showContextMenu(x: number, y: number) {
     const contextMenu = document.getElementById('context-menu') as HTMLDivElement;
     contextMenu.innerHTML = `
-        <button id="research-context-btn"><svg xmlns="http://www.w3.org/2000/svg" enable-background="new 0 0 24 24" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><g><rect fill="none" height="24" width="24"/></g><g><g><path d="M15.5,14h-0.79l-0.28-0.27C15.41,12.59,16,11.11,16,9.5C16,5.91,13.09,3,9.5,3S3,5.91,3,9.5C3,13.09,5.91,16,9.5,16 c1.61,0,3.09-0.59,4.23-1.57l0.27,0.28v0.79l5,5L20.49,19L15.5,14z M9.5,14C7.01,14,5,11.99,5,9.5S7.01,5,9.5,5S14,7.01,14,9.5 S11.99,14,9.5,14z"/><path d="M12,10h-2v2H9v-2H7V9h2V7h1v2h2V10z"/></g></g></svg> AIアシスタントで深掘り</button>
+        <button id="research-context-btn"><svg xmlns="http://www.w3.org/2000/svg" enable-background="new 0 0 24 24" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><g><rect fill="none" height="24" width="24"/></g><g><g><path d="M15.5,14h-0.79l-0.28-0.27C15.41,12.59,16,11.11,16,9.5C16,5.91,13.09,3,9.5,3S3,5.91,3,9.5C3,13.09,5.91,16,9.5,16 c1.61,0,3.09-0.59,4.23-1.57l0.27,0.28v0.79l5,5L20.49,19L15.5,14z M9.5,14C7.01,14,5,11.99,5,9.5S7.01,5,9.5,5S14,7.01,14,9.5 S11.99,14,9.5,14z"/><path d="M12,10h-2v2H9v-2H7V9h2V7h1v2h2V10z"/></g></g></svg> ${t('researchDeepDive')}</button>
     `;
     contextMenu.style.top = `${y}px`;
     contextMenu.style.left = `${x}px`;
@@ -2211,188 +6771,1335 @@ function showContextMenu(x: number, y: number) {
         researchOutput.value = '';
         researchReferencesList.innerHTML = '';
 
-        const prompt = `あなたは専門リサーチャーです。以下のテキストについて、Google検索を用いて徹底的に調査し、より詳細な情報や背景、関連データを盛り込んだ解説文を作成してください。
+        const prompt = `あなたは専門リサーチャーです。以下のテキストについて、Google検索を用いて徹底的に調査し、より詳細な情報や背景、関連データを盛り込んだ解説文を作成してください。
+
+# 調査対象テキスト
+---
+${sanitizeString(selectedText)}
+---
+${languageInstruction(currentArticle?.language)}`;
+        try {
+            const ai = getAIProvider(currentArticle?.id);
+            const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({ model: stageModel('contextResearch'), contents: prompt, config: { ...stageConfig('contextResearch'), tools: [{ googleSearch: {} }] } }));
+            researchOutput.value = response.text.trim();
+            const references = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+            if (references.length > 0) {
+                researchReferencesList.innerHTML = references
+                    .filter((r: any) => r.web && r.web.uri)
+                    .map((r: any) => `<li>${externalLink(r.web.uri, r.web.title || r.web.uri)}</li>`)
+                    .join('');
+                researchReferencesContainer.classList.remove('hidden');
+            } else {
+                researchReferencesContainer.classList.add('hidden');
+            }
+
+            insertResearchBtn.classList.remove('hidden');
+            insertResearchBtn.textContent = t('replaceSelection', { text: safeSubstring(selectedText, 10) });
+        } catch(e) {
+            researchOutput.value = withErrorCause(t('errorOccurred'), e);
+        } finally {
+            researchSpinner.classList.add('hidden');
+            researchResults.classList.remove('hidden');
+        }
+    });
+}
+function toggleSpeech() {
+    const readAloudButton = document.getElementById('read-aloud-button') as HTMLButtonElement;
+    const readAloudTextSpan = readAloudButton.querySelector('.button-text') as HTMLSpanElement | null;
+    if (isSpeaking) {
+        stopSpeech();
+    } else {
+        if (!currentArticle) return;
+        stopGeneratedAudio();
+        const articleOutput = document.getElementById('article-output') as HTMLDivElement;
+        const readableOutput = articleOutput.cloneNode(true) as HTMLDivElement;
+        readableOutput.querySelectorAll('.image-actions, .image-prompt-editor, .screenshot-drop-zone').forEach(el => el.remove());
+        const textToSpeak = readableOutput.innerText;
+        utterance = new SpeechSynthesisUtterance(textToSpeak);
+        utterance.lang = ARTICLE_LANGUAGES[currentArticle.language || 'ja'].locale;
+        utterance.onstart = () => {
+            isSpeaking = true;
+            if(readAloudTextSpan) readAloudTextSpan.textContent = t('stopReading');
+        };
+        utterance.onend = () => {
+            isSpeaking = false;
+            utterance = null;
+            if(readAloudTextSpan) readAloudTextSpan.textContent = t('readAloud');
+        };
+        speechSynthesis.speak(utterance);
+    }
+}
+function stopSpeech() {
+    if (isSpeaking) {
+        speechSynthesis.cancel();
+        isSpeaking = false;
+        const readAloudTextSpan = document.querySelector('#read-aloud-button .button-text') as HTMLSpanElement | null;
+        if(readAloudTextSpan) readAloudTextSpan.textContent = t('readAloud');
+    }
+}
+function stopGeneratedAudio() {
+    if (currentAudioSource) {
+        currentAudioSource.stop();
+        currentAudioSource = null;
+    }
+    if (currentAudioContext) {
+        currentAudioContext.close();
+        currentAudioContext = null;
+    }
+    (document.getElementById('audio-player-container') as HTMLDivElement).innerHTML = '';
+}
+function openPerformanceModal(articleId: number) {
+    const article = articles.find(h => h.id === articleId);
+    if (!article) return;
+    const performanceModal = document.getElementById('performance-modal') as HTMLDivElement;
+    const performanceViewsInput = document.getElementById('performance-views') as HTMLInputElement;
+    const performanceEngagementRateInput = document.getElementById('performance-engagement-rate') as HTMLInputElement;
+    const performanceConversionsInput = document.getElementById('performance-conversions') as HTMLInputElement;
+
+    currentPerformanceArticleId = articleId;
+    performanceViewsInput.value = article.performance?.userInput?.views || '';
+    performanceEngagementRateInput.value = article.performance?.userInput?.engagementRate || '';
+    performanceConversionsInput.value = article.performance?.userInput?.conversions || '';
+    performanceModal.classList.remove('hidden');
+}
+async function repurposeContent(article: ArticleHistoryItem, format: 'twitter' | 'youtube' | 'presentation', button: HTMLButtonElement) {
+    const spinner = button.querySelector('.spinner') as HTMLDivElement;
+    const buttonText = button.querySelector('.button-text') as HTMLSpanElement;
+    const originalText = buttonText.textContent;
+    const expansionResultContainer = document.getElementById('expansion-result-container') as HTMLDivElement;
+    const expansionOutput = document.getElementById('expansion-output') as HTMLTextAreaElement;
+
+    button.disabled = true;
+    spinner.classList.remove('hidden');
+    buttonText.textContent = t('converting');
+    expansionResultContainer.classList.add('hidden');
+
+    const prompt = renderPrompt('repurpose', {
+        markdown: safeSubstring(sanitizeString(article.markdown), 5000),
+        isTwitter: format === 'twitter',
+        isYoutube: format === 'youtube',
+        isPresentation: format === 'presentation',
+    }) + languageInstruction(article.language);
+
+    try {
+        const ai = getAIProvider(article.id);
+        const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({ model: stageModel('editorAssist'), contents: prompt, config: stageConfig('editorAssist') }));
+        expansionOutput.value = response.text;
+        expansionResultContainer.classList.remove('hidden');
+    } catch(e) {
+        expansionOutput.value = withErrorCause(t('conversionError'), e);
+        expansionResultContainer.classList.remove('hidden');
+    } finally {
+        button.disabled = false;
+        spinner.classList.add('hidden');
+        buttonText.textContent = originalText;
+    }
+
+}
+function handleFile(file: File) {
+    const fileInfoDiv = document.getElementById('file-info') as HTMLDivElement;
+    const referenceTextArea = document.getElementById('reference-text') as HTMLTextAreaElement;
+    
+    if (file.type !== "text/plain" && file.type !== "text/markdown") {
+        alert(t('textFilesOnly'));
+        return;
+    }
+    
+    fileInfoDiv.innerHTML = `
+        <span>${escapeHtml(file.name)}</span>
+        <button id="remove-file-btn">&times;</button>
+    `;
+    fileInfoDiv.classList.remove('hidden');
+    
+    document.getElementById('remove-file-btn')?.addEventListener('click', () => {
+        (document.getElementById('file-upload-input') as HTMLInputElement).value = '';
+        referenceTextArea.value = '';
+        fileInfoDiv.classList.add('hidden');
+    });
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+        referenceTextArea.value = e.target?.result as string;
+    };
+    reader.readAsText(file);
+}
+
+// --- Screenshot Upload ---
+const SCREENSHOT_MAX_WIDTH = 1600; // Wider captures are scaled down on save to keep IndexedDB small
+
+/** An uploaded capture with edit / replace / remove actions, or the instruction with a drop zone until there is one. */
+function renderScreenshotSlot(slot: HTMLElement, entry: ScreenshotSlot) {
+    const src = imageMapEntryDataUrl(entry);
+    const fileInput = '<input type="file" accept="image/*" class="screenshot-file-input hidden">';
+    slot.innerHTML = src ? `
+        <img src="${src}" alt="${t('screenshotInstruction')}" class="generated-image screenshot-image">
+        <div class="image-actions">
+            <button class="secondary-button screenshot-edit-btn">${t('screenshotEdit')}</button>
+            <button class="secondary-button screenshot-choose-btn">${t('screenshotReplace')}</button>
+            <button class="secondary-button screenshot-remove-btn">${t('delete')}</button>
+            ${fileInput}
+        </div>` : `
+        <div class="screenshot-placeholder" tabindex="0">
+            <div class="screenshot-placeholder-header">
+                <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M20 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2zM4 18V6h16v12H4zm6-10H8v2h2v-2zm4 0h-2v2h2v-2zm4 0h-2v2h2v-2z"/></svg>
+                <span>${t('screenshotInstruction')}</span>
+            </div>
+            <p>${escapeHtml(entry.instruction)}</p>
+            <div class="screenshot-drop-zone">
+                <span>${t('screenshotDropHint')}</span>
+                <button class="secondary-button screenshot-choose-btn">${t('screenshotChooseFile')}</button>
+                ${fileInput}
+            </div>
+        </div>`;
+}
+
+function openScreenshotEditor(slot: HTMLElement, key: string, file: Blob) {
+    if (!file.type.startsWith('image/')) {
+        alert(t('screenshotNotImage'));
+        return;
+    }
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+        URL.revokeObjectURL(url);
+        screenshotEditor = { slot, key, image, tool: 'crop', crop: null, annotations: [], dragStart: null, dragEnd: null };
+        const canvas = document.getElementById('screenshot-editor-canvas') as HTMLCanvasElement;
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        selectScreenshotTool('crop');
+        drawScreenshotEditor();
+        (document.getElementById('screenshot-editor-modal') as HTMLDivElement).classList.remove('hidden');
+    };
+    image.onerror = () => {
+        URL.revokeObjectURL(url);
+        alert(t('screenshotNotImage'));
+    };
+    image.src = url;
+}
+
+function closeScreenshotEditor() {
+    screenshotEditor = null;
+    (document.getElementById('screenshot-editor-modal') as HTMLDivElement).classList.add('hidden');
+}
+
+function selectScreenshotTool(tool: ScreenshotEditorState['tool']) {
+    if (screenshotEditor) screenshotEditor.tool = tool;
+    document.querySelectorAll<HTMLButtonElement>('.screenshot-tool-btn').forEach(button => button.classList.toggle('active', button.dataset.tool === tool));
+}
+
+function normalizeScreenshotRect(from: { x: number; y: number }, to: { x: number; y: number }): ScreenshotRect {
+    return { x: Math.min(from.x, to.x), y: Math.min(from.y, to.y), w: Math.abs(to.x - from.x), h: Math.abs(to.y - from.y) };
+}
+
+/** Line width scales with the capture so annotations read the same on a phone shot and a 4K monitor. */
+function drawScreenshotAnnotation(ctx: CanvasRenderingContext2D, annotation: ScreenshotAnnotation, lineWidth: number) {
+    ctx.strokeStyle = annotation.color;
+    ctx.lineWidth = lineWidth;
+    ctx.lineCap = 'round';
+    if (annotation.type === 'box') {
+        const rect = normalizeScreenshotRect(annotation.from, annotation.to);
+        ctx.strokeRect(rect.x, rect.y, rect.w, rect.h);
+        return;
+    }
+    const { from, to } = annotation;
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const headLength = lineWidth * 4 + 8;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    for (const side of [-1, 1]) {
+        ctx.moveTo(to.x, to.y);
+        ctx.lineTo(to.x - headLength * Math.cos(angle + side * Math.PI / 7), to.y - headLength * Math.sin(angle + side * Math.PI / 7));
+    }
+    ctx.stroke();
+}
+
+function screenshotLineWidth(image: HTMLImageElement): number { return Math.max(3, Math.round(Math.max(image.naturalWidth, image.naturalHeight) / 300)); }
+
+/** Redraws the editor: the full capture, everything outside the crop dimmed, annotations, and the shape being dragged. */
+function drawScreenshotEditor() {
+    if (!screenshotEditor) return;
+    const { image, crop, annotations, tool, dragStart, dragEnd } = screenshotEditor;
+    const canvas = document.getElementById('screenshot-editor-canvas') as HTMLCanvasElement;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const lineWidth = screenshotLineWidth(image);
+    const color = (document.getElementById('screenshot-annotation-color') as HTMLInputElement).value;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0);
+    annotations.forEach(annotation => drawScreenshotAnnotation(ctx, annotation, lineWidth));
+    const pendingCrop = tool === 'crop' && dragStart && dragEnd ? normalizeScreenshotRect(dragStart, dragEnd) : crop;
+    if (pendingCrop) {
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+        ctx.fillRect(0, 0, canvas.width, pendingCrop.y);
+        ctx.fillRect(0, pendingCrop.y + pendingCrop.h, canvas.width, canvas.height - pendingCrop.y - pendingCrop.h);
+        ctx.fillRect(0, pendingCrop.y, pendingCrop.x, pendingCrop.h);
+        ctx.fillRect(pendingCrop.x + pendingCrop.w, pendingCrop.y, canvas.width - pendingCrop.x - pendingCrop.w, pendingCrop.h);
+        ctx.setLineDash([lineWidth * 3, lineWidth * 2]);
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = Math.max(1, lineWidth / 2);
+        ctx.strokeRect(pendingCrop.x, pendingCrop.y, pendingCrop.w, pendingCrop.h);
+        ctx.setLineDash([]);
+    }
+    if (tool !== 'crop' && dragStart && dragEnd) drawScreenshotAnnotation(ctx, { type: tool, from: dragStart, to: dragEnd, color }, lineWidth);
+}
+
+/** Maps a pointer event on the scaled-down canvas back to source image pixels. */
+function screenshotPointFromEvent(canvas: HTMLCanvasElement, e: MouseEvent): { x: number; y: number } {
+    const rect = canvas.getBoundingClientRect();
+    const clamp = (value: number, max: number) => Math.round(Math.min(max, Math.max(0, value)));
+    return {
+        x: clamp((e.clientX - rect.left) * canvas.width / (rect.width || canvas.width), canvas.width),
+        y: clamp((e.clientY - rect.top) * canvas.height / (rect.height || canvas.height), canvas.height),
+    };
+}
+
+function finishScreenshotDrag() {
+    if (!screenshotEditor?.dragStart || !screenshotEditor.dragEnd) return;
+    const { tool, dragStart, dragEnd } = screenshotEditor;
+    screenshotEditor.dragStart = screenshotEditor.dragEnd = null;
+    if (Math.hypot(dragEnd.x - dragStart.x, dragEnd.y - dragStart.y) < 5) return drawScreenshotEditor(); // A click, not a drag
+    if (tool === 'crop') {
+        screenshotEditor.crop = normalizeScreenshotRect(dragStart, dragEnd);
+    } else {
+        const color = (document.getElementById('screenshot-annotation-color') as HTMLInputElement).value;
+        screenshotEditor.annotations.push({ type: tool, from: dragStart, to: dragEnd, color });
+    }
+    drawScreenshotEditor();
+}
+
+/** Flattens crop and annotations into a PNG, scaled down to SCREENSHOT_MAX_WIDTH, and returns its base64. */
+function renderScreenshotOutput(editor: ScreenshotEditorState): string {
+    const { image, annotations } = editor;
+    const area = editor.crop || { x: 0, y: 0, w: image.naturalWidth, h: image.naturalHeight };
+    const scale = Math.min(1, SCREENSHOT_MAX_WIDTH / area.w);
+    const output = document.createElement('canvas');
+    output.width = Math.round(area.w * scale);
+    output.height = Math.round(area.h * scale);
+    const ctx = output.getContext('2d')!;
+    ctx.scale(scale, scale);
+    ctx.translate(-area.x, -area.y);
+    ctx.drawImage(image, 0, 0);
+    annotations.forEach(annotation => drawScreenshotAnnotation(ctx, annotation, screenshotLineWidth(image)));
+    return output.toDataURL('image/png').split(',')[1];
+}
+
+async function saveScreenshotFromEditor() {
+    const editor = screenshotEditor;
+    const article = currentArticle;
+    const entry = article?.imageMap?.[editor?.key || ''];
+    if (!editor || !article || typeof entry !== 'object') return closeScreenshotEditor();
+    const updated: ScreenshotSlot = { ...entry, image: renderScreenshotOutput(editor), mimeType: 'image/png' };
+    try {
+        article.imageMap = { ...article.imageMap, [editor.key]: updated };
+        await updateArticleInHistory(article);
+        if (editor.slot.isConnected) renderScreenshotSlot(editor.slot, updated);
+        closeScreenshotEditor();
+    } catch (error) {
+        console.error("Failed to save screenshot:", error);
+        alert(t('screenshotSaveFailed'));
+    }
+}
+
+async function removeScreenshot(slot: HTMLElement, key: string) {
+    const article = currentArticle;
+    const entry = article?.imageMap?.[key];
+    if (!article || typeof entry !== 'object' || !confirm(t('confirmRemoveScreenshot'))) return;
+    const { image, mimeType, ...placeholder } = entry;
+    article.imageMap = { ...article.imageMap, [key]: placeholder };
+    await updateArticleInHistory(article);
+    renderScreenshotSlot(slot, placeholder);
+}
+
+
+// --- HTML Export ---
+/** Standalone copy of the article styles from index.css, with the creative direction filled in where the app uses CSS variables. */
+function exportStyles(palette: string[] | undefined): string {
+    // The colors land inside <style>, so anything but a hex code falls back to that slot's default
+    const [primary, text, accent] = ['#2c3e50', '#333333', '#1a73e8'].map((fallback, i) => {
+        const color = palette?.[i];
+        return typeof color === 'string' && HEX_COLOR_PATTERN.test(color.trim()) ? color.trim() : fallback;
+    });
+    return `:root { --primary: ${primary}; --text: ${text}; --accent: ${accent}; --box-bg: #f8f9fa; --border: #dee2e6; --muted: #6c757d; }
+body { margin: 0; background: #fff; color: var(--text); font-family: -apple-system, BlinkMacSystemFont, "Hiragino Sans", "Noto Sans JP", "Segoe UI", sans-serif; line-height: 1.7; }
+article { max-width: 760px; margin: 0 auto; padding: 2rem 1.25rem 4rem; word-wrap: break-word; }
+h1, h2, h3 { margin: 1.5em 0 0.5em; color: var(--primary); line-height: 1.4; }
+h4, h5, h6 { margin: 1.25em 0 0.5em; }
+p { margin: 0 0 1em; }
+a { color: var(--accent); word-break: break-all; }
+ul, ol { padding-left: 2em; margin: 0 0 1em; }
+li { margin-bottom: 0.5em; }
+img { max-width: 100%; height: auto; border-radius: 8px; }
+figure { margin: 1.5rem 0; }
+.cover-image { width: 100%; max-height: 400px; object-fit: cover; }
+.table-wrapper { overflow-x: auto; }
+table { width: 100%; border-collapse: collapse; margin: 1.5rem 0; }
+th, td { border: 1px solid var(--border); padding: 0.75rem; text-align: left; }
+th { background: var(--box-bg); }
+blockquote { margin: 1.5em 0; padding: 0.5em 1em; border-left: 4px solid var(--primary); background: var(--box-bg); color: var(--muted); }
+code { font-family: monospace; font-size: 0.9em; padding: 0.15em 0.35em; background: var(--box-bg); border-radius: 4px; }
+pre { margin: 1.5em 0; padding: 1em; overflow-x: auto; background: #2d2d2d; color: #f8f8f2; border-radius: 8px; }
+pre code { padding: 0; background: none; color: inherit; }
+hr { border: 0; border-top: 1px solid var(--border); margin: 2em 0; }
+hr.paid-divider { border: 0; text-align: center; height: 1.5em; }
+hr.paid-divider::before { content: ''; display: block; height: 1px; background: var(--border); position: relative; top: 0.75em; }
+hr.paid-divider::after { content: attr(data-text); position: relative; top: -0.75em; background: #fff; padding: 0 1em; color: var(--muted); font-style: italic; }
+.info-box, .summary-box { margin: 1.5rem 0; padding: 1rem 1.5rem; border-left: 5px solid var(--accent); border-radius: 8px; background: var(--box-bg); }
+.info-box-header, .summary-box-header { display: flex; align-items: center; gap: 0.5rem; margin-bottom: 0.5rem; font-weight: bold; font-size: 1.1rem; color: var(--primary); }
+.info-box-header svg, .summary-box-header svg { width: 1.25em; height: 1.25em; flex-shrink: 0; }
+.info-box-quote { font-style: italic; }
+.summary-box-list { list-style: none; padding-left: 0; margin-bottom: 0; }
+.summary-box-list li { position: relative; padding-left: 1.5rem; }
+.summary-box-list li::before { content: '✔'; position: absolute; left: 0; color: var(--primary); }
+.article-faq details { margin-bottom: 0.75rem; padding: 0.75rem 1rem; border: 1px solid var(--border); border-radius: 8px; }
+.article-faq summary { font-weight: bold; cursor: pointer; }
+.article-faq details p { margin: 0.75rem 0 0; }
+.article-references { margin-top: 3rem; font-size: 0.9rem; }
+@page { size: A4; margin: 18mm 16mm; }
+@media print {
+    body { font-size: 10.5pt; }
+    article { max-width: none; padding: 0; }
+    h2, .article-faq, .article-references { break-before: page; }
+    h1, h2, h3, h4 { break-after: avoid; }
+    figure, table, pre, blockquote, .info-box, .summary-box, .article-faq details { break-inside: avoid; }
+    .article-faq details { border: 0; padding: 0; }
+    hr.paid-divider { display: none; }
+    .article-references a::after { content: " (" attr(href) ")"; color: var(--muted); }
+}
+`;
+}
+
+/** Draws a chart off-screen without animation, on white so it stays legible in dark e-reader themes, and returns it as a PNG data URL. */
+function rasterizeChart(spec: ChartSpec, creativeDirection?: CreativeDirection): string {
+    const container = document.createElement('div');
+    container.style.cssText = 'position: fixed; left: -10000px; top: 0; width: 800px; height: 450px;';
+    const canvas = document.createElement('canvas');
+    container.appendChild(canvas);
+    document.body.appendChild(container);
+    let chart: Chart | null = null;
+    try {
+        chart = drawChart(canvas, spec, creativeDirection);
+        chart.options.animation = false;
+        chart.update('none');
+        const output = document.createElement('canvas');
+        output.width = canvas.width;
+        output.height = canvas.height;
+        const context = output.getContext('2d');
+        if (!context) return '';
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, output.width, output.height);
+        context.drawImage(canvas, 0, 0);
+        return output.toDataURL('image/png');
+    } finally {
+        chart?.destroy();
+        container.remove();
+    }
+}
+
+/** Replaces image and screenshot slots with their stored images, and chart canvases with snapshots of the ones on screen or, failing that, off-screen renders. */
+function embedExportMedia(body: HTMLElement, article: ArticleHistoryItem, imageMap: ArticleHistoryItem['imageMap'], liveCharts: HTMLCanvasElement[]) {
+    body.querySelectorAll<HTMLElement>('.image-placeholder-wrapper').forEach(wrapper => {
+        const key = decodeUnicode(wrapper.dataset.key || '');
+        const entry = imageMap?.[key];
+        const src = imageMapEntryDataUrl(entry);
+        if (!src) { wrapper.remove(); return; } // An empty slot has nothing to show a reader
+        const figure = document.createElement('figure');
+        const image = document.createElement('img');
+        image.src = src;
+        image.alt = typeof entry === 'object' ? entry.instruction : imageTaskForKey(article, key).prompt;
+        figure.appendChild(image);
+        wrapper.replaceWith(figure);
+    });
+    body.querySelectorAll<HTMLCanvasElement>('canvas[data-chart-data]').forEach((canvas, index) => {
+        const container = canvas.closest('.chart-container') || canvas;
+        let spec: ChartSpec | null = null;
+        try { spec = JSON.parse(canvas.dataset.chartData || ''); } catch { /* Shown as a render error on screen as well */ }
+        let src = '';
+        try {
+            src = liveCharts[index]?.toDataURL('image/png') || (spec ? rasterizeChart(spec, article.creativeDirection) : '');
+        } catch (e) {
+            console.error("Failed to rasterize chart:", e);
+        }
+        if (!src.startsWith('data:image/png')) { container.remove(); return; }
+        const figure = document.createElement('figure');
+        const image = document.createElement('img');
+        image.src = src;
+        image.alt = spec?.title || '';
+        figure.appendChild(image);
+        container.replaceWith(figure);
+    });
+}
+
+/** The article's own `# title` as text, or the theme when the markdown has none. */
+function articleTitle(article: ArticleHistoryItem): string {
+    const heading = parseMarkdownBlocks(article.markdown).find(block => block.type === 'heading' && block.level === 1);
+    return heading?.type === 'heading' ? inlineMarkdownToText(heading.children) : article.theme;
+}
+
+/** One HTML file with the article, its images and charts inlined, and the FAQ and references appended. */
+async function buildExportHtml(article: ArticleHistoryItem): Promise<string> {
+    const stored = await getImagesFromDb(article.id);
+    const coverImage = stored.coverImage ?? article.coverImage;
+    const imageMap = { ...article.imageMap, ...stored.imageMap };
+    const liveCharts = currentArticle?.id === article.id ? Array.from(document.querySelectorAll<HTMLCanvasElement>('#article-output canvas[data-chart-data]')) : [];
+
+    const body = document.createElement('div');
+    body.innerHTML = sanitizeHtml(renderMarkdownToHtml(article.markdown));
+    embedExportMedia(body, article, imageMap, liveCharts);
+
+    const title = articleTitle(article);
+    const cover = coverImage && coverImage !== 'error' ? `<img src="data:image/jpeg;base64,${escapeHtml(coverImage)}" alt="${escapeHtml(title)}" class="cover-image">` : '';
+    const faqs = article.faqs && article.faqs.length > 0 ? `
+<section class="article-faq">
+<h2>${escapeHtml(t('faqTitle'))}</h2>
+${article.faqs.map(faq => `<details><summary>${escapeHtml(faq.question)}</summary><p>${escapeHtml(faq.answer)}</p></details>`).join('\n')}
+</section>` : '';
+    const references = article.references && article.references.length > 0 ? `
+<section class="article-references">
+<h2>${escapeHtml(t('referencesTitle'))}</h2>
+<ul>${article.references.map(ref => `<li>${externalLink(ref.uri, ref.title || ref.uri)}</li>`).join('')}</ul>
+</section>` : '';
+
+    const language = article.language && article.language in ARTICLE_LANGUAGES ? article.language : 'ja';
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(language)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+${article.enhancements?.metaDescription ? `<meta name="description" content="${escapeHtml(article.enhancements.metaDescription)}">` : ''}
+<style>
+${exportStyles(article.creativeDirection?.palette)}</style>
+</head>
+<body>
+<article>
+${cover}
+${body.innerHTML}
+${faqs}
+${references}
+</article>
+</body>
+</html>
+`;
+}
+
+/** Turns a title into a file name, keeping non-ASCII letters since most titles are Japanese. */
+function exportFileName(title: string, extension: string): string {
+    return `${title.replace(/[\\/:*?"<>|#%\s]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'article'}.${extension}`;
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000); // Give the browser time to start the download
+}
+
+async function exportArticleHtml() {
+    if (!currentArticle) return;
+    const button = document.getElementById('export-html-button') as HTMLButtonElement;
+    button.disabled = true;
+    try {
+        const html = await buildExportHtml(currentArticle);
+        downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), exportFileName(currentArticle.theme, 'html'));
+    } catch (error) {
+        console.error("Failed to export HTML:", error);
+        alert(t('exportHtmlFailed'));
+    } finally {
+        button.disabled = false;
+    }
+}
+
+// --- CMS Export ---
+const CMS_EXPORT_HINTS: Record<CmsExportFormat, MessageKey> = { wordpress: 'cmsExportWordpressHint', markdown: 'cmsExportMarkdownHint', zip: 'cmsExportZipHint' };
+const CMS_IMAGE_EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif' };
+
+function base64ToBytes(base64: string): Uint8Array { return Uint8Array.from(atob(base64), char => char.charCodeAt(0)); }
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+function crc32(data: Uint8Array): number {
+    let crc = 0xFFFFFFFF;
+    for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/** An uncompressed (stored) zip archive; the images inside are already compressed, so deflating would gain little. */
+function createZip(files: { path: string; data: Uint8Array }[]): Blob {
+    const chunks: Uint8Array[] = [], central: Uint8Array[] = [];
+    let offset = 0;
+    const now = new Date();
+    const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+    const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+    for (const file of files) {
+        const name = new TextEncoder().encode(file.path);
+        const crc = crc32(file.data);
+        const header = (signature: number, size: number) => {
+            const bytes = new Uint8Array(size + name.length);
+            const view = new DataView(bytes.buffer);
+            view.setUint32(0, signature, true);
+            return { bytes, view };
+        };
+        const local = header(0x04034b50, 30);
+        local.view.setUint16(4, 20, true); // Version needed
+        local.view.setUint16(6, 0x0800, true); // UTF-8 file names
+        local.view.setUint16(10, dosTime, true);
+        local.view.setUint16(12, dosDate, true);
+        local.view.setUint32(14, crc, true);
+        local.view.setUint32(18, file.data.length, true);
+        local.view.setUint32(22, file.data.length, true);
+        local.view.setUint16(26, name.length, true);
+        local.bytes.set(name, 30);
+        const entry = header(0x02014b50, 46);
+        entry.view.setUint16(4, 20, true);
+        entry.view.setUint16(6, 20, true);
+        entry.view.setUint16(8, 0x0800, true);
+        entry.view.setUint16(12, dosTime, true);
+        entry.view.setUint16(14, dosDate, true);
+        entry.view.setUint32(16, crc, true);
+        entry.view.setUint32(20, file.data.length, true);
+        entry.view.setUint32(24, file.data.length, true);
+        entry.view.setUint16(28, name.length, true);
+        entry.view.setUint32(42, offset, true);
+        entry.bytes.set(name, 46);
+        chunks.push(local.bytes, file.data);
+        central.push(entry.bytes);
+        offset += local.bytes.length + file.data.length;
+    }
+    const centralSize = central.reduce((sum, bytes) => sum + bytes.length, 0);
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, files.length, true);
+    view.setUint16(10, files.length, true);
+    view.setUint32(12, centralSize, true);
+    view.setUint32(16, offset, true);
+    return new Blob([...chunks, ...central, end], { type: 'application/zip' });
+}
+
+/** A markdown table of a chart's numbers: one row per label, or one row per point for scatter and bubble charts. */
+function chartToMarkdownTable(chart: ChartSpec): string {
+    const cell = (value: unknown) => String(value ?? '').replace(/\|/g, '\\|');
+    const rows = POINT_CHART_KINDS.includes(chart.type)
+        ? [['', 'x', 'y', ...(chart.type === 'bubble' ? ['r'] : [])], ...chart.data.datasets.flatMap(dataset => dataset.data.map(point => typeof point === 'object' ? [dataset.label, point.x, point.y, ...(chart.type === 'bubble' ? [point.r] : [])] : [dataset.label, point]))]
+        : [['', ...chart.data.datasets.map(dataset => dataset.label)], ...chart.data.labels.map((label, index) => [label, ...chart.data.datasets.map(dataset => dataset.data[index])])];
+    const [header, ...body] = rows.map(row => `| ${row.map(cell).join(' | ')} |`);
+    return [chart.title ? `**${chart.title}**\n` : '', header, `|${rows[0].map((_, index) => index === 0 ? ' --- ' : ' ---: ').join('|')}|`, ...body].filter(Boolean).join('\n');
+}
+
+/**
+ * The article as plain markdown, split at the paid divider: each stored image becomes whatever `renderImage` returns, charts become tables,
+ * boxes become quotes and summaries become lists. The leading `# title` is left out since every target has its own title field.
+ */
+function resolveCmsMarkdown(article: ArticleHistoryItem, imageMap: ArticleHistoryItem['imageMap'], renderImage: (entry: string | ScreenshotSlot, alt: string, raw: string) => string): string[] {
+    const source = article.markdown.replace(/^\s*#\s+.*\n?/, '');
+    const resolved = replaceDirectives(source, directive => {
+        switch (directive.name) {
+            case 'IMAGE_GENERATE':
+            case 'IMAGE_SCREENSHOT': {
+                const entry = imageMap?.[directive.raw];
+                if (!entry || !imageMapEntryDataUrl(entry)) return ''; // Failed and empty slots have nothing to publish
+                const alt = typeof entry === 'object' ? entry.instruction : imageTaskForKey(article, directive.raw).prompt;
+                return `\n\n${renderImage(entry, alt.replace(/[[\]]/g, ''), directive.raw)}\n\n`;
+            }
+            case 'INTERACTIVE_CHART': return directive.data ? `\n\n${chartToMarkdownTable(directive.data)}\n\n` : '';
+            case 'BOX': return `\n\n${[`**${directive.data.title}**`, directive.data.body].filter(Boolean).map(line => `> ${line}`).join('\n>\n')}\n\n`;
+            case 'SUMMARY': return `\n\n**Key Takeaways**\n\n${directive.data.items.map(item => `- ${item}`).join('\n')}\n\n`;
+            case 'PAID_DIVIDER': return '\u0000'; // Split below, so each target can put its own paywall marker there
+        }
+    });
+    return resolved.split('\u0000').map(part => part.replace(/\n{3,}/g, '\n\n').trim());
+}
+
+/** The scheduled time, else the creation time; ids are creation timestamps, unlike `createdAt`, which is a display string. */
+function articlePublishDate(article: ArticleHistoryItem): Date { return new Date(article.scheduledAt || article.createdAtTime); }
+
+function cmsExportTags(article: ArticleHistoryItem): string[] { return (article.enhancements?.hashtags || []).map(tag => tag.replace(/^[#＃]/, '').trim()).filter(Boolean); }
+
+/** YAML front matter; JSON strings are valid YAML scalars, which saves quoting rules of our own. */
+function cmsFrontMatter(article: ArticleHistoryItem, extra: Record<string, string | number> = {}): string {
+    const fields: Record<string, unknown> = {
+        title: articleTitle(article),
+        description: article.enhancements?.metaDescription || undefined,
+        tags: cmsExportTags(article),
+        date: articlePublishDate(article).toISOString(),
+        price: article.articleType === 'paid' && article.price ? article.price : undefined,
+        ...extra,
+    };
+    return `---\n${Object.entries(fields).filter(([, value]) => value !== undefined).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join('\n')}\n---\n\n`;
+}
+
+/** note has no paywall syntax, so the paid line is marked where the editor will see it and set it by hand. */
+function buildCmsMarkdown(article: ArticleHistoryItem, imageMap: ArticleHistoryItem['imageMap']): string {
+    const parts = resolveCmsMarkdown(article, imageMap, () => '');
+    return cmsFrontMatter(article) + parts.join(`\n\n---\n\n**▼ ${t('paidDivider')}**\n\n---\n\n`) + '\n';
+}
+
+function buildCmsZip(article: ArticleHistoryItem, coverImage: string | undefined, imageMap: ArticleHistoryItem['imageMap']): Blob {
+    const files: { path: string; data: Uint8Array }[] = [];
+    let imageCount = 0;
+    const addImage = (base64: string, mimeType: string, name: string) => {
+        const path = `images/${name}.${CMS_IMAGE_EXTENSIONS[mimeType] || 'png'}`;
+        files.push({ path, data: base64ToBytes(base64) });
+        return path;
+    };
+    const cover = coverImage && coverImage !== 'error' ? addImage(coverImage, 'image/jpeg', 'cover') : undefined;
+    const parts = resolveCmsMarkdown(article, imageMap, (entry, alt) => {
+        const name = `image-${String(++imageCount).padStart(2, '0')}`;
+        return `![${alt}](${typeof entry === 'string' ? addImage(entry, 'image/jpeg', name) : addImage(entry.image!, entry.mimeType || 'image/png', name)})`;
+    });
+    const markdown = cmsFrontMatter(article, cover ? { image: cover } : {}) + parts.join('\n\n<!--more-->\n\n') + '\n'; // The excerpt separator static site generators split at
+    return createZip([{ path: 'article.md', data: new TextEncoder().encode(markdown) }, ...files]);
+}
+
+function wxrDate(date: Date, utc: boolean): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const [year, month, day, hours, minutes, seconds] = utc
+        ? [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+        : [date.getFullYear(), date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()];
+    return `${year}-${pad(month)}-${pad(day)} ${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+}
 
-# 調査対象テキスト
----
-${sanitizeString(selectedText)}
----
-`;
-        try {
-            const ai = getGenAIClient();
-            const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({ model: 'gemini-2.5-pro', contents: prompt, config: { tools: [{ googleSearch: {} }] } }));
-            researchOutput.value = response.text.trim();
-            const references = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-            if (references.length > 0) {
-                researchReferencesList.innerHTML = references
-                    .filter((r: any) => r.web && r.web.uri)
-                    .map((r: any) => `<li><a href="${r.web.uri}" target="_blank" rel="noopener noreferrer">${r.web.title || r.web.uri}</a></li>`)
-                    .join('');
-                researchReferencesContainer.classList.remove('hidden');
-            } else {
-                researchReferencesContainer.classList.add('hidden');
-            }
+function cdata(text: string): string { return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`; }
 
-            insertResearchBtn.classList.remove('hidden');
-            insertResearchBtn.textContent = `「${safeSubstring(selectedText, 10)}」を置き換える`;
-        } catch(e) {
-            researchOutput.value = "エラーが発生しました。";
-        } finally {
-            researchSpinner.classList.add('hidden');
-            researchResults.classList.remove('hidden');
-        }
+/** A WordPress eXtended RSS file with one post: a future post when a publish time is scheduled, a draft otherwise. */
+function buildWxr(article: ArticleHistoryItem, coverImage: string | undefined, imageMap: ArticleHistoryItem['imageMap']): string {
+    const parts = resolveCmsMarkdown(article, imageMap, (entry, alt, raw) => raw).map(part => { // Image placeholders are filled in as data URIs by the HTML export
+        const body = document.createElement('div');
+        body.innerHTML = sanitizeHtml(renderMarkdownToHtml(part));
+        embedExportMedia(body, article, imageMap, []);
+        return body.innerHTML;
     });
+    const cover = coverImage && coverImage !== 'error' ? `<img src="data:image/jpeg;base64,${coverImage}" alt="${escapeHtml(articleTitle(article))}">\n` : '';
+    const content = cover + parts.join('\n<!--more-->\n'); // Paywall plugins split posts at the read-more tag
+    const date = articlePublishDate(article);
+    const status = article.scheduledAt && date.getTime() > Date.now() ? 'future' : 'draft';
+    const metaDescription = article.enhancements?.metaDescription || '';
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:wp="http://wordpress.org/export/1.2/">
+<channel>
+    <title>${escapeHtml(articleTitle(article))}</title>
+    <language>${ARTICLE_LANGUAGES[article.language || 'ja'].locale}</language>
+    <wp:wxr_version>1.2</wp:wxr_version>
+    <item>
+        <title>${escapeHtml(articleTitle(article))}</title>
+        <content:encoded>${cdata(content)}</content:encoded>
+        <excerpt:encoded>${cdata(metaDescription)}</excerpt:encoded>
+        <wp:post_date>${wxrDate(date, false)}</wp:post_date>
+        <wp:post_date_gmt>${wxrDate(date, true)}</wp:post_date_gmt>
+        <wp:status>${status}</wp:status>
+        <wp:post_type>post</wp:post_type>
+${cmsExportTags(article).map(tag => `        <category domain="post_tag" nicename="${escapeHtml(encodeURIComponent(tag.toLowerCase()))}">${cdata(tag)}</category>`).join('\n')}
+        <wp:postmeta>
+            <wp:meta_key>_yoast_wpseo_metadesc</wp:meta_key>
+            <wp:meta_value>${cdata(metaDescription)}</wp:meta_value>
+        </wp:postmeta>
+    </item>
+</channel>
+</rss>
+`;
 }
-function toggleSpeech() {
-    const readAloudButton = document.getElementById('read-aloud-button') as HTMLButtonElement;
-    const readAloudTextSpan = readAloudButton.querySelector('.button-text') as HTMLSpanElement | null;
-    if (isSpeaking) {
-        stopSpeech();
-    } else {
-        if (!currentArticle) return;
-        stopGeneratedAudio();
-        const articleOutput = document.getElementById('article-output') as HTMLDivElement;
-        const textToSpeak = articleOutput.innerText;
-        utterance = new SpeechSynthesisUtterance(textToSpeak);
-        utterance.lang = 'ja-JP';
-        utterance.onstart = () => {
-            isSpeaking = true;
-            if(readAloudTextSpan) readAloudTextSpan.textContent = '停止';
-        };
-        utterance.onend = () => {
-            isSpeaking = false;
-            utterance = null;
-            if(readAloudTextSpan) readAloudTextSpan.textContent = '読み上げ';
-        };
-        speechSynthesis.speak(utterance);
-    }
+
+function openCmsExportModal(articleId: number) {
+    cmsExportArticleId = articleId;
+    updateCmsExportHint();
+    (document.getElementById('cms-export-modal') as HTMLDivElement).classList.remove('hidden');
 }
-function stopSpeech() {
-    if (isSpeaking) {
-        speechSynthesis.cancel();
-        isSpeaking = false;
-        const readAloudTextSpan = document.querySelector('#read-aloud-button .button-text') as HTMLSpanElement | null;
-        if(readAloudTextSpan) readAloudTextSpan.textContent = '読み上げ';
-    }
+
+function selectedCmsExportFormat(): CmsExportFormat {
+    return ((document.querySelector('input[name="cms_export_format"]:checked') as HTMLInputElement | null)?.value || 'wordpress') as CmsExportFormat;
 }
-function stopGeneratedAudio() {
-    if (currentAudioSource) {
-        currentAudioSource.stop();
-        currentAudioSource = null;
-    }
-    if (currentAudioContext) {
-        currentAudioContext.close();
-        currentAudioContext = null;
+
+function updateCmsExportHint() {
+    (document.getElementById('cms-export-hint') as HTMLParagraphElement).textContent = t(CMS_EXPORT_HINTS[selectedCmsExportFormat()]);
+}
+
+async function runCmsExport() {
+    const articleStub = articles.find(a => a.id === cmsExportArticleId);
+    if (!articleStub) return;
+    const button = document.getElementById('cms-export-download-btn') as HTMLButtonElement;
+    button.disabled = true;
+    try {
+        const stored = await getImagesFromDb(articleStub.id);
+        const article = { ...articleStub, ...stored };
+        const format = selectedCmsExportFormat();
+        const fileName = exportFileName(article.theme, format === 'wordpress' ? 'xml' : format === 'zip' ? 'zip' : 'md');
+        if (format === 'wordpress') downloadBlob(new Blob([buildWxr(article, article.coverImage, article.imageMap)], { type: 'application/xml;charset=utf-8' }), fileName);
+        else if (format === 'zip') downloadBlob(buildCmsZip(article, article.coverImage, article.imageMap), fileName);
+        else downloadBlob(new Blob([buildCmsMarkdown(article, article.imageMap)], { type: 'text/markdown;charset=utf-8' }), fileName);
+        (document.getElementById('cms-export-modal') as HTMLDivElement).classList.add('hidden');
+    } catch (error) {
+        console.error("Failed to export for CMS:", error);
+        alert(t('cmsExportFailed'));
+    } finally {
+        button.disabled = false;
     }
-    (document.getElementById('audio-player-container') as HTMLDivElement).innerHTML = '';
 }
-function openPerformanceModal(articleId: number) {
-    const article = articles.find(h => h.id === articleId);
-    if (!article) return;
-    const performanceModal = document.getElementById('performance-modal') as HTMLDivElement;
-    const performanceViewsInput = document.getElementById('performance-views') as HTMLInputElement;
-    const performanceEngagementRateInput = document.getElementById('performance-engagement-rate') as HTMLInputElement;
-    const performanceConversionsInput = document.getElementById('performance-conversions') as HTMLInputElement;
 
-    currentPerformanceArticleId = articleId;
-    performanceViewsInput.value = article.performance?.userInput?.views || '';
-    performanceEngagementRateInput.value = article.performance?.userInput?.engagementRate || '';
-    performanceConversionsInput.value = article.performance?.userInput?.conversions || '';
-    performanceModal.classList.remove('hidden');
+// --- E-book & Print Export ---
+const EPUB_STYLES = `body { margin: 0 5%; line-height: 1.8; font-family: serif; }
+h1 { font-size: 1.6em; margin: 2em 0 1em; }
+h2 { font-size: 1.3em; margin: 2em 0 0.75em; border-bottom: 1px solid #ccc; }
+h3 { font-size: 1.1em; margin: 1.5em 0 0.5em; }
+img { max-width: 100%; }
+figure { margin: 1.5em 0; text-align: center; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #ccc; padding: 0.3em 0.6em; }
+blockquote, .info-box, .summary-box { margin: 1em 0; padding: 0.5em 1em; border-left: 4px solid #999; }
+.info-box-header, .summary-box-header { font-weight: bold; }
+.info-box-header svg, .summary-box-header svg { width: 1em; height: 1em; vertical-align: middle; }
+pre { white-space: pre-wrap; font-size: 0.85em; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover img { max-height: 100vh; }
+.blurb { margin-top: 2em; }
+nav ol { list-style: none; padding-left: 1em; }
+`;
+
+/** An XHTML content document; `body` must already be well-formed XML. */
+function epubDocument(title: string, language: string, body: string, bodyClass = ''): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body${bodyClass ? ` class="${bodyClass}"` : ''}>
+${body}
+</body>
+</html>
+`;
 }
-async function repurposeContent(article: ArticleHistoryItem, format: 'twitter' | 'youtube' | 'presentation', button: HTMLButtonElement) {
-    const spinner = button.querySelector('.spinner') as HTMLDivElement;
-    const buttonText = button.querySelector('.button-text') as HTMLSpanElement;
-    const originalText = buttonText.textContent;
-    const expansionResultContainer = document.getElementById('expansion-result-container') as HTMLDivElement;
-    const expansionOutput = document.getElementById('expansion-output') as HTMLTextAreaElement;
 
-    button.disabled = true;
-    spinner.classList.remove('hidden');
-    buttonText.textContent = '変換中...';
-    expansionResultContainer.classList.add('hidden');
+/** Serializes an HTML fragment as XHTML, whose void elements and entities e-readers' XML parsers accept. */
+function toXhtml(element: HTMLElement): string {
+    const serializer = new XMLSerializer();
+    return Array.from(element.childNodes).map(node => serializer.serializeToString(node)).join('').replace(/ xmlns="http:\/\/www\.w3\.org\/1999\/xhtml"/g, '');
+}
 
-    let prompt = `あなたはプロのコンテンツマーケターです。以下の記事本文を、指定されたフォーマットに最適化して書き直してください。元の記事の要点とトーンは維持してください。
+/**
+ * An EPUB 3 package: cover, title page with the product description as the blurb, a table of contents built from the
+ * H2 and H3 headings, the article with images and charts as files in the package, and the FAQ and references as back matter.
+ */
+function buildEpub(article: ArticleHistoryItem, coverImage: string | undefined, imageMap: ArticleHistoryItem['imageMap']): Blob {
+    const language = article.language || 'ja';
+    const title = articleTitle(article);
+    const encoder = new TextEncoder();
+    const images: { id: string; path: string; mimeType: string; data: Uint8Array }[] = [];
+    const addImage = (base64: string, mimeType: string, name: string) => {
+        const path = `images/${name}.${CMS_IMAGE_EXTENSIONS[mimeType] || 'png'}`;
+        images.push({ id: name, path, mimeType, data: base64ToBytes(base64) });
+        return path;
+    };
+    const cover = coverImage && coverImage !== 'error' ? addImage(coverImage, 'image/jpeg', 'cover') : undefined;
+
+    const body = document.createElement('div');
+    body.innerHTML = sanitizeHtml(renderMarkdownToHtml(article.markdown.replace(/^\s*#\s+.*\n?/, ''))); // The title page carries the title
+    embedExportMedia(body, article, imageMap, []);
+    body.querySelectorAll('hr.paid-divider').forEach(divider => divider.remove()); // Buyers get the whole article
+    body.querySelectorAll('img').forEach((image, index) => {
+        const data = image.getAttribute('src')?.match(/^data:(image\/[\w+.-]+);base64,(.*)$/);
+        if (data) {
+            image.setAttribute('src', addImage(data[2], data[1], `image-${String(index + 1).padStart(2, '0')}`));
+        } else { // Readers don't fetch remote images, so leave a link to it instead
+            const link = document.createElement('a');
+            link.href = image.getAttribute('src') || '';
+            link.textContent = image.alt || link.href;
+            image.replaceWith(link);
+        }
+    });
+    const toc: { id: string; text: string; children: { id: string; text: string }[] }[] = [];
+    body.querySelectorAll('h2, h3').forEach((heading, index) => {
+        heading.id = `section-${index + 1}`;
+        const entry = { id: heading.id, text: heading.textContent?.trim() || '' };
+        if (heading.localName === 'h2' || toc.length === 0) toc.push({ ...entry, children: [] });
+        else toc[toc.length - 1].children.push(entry);
+    });
 
-# 元記事
----
-${safeSubstring(sanitizeString(article.markdown), 5000)}
----
+    const backMatter = [
+        article.faqs && article.faqs.length > 0 ? `<section><h2 id="faq">${escapeHtml(t('faqTitle'))}</h2>\n${article.faqs.map(faq => `<h3>${escapeHtml(faq.question)}</h3>\n<p>${escapeHtml(faq.answer)}</p>`).join('\n')}</section>` : '',
+        article.references && article.references.length > 0 ? `<section><h2 id="references">${escapeHtml(t('referencesTitle'))}</h2>\n<ul>${article.references.map(ref => safeUrl(ref.uri) ? `<li><a href="${safeUrl(ref.uri)}">${escapeHtml(ref.title || ref.uri)}</a></li>` : `<li>${escapeHtml(ref.title)}</li>`).join('')}</ul></section>` : '',
+    ].filter(Boolean).join('\n');
+    const blurb = article.productDescription || article.enhancements?.metaDescription || '';
+    const tocLink = (entry: { id: string; text: string }) => `<a href="text.xhtml#${entry.id}">${escapeHtml(entry.text)}</a>`;
+    const nav = `<nav epub:type="toc" id="toc"><h1>${escapeHtml(t('epubTableOfContents'))}</h1>
+<ol>
+${toc.map(entry => `<li>${tocLink(entry)}${entry.children.length > 0 ? `<ol>${entry.children.map(child => `<li>${tocLink(child)}</li>`).join('')}</ol>` : ''}</li>`).join('\n')}
+${backMatter ? `<li><a href="backmatter.xhtml">${escapeHtml(t('epubBackMatter'))}</a></li>` : ''}
+</ol>
+</nav>`;
+    const text = toXhtml(body);
+
+    const documents = [
+        ...(cover ? [{ id: 'cover', path: 'cover.xhtml', content: epubDocument(title, language, `<figure class="cover"><img src="${cover}" alt="${escapeHtml(title)}"/></figure>`, 'cover') }] : []),
+        { id: 'title', path: 'title.xhtml', content: epubDocument(title, language, `<h1>${escapeHtml(title)}</h1>${blurb ? `\n<p class="blurb">${escapeHtml(blurb)}</p>` : ''}`) },
+        { id: 'nav', path: 'nav.xhtml', content: epubDocument(t('epubTableOfContents'), language, nav), properties: 'nav' },
+        { id: 'text', path: 'text.xhtml', content: epubDocument(title, language, text), properties: text.includes('<svg') ? 'svg' : undefined },
+        ...(backMatter ? [{ id: 'backmatter', path: 'backmatter.xhtml', content: epubDocument(t('epubBackMatter'), language, backMatter) }] : []),
+    ];
+    const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+    const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:article:${article.id}</dc:identifier>
+<dc:title>${escapeHtml(title)}</dc:title>
+<dc:language>${language}</dc:language>
+${blurb ? `<dc:description>${escapeHtml(blurb)}</dc:description>\n` : ''}<dc:date>${articlePublishDate(article).toISOString().replace(/\.\d+Z$/, 'Z')}</dc:date>
+<meta property="dcterms:modified">${modified}</meta>
+${cover ? '<meta name="cover" content="cover-image"/>\n' : ''}</metadata>
+<manifest>
+<item id="styles" href="styles.css" media-type="text/css"/>
+${documents.map(doc => `<item id="${doc.id}" href="${doc.path}" media-type="application/xhtml+xml"${'properties' in doc && doc.properties ? ` properties="${doc.properties}"` : ''}/>`).join('\n')}
+${images.map(image => `<item id="${image.id === 'cover' ? 'cover-image' : image.id}" href="${image.path}" media-type="${image.mimeType}"${image.id === 'cover' ? ' properties="cover-image"' : ''}/>`).join('\n')}
+</manifest>
+<spine>
+${documents.map(doc => `<itemref idref="${doc.id}"/>`).join('\n')}
+</spine>
+</package>
+`;
+    const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>
 `;
+    return createZip([
+        { path: 'mimetype', data: encoder.encode('application/epub+zip') }, // Must be first and stored uncompressed
+        { path: 'META-INF/container.xml', data: encoder.encode(container) },
+        { path: 'OEBPS/content.opf', data: encoder.encode(opf) },
+        { path: 'OEBPS/styles.css', data: encoder.encode(EPUB_STYLES) },
+        ...documents.map(doc => ({ path: `OEBPS/${doc.path}`, data: encoder.encode(doc.content) })),
+        ...images.map(image => ({ path: `OEBPS/${image.path}`, data: image.data })),
+    ]);
+}
 
-    switch (format) {
-        case 'twitter':
-            prompt += `\n# 指示\nこの記事の内容を、X (Twitter) で投稿するための魅力的なスレッド形式（5〜8ツイート）に変換してください。各ツイートは140字以内で、絵文字を効果的に使用してください。最初のツイートは読者の興味を引くフックにしてください。`;
-            break;
-        case 'youtube':
-            prompt += `\n# 指示\nこの記事の内容を元に、約5分間のYouTube動画用の台本を作成してください。オープニング、本編、クロージングの構成で、視聴者が飽きないような話し口調で記述してください。ト書き（映像の指示）も適宜追加してください。`;
-            break;
-        case 'presentation':
-            prompt += `\n# 指示\nこの記事の内容を、ビジネスプレゼンテーション用の構成案に変換してください。タイトル、アジェンダ、各スライドの要点（箇条書き）を明確に示してください。合計で約10枚のスライドになるように構成してください。`;
-            break;
+async function exportArticleEpub(articleId: number) {
+    const articleStub = articles.find(a => a.id === articleId);
+    if (!articleStub) return;
+    try {
+        const article = { ...articleStub, ...(await getImagesFromDb(articleId)) };
+        downloadBlob(buildEpub(article, article.coverImage, article.imageMap), exportFileName(article.theme, 'epub'));
+    } catch (error) {
+        console.error("Failed to export EPUB:", error);
+        alert(t('epubExportFailed'));
     }
+}
 
+/**
+ * Opens the export layout in a new window, whose print stylesheet starts each H2 on a new page, and brings up the print
+ * dialog for saving as PDF. The window shares this origin, so the export HTML is parsed inertly and only its stylesheet
+ * and the sanitized article are copied over.
+ */
+async function printArticle(articleId: number) {
+    const articleStub = articles.find(a => a.id === articleId);
+    if (!articleStub) return;
+    const printWindow = window.open('', '_blank'); // Opened before any await, while the click still counts as a user gesture
+    if (!printWindow) {
+        alert(t('printPopupBlocked'));
+        return;
+    }
     try {
-        const ai = getGenAIClient();
-        const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt }));
-        expansionOutput.value = response.text;
-        expansionResultContainer.classList.remove('hidden');
-    } catch(e) {
-        expansionOutput.value = "コンテンツの変換中にエラーが発生しました。";
-        expansionResultContainer.classList.remove('hidden');
+        const article = { ...articleStub, ...(await getImagesFromDb(articleId)) };
+        const exported = new DOMParser().parseFromString(await buildExportHtml(article), 'text/html');
+        const printDocument = printWindow.document;
+        printDocument.documentElement.lang = exported.documentElement.lang;
+        printDocument.title = exported.title;
+        const style = printDocument.createElement('style');
+        style.textContent = exported.querySelector('style')?.textContent ?? '';
+        printDocument.head.appendChild(style);
+        const content = printDocument.createElement('article');
+        content.innerHTML = sanitizeHtml(exported.querySelector('article')?.innerHTML ?? '');
+        printDocument.body.replaceChildren(content);
+        printDocument.querySelectorAll('details').forEach(details => { details.open = true; }); // Closed answers would print blank
+        await Promise.all(Array.from(printDocument.querySelectorAll('img'), image => image.decode().catch(() => undefined))); // A broken image prints as its alt text
+        printWindow.print();
+    } catch (error) {
+        console.error("Failed to prepare the print layout:", error);
+        printWindow.close();
+        alert(t('printFailed'));
+    }
+}
+
+// --- Workspace Backup ---
+// One JSON file with everything a browser profile holds: the history with its images from IndexedDB, the brand voice,
+// the model, prompt and price settings, and the usage ledger. The API key stays out of it, and so do the batch queue and
+// unfinished assembly-line drafts, which belong to the session that started them.
+const WORKSPACE_ARCHIVE_FORMAT = 'article-architect-workspace';
+const WORKSPACE_SCHEMA_VERSION = 1;
+
+const validateImageMapEntry: Validator<string | ScreenshotSlot> = (value, path, problems) => typeof value === 'string'
+    ? value
+    : objectOf<ScreenshotSlot>({ type: oneOf('screenshot'), instruction: isString, image: optional<string | undefined>(isString, undefined), mimeType: optional<string | undefined>(isString, undefined) })(value, path, problems);
+const validateModelSetting = objectOf<ModelSetting>({ model: isString, temperature: optional<number | undefined>(isNumber, undefined), maxOutputTokens: optional<number | undefined>(isNumber, undefined) });
+const validateArchivedPerformance: Validator<ArticlePerformance> = (value, path, problems) => ({
+    ...validatePerformance(value, path, problems),
+    userInput: optional<ArticlePerformance['userInput']>(objectOf<NonNullable<ArticlePerformance['userInput']>>({ views: isString, engagementRate: isString, conversions: isString }), undefined)((value as Partial<ArticlePerformance> | null)?.userInput, `${path}.userInput`, problems),
+});
+/**
+ * An archive is untrusted input, so every field the app later reads is checked and only checked fields are kept.
+ * The cached HTML is dropped and rebuilt from the markdown.
+ */
+const validateArchivedArticleFields = objectOf<Omit<ArticleHistoryItem, 'createdAtTime'> & { createdAtTime?: number }>({
+    id: isNumber,
+    theme: isString,
+    persona: optional(isString, ''),
+    expertPersona: optional<string | undefined>(isString, undefined),
+    tone: optional(isString, ''),
+    articleType: oneOf('free', 'paid'),
+    markdown: isString,
+    html: () => undefined,
+    htmlVersion: () => undefined,
+    references: optional(arrayOf(objectOf<ArticleHistoryItem['references'][number]>({ uri: isString, title: isString, text: optional<string | undefined>(isString, undefined) })), []),
+    enhancements: optional(validateEnhancements, { titleSuggestions: [], snsShareText: '', hashtags: [], metaDescription: '' }),
+    faqs: optional<ArticleHistoryItem['faqs']>(arrayOf(objectOf<NonNullable<ArticleHistoryItem['faqs']>[number]>({ question: isString, answer: isString })), undefined),
+    coverImage: optional<string | undefined>(isString, undefined),
+    imageMap: optional<Record<string, string | ScreenshotSlot> | undefined>(recordOf(validateImageMapEntry), undefined),
+    imagePrompts: optional<ArticleHistoryItem['imagePrompts']>(recordOf(objectOf<{ prompt: string; overlayText?: string }>({ prompt: isString, overlayText: optional<string | undefined>(isString, undefined) })), undefined),
+    createdAt: isString,
+    createdAtTime: optional<number | undefined>(isNumber, undefined),
+    scheduledAt: optional<string | undefined>(isDateString, undefined),
+    performance: optional<ArticlePerformance | undefined>(validateArchivedPerformance, undefined),
+    creativeDirection: optional<CreativeDirection | undefined>(validateCreativeDirection, undefined),
+    factCheck: optional<ArticleHistoryItem['factCheck']>(objectOf<NonNullable<ArticleHistoryItem['factCheck']>>({ status: oneOf('unchecked', 'checked'), results: arrayOf(validateFactCheckResult) }), undefined),
+    videoUrl: optional<string | undefined>(isString, undefined),
+    videoStatus: optional<ArticleHistoryItem['videoStatus']>(oneOf('pending', 'completed', 'failed'), undefined),
+    videoOperationName: optional<string | undefined>(isString, undefined),
+    lastCheckedForUpdate: optional<string | undefined>(isDateString, undefined),
+    promptVersions: optional<ArticleHistoryItem['promptVersions']>(recordOf(isNumber), undefined),
+    modelSettings: optional<ArticleHistoryItem['modelSettings']>(recordOf(validateModelSetting), undefined),
+    language: optional<LanguageCode | undefined>(oneOf<LanguageCode>('ja', 'en', 'zh-TW'), undefined),
+    price: optional<number | undefined>(isNumber, undefined),
+    productDescription: optional<string | undefined>(isString, undefined),
+});
+const validateArchivedArticle: Validator<ArticleHistoryItem> = (value, path, problems) => {
+    const article = validateArchivedArticleFields(value, path, problems);
+    return { ...article, createdAtTime: article.createdAtTime ?? articleCreatedTime(article) };
+};
+const validateWorkspaceArchive = objectOf<WorkspaceArchive>({
+    format: oneOf(WORKSPACE_ARCHIVE_FORMAT),
+    schemaVersion: (value, path, problems) => {
+        const version = isNumber(value, path, problems);
+        if (version > WORKSPACE_SCHEMA_VERSION) problems.push(`${path}: written by a newer version of the app (${version})`);
+        return version;
+    },
+    exportedAt: isString,
+    articles: arrayOf(validateArchivedArticle),
+    brandVoice: optional(objectOf<BrandVoice>({ principles: isString, example: isString }), null),
+    settings: objectOf<WorkspaceArchive['settings']>({
+        modelSettings: optional(recordOf(validateModelSetting), {}),
+        promptLibrary: optional(recordOf(objectOf<PromptLibraryEntry>({ activeVersion: isNumber, versions: arrayOf(objectOf<PromptVersion>({ version: isNumber, template: isString, createdAt: isString })) })), {}),
+        priceTable: optional(recordOf(objectOf<ModelPrice>({ input: optional<number | undefined>(isNumber, undefined), output: optional<number | undefined>(isNumber, undefined), perImage: optional<number | undefined>(isNumber, undefined), perVideo: optional<number | undefined>(isNumber, undefined) })), {}),
+        uiLanguage: optional(oneOf<LanguageCode>('ja', 'en', 'zh-TW'), 'ja'),
+    }),
+    usageLedger: optional(arrayOf(objectOf<UsageRecord>({ articleId: optional<number | undefined>(isNumber, undefined), model: isString, inputTokens: isNumber, outputTokens: isNumber, images: isNumber, videos: isNumber, at: isString })), []),
+});
+
+async function exportWorkspace() {
+    const button = document.getElementById('export-workspace-btn') as HTMLButtonElement;
+    button.disabled = true;
+    try {
+        const archive: WorkspaceArchive = {
+            format: WORKSPACE_ARCHIVE_FORMAT,
+            schemaVersion: WORKSPACE_SCHEMA_VERSION,
+            exportedAt: new Date().toISOString(),
+            articles: await Promise.all(articles.map(async article => {
+                const { coverImage, imageMap } = await getImagesFromDb(article.id);
+                return { ...article, coverImage, imageMap };
+            })),
+            brandVoice,
+            settings: { modelSettings, promptLibrary, priceTable, uiLanguage },
+            usageLedger,
+        };
+        downloadBlob(new Blob([JSON.stringify(archive)], { type: 'application/json' }), `workspace-${new Date().toLocaleDateString('sv-SE')}.json`);
+    } catch (error) {
+        console.error("Failed to export the workspace:", error);
+        alert(t('workspaceExportFailed'));
     } finally {
         button.disabled = false;
-        spinner.classList.add('hidden');
-        buttonText.textContent = originalText;
     }
-
 }
-function handleFile(file: File) {
-    const fileInfoDiv = document.getElementById('file-info') as HTMLDivElement;
-    const referenceTextArea = document.getElementById('reference-text') as HTMLTextAreaElement;
-    
-    if (file.type !== "text/plain" && file.type !== "text/markdown") {
-        alert("テキストファイル (.txt, .md) のみアップロードできます。");
+
+/** Reads and validates an archive, then asks how to apply it; nothing is written until the user confirms. */
+async function openWorkspaceImport(file: File) {
+    const problems: string[] = [];
+    let archive: WorkspaceArchive;
+    try {
+        archive = validateWorkspaceArchive(JSON.parse(await file.text()), '$', problems);
+    } catch (error) {
+        console.error("Failed to read the workspace archive:", error);
+        alert(t('workspaceInvalid', { problems: t('workspaceNotJson') }));
         return;
     }
-    
-    fileInfoDiv.innerHTML = `
-        <span>${file.name}</span>
-        <button id="remove-file-btn">&times;</button>
-    `;
-    fileInfoDiv.classList.remove('hidden');
-    
-    document.getElementById('remove-file-btn')?.addEventListener('click', () => {
-        (document.getElementById('file-upload-input') as HTMLInputElement).value = '';
-        referenceTextArea.value = '';
-        fileInfoDiv.classList.add('hidden');
+    if (problems.length > 0) {
+        console.error("Invalid workspace archive:", problems);
+        alert(t('workspaceInvalid', { problems: problems.slice(0, 3).join(' / ') }));
+        return;
+    }
+    pendingWorkspaceArchive = archive;
+    const exportedAt = new Date(archive.exportedAt);
+    (document.getElementById('workspace-import-summary') as HTMLParagraphElement).textContent = t('workspaceImportSummary', {
+        articles: archive.articles.length,
+        images: archive.articles.reduce((count, article) => count + (article.coverImage ? 1 : 0) + Object.keys(article.imageMap || {}).length, 0),
+        date: isNaN(exportedAt.getTime()) ? archive.exportedAt : exportedAt.toLocaleString(ARTICLE_LANGUAGES[uiLanguage].locale),
     });
+    (document.querySelector('input[name="workspace_import_mode"][value="merge"]') as HTMLInputElement).checked = true;
+    (document.getElementById('workspace-import-modal') as HTMLDivElement).classList.remove('hidden');
+}
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        referenceTextArea.value = e.target?.result as string;
-    };
-    reader.readAsText(file);
+/**
+ * Merge keeps everything here and adds the archive's articles, giving an article a new id when its id is taken by a
+ * different one and skipping exact duplicates; settings the user already has win. Replace swaps the whole workspace.
+ */
+async function applyWorkspaceImport() {
+    const archive = pendingWorkspaceArchive;
+    if (!archive) return;
+    const replace = (document.querySelector('input[name="workspace_import_mode"]:checked') as HTMLInputElement).value === 'replace';
+    if (replace && !confirm(t('confirmWorkspaceReplace'))) return;
+    const button = document.getElementById('workspace-import-apply-btn') as HTMLButtonElement;
+    button.disabled = true;
+    try {
+        const kept = replace ? [] : articles;
+        const takenIds = new Set(kept.map(article => article.id));
+        const idMap = new Map<number, number>();
+        const entries: Parameters<typeof importArticlesToDb>[0] = [];
+        let skipped = 0;
+        for (const { coverImage, imageMap, ...article } of archive.articles) {
+            const existing = kept.find(local => local.id === article.id);
+            if (existing && existing.createdAt === article.createdAt && existing.markdown === article.markdown) {
+                skipped++;
+                continue;
+            }
+            // The history orders by createdAtTime, so a clashing id can simply move to the next free one
+            let id = article.id;
+            while (takenIds.has(id)) id++;
+            idMap.set(article.id, id);
+            takenIds.add(id);
+            entries.push({ article: { ...article, id }, coverImage, imageMap, thumbnail: coverImage ? await createThumbnail(coverImage) : undefined });
+        }
+        // Nothing local is touched until this commits, so a failed import leaves the history as it was
+        await importArticlesToDb(entries, replace);
+        articles = [...kept, ...entries.map(entry => entry.article)].sort((a, b) => b.createdAtTime - a.createdAtTime); // Newest first, as the history list expects
+        const imported = entries.length;
+        lastIssuedArticleId = Math.max(lastIssuedArticleId, ...articles.map(article => article.id));
+
+        const recordKey = (record: UsageRecord) => `${record.at}|${record.model}|${record.articleId ?? ''}`;
+        const importedLedger = archive.usageLedger.map(record => record.articleId !== undefined && idMap.has(record.articleId) ? { ...record, articleId: idMap.get(record.articleId) } : record);
+        const knownRecords = new Set((replace ? [] : usageLedger).map(recordKey));
+        usageLedger = [...(replace ? [] : usageLedger), ...importedLedger.filter(record => !knownRecords.has(recordKey(record)))];
+        saveUsageLedgerToStorage();
+
+        const { settings } = archive;
+        if (replace || (archive.brandVoice && !brandVoice.principles && !brandVoice.example)) {
+            (document.getElementById('brand-voice-principles') as HTMLTextAreaElement).value = archive.brandVoice?.principles ?? '';
+            (document.getElementById('brand-voice-example') as HTMLTextAreaElement).value = archive.brandVoice?.example ?? '';
+            saveBrandVoiceToStorage();
+        }
+        saveModelSettings(replace ? settings.modelSettings : { ...settings.modelSettings, ...modelSettings });
+        promptLibrary = replace ? settings.promptLibrary : { ...settings.promptLibrary, ...promptLibrary };
+        savePromptLibraryToStorage();
+        if (replace && Object.keys(settings.priceTable).length === 0) resetPriceTable();
+        else savePriceTable(replace ? settings.priceTable : { ...settings.priceTable, ...priceTable });
+        (document.getElementById('price-table-input') as HTMLTextAreaElement).value = JSON.stringify(priceTable, null, 2);
+        if (replace) {
+            saveUiLanguage(settings.uiLanguage);
+            (document.getElementById('ui-language-select') as HTMLSelectElement).value = uiLanguage;
+            applyUiLanguage();
+        }
+        renderModelSettings();
+        renderHistoryList();
+        if (currentArticle && !articles.some(article => article.id === currentArticle?.id)) resetUI();
+        pendingWorkspaceArchive = null;
+        (document.getElementById('workspace-import-modal') as HTMLDivElement).classList.add('hidden');
+        alert(t('workspaceImported', { imported, skipped }));
+    } catch (error) {
+        console.error("Failed to import the workspace:", error);
+        alert(t('workspaceImportFailed'));
+    } finally {
+        button.disabled = false;
+    }
 }
 
 // --- Helper & Utility Functions ---
+const DECORATE_CHUNK_LENGTH = 8000; // Characters of article per decoration call; the model echoes the chunk back, so output size is the limit
+const LONG_FORM_CONTEXT_LENGTH = 3000; // Tail of the text so far that each long-form section call sees
+const ANALYSIS_CHUNK_LENGTH = 12000; // Longer articles reach FAQ, analysis and enhancements as a digest (condenseForAnalysis)
+const FACT_CHECK_CHUNK_LENGTH = 5000; // Characters per grounded fact-check call
+const PROOFREAD_CHUNK_LENGTH = 8000; // Like decoration, the model echoes each part back in full
+const IMAGE_CONCURRENCY = 3; // Imagen calls in flight per article; the request scheduler's global cap still applies
+/**
+ * Splits markdown into chunks of at most maxLength characters, breaking before `## ` headings and,
+ * for a section that is too long on its own, between paragraphs. `chunks.join('')` gives back the input.
+ */
+function splitMarkdownIntoChunks(markdown: string, maxLength: number): string[] {
+    const pieces = markdown.split(/(?=\n## )/).flatMap(section => (section.length > maxLength ? section.split(/(?=\n\n)/) : [section]));
+    const chunks: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+        if (current && current.length + piece.length > maxLength) {
+            chunks.push(current);
+            current = '';
+        }
+        current += piece;
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
 function safeSubstring(str: string, length: number): string { return str.length > length ? str.substring(0, length) + '...' : str; }
 function sanitizeString(str: string): string { return str.replace(/</g, "&lt;").replace(/>/g, "&gt;"); }
 function encodeUnicode(str: string) { return btoa(encodeURIComponent(str).replace(/%([0-9A-F]{2})/g, (match, p1) => String.fromCharCode(parseInt(p1, 16))));}
 function decodeUnicode(str: string) { try { return decodeURIComponent(atob(str).split('').map(c => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2)).join('')); } catch(e) { return str; } }
-async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> { for (let i = 0; i < retries; i++) { try { return await fn(); } catch (e) { if (i === retries - 1) throw e; await new Promise(res => setTimeout(res, delay * (i + 1))); } } throw new Error("Retry logic failed"); }
-function setLoading(isLoading: boolean, message: string | null = null) { const form = document.getElementById('article-form') as HTMLFormElement; const analyzePersonaBtn = document.getElementById('analyze-persona-btn') as HTMLButtonElement; const spinner = analyzePersonaBtn.querySelector('.spinner') as HTMLDivElement; const progressContainer = document.getElementById('progress') as HTMLDivElement; analyzePersonaBtn.disabled = isLoading; spinner.classList.toggle('hidden', !isLoading); if (isLoading) { if (message) { progressContainer.innerHTML = `<div class="progress-step active"><div class="step-spinner"></div><span>${message}</span></div>`; } } else { progressContainer.innerHTML = ''; } }
+/** Settles like `promise`, but rejects with the abort reason as soon as `signal` aborts, even if the call itself ignores the signal. */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(signal.reason);
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+            error => { signal.removeEventListener('abort', onAbort); reject(error); },
+        );
+    });
+}
+function wait(ms: number, signal?: AbortSignal): Promise<void> { return abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal); }
+function setLoading(isLoading: boolean, message: string | null = null) { const form = document.getElementById('article-form') as HTMLFormElement; const analyzePersonaBtn = document.getElementById('analyze-persona-btn') as HTMLButtonElement; const spinner = analyzePersonaBtn.querySelector('.spinner') as HTMLDivElement; const progressContainer = document.getElementById('progress') as HTMLDivElement; analyzePersonaBtn.disabled = isLoading; spinner.classList.toggle('hidden', !isLoading); if (isLoading) { if (message) { progressContainer.innerHTML = `<div class="progress-step active"><div class="step-spinner"></div><span>${message}</span></div>${progressCancelHtml()}`; } } else { progressContainer.innerHTML = ''; } }
+function progressCancelHtml(): string { return generationController ? `<div class="progress-cancel"><button class="secondary-button cancel-button cancel-generation-btn">${t('cancel')}</button></div>` : ''; }
 function resetUI() { const r = document.getElementById('result') as HTMLDivElement; const i = document.getElementById('initial-message') as HTMLDivElement; r.classList.add('hidden'); i.classList.remove('hidden'); r.querySelector('#article-output')!.innerHTML = ''; }
-function updateProgress(stepIndex: number) { const progressContainer = document.getElementById('progress') as HTMLDivElement; progressContainer.innerHTML = progressSteps.map((step, index) => { let statusClass = ''; let icon = '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8z"/></svg>'; if (index < stepIndex) { statusClass = 'completed'; icon = '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-2 15l-5-5 1.41-1.41L10 14.17l7.59-7.59L19 8l-9 9z"/></svg>'; } else if (index === stepIndex) { statusClass = 'active'; icon = '<div class="step-spinner"></div>'; } return `<div class="progress-step ${statusClass}">${icon}<span>${step}</span></div>`; }).join(''); }
+function updateProgress(stepIndex: number, failure?: { draftId: number; message: string }) {
+    const progressContainer = document.getElementById('progress') as HTMLDivElement;
+    const pendingIcon = '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8z"/></svg>';
+    const completedIcon = '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-2 15l-5-5 1.41-1.41L10 14.17l7.59-7.59L19 8l-9 9z"/></svg>';
+    const failedIcon = '<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/></svg>';
+    const stepsHtml = progressSteps.map((step, index) => {
+        let statusClass = '';
+        let icon = pendingIcon;
+        if (index < stepIndex) {
+            statusClass = 'completed';
+            icon = completedIcon;
+        } else if (index === stepIndex) {
+            statusClass = failure ? 'failed' : 'active';
+            icon = failure ? failedIcon : '<div class="step-spinner"></div>';
+        }
+        return `<div class="progress-step ${statusClass}">${icon}<span>${t(step)}</span></div>`;
+    }).join('');
+    const resumeHtml = failure ? `
+        <div class="progress-resume">
+            <p class="error">${escapeHtml(failure.message)}</p>
+            <div class="progress-resume-actions">
+                <button class="resume-draft-btn" data-draft-id="${failure.draftId}">${t('resumeFromStep')}</button>
+                <button class="discard-draft-btn secondary-button" data-draft-id="${failure.draftId}">${t('discard')}</button>
+            </div>
+        </div>` : '';
+    const cancelHtml = !failure && stepIndex < progressSteps.length - 1 ? progressCancelHtml() : '';
+    progressContainer.innerHTML = stepsHtml + resumeHtml + cancelHtml;
+}
 function decode(base64: string) { const binaryString = atob(base64); const len = binaryString.length; const bytes = new Uint8Array(len); for (let i = 0; i < len; i++) { bytes[i] = binaryString.charCodeAt(i); } return bytes; }
 async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number,): Promise<AudioBuffer> { const dataInt16 = new Int16Array(data.buffer); const frameCount = dataInt16.length / numChannels; const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate); for (let channel = 0; channel < numChannels; channel++) { const channelData = buffer.getChannelData(channel); for (let i = 0; i < frameCount; i++) { channelData[i] = dataInt16[i * numChannels + channel] / 32768.0; } } return buffer; }
 function bufferToWave(abuffer: AudioBuffer, len: number): Blob { let numOfChan = abuffer.numberOfChannels, length = len * numOfChan * 2 + 44, buffer = new ArrayBuffer(length), view = new DataView(buffer), channels = [], i, sample, offset = 0, pos = 0; setUint32(0x46464952); setUint32(length - 8); setUint32(0x45564157); setUint32(0x20746d66); setUint32(16); setUint16(1); setUint16(numOfChan); setUint32(abuffer.sampleRate); setUint32(abuffer.sampleRate * 2 * numOfChan); setUint16(numOfChan * 2); setUint16(16); setUint32(0x61746164); setUint32(length - pos - 4); for (i = 0; i < abuffer.numberOfChannels; i++) channels.push(abuffer.getChannelData(i)); while (pos < length) { for (i = 0; i < numOfChan; i++) { sample = Math.max(-1, Math.min(1, channels[i][offset])); sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; view.setInt16(pos, sample, true); pos += 2; } offset++; } function setUint16(data: number) { view.setUint16(pos, data, true); pos += 2; } function setUint32(data: number) { view.setUint32(pos, data, true); pos += 4; } return new Blob([view], { type: 'audio/wav' }); }
 
+// --- History Search ---
+// Character n-grams (every character and every pair of neighbours) need no word segmentation, so Japanese and Chinese
+// match as well as English does. An article's n-grams are cached against its record object, which every save replaces.
+const historySearchGrams = new WeakMap<ArticleRecord, Set<string>>();
+
+function searchGrams(text: string): Set<string> {
+    const grams = new Set<string>();
+    // NFKC folds full-width letters and half-width kana; katakana is folded onto hiragana so either spelling matches
+    const folded = text.normalize('NFKC').toLowerCase().replace(/[\u30a1-\u30f6]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+    for (const run of folded.split(/[\s\p{P}\p{S}]+/u)) {
+        const chars = [...run];
+        chars.forEach((char, index) => {
+            grams.add(char);
+            if (index > 0) grams.add(chars[index - 1] + char);
+        });
+    }
+    return grams;
+}
+
+function articleSearchGrams(article: ArticleRecord): Set<string> {
+    let grams = historySearchGrams.get(article);
+    if (!grams) {
+        const { titleSuggestions = [], hashtags = [] } = article.enhancements || {};
+        grams = searchGrams([article.theme, article.persona, article.tone, article.markdown, ...titleSuggestions, ...hashtags].join('\n'));
+        historySearchGrams.set(article, grams);
+    }
+    return grams;
+}
+
+function readHistoryFilters(): HistoryFilters {
+    const value = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement).value;
+    const amount = (id: string) => value(id) === '' ? null : Number(value(id));
+    return {
+        query: value('history-search-input'),
+        articleType: value('history-filter-type') as HistoryFilters['articleType'],
+        priceMin: amount('history-filter-price-min'),
+        priceMax: amount('history-filter-price-max'),
+        schedule: value('history-filter-schedule') as HistoryFilters['schedule'],
+        factCheck: value('history-filter-fact-check') as HistoryFilters['factCheck'],
+        video: value('history-filter-video') as HistoryFilters['video'],
+        from: value('history-filter-from'),
+        to: value('history-filter-to'),
+        sort: value('history-sort') as HistorySort,
+    };
+}
+
+/** Mean of the three quality scores from the performance analysis, or null before it has run. */
+function articleQualityScore(article: ArticleRecord): number | null {
+    const scores = article.performance?.qualityScores;
+    return scores ? (scores.readability.score + scores.engagement.score + scores.seo.score) / 3 : null;
+}
+
+/** The articles the history list shows, in the order it shows them. Dates are creation times. */
+function filterHistory(filters: HistoryFilters): ArticleRecord[] {
+    const queryGrams = [...searchGrams(filters.query)];
+    const from = filters.from ? new Date(`${filters.from}T00:00`).getTime() : -Infinity;
+    const to = filters.to ? new Date(`${filters.to}T00:00`).getTime() + 24 * 60 * 60 * 1000 : Infinity; // Through the end of that day
+    const matches = articles.filter(article => {
+        if (queryGrams.length > 0) {
+            const grams = articleSearchGrams(article);
+            if (!queryGrams.every(gram => grams.has(gram))) return false;
+        }
+        if (filters.articleType !== 'all' && article.articleType !== filters.articleType) return false;
+        if (filters.priceMin !== null && (article.price || 0) < filters.priceMin) return false;
+        if (filters.priceMax !== null && (article.price || 0) > filters.priceMax) return false;
+        if (filters.schedule !== 'all' && Boolean(article.scheduledAt) !== (filters.schedule === 'scheduled')) return false;
+        if (filters.factCheck !== 'all' && (article.factCheck?.status || 'unchecked') !== filters.factCheck) return false;
+        if (filters.video !== 'all' && (article.videoStatus || 'none') !== filters.video) return false;
+        return article.createdAtTime >= from && article.createdAtTime < to;
+    });
+    const newestFirst = (a: ArticleRecord, b: ArticleRecord) => b.createdAtTime - a.createdAtTime;
+    // Articles without the value being sorted on go last, newest first
+    const descending = (value: (article: ArticleRecord) => number | null) => (a: ArticleRecord, b: ArticleRecord) =>
+        (value(b) ?? -Infinity) - (value(a) ?? -Infinity) || newestFirst(a, b);
+    const comparators: Record<HistorySort, (a: ArticleRecord, b: ArticleRecord) => number> = {
+        createdDesc: newestFirst,
+        createdAsc: (a, b) => a.createdAtTime - b.createdAtTime,
+        scheduled: descending(article => article.scheduledAt ? -new Date(article.scheduledAt).getTime() : null),
+        quality: descending(articleQualityScore),
+        views: descending(article => article.performance?.userInput ? robustParseInt(article.performance.userInput.views) : null),
+    };
+    return matches.sort(comparators[filters.sort]);
+}
+
+function resetHistoryFilters() {
+    document.querySelectorAll<HTMLInputElement>('#history-filters input').forEach(input => input.value = '');
+    document.querySelectorAll<HTMLSelectElement>('#history-filters select').forEach(select => select.selectedIndex = 0);
+    showHistoryPage(0);
+}
+
 // --- Storage & API Key Logic ---
 function getApiKey(): string | null { return apiKey; }
 function saveApiKey(key: string) { apiKey = key; localStorage.setItem('geminiApiKey', key); }
 function clearApiKey() { apiKey = null; localStorage.removeItem('geminiApiKey'); }
-function getGenAIClient(): GoogleGenAI { const key = getApiKey(); if (!key) throw new Error("APIキーが設定されていません。"); return new GoogleGenAI({ apiKey: key }); }
+function loadAIProviderKindFromStorage() { const fromUrl = new URLSearchParams(window.location.search).get('provider'); const stored = fromUrl || localStorage.getItem('aiProvider'); aiProviderKind = stored === 'fake' ? 'fake' : 'gemini'; }
+function saveAIProviderKind(kind: AIProviderKind) { aiProviderKind = kind; localStorage.setItem('aiProvider', kind); }
 function setApiKeyStatus(message: string, type: 'success' | 'error') { const apiKeyStatus = document.getElementById('api-key-status') as HTMLDivElement; apiKeyStatus.textContent = message; apiKeyStatus.className = `api-key-status ${type}`; apiKeyStatus.style.display = 'block'; }
 // FIX: The variable initialMessage was not in scope. Defined it inside the function.
 function checkApiKeyOnLoad() {
@@ -2402,94 +8109,148 @@ function checkApiKeyOnLoad() {
     const analyzePersonaBtn = document.getElementById('analyze-persona-btn') as HTMLButtonElement;
     if (key) {
         apiKey = key;
+    }
+    if (key || aiProviderKind === 'fake') {
         form.style.opacity = '1';
         analyzePersonaBtn.disabled = false;
-        (initialMessage.querySelector('p') as HTMLParagraphElement).textContent = `左のフォームに情報を入力するか、「戦略立案モード」でAIの提案を受けて、高品質な記事の自動生成を始めましょう。`;
+        (initialMessage.querySelector('p') as HTMLParagraphElement).textContent = aiProviderKind === 'fake'
+            ? t('initialMessageDemo')
+            : t('initialMessage');
     } else {
         form.style.opacity = '0.5';
         analyzePersonaBtn.disabled = true;
-        (initialMessage.querySelector('p') as HTMLParagraphElement).innerHTML = `APIキーが設定されていません。<br>右上の<strong style="color: var(--primary-color);">設定</strong>ボタンからAPIキーを設定してください。`;
+        (initialMessage.querySelector('p') as HTMLParagraphElement).innerHTML = t('initialMessageNoKeyHtml');
     }
 }
-function loadArticlesFromStorage() { const stored = localStorage.getItem('articleHistory'); if (stored) { articles = JSON.parse(stored); } }
-function saveArticlesToStorage() { try { localStorage.setItem('articleHistory', JSON.stringify(articles)); } catch (e) { console.error("Failed to save history to localStorage:", e); alert("履歴の保存に失敗しました。ストレージの空き容量が不足している可能性があります。"); } }
-async function addArticleToHistory(item: ArticleHistoryItem) { const { coverImage, imageMap, ...itemWithoutImages } = item; await saveImagesToDb(item.id, coverImage, imageMap); articles.unshift(itemWithoutImages); if (articles.length > 50) { const oldestItem = articles.pop(); if (oldestItem) { await deleteImagesFromDb(oldestItem.id); } } saveArticlesToStorage(); renderHistoryList(); }
-async function updateArticleInHistory(updatedArticle: ArticleHistoryItem) { const { coverImage, imageMap, ...itemWithoutImages } = updatedArticle; await saveImagesToDb(updatedArticle.id, coverImage, imageMap); const index = articles.findIndex(a => a.id === updatedArticle.id); if (index !== -1) { articles[index] = itemWithoutImages; saveArticlesToStorage(); renderHistoryList(); } }
-async function removeArticleFromHistory(id: number) { articles = articles.filter(a => a.id !== id); await deleteImagesFromDb(id); saveArticlesToStorage(); renderHistoryList(); if(currentArticle && currentArticle.id === id) { resetUI(); } }
+async function loadArticlesFromDb() { articles = await getArticlesFromDb(); }
+async function addArticleToHistory(item: ArticleHistoryItem) { const { coverImage, imageMap, ...itemWithoutImages } = item; await saveImagesToDb(item.id, coverImage, imageMap); await saveArticleToDb(itemWithoutImages); articles.unshift(itemWithoutImages); renderHistoryList(); }
+async function updateArticleInHistory(updatedArticle: ArticleHistoryItem) { const { coverImage, imageMap, ...itemWithoutImages } = updatedArticle; await saveImagesToDb(updatedArticle.id, coverImage, imageMap); const index = articles.findIndex(a => a.id === updatedArticle.id); if (index !== -1) { articles[index] = itemWithoutImages; await saveArticleToDb(itemWithoutImages); renderHistoryList(); } }
+async function removeArticleFromHistory(id: number) { articles = articles.filter(a => a.id !== id); await deleteImagesFromDb(id); await deleteArticleFromDb(id); renderHistoryList(); if(currentArticle && currentArticle.id === id) { resetUI(); } }
+function loadUsageLedgerFromStorage() { const stored = localStorage.getItem('usageLedger'); if (stored) { usageLedger = JSON.parse(stored); } }
+function saveUsageLedgerToStorage() { try { localStorage.setItem('usageLedger', JSON.stringify(usageLedger)); } catch (e) { console.error("Failed to save usage ledger to localStorage:", e); } }
+function loadPriceTableFromStorage() { const stored = localStorage.getItem('priceTable'); priceTable = stored ? JSON.parse(stored) : { ...DEFAULT_PRICE_TABLE }; }
+function savePriceTable(table: Record<string, ModelPrice>) { priceTable = table; localStorage.setItem('priceTable', JSON.stringify(table)); }
+function resetPriceTable() { priceTable = { ...DEFAULT_PRICE_TABLE }; localStorage.removeItem('priceTable'); }
+function loadModelSettingsFromStorage() { const stored = localStorage.getItem('modelSettings'); if (stored) { modelSettings = JSON.parse(stored); } }
+function saveModelSettings(settings: Partial<Record<ModelStage, ModelSetting>>) { modelSettings = settings; localStorage.setItem('modelSettings', JSON.stringify(settings)); }
+function resetModelSettings() { modelSettings = {}; localStorage.removeItem('modelSettings'); }
+function loadPromptLibraryFromStorage() { const stored = localStorage.getItem('promptLibrary'); if (stored) { promptLibrary = JSON.parse(stored); } }
+function savePromptLibraryToStorage() { localStorage.setItem('promptLibrary', JSON.stringify(promptLibrary)); }
+function loadBatchQueueFromStorage() { const stored = localStorage.getItem('batchQueue'); if (stored) { batchJobs = (JSON.parse(stored) as BatchJob[]).map(job => job.status === 'running' ? { ...job, status: 'failed', error: t('batchInterrupted') } : job); } }
+function saveBatchQueueToStorage() { localStorage.setItem('batchQueue', JSON.stringify(batchJobs)); }
+function loadUiLanguageFromStorage() { const stored = localStorage.getItem('uiLanguage'); uiLanguage = stored && stored in UI_MESSAGES ? stored as LanguageCode : 'ja'; }
+function saveUiLanguage(language: LanguageCode) { uiLanguage = language; localStorage.setItem('uiLanguage', language); }
 function loadBrandVoiceFromStorage() { const stored = localStorage.getItem('brandVoice'); if (stored) { brandVoice = JSON.parse(stored); (document.getElementById('brand-voice-principles') as HTMLTextAreaElement).value = brandVoice.principles; (document.getElementById('brand-voice-example') as HTMLTextAreaElement).value = brandVoice.example; } }
 function saveBrandVoiceToStorage() { brandVoice.principles = (document.getElementById('brand-voice-principles') as HTMLTextAreaElement).value; brandVoice.example = (document.getElementById('brand-voice-example') as HTMLTextAreaElement).value; localStorage.setItem('brandVoice', JSON.stringify(brandVoice)); }
 
-// FIX: This function was a single line causing multiple syntax errors. Reformatted for clarity and correctness.
-async function renderHistoryList() {
+const HISTORY_PAGE_SIZE = 20;
+
+/** Renders one page of the history; thumbnails load as they scroll into view, and clicks are handled by handleHistoryListClick. */
+function renderHistoryList() {
     const list = document.getElementById('history-list') as HTMLUListElement;
-    if (articles.length === 0) {
-        list.innerHTML = `<li class="history-empty">作成履歴はありません。</li>`;
+    const pagination = document.getElementById('history-pagination') as HTMLDivElement;
+    historyThumbnailObserver?.disconnect();
+    const visible = filterHistory(readHistoryFilters());
+    if (visible.length === 0) {
+        list.innerHTML = `<li class="history-empty">${t(articles.length === 0 ? 'historyEmpty' : 'historyNoMatches')}</li>`;
+        pagination.classList.add('hidden');
+        renderUsageSummary();
         return;
     }
+    const pageCount = Math.ceil(visible.length / HISTORY_PAGE_SIZE);
+    historyPage = Math.min(historyPage, pageCount - 1); // Deleting the last article on the last page
     list.innerHTML = ''; // Clear list before rendering
-    for (const item of articles) {
+    for (const item of visible.slice(historyPage * HISTORY_PAGE_SIZE, (historyPage + 1) * HISTORY_PAGE_SIZE)) {
         const li = document.createElement('li');
         li.className = 'history-item';
         li.dataset.id = String(item.id);
-        const { coverImage } = await getImagesFromDb(item.id);
         li.innerHTML = `
-            <div class="history-item-thumbnail" style="background-image: url(${coverImage ? `data:image/jpeg;base64,${coverImage}` : ''})"></div>
+            <div class="history-item-thumbnail" data-id="${item.id}"></div>
             <div class="history-item-content">
-                <span class="history-item-title">${item.theme}</span>
-                <div class="history-item-price ${item.price ? '' : 'not-for-sale'}">${item.price ? `¥${item.price.toLocaleString()}` : '非売品'}</div>
+                <span class="history-item-title">${escapeHtml(item.theme)}</span>
+                <div class="history-item-price ${item.price ? '' : 'not-for-sale'}">${item.price ? `¥${item.price.toLocaleString()}` : t('notForSale')}</div>
                 <div class="history-item-details">
-                    <span class="history-item-date">${item.createdAt}</span>
-                    ${item.scheduledAt ? `<span class="scheduled-badge"><svg xmlns="http://www.w3.org/2000/svg" height="16px" viewBox="0 0 24 24" width="16px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M17 12h-5v5h5v-5zM16 1v2H8V1H6v2H5c-1.11 0-1.99.9-1.99 2L3 19c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2h-1V1h-2zm3 18H5V8h14v11z"/></svg> 予約済</span>` : ''}
-                    ${item.lastCheckedForUpdate ? `<span class="history-item-date checked-date"><svg xmlns="http://www.w3.org/2000/svg" height="16px" viewBox="0 0 24 24" width="16px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M11.99 2C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67z"/></svg>最終チェック: ${new Date(item.lastCheckedForUpdate).toLocaleDateString('ja-JP')}</span>` : ''}
+                    <span class="history-item-date">${escapeHtml(item.createdAt)}</span>
+                    <span class="history-item-cost" data-id="${item.id}"></span>
+                    ${item.scheduledAt ? `<span class="scheduled-badge"><svg xmlns="http://www.w3.org/2000/svg" height="16px" viewBox="0 0 24 24" width="16px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M17 12h-5v5h5v-5zM16 1v2H8V1H6v2H5c-1.11 0-1.99.9-1.99 2L3 19c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2h-1V1h-2zm3 18H5V8h14v11z"/></svg> ${t('scheduledBadge')}</span>` : ''}
+                    ${item.lastCheckedForUpdate ? `<span class="history-item-date checked-date"><svg xmlns="http://www.w3.org/2000/svg" height="16px" viewBox="0 0 24 24" width="16px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M11.99 2C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67z"/></svg>${t('lastChecked', { date: new Date(item.lastCheckedForUpdate).toLocaleDateString(ARTICLE_LANGUAGES[uiLanguage].locale) })}</span>` : ''}
                 </div>
             </div>
             <div class="history-item-actions">
-                <button class="preview-btn" data-id="${item.id}">プレビュー</button>
-                <button class="edit-btn" data-id="${item.id}">編集</button>
-                <button class="performance-input-btn" data-id="${item.id}">実績入力</button>
-                <button class="update-check-btn" data-id="${item.id}" title="更新をチェック">🔄</button>
-                <button class="delete-history-btn" data-id="${item.id}" title="削除">🗑️</button>
+                <button class="preview-btn" data-id="${item.id}">${t('preview')}</button>
+                <button class="edit-btn" data-id="${item.id}">${t('edit')}</button>
+                <button class="performance-input-btn" data-id="${item.id}">${t('performanceInput')}</button>
+                <button class="cms-export-btn" data-id="${item.id}">${t('cmsExport')}</button>
+                ${item.articleType === 'paid' ? `<button class="epub-export-btn" data-id="${item.id}" title="${t('epubExportTitle')}">📖 EPUB</button>
+                <button class="print-btn" data-id="${item.id}" title="${t('printTitle')}">🖨️ PDF</button>` : ''}
+                <button class="update-check-btn" data-id="${item.id}" title="${t('checkForUpdate')}">🔄</button>
+                <button class="delete-history-btn" data-id="${item.id}" title="${t('delete')}">🗑️</button>
             </div>
         `;
         list.appendChild(li);
     }
-    list.querySelectorAll('.edit-btn').forEach(el => el.addEventListener('click', async (e) => {
-        e.stopPropagation();
-        const id = Number((el as HTMLElement).dataset.id);
-        const articleStub = articles.find(a => a.id === id);
-        if (articleStub) {
-            switchMode('create');
-            const articleOutput = document.getElementById('article-output') as HTMLDivElement;
-            articleOutput.innerHTML = `<div class="step-spinner"></div> 記事を読み込んでいます...`;
-            resetUI();
-            (document.getElementById('result') as HTMLDivElement).classList.remove('hidden');
-            (document.getElementById('initial-message') as HTMLDivElement).classList.add('hidden');
-            articleOutput.parentElement?.classList.remove('hidden');
-            const imageData = await getImagesFromDb(id);
-            const article = { ...articleStub, ...imageData };
-            renderArticle(article);
-        }
-    }));
-    list.querySelectorAll('.delete-history-btn').forEach(el => el.addEventListener('click', (e) => {
-        e.stopPropagation();
-        const id = Number((el as HTMLElement).dataset.id);
-        if (confirm('この商品を削除しますか？')) removeArticleFromHistory(id);
-    }));
-    list.querySelectorAll('.update-check-btn').forEach(el => el.addEventListener('click', (e) => {
-        e.stopPropagation();
-        const id = Number((el as HTMLElement).dataset.id);
-        handleContentAudit(id);
-    }));
-    list.querySelectorAll('.performance-input-btn').forEach(el => el.addEventListener('click', (e) => {
-        e.stopPropagation();
-        const id = Number((el as HTMLElement).dataset.id);
-        openPerformanceModal(id);
-    }));
-    list.querySelectorAll('.preview-btn').forEach(el => el.addEventListener('click', (e) => {
-        e.stopPropagation();
-        const id = Number((el as HTMLElement).dataset.id);
-        renderProductPreview(id);
-    }));
+    renderUsageSummary();
+    if (!historyThumbnailObserver) {
+        historyThumbnailObserver = new IntersectionObserver(entries => entries.forEach(entry => {
+            if (!entry.isIntersecting) return;
+            historyThumbnailObserver?.unobserve(entry.target);
+            loadHistoryThumbnail(entry.target as HTMLElement);
+        }), { root: document.getElementById('history-list-container'), rootMargin: '200px' });
+    }
+    list.querySelectorAll('.history-item-thumbnail').forEach(thumbnail => historyThumbnailObserver?.observe(thumbnail));
+    pagination.classList.toggle('hidden', pageCount === 1);
+    (document.getElementById('history-page-info') as HTMLSpanElement).textContent = t('historyPageInfo', { page: historyPage + 1, pages: pageCount, total: visible.length });
+    (document.getElementById('history-prev-btn') as HTMLButtonElement).disabled = historyPage === 0;
+    (document.getElementById('history-next-btn') as HTMLButtonElement).disabled = historyPage === pageCount - 1;
+}
+
+/** Covers saved before thumbnails existed get theirs made here, once. */
+async function loadHistoryThumbnail(element: HTMLElement) {
+    const id = Number(element.dataset.id);
+    let record = await getThumbnailFromDb(id);
+    if (!record) {
+        const { coverImage } = await getImagesFromDb(id);
+        record = { thumbnail: coverImage ? await createThumbnail(coverImage) : undefined };
+        await saveThumbnailToDb(id, record.thumbnail);
+    }
+    if (record.thumbnail) element.style.backgroundImage = `url(data:image/jpeg;base64,${record.thumbnail})`;
+}
+
+function showHistoryPage(page: number) {
+    historyPage = page;
+    renderHistoryList();
+    (document.getElementById('history-list-container') as HTMLDivElement).scrollTop = 0;
+}
+
+async function openArticleFromHistory(id: number) {
+    const articleStub = articles.find(a => a.id === id);
+    if (!articleStub) return;
+    switchMode('create');
+    const articleOutput = document.getElementById('article-output') as HTMLDivElement;
+    articleOutput.innerHTML = `<div class="step-spinner"></div> ${t('loadingArticle')}`;
+    resetUI();
+    (document.getElementById('result') as HTMLDivElement).classList.remove('hidden');
+    (document.getElementById('initial-message') as HTMLDivElement).classList.add('hidden');
+    articleOutput.parentElement?.classList.remove('hidden');
+    const imageData = await getImagesFromDb(id);
+    const article = { ...articleStub, ...imageData };
+    renderArticle(article);
+}
+
+/** One listener for every item's buttons, so re-rendering a page doesn't re-bind anything. */
+function handleHistoryListClick(e: MouseEvent) {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('.history-item-actions button');
+    if (!button) return;
+    e.stopPropagation();
+    const id = Number(button.dataset.id);
+    if (button.classList.contains('edit-btn')) openArticleFromHistory(id);
+    else if (button.classList.contains('delete-history-btn')) { if (confirm(t('confirmDeleteProduct'))) removeArticleFromHistory(id); }
+    else if (button.classList.contains('update-check-btn')) handleContentAudit(id);
+    else if (button.classList.contains('performance-input-btn')) openPerformanceModal(id);
+    else if (button.classList.contains('cms-export-btn')) openCmsExportModal(id);
+    else if (button.classList.contains('epub-export-btn')) exportArticleEpub(id);
+    else if (button.classList.contains('print-btn')) printArticle(id);
+    else if (button.classList.contains('preview-btn')) renderProductPreview(id);
 }
 
 async function renderProductPreview(articleId: number) {
@@ -2520,15 +8281,15 @@ async function renderProductPreview(articleId: number) {
     } else {
         imageEl.style.display = 'none';
     }
-    descriptionEl.textContent = article.productDescription || '商品説明がありません。';
+    descriptionEl.textContent = article.productDescription || t('noProductDescription');
     
     if (article.price && article.articleType === 'paid') {
         priceEl.textContent = `¥${article.price.toLocaleString()}`;
-        buyBtn.textContent = '購入する';
+        buyBtn.textContent = t('buy');
         buyBtn.disabled = false;
     } else {
-        priceEl.textContent = '無料';
-        buyBtn.textContent = '続きを読む';
+        priceEl.textContent = t('free');
+        buyBtn.textContent = t('readMore');
         buyBtn.disabled = false;
     }
 
@@ -2552,6 +8313,9 @@ async function handleContentAudit(articleId: number) {
 
     currentAuditArticleId = articleId;
     currentAuditSuggestions = [];
+    auditController?.abort();
+    auditController = new AbortController();
+    const signal = auditController.signal;
     const auditModal = document.getElementById('audit-modal') as HTMLDivElement;
     const auditSpinner = document.getElementById('audit-spinner') as HTMLDivElement;
     const auditResults = document.getElementById('audit-results') as HTMLDivElement;
@@ -2564,61 +8328,38 @@ async function handleContentAudit(articleId: number) {
     editWithSuggestionsBtn.classList.add('hidden');
     auditResults.innerHTML = '';
 
-    const prompt = `あなたは優秀なコンテンツエディターです。あなたの仕事は、以下の記事が今日現在でも情報として最新かつ正確であるかを確認することです。
-1. Google検索を使い、記事の主要テーマ「${sanitizeString(article.theme)}」に関する最新の情報を調査してください。特に、記事内で言及されている統計、日付、製品名、イベントなどに注目してください。
-2. 調査結果と記事本文を比較してください。
-3. 記事を更新するための、具体的で実行可能な提案のリストをJSON形式で生成してください。もし記事が最新で更新不要な場合は、その旨をJSONで示してください。
-
-# JSON出力スキーマ
-{
-  "is_fresh": true,
-  "suggestions": [
-    {
-      "area": "更新が必要な箇所（例：見出し「2023年のトレンド」）",
-      "reason": "更新が必要な理由（例：データが古く、2024年の新しい情報があるため）",
-      "suggestion_text": "具体的な更新案（例：「2023年」を「2024年」に更新し、新しいトレンドとして〇〇を追加するべきです。」）"
-    }
-  ]
-}
-
-# 記事本文
----
-${safeSubstring(sanitizeString(article.markdown), 10000)}
----
-`;
+    const prompt = renderPrompt('audit', {
+        theme: sanitizeString(article.theme),
+        markdown: safeSubstring(sanitizeString(article.markdown), 10000),
+    }) + languageInstruction(article.language);
     try {
-        const ai = getGenAIClient();
-        const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-            model: 'gemini-2.5-pro',
+        const ai = getAIProvider(articleId);
+        const response = await scheduleRequest<GenerateContentResponse>(() => ai.generateContent({
+            model: stageModel('audit'),
             contents: prompt,
             config: {
+                ...stageConfig('audit'),
                 responseMimeType: "application/json",
-                tools: [{ googleSearch: {} }]
-            }
-        }));
-        let jsonText = response.text.trim();
-        if (jsonText.startsWith('```json')) {
-            jsonText = jsonText.substring(7);
-            if (jsonText.endsWith('```')) {
-                jsonText = jsonText.substring(0, jsonText.length - 3);
+                tools: [{ googleSearch: {} }],
+                abortSignal: signal,
             }
-        }
-        const result = JSON.parse(jsonText);
-        
+        }), { signal });
+        const result = await parseStructuredResponse(response.text, validateContentAudit, { stage: 'audit', signal, articleId });
+
         if (result.is_fresh) {
             auditResults.innerHTML = `
                 <div class="audit-fresh-message">
                     <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4zm-2 16l-4-4 1.41-1.41L10 14.17l6.59-6.59L18 9l-8 8z"/></svg>
-                    <span>素晴らしい！この記事は現在でも最新の状態です。</span>
+                    <span>${t('articleUpToDate')}</span>
                 </div>
             `;
         } else {
-            currentAuditSuggestions = result.suggestions || [];
+            currentAuditSuggestions = result.suggestions;
             auditResults.innerHTML = currentAuditSuggestions.map(s => `
                 <div class="audit-suggestion">
-                    <strong>エリア: ${s.area}</strong>
-                    <p class="reason">${s.reason}</p>
-                    <p class="suggestion-text">${s.suggestion_text}</p>
+                    <strong>${t('auditArea', { area: escapeHtml(s.area) })}</strong>
+                    <p class="reason">${escapeHtml(s.reason)}</p>
+                    <p class="suggestion-text">${escapeHtml(s.suggestion_text)}</p>
                 </div>
             `).join('');
             if (currentAuditSuggestions.length > 0) {
@@ -2631,11 +8372,16 @@ ${safeSubstring(sanitizeString(article.markdown), 10000)}
         await updateArticleInHistory(fullArticle);
 
     } catch (error) {
+        if (signal.aborted) return;
         console.error("Error during content audit:", error);
-        auditResults.innerHTML = `<p class="error">コンテンツの監査中にエラーが発生しました。</p>`;
+        auditResults.innerHTML = `<p class="error">${escapeHtml(withErrorCause(t('auditError'), error))}</p>`;
     } finally {
-        auditSpinner.classList.add('hidden');
-        auditResults.classList.remove('hidden');
+        if (auditController?.signal === signal) auditController = null;
+        // A cancelled audit must not touch the modal, which may already show the next audit.
+        if (!signal.aborted) {
+            auditSpinner.classList.add('hidden');
+            auditResults.classList.remove('hidden');
+        }
     }
 }
 
@@ -2653,10 +8399,10 @@ function startVideoPolling() {
         }
         
         try {
-            const ai = getGenAIClient();
+            const ai = getAIProvider();
             // FIX: Cast operation to 'any' to accommodate properties like 'done' and 'response' from the API call.
             let operation: any = { name: articleInProgress.videoOperationName! }; // Create a shell operation object
-            operation = await ai.operations.getVideosOperation({ operation });
+            operation = await ai.getVideosOperation(operation);
             
             const fullArticle = { ...articleInProgress, ...(await getImagesFromDb(articleInProgress.id)) };
 
@@ -2667,8 +8413,7 @@ function startVideoPolling() {
                 if (operation.response) {
                     const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
                     if (downloadLink) {
-                        const response = await fetch(`${downloadLink}&key=${getApiKey()}`);
-                        const videoBlob = await response.blob();
+                        const videoBlob = await ai.downloadVideo(downloadLink);
                         const videoUrl = URL.createObjectURL(videoBlob);
                         
                         fullArticle.videoUrl = videoUrl;
@@ -2703,7 +8448,9 @@ function startVideoPolling() {
 async function generateVideo(article: ArticleHistoryItem) {
     const veoKeySelection = document.getElementById('veo-key-selection') as HTMLDivElement;
     try {
-        const hasKey = await (window as any).aistudio.hasSelectedApiKey();
+        const ai = getAIProvider(article.id);
+        // The offline fake needs no paid Veo key, so skip the AI Studio key picker.
+        const hasKey = ai.kind === 'fake' || await (window as any).aistudio.hasSelectedApiKey();
         if (!hasKey) {
             veoKeySelection.classList.remove('hidden');
             return;
@@ -2714,12 +8461,11 @@ async function generateVideo(article: ArticleHistoryItem) {
         await updateArticleInHistory(article);
         renderArticle(article); // Re-render to show progress
 
-        const ai = getGenAIClient();
 
         const prompt = `Create a short, engaging video summary based on the following article theme and content. The style should be dynamic and visually appealing. Article theme: "${article.theme}".`;
 
-        let operation = await ai.models.generateVideos({
-            model: 'veo-3.1-fast-generate-preview',
+        let operation = await ai.generateVideos({
+            model: stageModel('video'),
             prompt: prompt,
             image: article.coverImage ? {
                 imageBytes: article.coverImage,
@@ -2747,3 +8493,12 @@ async function generateVideo(article: ArticleHistoryItem) {
         renderArticle(article);
     }
 }
+
+// --- Test Surface ---
+// The page loads this file as a script and ignores its exports; the test suite imports the pure helpers from here.
+export {
+    createFakeProvider, splitMarkdownIntoChunks, findMissingDecorationContent, isText, isNumber, isBoolean, oneOf,
+    optional, arrayOf, objectOf, checkStructuredResponse, repairJson, parseMarkdownBlocks, renderMarkdownToHtml,
+    markdownForAnalysis, sanitizeHtml, crc32, createZip, recordOf, DB_VERSION, openDb, searchGrams,
+    insertPaidDividerBeforeFirstSection, exportStyles, saveImagesToDb,
+};
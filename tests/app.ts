@@ -0,0 +1,25 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { vi } from 'vitest';
+import '../index.tsx';
+
+// happy-dom never decodes images, so a cover's thumbnail would wait forever for its load event
+class UndecodableImage {
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    set src(_: string) { setTimeout(() => this.onerror?.()); }
+}
+
+export const $ = <T extends Element = HTMLElement>(selector: string) => document.querySelector(selector) as unknown as T;
+export const waitFor = <T>(check: () => T) => vi.waitFor(check, { timeout: 4000, interval: 50 });
+
+/** Loads the page's markup and starts the app on the offline fake provider. */
+export function startApp() {
+    vi.stubGlobal('Image', UndecodableImage);
+    vi.stubGlobal('alert', vi.fn());
+    vi.stubGlobal('confirm', () => true);
+    const html = fs.readFileSync(path.resolve(__dirname, '../index.html'), 'utf8');
+    document.body.innerHTML = html.slice(html.indexOf('<body>') + '<body>'.length, html.indexOf('</body>')).replace(/<script type="module"[^>]*><\/script>/, '');
+    localStorage.setItem('aiProvider', 'fake');
+    document.dispatchEvent(new Event('DOMContentLoaded'));
+}
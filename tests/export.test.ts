@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { exportStyles } from '../index.tsx';
+
+describe('exportStyles', () => {
+    it('fills the creative direction into the CSS variables', () => {
+        expect(exportStyles(['#1d3557', '#222', '#e63946'])).toContain(':root { --primary: #1d3557; --text: #222; --accent: #e63946;');
+    });
+
+    it('replaces anything but a hex color with the default', () => {
+        const css = exportStyles(['red;}</style><script>alert(1)</script>', '#222222', 'url(x)']);
+        expect(css).not.toContain('</style>');
+        expect(css).toContain(':root { --primary: #2c3e50; --text: #222222; --accent: #1a73e8;');
+    });
+});
@@ -0,0 +1,115 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Type } from '@google/genai';
+import { createFakeProvider, openDb } from '../index.tsx';
+import { $, startApp, waitFor } from './app.ts';
+
+describe('fake provider', () => {
+    const provider = createFakeProvider();
+
+    it('answers the same prompt with the same schema-shaped JSON', async () => {
+        const request = { model: 'gemini-2.5-flash', contents: 'テーマ: 副業ブログ', config: { responseSchema: { type: Type.OBJECT, properties: { outlines: { type: Type.ARRAY } } } } };
+        const first = JSON.parse((await provider.generateContent(request)).text!);
+        expect(first.outlines).toHaveLength(3);
+        expect(first.outlines.every((outline: any) => outline.title && outline.headings.length > 0)).toBe(true);
+        expect(JSON.parse((await provider.generateContent(request)).text!)).toEqual(first);
+    });
+
+    it('grounds searches and streamed articles with web sources', async () => {
+        const answer = await provider.generateContent({ model: 'gemini-2.5-flash', contents: 'テーマ: 副業', config: { tools: [{ googleSearch: {} }] } });
+        expect(answer.candidates![0].groundingMetadata!.groundingChunks!.length).toBeGreaterThan(0);
+
+        let markdown = '', last;
+        for await (const chunk of await provider.generateContentStream({ model: 'gemini-2.5-pro', contents: 'テーマ: 副業' })) {
+            markdown += chunk.text;
+            last = chunk;
+        }
+        expect(markdown).toMatch(/^## /m);
+        expect(last!.candidates![0].groundingMetadata!.groundingChunks!.every(chunk => chunk.web!.uri!.startsWith('https://'))).toBe(true);
+        expect(last!.usageMetadata!.candidatesTokenCount).toBeGreaterThan(0);
+    });
+
+    it('verifies the numeric statements of a fact-check prompt against its sources', async () => {
+        const prompt = 'factCheckResults\n# 記事\n---\n# 見出し\n利用者の約6割が関心を示しています。\n2024年に市場は倍増しました。\n---';
+        const response = await provider.generateContent({ model: 'gemini-2.5-flash', contents: prompt, config: { tools: [{ googleSearch: {} }] } });
+        const { factCheckResults } = JSON.parse(response.text!.replace(/^```json\n|\n```$/g, ''));
+        expect(factCheckResults.map((result: any) => result.result)).toEqual(['match', 'partial_match']);
+        expect(factCheckResults.every((result: any) => result.uri.startsWith('https://'))).toBe(true);
+        expect(response.candidates![0].groundingMetadata!.groundingChunks).toHaveLength(3);
+    });
+
+    it('returns images and speech audio', async () => {
+        const images = await provider.generateImages({ model: 'imagen-4.0-generate-001', prompt: 'a cat', config: { numberOfImages: 2 } });
+        expect(images.generatedImages!.map(image => image.image!.mimeType)).toEqual(['image/jpeg', 'image/jpeg']);
+        const speech = await provider.generateContent({ model: 'gemini-2.5-flash-preview-tts', contents: 'こんにちは', config: { responseModalities: ['AUDIO' as any] } });
+        expect(speech.candidates![0].content!.parts![0].inlineData!.mimeType).toMatch(/^audio\/pcm/);
+    });
+});
+
+describe('app on the fake provider', () => {
+    beforeAll(startApp);
+
+    it('runs the assembly line from outline to a saved article', async () => {
+        $<HTMLInputElement>('#theme').value = '副業ブログ';
+        $<HTMLTextAreaElement>('#persona').value = '30代会社員';
+        $('#article-form').dispatchEvent(new Event('submit', { cancelable: true }));
+        await waitFor(() => expect(document.querySelectorAll('.outline-card')).toHaveLength(3));
+        $('.outline-card').click();
+        await waitFor(() => expect(document.querySelectorAll('.creative-direction-card')).toHaveLength(3));
+        $('.creative-direction-card').click();
+
+        await waitFor(() => {
+            expect(document.querySelectorAll('.history-item')).toHaveLength(1);
+            expect($('#article-output').querySelectorAll('h2').length).toBeGreaterThan(0);
+        });
+        expect($('#faq-container').textContent).toContain('初心者でも始められますか？');
+        const ledger: { articleId: number; model: string; outputTokens: number; images: number }[] = JSON.parse(localStorage.getItem('usageLedger')!);
+        expect(new Set(ledger.map(record => record.articleId)).size).toBe(1);
+        expect(ledger.find(record => record.model === 'gemini-2.5-pro')!.outputTokens).toBeGreaterThan(0);
+        expect(ledger.filter(record => record.images > 0).length).toBeGreaterThan(0);
+
+        const db = await openDb();
+        const [images] = await new Promise<any[]>(resolve => {
+            const request = db.transaction('articleImages').objectStore('articleImages').getAll();
+            request.onsuccess = () => resolve(request.result);
+        });
+        expect(images.coverImage).toBeTruthy();
+        expect(images.imageMap).not.toHaveProperty('cover'); // The cover lives in coverImage only
+    });
+
+    it('fact-checks the article against grounded sources', async () => {
+        $('#fact-check-btn').click();
+        await waitFor(() => expect(document.querySelectorAll('#fact-check-wrapper .fact-check-item').length).toBeGreaterThan(0));
+        const sources = [...document.querySelectorAll<HTMLAnchorElement>('#fact-check-wrapper .fact-check-source a')];
+        expect(sources.length).toBeGreaterThan(0);
+        expect(sources.every(link => link.href.startsWith('https://example.'))).toBe(true);
+    });
+
+    it('audits a saved article for freshness', async () => {
+        // Saving the fact check re-renders the history list, so the button may not be there yet
+        await waitFor(() => {
+            $('.update-check-btn').click();
+            expect($('#audit-modal').classList.contains('hidden')).toBe(false);
+        });
+        await waitFor(() => expect($('#audit-spinner').classList.contains('hidden')).toBe(true));
+        expect($('#audit-results .audit-fresh-message, #audit-results .audit-suggestion')).not.toBeNull();
+        expect($('#audit-results .error')).toBeNull();
+    });
+
+    it('proposes a content strategy for a theme', async () => {
+        $<HTMLInputElement>('#strategy-theme').value = '副業';
+        $('#strategy-generate-btn').click();
+        await waitFor(() => expect(document.querySelectorAll('#strategy-results-table tbody tr')).toHaveLength(5));
+        expect($('#strategy-results-table tbody').textContent).toContain('入門');
+    });
+
+
+    it('finds the article from the history search', async () => {
+        const search = $<HTMLInputElement>('#history-search-input');
+        search.value = '存在しない語';
+        search.dispatchEvent(new Event('input', { bubbles: true }));
+        await waitFor(() => expect(document.querySelectorAll('.history-item')).toHaveLength(0));
+        search.value = '副業';
+        search.dispatchEvent(new Event('input', { bubbles: true }));
+        await waitFor(() => expect(document.querySelectorAll('.history-item')).toHaveLength(1));
+    });
+});
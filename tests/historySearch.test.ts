@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest';
+import { searchGrams } from '../index.tsx';
+
+describe('history search grams', () => {
+    it('folds width, case and katakana so either spelling matches', () => {
+        const grams = searchGrams('ＡＩブログ 副業');
+        expect([...searchGrams('aiぶろぐ')].every(gram => grams.has(gram))).toBe(true);
+        expect([...searchGrams('副業')].every(gram => grams.has(gram))).toBe(true);
+        expect(grams.has('グ副')).toBe(false); // Pairs never span a space
+    });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { findMissingDecorationContent, insertPaidDividerBeforeFirstSection, splitMarkdownIntoChunks } from '../index.tsx';
+
+describe('long-form helpers', () => {
+    it('splits markdown before headings without losing any text', () => {
+        const markdown = `# T\n\nintro\n\n## A\n\n${'a'.repeat(30)}\n\n## B\n\n${'b'.repeat(30)}\n\n${'c'.repeat(30)}`;
+        const chunks = splitMarkdownIntoChunks(markdown, 50);
+        expect(chunks.join('')).toBe(markdown);
+        expect(chunks.length).toBeGreaterThan(2);
+        expect(chunks.slice(1).every(chunk => chunk.startsWith('\n## ') || chunk.startsWith('\n\n'))).toBe(true);
+    });
+
+
+    it('places the paid divider before the first section, or after the introduction', () => {
+        expect(insertPaidDividerBeforeFirstSection('# T\n\nintro\n\n## A\n\nbody')).toBe('# T\n\nintro\n\n---ここから有料---\n\n## A\n\nbody');
+        expect(insertPaidDividerBeforeFirstSection('# T\n\nintro\n\nmore')).toBe('# T\n\nintro\n\n---ここから有料---\n\nmore');
+        expect(insertPaidDividerBeforeFirstSection('# T\n\nintro')).toBe('# T\n\nintro');
+    });
+
+
+    it('finds blocks and reference lines the decorator dropped, ignoring what it may add', () => {
+        const original = '## 見出し\n\n本文です。\n\n消えた段落。\n参考URL：https://example.com';
+        expect(findMissingDecorationContent(original, '## 見出し✨\n\n本文です。\n[BOX:tip:追加:補足]\n\n消えた段落。\n参考URL：https://example.com')).toEqual([]);
+        expect(findMissingDecorationContent(original, '## 見出し\n\n本文です。')).toEqual(['消えた段落。\n参考URL：https://example.com', '参考URL：https://example.com']);
+    });
+});
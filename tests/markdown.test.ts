@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { markdownForAnalysis, parseMarkdownBlocks, renderMarkdownToHtml } from '../index.tsx';
+
+describe('markdown parser', () => {
+    it('parses headings, lists, tables and code into blocks', () => {
+        const blocks = parseMarkdownBlocks('# Title\n\nIntro **bold**\n\n- one\n- two\n\n| a | b |\n|:--|--:|\n| 1 | 2 |\n\n```js\nlet x = 1;\n```');
+        expect(blocks.map(block => block.type)).toEqual(['heading', 'paragraph', 'list', 'table', 'code']);
+        expect(renderMarkdownToHtml('| a | b |\n|:--|--:|\n| 1 | 2 |')).toContain('<td style="text-align: right">2</td>');
+        expect(renderMarkdownToHtml('```js\n<b>\n```')).toBe('<pre><code class="language-js">&lt;b&gt;</code></pre>');
+    });
+
+    it('keeps nested lists inside their item and loose lists as paragraphs', () => {
+        expect(renderMarkdownToHtml('- a\n  - b\n- c')).toBe('<ul><li>a\n<ul><li>b</li></ul></li><li>c</li></ul>');
+        expect(renderMarkdownToHtml('3. a\n\n4. b')).toBe('<ol start="3"><li><p>a</p></li><li><p>b</p></li></ol>');
+    });
+
+    it('drops unsafe link targets but keeps their text', () => {
+        expect(renderMarkdownToHtml('[click](javascript:alert(1))')).toBe('<p>click</p>');
+        expect(renderMarkdownToHtml('[site](https://example.com/a_(b))')).toContain('href="https://example.com/a_(b)"');
+    });
+
+    it('treats placeholders as directive blocks, even across lines', () => {
+        const blocks = parseMarkdownBlocks('前文\n[BOX:tip:ヒント:本文 https://example.com]\n\n[SUMMARY:一つ目;二つ目]\n---ここから有料---');
+        expect(blocks.map(block => block.type === 'directive' ? block.name : block.type)).toEqual(['paragraph', 'BOX', 'SUMMARY', 'PAID_DIVIDER']);
+        expect(markdownForAnalysis('[BOX:info:見出し:本文]\n[IMAGE_GENERATE: {"prompt": "cat"}]')).toBe('見出し\n本文\n');
+    });
+});
@@ -0,0 +1,37 @@
+import { expect, it } from 'vitest';
+import { DB_VERSION, openDb } from '../index.tsx';
+
+/** The database as a version 2 build left it: images and drafts in IndexedDB, the history still in localStorage. */
+function createVersion2Database(): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open('ArticleArchitectDB', 2);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore('articleImages', { keyPath: 'id' }).put({ id: 1, coverImage: 'cover' });
+            request.result.createObjectStore('assemblyDrafts', { keyPath: 'id' });
+        };
+        request.onsuccess = () => { request.result.close(); resolve(); };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function getAll(db: IDBDatabase, storeName: string): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(storeName).objectStore(storeName).getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+it('upgrades an older database, moves the localStorage history into it and stamps each article with its creation time', async () => {
+    await createVersion2Database();
+    const history = [{ id: 2, theme: '新しい記事', createdAt: '2025/1/2 9:00:00', articleType: 'free' }, { id: 1, theme: '古い記事', createdAt: '2025/1/1 9:00:00', articleType: 'paid' }];
+    localStorage.setItem('articleHistory', JSON.stringify(history));
+
+    const db = await openDb();
+
+    expect(db.version).toBe(DB_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual(['articleImages', 'articleThumbnails', 'articles', 'assemblyDrafts']);
+    expect(await getAll(db, 'articles')).toEqual([...history].reverse().map(article => ({ ...article, createdAtTime: new Date(article.createdAt).getTime() })));
+    expect(await getAll(db, 'articleImages')).toEqual([{ id: 1, coverImage: 'cover' }]);
+    expect(localStorage.getItem('articleHistory')).toBeNull();
+});
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { repairJson } from '../index.tsx';
+
+describe('repairJson', () => {
+    it('fixes quotes, unquoted keys, commas and full-width punctuation', () => {
+        expect(JSON.parse(repairJson("{'a': 1, b: “two”,}"))).toEqual({ a: 1, b: 'two' });
+        expect(JSON.parse(repairJson('｛"a"：[1，2、3]｝'))).toEqual({ a: [1, 2, 3] });
+        expect(JSON.parse(repairJson('{"a": 1 "b": 2}'))).toEqual({ a: 1, b: 2 });
+    });
+
+    it('closes unclosed and mismatched brackets and strips percent signs', () => {
+        expect(JSON.parse(repairJson('{"data": [10%, 20%'))).toEqual({ data: [10, 20] });
+        expect(JSON.parse(repairJson('{"a": [1, 2}'))).toEqual({ a: [1, 2] });
+    });
+});
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from '../index.tsx';
+
+describe('sanitizeHtml', () => {
+    it('drops scripts and event handlers and unwraps unknown elements', () => {
+        expect(sanitizeHtml('<p onclick="x()">a<script>alert(1)</script><marquee>b</marquee></p>')).toBe('<p>ab</p>');
+        expect(sanitizeHtml('<img src="javascript:x" onerror="x()" alt="a">')).toBe('<img alt="a">');
+    });
+
+    it('keeps safe links and forces rel on new-tab links', () => {
+        expect(sanitizeHtml('<a href="https://example.com" target="_blank">a</a>')).toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">a</a>');
+        expect(sanitizeHtml('<a href="javascript:alert(1)">a</a>')).toBe('<a>a</a>');
+    });
+});
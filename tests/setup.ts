@@ -0,0 +1,2 @@
+// happy-dom has no IndexedDB; every test file gets its own empty in-memory one
+import 'fake-indexeddb/auto';
@@ -0,0 +1,17 @@
+import { expect, it, vi } from 'vitest';
+import { saveImagesToDb } from '../index.tsx';
+
+it('makes a thumbnail only for a new or changed cover', async () => {
+    const decoded: string[] = [];
+    vi.stubGlobal('Image', class {
+        onerror: (() => void) | null = null;
+        set src(value: string) { decoded.push(value); setTimeout(() => this.onerror?.()); }
+    });
+
+    await saveImagesToDb(1, 'cover-a');
+    await saveImagesToDb(1, 'cover-a', { 'image-1': 'image' });
+    expect(decoded).toEqual(['data:image/jpeg;base64,cover-a']);
+
+    await saveImagesToDb(1, 'cover-b', { 'image-1': 'image' });
+    expect(decoded).toEqual(['data:image/jpeg;base64,cover-a', 'data:image/jpeg;base64,cover-b']);
+});
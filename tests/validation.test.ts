@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { arrayOf, checkStructuredResponse, isBoolean, isNumber, isText, objectOf, oneOf, optional, recordOf } from '../index.tsx';
+
+describe('response validators', () => {
+    const validate = objectOf<{ title: string; score: number; ok: boolean; kind: 'a' | 'b'; tags: string[] }>({
+        title: isText, score: isNumber, ok: isBoolean, kind: oneOf('a', 'b'), tags: optional(arrayOf(isText), []),
+    });
+
+    it('accepts fenced JSON, coerces quoted numbers and booleans, and drops stray keys', () => {
+        const { value, problems } = checkStructuredResponse('結果です\n```json\n{"title": "t", "score": "85", "ok": "true", "kind": "b", "extra": 1}\n```', validate);
+        expect(problems).toEqual([]);
+        expect(value).toEqual({ title: 't', score: 85, ok: true, kind: 'b', tags: [] });
+    });
+
+    it('reports every problem with its path', () => {
+        const { problems } = checkStructuredResponse('{"title": " ", "score": "x", "ok": 1, "kind": "c", "tags": ["", 2]}', validate);
+        expect(problems).toEqual([
+            '$.title: expected a non-empty string',
+            '$.score: expected a number',
+            '$.ok: expected true or false',
+            '$.kind: expected one of a, b',
+            '$.tags[0]: expected a non-empty string',
+            '$.tags[1]: expected a non-empty string',
+        ]);
+        expect(checkStructuredResponse('not json', validate).problems[0]).toMatch(/^not valid JSON/);
+    });
+
+
+    it('checks array lengths and record values', () => {
+        const problems: string[] = [];
+        arrayOf(isText, 2)(['a'], '$.headings', problems);
+        expect(recordOf(isNumber)({ a: 1, b: 'x' }, '$.prices', problems)).toEqual({ a: 1, b: 0 });
+        expect(problems).toEqual(['$.headings: expected at least 2 items, got 1', '$.prices.b: expected a number']);
+    });
+});
@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { openDb } from '../index.tsx';
+import { $, startApp, waitFor } from './app.ts';
+
+const article = { id: 1700000000000, theme: '副業ブログ', markdown: '## はじめに\n本文', createdAt: '2023/11/14 22:13:20', articleType: 'paid' };
+const archiveOf = (articles: object[]) => ({
+    format: 'article-architect-workspace',
+    schemaVersion: 1,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    articles,
+    brandVoice: null,
+    settings: { modelSettings: {}, promptLibrary: {}, priceTable: {}, uiLanguage: 'ja' },
+    usageLedger: [],
+});
+
+function pickArchive(archive: object) {
+    const input = $<HTMLInputElement>('#import-workspace-input');
+    Object.defineProperty(input, 'files', { configurable: true, value: [new File([JSON.stringify(archive)], 'workspace.json', { type: 'application/json' })] });
+    input.dispatchEvent(new Event('change'));
+}
+
+describe('workspace import', () => {
+    beforeAll(startApp);
+
+    it('rejects an archive whose fields would reach the page as markup', async () => {
+        const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+        pickArchive(archiveOf([{
+            ...article,
+            price: '<img src=x onerror=alert(1)>',
+            language: 'xx',
+            creativeDirection: { style: 'モダン', palette: ['</style><script>alert(1)</script>', '#ffffff', '#000000'] },
+            performance: {
+                qualityScores: { readability: { score: '100%;background:url(x)', feedback: '' }, engagement: { score: 80, feedback: '' }, seo: { score: 80, feedback: '' } },
+                personaResonance: { feedback: '' },
+                engagementPrediction: { likes: '', shares: '', readTime: '' },
+                abTestTitles: [],
+            },
+            factCheck: { status: 'checked', results: [{ statement: '主張', result: 'match" onmouseover="alert(1)', feedback: '' }] },
+        }]));
+        await waitFor(() => expect(alert).toHaveBeenCalled());
+        const problems: string[] = logged.mock.calls.find(([message]) => message === 'Invalid workspace archive:')![1];
+        logged.mockRestore();
+        expect(problems.map(problem => problem.slice(0, problem.indexOf(':')))).toEqual([
+            '$.articles[0].performance.qualityScores.readability.score',
+            '$.articles[0].creativeDirection.palette[0]',
+            '$.articles[0].factCheck.results[0].result',
+            '$.articles[0].language',
+            '$.articles[0].price',
+        ]);
+        expect($('#workspace-import-modal').classList.contains('hidden')).toBe(true);
+        expect(document.querySelectorAll('.history-item')).toHaveLength(0);
+    });
+
+    it('keeps only the validated fields of an imported article', async () => {
+        pickArchive(archiveOf([{ ...article, markdown: '## はじめに\n本文<img src=x onerror=alert(1)>', price: 1200, html: '<script>alert(1)</script>', injected: '<b>x</b>' }]));
+        await waitFor(() => expect($('#workspace-import-modal').classList.contains('hidden')).toBe(false));
+        $('#workspace-import-apply-btn').click();
+        await waitFor(() => expect(document.querySelectorAll('.history-item')).toHaveLength(1));
+        expect($('.history-item').textContent).toContain('¥1,200');
+
+        const db = await openDb();
+        const stored = await new Promise<any>((resolve, reject) => {
+            const request = db.transaction('articles').objectStore('articles').get(article.id);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        expect(stored.price).toBe(1200);
+        expect(stored.createdAtTime).toBe(new Date(article.createdAt).getTime()); // Older archives have only the display text
+        expect(stored).not.toHaveProperty('injected');
+        expect(stored.html).toBeUndefined();
+    });
+
+    it('prints the imported article from its sanitized layout', async () => {
+        const frame = document.createElement('iframe');
+        document.body.appendChild(frame);
+        const printWindow = frame.contentWindow!;
+        const print = vi.fn();
+        Object.assign(printWindow, { print });
+        vi.spyOn(window, 'open').mockReturnValue(printWindow);
+        $('.print-btn').click();
+        await waitFor(() => expect(print).toHaveBeenCalled());
+
+        const printed = printWindow.document;
+        expect(printed.documentElement.lang).toBe('ja');
+        expect(printed.head.querySelector('style')!.textContent).toContain('--primary: #2c3e50');
+        expect(printed.body.querySelector('h2')!.textContent).toBe('はじめに');
+        expect(printed.querySelector('script, [onerror]')).toBeNull();
+    });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from '../index.tsx';
+
+describe('zip', () => {
+    it('computes the standard CRC-32', () => {
+        expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926);
+        expect(crc32(new Uint8Array())).toBe(0);
+    });
+
+    it('stores each file with its name, size and checksum', async () => {
+        const data = new TextEncoder().encode('hello');
+        const bytes = new Uint8Array(await createZip([{ path: '記事/a.md', data }, { path: 'b.txt', data: new Uint8Array() }]).arrayBuffer());
+        const view = new DataView(bytes.buffer);
+        const name = new TextEncoder().encode('記事/a.md');
+        expect(view.getUint32(0, true)).toBe(0x04034b50);
+        expect(view.getUint32(14, true)).toBe(crc32(data));
+        expect(view.getUint32(18, true)).toBe(data.length);
+        expect(view.getUint16(26, true)).toBe(name.length);
+        expect(new TextDecoder().decode(bytes.slice(30 + name.length, 30 + name.length + data.length))).toBe('hello');
+        const end = bytes.length - 22;
+        expect(view.getUint32(end, true)).toBe(0x06054b50);
+        expect(view.getUint16(end + 10, true)).toBe(2);
+        expect(view.getUint32(view.getUint32(end + 16, true), true)).toBe(0x02014b50);
+    });
+});